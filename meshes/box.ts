@@ -1,4 +1,5 @@
-import { Mesh } from './mesh';
+import { Mesh, MeshLayout } from './mesh';
+import { generateTangents } from './tangents';
 
 /**
  * Constructs a box mesh with the given dimensions.
@@ -8,6 +9,7 @@ import { Mesh } from './mesh';
  *   uv        : float32x2
  *   tangent   : float32x3
  *   bitangent : float32x3
+ * which is MeshWithTangentsLayout, with tangents from generateTangents().
  * @param width the width of the box
  * @param height the height of the box
  * @param depth the depth of the box
@@ -43,10 +45,9 @@ export function createBoxMeshWithTangents(
   ];
   const verticesPerSide = 4;
   const indicesPerSize = 6;
-  const f32sPerVertex = 14; // position : vec3f, tangent : vec3f, bitangent : vec3f, normal : vec3f, uv :vec2f
-  const vertexStride = f32sPerVertex * 4;
+  const floatsPerVertex = MeshLayout.vertexStride / 4;
   const vertices = new Float32Array(
-    faces.length * verticesPerSide * f32sPerVertex
+    faces.length * verticesPerSide * floatsPerVertex
   );
   const indices = new Uint16Array(faces.length * indicesPerSize);
   const halfVecs = [
@@ -57,6 +58,14 @@ export function createBoxMeshWithTangents(
     [0, 0, +depth / 2], // +z
     [0, 0, -depth / 2], // -z
   ];
+  const unitVecs = [
+    [1, 0, 0], // +x
+    [-1, 0, 0], // -x
+    [0, 1, 0], // +y
+    [0, -1, 0], // -y
+    [0, 0, 1], // +z
+    [0, 0, -1], // -z
+  ];
 
   let vertexOffset = 0;
   let indexOffset = 0;
@@ -75,16 +84,10 @@ export function createBoxMeshWithTangents(
             (v == 0 ? -1 : 1) * bitangent[i];
         }
         for (let i = 0; i < 3; i++) {
-          vertices[vertexOffset++] = normal[i];
+          vertices[vertexOffset++] = unitVecs[face.normal][i];
         }
         vertices[vertexOffset++] = u;
         vertices[vertexOffset++] = v;
-        for (let i = 0; i < 3; i++) {
-          vertices[vertexOffset++] = tangent[i];
-        }
-        for (let i = 0; i < 3; i++) {
-          vertices[vertexOffset++] = bitangent[i];
-        }
       }
     }
 
@@ -97,9 +100,9 @@ export function createBoxMeshWithTangents(
     indices[indexOffset++] = faceIndex * verticesPerSide + 1;
   }
 
-  return {
+  return generateTangents({
     vertices,
     indices,
-    vertexStride,
-  };
+    vertexStride: MeshLayout.vertexStride,
+  });
 }
@@ -0,0 +1,50 @@
+import { Mesh } from './mesh';
+import { parseOBJ } from './obj';
+import { parsePLY } from './ply';
+import { parseSTL } from './stl';
+
+// File extensions loadMesh() reads, e.g. for the accept attribute of file
+// inputs
+export const kMeshFileExtensions = ['.obj', '.ply', '.stl'];
+
+/**
+ * Loads an .obj, .ply or binary .stl model from a url or a user-supplied
+ * file, picking the parser by file extension. Materials of .obj files are
+ * skipped, see loadOBJ() for them.
+ * @param source the url or file of the model
+ * @param normalMaxAngle for models without normals, see createMesh()
+ */
+export async function loadMesh(
+  source: string | File,
+  normalMaxAngle?: number
+): Promise<Mesh> {
+  let name: string;
+  let buffer: ArrayBuffer;
+  if (typeof source === 'string') {
+    const response = await fetch(source);
+    if (!response.ok) {
+      throw new Error(`Failed to load ${source} (${response.status})`);
+    }
+    name = new URL(source, location.href).pathname;
+    buffer = await response.arrayBuffer();
+  } else {
+    name = source.name;
+    buffer = await source.arrayBuffer();
+  }
+
+  const extension = name.slice(name.lastIndexOf('.')).toLowerCase();
+  switch (extension) {
+    case '.obj':
+      return parseOBJ(new TextDecoder().decode(buffer), normalMaxAngle).mesh;
+    case '.ply':
+      return parsePLY(buffer, normalMaxAngle);
+    case '.stl':
+      return parseSTL(buffer, normalMaxAngle);
+    default:
+      throw new Error(
+        `Unsupported model ${name}, expected one of ${kMeshFileExtensions.join(
+          ', '
+        )}`
+      );
+  }
+}
@@ -0,0 +1,142 @@
+import { Mesh, createIndexArray } from './mesh';
+import { simplifyMesh } from './simplify';
+
+// Range of indices of one level of detail in LODMesh.indices
+export interface LODLevel {
+  firstIndex: number;
+  indexCount: number;
+  // Estimate of how far the level's surface is from the full detail one, in
+  // mesh units: the sum of the root mean square errors of simplifyMesh() for
+  // the levels up to this one. Parts of the surface can be further away.
+  error: number;
+}
+
+// A mesh with several levels of detail, from full detail down. All levels
+// share the vertices, and their indices follow each other in indices, so
+// the mesh can be drawn from one vertex and index buffer whatever the level.
+export interface LODMesh extends Mesh {
+  levels: LODLevel[];
+}
+
+export interface LODOptions {
+  // Most levels, including the full detail one
+  maxLevelCount?: number;
+  // Triangles of each level relative to the level before it
+  ratio?: number;
+  // Error of the coarsest level, in mesh units
+  maxError?: number;
+}
+
+// Levels that drop fewer triangles than this relative to the level before
+// them aren't worth drawing
+const kMinLevelReduction = 0.9;
+
+/**
+ * Builds levels of detail for a mesh with simplifyMesh(), each with ratio
+ * times the triangles of the one before, until maxLevelCount levels, the
+ * error exceeds maxError or the mesh can't be simplified further. Each level
+ * is simplified from the one before, and its error estimate adds up the
+ * errors of the levels before it.
+ */
+export function createLODMesh(mesh: Mesh, options: LODOptions = {}): LODMesh {
+  const { maxLevelCount = 4, ratio = 0.5, maxError = Infinity } = options;
+  const levelIndices = [mesh.indices];
+  const errors = [0];
+  let level = mesh;
+  while (levelIndices.length < maxLevelCount) {
+    const triangleCount = level.indices.length / 3;
+    const simplified = simplifyMesh(level, {
+      targetTriangleCount: Math.floor(triangleCount * ratio),
+      maxError: maxError - errors[errors.length - 1],
+    });
+    if (
+      simplified.mesh.indices.length === 0 ||
+      simplified.mesh.indices.length > kMinLevelReduction * level.indices.length
+    ) {
+      break;
+    }
+    level = simplified.mesh;
+    levelIndices.push(level.indices);
+    errors.push(errors[errors.length - 1] + simplified.error);
+  }
+
+  const levels: LODLevel[] = [];
+  const indices: number[] = [];
+  levelIndices.forEach((values, i) => {
+    levels.push({
+      firstIndex: indices.length,
+      indexCount: values.length,
+      error: errors[i],
+    });
+    for (const index of values) {
+      indices.push(index);
+    }
+  });
+  const floatsPerVertex = mesh.vertexStride / 4;
+  return {
+    vertices: mesh.vertices,
+    indices: createIndexArray(indices, mesh.vertices.length / floatsPerVertex),
+    vertexStride: mesh.vertexStride,
+    levels,
+  };
+}
+
+/**
+ * @returns the size in pixels of one unit at a distance of one unit in front
+ * of a perspective camera, for selectLOD().
+ * @param fieldOfViewY the vertical field of view in radians
+ * @param viewportHeight the height of the viewport in pixels
+ */
+export const computeLODScale = (fieldOfViewY: number, viewportHeight: number) =>
+  viewportHeight / (2 * Math.tan(fieldOfViewY / 2));
+
+/**
+ * Selects the coarsest level of detail whose estimated error covers at most
+ * pixelError pixels on screen. As the estimate isn't a bound, lower
+ * pixelError where popping between levels shows.
+ * @param distance the distance from the camera to the nearest point of the
+ * mesh's bounds, in world units
+ * @param lodScale computeLODScale() times the scale of the mesh's model
+ * matrix
+ * @returns the index of the level in mesh.levels.
+ */
+export function selectLOD(
+  mesh: LODMesh,
+  distance: number,
+  lodScale: number,
+  pixelError = 1
+): number {
+  const pixelsPerUnit = lodScale / Math.max(distance, Number.EPSILON);
+  for (let level = mesh.levels.length - 1; level > 0; --level) {
+    if (mesh.levels[level].error * pixelsPerUnit <= pixelError) {
+      return level;
+    }
+  }
+  return 0;
+}
+
+// Size in bytes of the arguments of a drawIndexedIndirect() call
+export const kDrawIndexedIndirectSize = 5 * 4;
+
+/**
+ * Writes the arguments of a drawIndexedIndirect() call drawing a level of
+ * detail of mesh. Draws recorded once in a render bundle can switch levels by
+ * having their arguments rewritten.
+ * @param args the arguments of all the draws of an indirect buffer
+ * @param drawIndex the draw whose arguments to write, at a byte offset of
+ * drawIndex * kDrawIndexedIndirectSize in the indirect buffer
+ */
+export function setLODDrawArgs(
+  args: Uint32Array,
+  drawIndex: number,
+  mesh: LODMesh,
+  level: number
+) {
+  const { indexCount, firstIndex } = mesh.levels[level];
+  const offset = (drawIndex * kDrawIndexedIndirectSize) / 4;
+  args[offset] = indexCount;
+  args[offset + 1] = 1; // instanceCount
+  args[offset + 2] = firstIndex;
+  args[offset + 3] = 0; // baseVertex
+  args[offset + 4] = 0; // firstInstance
+}
@@ -1,4 +1,5 @@
 import { vec3, vec2 } from 'wgpu-matrix';
+import { generateNormals } from './utils';
 
 // Defines what to pass to pipeline to render mesh
 export interface Renderable {
@@ -44,7 +45,8 @@ export const createMeshRenderable = (
   vertexBuffer.unmap();
 
   const indexBuffer = device.createBuffer({
-    size: mesh.indices.byteLength,
+    // Buffers mapped at creation need a size that's a multiple of 4
+    size: Math.ceil(mesh.indices.byteLength / 4) * 4,
     usage: indexBufferUsage,
     mappedAtCreation: true,
   });
@@ -94,3 +96,84 @@ export const getMeshUVAtIndex = (mesh: Mesh, index: number) => {
   );
   return vec2.fromValues(arr[0], arr[1]);
 };
+
+// Layout of the vertices of meshes built by createMesh(), the same as
+// SphereLayout
+export const MeshLayout = {
+  vertexStride: 8 * 4,
+  positionsOffset: 0,
+  normalOffset: 3 * 4,
+  uvOffset: 6 * 4,
+};
+
+/**
+ * Builds an indexed triangle-list mesh with interleaved positions, normals and
+ * uvs, see MeshLayout. Meshes without normals get them from generateNormals(),
+ * smoothed across edges whose faces are less than normalMaxAngle apart.
+ * Meshes without uvs get zero uvs.
+ */
+export const createMesh = (
+  positions: [number, number, number][],
+  triangles: [number, number, number][],
+  normals?: [number, number, number][],
+  uvs?: [number, number][],
+  normalMaxAngle = Math.PI / 4
+): Mesh => {
+  let vertexPositions = positions;
+  let vertexNormals = normals;
+  let vertexUVs = uvs;
+  let vertexTriangles = triangles;
+  if (!normals) {
+    const generated = generateNormals(normalMaxAngle, positions, triangles);
+    // generateNormals() merges vertices with the same position and normal,
+    // vertices that differ in uv are kept apart
+    vertexPositions = [];
+    vertexNormals = [];
+    vertexUVs = uvs ? [] : undefined;
+    const vertexIndices = new Map<string, number>();
+    vertexTriangles = triangles.map(
+      (triangle, i) =>
+        triangle.map((index, j) => {
+          const normalIndex = generated.triangles[i][j];
+          const key = uvs ? `${normalIndex}/${uvs[index]}` : `${normalIndex}`;
+          let vertexIndex = vertexIndices.get(key);
+          if (vertexIndex === undefined) {
+            vertexIndex = vertexPositions.length;
+            vertexIndices.set(key, vertexIndex);
+            vertexPositions.push(generated.positions[normalIndex]);
+            vertexNormals.push(generated.normals[normalIndex]);
+            vertexUVs?.push(uvs[index]);
+          }
+          return vertexIndex;
+        }) as [number, number, number]
+    );
+  }
+
+  const floatsPerVertex = MeshLayout.vertexStride / 4;
+  const vertices = new Float32Array(vertexPositions.length * floatsPerVertex);
+  vertexPositions.forEach((position, i) => {
+    vertices.set(position, i * floatsPerVertex);
+    vertices.set(vertexNormals[i], i * floatsPerVertex + 3);
+    if (vertexUVs) {
+      vertices.set(vertexUVs[i], i * floatsPerVertex + 6);
+    }
+  });
+  return {
+    vertices,
+    indices: createIndexArray(vertexTriangles.flat(), vertexPositions.length),
+    vertexStride: MeshLayout.vertexStride,
+  };
+};
+
+/**
+ * @returns indices in a Uint16Array when all vertexCount vertices can be
+ * addressed with 16 bits, or else in a Uint32Array.
+ */
+export const createIndexArray = (
+  indices: ArrayLike<number>,
+  vertexCount: number
+): Uint16Array | Uint32Array => {
+  return vertexCount <= 0x10000
+    ? Uint16Array.from(indices)
+    : Uint32Array.from(indices);
+};
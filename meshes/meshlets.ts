@@ -0,0 +1,286 @@
+import { Mesh } from './mesh';
+import { buildAdjacency } from './optimize';
+
+// A small cluster of a mesh's triangles, with bounds for culling it whole
+export interface Meshlet {
+  // Range of the meshlet's vertices in Meshlets.vertices
+  vertexOffset: number;
+  vertexCount: number;
+  // Range of the meshlet's triangles in Meshlets.triangles, in triangles
+  triangleOffset: number;
+  triangleCount: number;
+  // Bounding sphere
+  center: [number, number, number];
+  radius: number;
+  // Cone containing the normals of the triangles. The meshlet faces away
+  // from a camera at position c when
+  //   dot(normalize(coneApex - c), coneAxis) >= coneCutoff
+  // A cutoff of 1 never culls.
+  coneApex: [number, number, number];
+  coneAxis: [number, number, number];
+  coneCutoff: number;
+}
+
+export interface Meshlets {
+  meshlets: Meshlet[];
+  // Mesh vertex index of each meshlet vertex
+  vertices: Uint32Array;
+  // Three meshlet vertex indices per triangle, relative to the meshlet's
+  // vertexOffset
+  triangles: Uint8Array;
+}
+
+// Normals spread further than this apart give no useful cone
+const kMinConeDot = 0.1;
+
+type Vec = [number, number, number];
+
+const subtract = (a: ArrayLike<number>, b: ArrayLike<number>): Vec => [
+  a[0] - b[0],
+  a[1] - b[1],
+  a[2] - b[2],
+];
+const dot = (a: ArrayLike<number>, b: ArrayLike<number>) =>
+  a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const cross = (a: ArrayLike<number>, b: ArrayLike<number>): Vec => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0],
+];
+const normalize = (a: Vec): Vec => {
+  const length = Math.hypot(...a);
+  return length > 0 ? [a[0] / length, a[1] / length, a[2] / length] : a;
+};
+
+// Bounding sphere and normal cone of the given triangles
+const computeBounds = (
+  mesh: Mesh,
+  vertices: number[],
+  triangles: number[]
+): Pick<
+  Meshlet,
+  'center' | 'radius' | 'coneApex' | 'coneAxis' | 'coneCutoff'
+> => {
+  const floatsPerVertex = mesh.vertexStride / 4;
+  const position = (index: number) =>
+    mesh.vertices.subarray(
+      index * floatsPerVertex,
+      index * floatsPerVertex + 3
+    );
+
+  const min: Vec = [Infinity, Infinity, Infinity];
+  const max: Vec = [-Infinity, -Infinity, -Infinity];
+  for (const index of vertices) {
+    const p = position(index);
+    for (let c = 0; c < 3; ++c) {
+      min[c] = Math.min(min[c], p[c]);
+      max[c] = Math.max(max[c], p[c]);
+    }
+  }
+  const center: Vec = [
+    (min[0] + max[0]) / 2,
+    (min[1] + max[1]) / 2,
+    (min[2] + max[2]) / 2,
+  ];
+  let radius = 0;
+  for (const index of vertices) {
+    radius = Math.max(radius, Math.hypot(...subtract(position(index), center)));
+  }
+
+  const faces: { p0: Float32Array; normal: Vec }[] = [];
+  const axisSum: Vec = [0, 0, 0];
+  for (const t of triangles) {
+    const [p0, p1, p2] = [0, 1, 2].map((c) =>
+      position(mesh.indices[3 * t + c])
+    );
+    const normal = cross(subtract(p1, p0), subtract(p2, p0));
+    if (dot(normal, normal) === 0) {
+      continue;
+    }
+    faces.push({ p0, normal: normalize(normal) });
+    for (let c = 0; c < 3; ++c) {
+      axisSum[c] += faces[faces.length - 1].normal[c];
+    }
+  }
+  const coneAxis = normalize(axisSum);
+  let minDot = 1;
+  for (const { normal } of faces) {
+    minDot = Math.min(minDot, dot(normal, coneAxis));
+  }
+  if (faces.length === 0 || minDot <= kMinConeDot) {
+    return { center, radius, coneApex: center, coneAxis, coneCutoff: 1 };
+  }
+
+  // Move the apex back along the axis until it's behind all the triangles'
+  // planes, so every triangle is back facing from anywhere in the cone
+  let maxT = 0;
+  for (const { p0, normal } of faces) {
+    const t = dot(subtract(center, p0), normal) / dot(coneAxis, normal);
+    maxT = Math.max(maxT, t);
+  }
+  const coneApex: Vec = [
+    center[0] - coneAxis[0] * maxT,
+    center[1] - coneAxis[1] * maxT,
+    center[2] - coneAxis[2] * maxT,
+  ];
+  return {
+    center,
+    radius,
+    coneApex,
+    coneAxis,
+    coneCutoff: Math.sqrt(1 - minDot * minDot),
+  };
+};
+
+/**
+ * Splits a mesh into meshlets of at most maxVertices vertices and
+ * maxTriangles triangles, for culling and drawing small clusters of
+ * triangles at a time. Meshlets grow over the triangles sharing a vertex with
+ * them, taking the one that adds the fewest vertices and then the one
+ * closest to the meshlet. Once that triangle doesn't fit, the meshlet is
+ * closed and the next one starts from it, so consecutive meshlets stay next
+ * to each other. Only a meshlet without any neighbouring triangles left is
+ * followed by one starting at the first triangle not yet in a meshlet, in
+ * index order.
+ */
+export function buildMeshlets(
+  mesh: Mesh,
+  maxVertices = 64,
+  maxTriangles = 124
+): Meshlets {
+  if (maxVertices < 3 || maxVertices > 256 || maxTriangles < 1) {
+    throw new Error(
+      `Meshlets need 3 to 256 vertices and at least 1 triangle, got ${maxVertices} and ${maxTriangles}`
+    );
+  }
+  const floatsPerVertex = mesh.vertexStride / 4;
+  const vertexCount = mesh.vertices.length / floatsPerVertex;
+  const triangleCount = mesh.indices.length / 3;
+  const { counts, offsets, triangles } = buildAdjacency(
+    mesh.indices,
+    vertexCount
+  );
+  const emitted = new Uint8Array(triangleCount);
+  // Index of each vertex in the current meshlet, or -1
+  const localIndices = new Int32Array(vertexCount).fill(-1);
+
+  const centroid = (t: number): Vec => {
+    const sum: Vec = [0, 0, 0];
+    for (let c = 0; c < 3; ++c) {
+      const offset = mesh.indices[3 * t + c] * floatsPerVertex;
+      for (let i = 0; i < 3; ++i) {
+        sum[i] += mesh.vertices[offset + i] / 3;
+      }
+    }
+    return sum;
+  };
+
+  const meshlets: Meshlet[] = [];
+  const allVertices: number[] = [];
+  const allTriangles: number[] = [];
+  let vertices: number[] = [];
+  let meshletTriangles: number[] = [];
+  // Sum of the centroids of the meshlet's triangles
+  const centroidSum: Vec = [0, 0, 0];
+
+  const finishMeshlet = () => {
+    if (meshletTriangles.length === 0) {
+      return;
+    }
+    meshlets.push({
+      vertexOffset: allVertices.length,
+      vertexCount: vertices.length,
+      triangleOffset: allTriangles.length / 3,
+      triangleCount: meshletTriangles.length,
+      ...computeBounds(mesh, vertices, meshletTriangles),
+    });
+    for (const t of meshletTriangles) {
+      for (let c = 0; c < 3; ++c) {
+        allTriangles.push(localIndices[mesh.indices[3 * t + c]]);
+      }
+    }
+    allVertices.push(...vertices);
+    for (const v of vertices) {
+      localIndices[v] = -1;
+    }
+    vertices = [];
+    meshletTriangles = [];
+    centroidSum.fill(0);
+  };
+
+  const newVertexCount = (t: number) => {
+    let count = 0;
+    for (let c = 0; c < 3; ++c) {
+      if (localIndices[mesh.indices[3 * t + c]] < 0) {
+        ++count;
+      }
+    }
+    return count;
+  };
+
+  const addTriangle = (t: number) => {
+    emitted[t] = 1;
+    meshletTriangles.push(t);
+    for (let c = 0; c < 3; ++c) {
+      const v = mesh.indices[3 * t + c];
+      if (localIndices[v] < 0) {
+        localIndices[v] = vertices.length;
+        vertices.push(v);
+      }
+    }
+    const [x, y, z] = centroid(t);
+    centroidSum[0] += x;
+    centroidSum[1] += y;
+    centroidSum[2] += z;
+  };
+
+  let nextSeed = 0;
+  for (let n = 0; n < triangleCount; ++n) {
+    // Best neighbouring triangle of the meshlet
+    let best = -1;
+    let bestNewVertices = Infinity;
+    let bestDistance = Infinity;
+    const count = meshletTriangles.length;
+    const center = centroidSum.map((sum) => sum / count);
+    for (const v of vertices) {
+      for (let i = offsets[v]; i < offsets[v] + counts[v]; ++i) {
+        const t = triangles[i];
+        if (emitted[t]) {
+          continue;
+        }
+        const newVertices = newVertexCount(t);
+        if (newVertices > bestNewVertices) {
+          continue;
+        }
+        const distance = Math.hypot(...subtract(centroid(t), center));
+        if (newVertices < bestNewVertices || distance < bestDistance) {
+          best = t;
+          bestNewVertices = newVertices;
+          bestDistance = distance;
+        }
+      }
+    }
+
+    if (
+      best >= 0 &&
+      (count === maxTriangles ||
+        vertices.length + bestNewVertices > maxVertices)
+    ) {
+      finishMeshlet();
+    } else if (best < 0) {
+      finishMeshlet();
+      while (emitted[nextSeed]) {
+        ++nextSeed;
+      }
+      best = nextSeed;
+    }
+    addTriangle(best);
+  }
+  finishMeshlet();
+
+  return {
+    meshlets,
+    vertices: new Uint32Array(allVertices),
+    triangles: new Uint8Array(allTriangles),
+  };
+}
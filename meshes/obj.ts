@@ -0,0 +1,285 @@
+import { Mesh, createMesh } from './mesh';
+
+// Material of an .mtl file. Colors are linear RGB, maps are file names
+// relative to the .mtl file.
+export interface OBJMaterial {
+  name: string;
+  ambient: [number, number, number];
+  diffuse: [number, number, number];
+  specular: [number, number, number];
+  emissive: [number, number, number];
+  shininess: number;
+  opacity: number;
+  illum?: number;
+  diffuseMap?: string;
+  specularMap?: string;
+  bumpMap?: string;
+  opacityMap?: string;
+}
+
+// Range of mesh indices drawn with one material
+export interface OBJGroup {
+  // Undefined before the first usemtl statement
+  material?: string;
+  firstIndex: number;
+  indexCount: number;
+}
+
+export interface OBJModel {
+  mesh: Mesh;
+  groups: OBJGroup[];
+  // .mtl files the model references with mtllib
+  materialLibraries: string[];
+  materials: OBJMaterial[];
+}
+
+// Split a file into statements with their arguments, joining lines ending in
+// a backslash and dropping comments
+const parseStatements = (text: string) => {
+  const statements: { keyword: string; args: string[]; line: number }[] = [];
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; ++i) {
+    const line = i + 1;
+    let content = lines[i];
+    while (content.endsWith('\\') && i + 1 < lines.length) {
+      content = content.slice(0, -1) + ' ' + lines[++i];
+    }
+    const tokens = content.replace(/#.*/, '').trim().split(/\s+/);
+    if (tokens[0]) {
+      statements.push({ keyword: tokens[0], args: tokens.slice(1), line });
+    }
+  }
+  return statements;
+};
+
+const parseNumbers = (args: string[], count: number, line: number) => {
+  const numbers = args.slice(0, count).map(Number);
+  if (numbers.length < count || numbers.some(isNaN)) {
+    throw new Error(`Line ${line}: expected ${count} numbers`);
+  }
+  return numbers;
+};
+
+/**
+ * Parses a Wavefront .mtl file
+ */
+export function parseMTL(text: string): OBJMaterial[] {
+  const materials: OBJMaterial[] = [];
+  let material: OBJMaterial | undefined;
+  for (const { keyword, args, line } of parseStatements(text)) {
+    if (keyword === 'newmtl') {
+      material = {
+        name: args.join(' '),
+        ambient: [0, 0, 0],
+        diffuse: [1, 1, 1],
+        specular: [0, 0, 0],
+        emissive: [0, 0, 0],
+        shininess: 0,
+        opacity: 1,
+      };
+      materials.push(material);
+      continue;
+    }
+    if (!material) {
+      continue;
+    }
+    const color = () => parseNumbers(args, 3, line) as [number, number, number];
+    // Map statements can have options before the file name
+    const map = () => args[args.length - 1];
+    switch (keyword) {
+      case 'Ka':
+        material.ambient = color();
+        break;
+      case 'Kd':
+        material.diffuse = color();
+        break;
+      case 'Ks':
+        material.specular = color();
+        break;
+      case 'Ke':
+        material.emissive = color();
+        break;
+      case 'Ns':
+        material.shininess = parseNumbers(args, 1, line)[0];
+        break;
+      case 'd':
+        material.opacity = parseNumbers(args, 1, line)[0];
+        break;
+      case 'Tr':
+        material.opacity = 1 - parseNumbers(args, 1, line)[0];
+        break;
+      case 'illum':
+        material.illum = parseNumbers(args, 1, line)[0];
+        break;
+      case 'map_Kd':
+        material.diffuseMap = map();
+        break;
+      case 'map_Ks':
+        material.specularMap = map();
+        break;
+      case 'map_Bump':
+      case 'map_bump':
+      case 'bump':
+      case 'norm':
+        material.bumpMap = map();
+        break;
+      case 'map_d':
+        material.opacityMap = map();
+        break;
+    }
+  }
+  return materials;
+}
+
+/**
+ * Parses a Wavefront .obj file into a triangle mesh. Polygons are split into
+ * triangle fans and texture coordinates are flipped vertically, to have the
+ * texture's first row at v = 0. Points and lines are skipped. Materials are
+ * only named by the groups, see loadOBJ() for reading them.
+ * @param text the contents of the .obj file
+ * @param normalMaxAngle for models without normals, see createMesh()
+ */
+export function parseOBJ(text: string, normalMaxAngle?: number): OBJModel {
+  const filePositions: [number, number, number][] = [];
+  const fileUVs: [number, number][] = [];
+  const fileNormals: [number, number, number][] = [];
+
+  // Vertices are the distinct position/uv/normal combinations of the faces
+  const vertexIndices = new Map<string, number>();
+  const positions: [number, number, number][] = [];
+  const uvs: [number, number][] = [];
+  const normals: [number, number, number][] = [];
+  const triangles: [number, number, number][] = [];
+  let hasUVs = true;
+  let hasNormals = true;
+
+  const groups: OBJGroup[] = [];
+  const materialLibraries: string[] = [];
+  let material: string | undefined;
+  let groupStart = 0;
+  const endGroup = () => {
+    if (triangles.length > groupStart) {
+      groups.push({
+        material,
+        firstIndex: groupStart * 3,
+        indexCount: (triangles.length - groupStart) * 3,
+      });
+    }
+    groupStart = triangles.length;
+  };
+
+  // Indices are 1-based, negative ones count back from the last element
+  const resolveIndex = (
+    index: string | undefined,
+    count: number,
+    line: number
+  ) => {
+    if (!index) {
+      return undefined;
+    }
+    const value = parseInt(index);
+    const resolved = value < 0 ? count + value : value - 1;
+    if (isNaN(value) || resolved < 0 || resolved >= count) {
+      throw new Error(`Line ${line}: invalid index ${index}`);
+    }
+    return resolved;
+  };
+
+  const getVertex = (corner: string, line: number) => {
+    const [p, t, n] = corner.split('/');
+    const position = resolveIndex(p, filePositions.length, line);
+    const uv = resolveIndex(t, fileUVs.length, line);
+    const normal = resolveIndex(n, fileNormals.length, line);
+    if (position === undefined) {
+      throw new Error(`Line ${line}: face vertex ${corner} has no position`);
+    }
+    hasUVs &&= uv !== undefined;
+    hasNormals &&= normal !== undefined;
+    const key = `${position}/${uv}/${normal}`;
+    let index = vertexIndices.get(key);
+    if (index === undefined) {
+      index = positions.length;
+      vertexIndices.set(key, index);
+      positions.push(filePositions[position]);
+      uvs.push(uv === undefined ? [0, 0] : fileUVs[uv]);
+      normals.push(normal === undefined ? [0, 0, 1] : fileNormals[normal]);
+    }
+    return index;
+  };
+
+  for (const { keyword, args, line } of parseStatements(text)) {
+    switch (keyword) {
+      case 'v':
+        filePositions.push(
+          parseNumbers(args, 3, line) as [number, number, number]
+        );
+        break;
+      case 'vt': {
+        const [u] = parseNumbers(args, 1, line);
+        const v = args.length > 1 ? parseNumbers(args.slice(1), 1, line)[0] : 0;
+        fileUVs.push([u, 1 - v]);
+        break;
+      }
+      case 'vn':
+        fileNormals.push(
+          parseNumbers(args, 3, line) as [number, number, number]
+        );
+        break;
+      case 'f': {
+        if (args.length < 3) {
+          throw new Error(`Line ${line}: faces need at least 3 vertices`);
+        }
+        const face = args.map((corner) => getVertex(corner, line));
+        for (let i = 2; i < face.length; ++i) {
+          triangles.push([face[0], face[i - 1], face[i]]);
+        }
+        break;
+      }
+      case 'usemtl':
+        endGroup();
+        material = args.join(' ');
+        break;
+      case 'mtllib':
+        materialLibraries.push(...args);
+        break;
+    }
+  }
+  endGroup();
+
+  return {
+    mesh: createMesh(
+      positions,
+      triangles,
+      hasNormals ? normals : undefined,
+      hasUVs ? uvs : undefined,
+      normalMaxAngle
+    ),
+    groups,
+    materialLibraries,
+    materials: [],
+  };
+}
+
+/**
+ * Loads an .obj file and the .mtl files it references, which are looked up
+ * relative to it
+ */
+export async function loadOBJ(
+  url: string,
+  normalMaxAngle?: number
+): Promise<OBJModel> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load ${url} (${response.status})`);
+  }
+  const model = parseOBJ(await response.text(), normalMaxAngle);
+  const baseURL = new URL(url, location.href);
+  for (const library of model.materialLibraries) {
+    const mtlResponse = await fetch(new URL(library, baseURL));
+    if (!mtlResponse.ok) {
+      throw new Error(`Failed to load ${library} (${mtlResponse.status})`);
+    }
+    model.materials.push(...parseMTL(await mtlResponse.text()));
+  }
+  return model;
+}
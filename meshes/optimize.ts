@@ -0,0 +1,533 @@
+import { Mesh, createIndexArray } from './mesh';
+
+type Indices = Uint16Array | Uint32Array;
+
+// Position of a vertex, which is the first attribute of mesh vertices
+const getPosition = (mesh: Mesh, index: number): [number, number, number] => {
+  const offset = (index * mesh.vertexStride) / 4;
+  return [
+    mesh.vertices[offset],
+    mesh.vertices[offset + 1],
+    mesh.vertices[offset + 2],
+  ];
+};
+
+const getVertexCount = (mesh: Mesh) =>
+  mesh.vertices.length / (mesh.vertexStride / 4);
+
+// Indices of the same array type, for vertexCount vertices
+const createIndicesLike = (
+  indices: Indices,
+  values: ArrayLike<number>,
+  vertexCount: number
+): Indices =>
+  indices instanceof Uint32Array
+    ? Uint32Array.from(values)
+    : createIndexArray(values, vertexCount);
+
+/**
+ * Merges duplicate vertices and drops the vertices no triangle uses. With a
+ * tolerance of 0, only vertices whose attributes are all equal are merged;
+ * otherwise each attribute is snapped to a grid with that spacing first, so
+ * vertices that are apart by less than the tolerance merge, unless they
+ * straddle a grid line. Triangles that collapse to a line or point are
+ * dropped. Merged vertices keep the attributes of the first of them.
+ */
+export function weldVertices(mesh: Mesh, tolerance = 0): Mesh {
+  const floatsPerVertex = mesh.vertexStride / 4;
+  const vertexCount = getVertexCount(mesh);
+  const keys = new Map<string, number>();
+  const remap = new Int32Array(vertexCount).fill(-1);
+  const weldedVertices: number[] = [];
+  const used = new Uint8Array(vertexCount);
+  mesh.indices.forEach((index) => (used[index] = 1));
+  for (let i = 0; i < vertexCount; ++i) {
+    if (!used[i]) {
+      continue;
+    }
+    const vertex = mesh.vertices.subarray(
+      i * floatsPerVertex,
+      (i + 1) * floatsPerVertex
+    );
+    const key =
+      tolerance > 0
+        ? Array.from(vertex, (value) => Math.round(value / tolerance)).join()
+        : vertex.join();
+    let index = keys.get(key);
+    if (index === undefined) {
+      index = weldedVertices.length / floatsPerVertex;
+      keys.set(key, index);
+      weldedVertices.push(...vertex);
+    }
+    remap[i] = index;
+  }
+
+  const weldedCount = weldedVertices.length / floatsPerVertex;
+  const indices: number[] = [];
+  for (let i = 0; i < mesh.indices.length; i += 3) {
+    const a = remap[mesh.indices[i]];
+    const b = remap[mesh.indices[i + 1]];
+    const c = remap[mesh.indices[i + 2]];
+    if (a !== b && b !== c && c !== a) {
+      indices.push(a, b, c);
+    }
+  }
+  return {
+    vertices: new Float32Array(weldedVertices),
+    indices: createIndexArray(indices, weldedCount),
+    vertexStride: mesh.vertexStride,
+  };
+}
+
+/**
+ * Average cache miss ratio of drawing the triangles through a FIFO post
+ * transform cache of cacheSize vertices: the number of vertices the vertex
+ * shader runs for per triangle, from 3 down to about 0.5 for a good order.
+ */
+export function computeACMR(indices: Indices, cacheSize = 16): number {
+  if (indices.length === 0) {
+    return 0;
+  }
+  const cache: number[] = [];
+  let misses = 0;
+  for (const index of indices) {
+    if (!cache.includes(index)) {
+      ++misses;
+      cache.push(index);
+      if (cache.length > cacheSize) {
+        cache.shift();
+      }
+    }
+  }
+  return misses / (indices.length / 3);
+}
+
+/**
+ * Lists the triangles using each vertex: those of vertex v are
+ * triangles[offsets[v]] up to triangles[offsets[v] + counts[v]].
+ */
+export const buildAdjacency = (indices: Indices, vertexCount: number) => {
+  const counts = new Uint32Array(vertexCount);
+  for (const index of indices) {
+    ++counts[index];
+  }
+  const offsets = new Uint32Array(vertexCount + 1);
+  for (let v = 0; v < vertexCount; ++v) {
+    offsets[v + 1] = offsets[v] + counts[v];
+  }
+  const triangles = new Uint32Array(indices.length);
+  const fill = offsets.slice(0, vertexCount);
+  for (let i = 0; i < indices.length; ++i) {
+    triangles[fill[indices[i]]++] = Math.floor(i / 3);
+  }
+  return { counts, offsets, triangles };
+};
+
+// Vertex scoring of Tom Forsyth's "Linear-Speed Vertex Cache Optimisation"
+const kForsythCacheDecayPower = 1.5;
+const kForsythLastTriangleScore = 0.75;
+const kForsythValenceBoostScale = 2;
+const kForsythValenceBoostPower = 0.5;
+
+const forsythVertexScore = (
+  cachePosition: number,
+  remainingTriangles: number,
+  cacheSize: number
+) => {
+  if (remainingTriangles === 0) {
+    return -1;
+  }
+  let score = 0;
+  if (cachePosition >= 0) {
+    // The last triangle's vertices score the same, so its neighbours are
+    // preferred whichever way they're connected
+    score =
+      cachePosition < 3
+        ? kForsythLastTriangleScore
+        : Math.pow(
+            1 - (cachePosition - 3) / (cacheSize - 3),
+            kForsythCacheDecayPower
+          );
+  }
+  // Vertices with few triangles left are finished first, so they don't have
+  // to come back into the cache later
+  return (
+    score +
+    kForsythValenceBoostScale *
+      Math.pow(remainingTriangles, -kForsythValenceBoostPower)
+  );
+};
+
+/**
+ * Reorders triangles for the post transform vertex cache with Tom Forsyth's
+ * algorithm, which greedily draws the triangle whose vertices score highest
+ * in a simulated LRU cache of cacheSize vertices. Works well across cache
+ * sizes, at a higher cost than optimizeVertexCacheTipsify().
+ */
+export function optimizeVertexCacheForsyth(
+  indices: Indices,
+  vertexCount: number,
+  cacheSize = 32
+): Indices {
+  const triangleCount = indices.length / 3;
+  const {
+    counts: remaining,
+    offsets,
+    triangles,
+  } = buildAdjacency(indices, vertexCount);
+  const cachePositions = new Int32Array(vertexCount).fill(-1);
+  const vertexScores = new Float32Array(vertexCount);
+  for (let v = 0; v < vertexCount; ++v) {
+    vertexScores[v] = forsythVertexScore(-1, remaining[v], cacheSize);
+  }
+  const triangleScores = new Float32Array(triangleCount);
+  const emitted = new Uint8Array(triangleCount);
+  let bestTriangle = -1;
+  let bestScore = -Infinity;
+  for (let t = 0; t < triangleCount; ++t) {
+    for (let c = 0; c < 3; ++c) {
+      triangleScores[t] += vertexScores[indices[3 * t + c]];
+    }
+    if (triangleScores[t] > bestScore) {
+      bestScore = triangleScores[t];
+      bestTriangle = t;
+    }
+  }
+
+  const output: number[] = [];
+  let cache: number[] = [];
+  let nextUnemitted = 0;
+  for (let n = 0; n < triangleCount; ++n) {
+    if (bestTriangle < 0) {
+      // Dead end, continue with the next triangle in input order
+      while (emitted[nextUnemitted]) {
+        ++nextUnemitted;
+      }
+      bestTriangle = nextUnemitted;
+    }
+    const t = bestTriangle;
+    emitted[t] = 1;
+    const corners = [indices[3 * t], indices[3 * t + 1], indices[3 * t + 2]];
+    output.push(...corners);
+
+    // Take the triangle out of its vertices' lists of remaining triangles
+    for (const v of corners) {
+      const start = offsets[v];
+      const end = start + remaining[v];
+      for (let i = start; i < end; ++i) {
+        if (triangles[i] === t) {
+          triangles[i] = triangles[end - 1];
+          break;
+        }
+      }
+      --remaining[v];
+    }
+
+    // Move the triangle's vertices to the front of the cache, pushing the
+    // others back; the ones pushed out are rescored too
+    const previousCache = cache;
+    cache = [...corners, ...previousCache.filter((v) => !corners.includes(v))];
+    const evicted = cache.splice(cacheSize);
+    for (const v of evicted) {
+      cachePositions[v] = -1;
+    }
+    cache.forEach((v, position) => (cachePositions[v] = position));
+
+    bestTriangle = -1;
+    bestScore = -Infinity;
+    for (const v of [...cache, ...evicted]) {
+      const score = forsythVertexScore(
+        cachePositions[v],
+        remaining[v],
+        cacheSize
+      );
+      const delta = score - vertexScores[v];
+      vertexScores[v] = score;
+      for (let i = offsets[v]; i < offsets[v] + remaining[v]; ++i) {
+        triangleScores[triangles[i]] += delta;
+      }
+    }
+    for (const v of cache) {
+      for (let i = offsets[v]; i < offsets[v] + remaining[v]; ++i) {
+        const candidate = triangles[i];
+        if (triangleScores[candidate] > bestScore) {
+          bestScore = triangleScores[candidate];
+          bestTriangle = candidate;
+        }
+      }
+    }
+  }
+  return createIndicesLike(indices, output, vertexCount);
+}
+
+// Triangle order of optimizeVertexCacheTipsify() and the triangles starting
+// a new part of the mesh after a dead end
+const tipsifyOrder = (
+  indices: Indices,
+  vertexCount: number,
+  cacheSize: number
+) => {
+  const triangleCount = indices.length / 3;
+  const {
+    counts: liveTriangles,
+    offsets,
+    triangles,
+  } = buildAdjacency(indices, vertexCount);
+  const timestamps = new Int32Array(vertexCount);
+  const emitted = new Uint8Array(triangleCount);
+  const deadEnds: number[] = [];
+  const order: number[] = [];
+  const hardBoundaries: number[] = [];
+  let time = cacheSize + 1;
+  let cursor = 0;
+
+  // Vertex to continue from when the current one's triangles are done
+  const skipDeadEnd = () => {
+    while (deadEnds.length > 0) {
+      const v = deadEnds.pop();
+      if (liveTriangles[v] > 0) {
+        return v;
+      }
+    }
+    while (cursor < vertexCount) {
+      if (liveTriangles[cursor] > 0) {
+        return cursor;
+      }
+      ++cursor;
+    }
+    return -1;
+  };
+
+  let fanningVertex = triangleCount > 0 ? indices[0] : -1;
+  while (fanningVertex >= 0) {
+    const candidates = new Set<number>();
+    for (let i = offsets[fanningVertex]; i < offsets[fanningVertex + 1]; ++i) {
+      const t = triangles[i];
+      if (emitted[t]) {
+        continue;
+      }
+      emitted[t] = 1;
+      order.push(t);
+      for (let c = 0; c < 3; ++c) {
+        const v = indices[3 * t + c];
+        deadEnds.push(v);
+        candidates.add(v);
+        --liveTriangles[v];
+        if (time - timestamps[v] > cacheSize) {
+          timestamps[v] = time++;
+        }
+      }
+    }
+
+    // Prefer the candidate that stays in the cache longest once its own
+    // remaining triangles are drawn
+    let next = -1;
+    let bestPriority = -1;
+    for (const v of candidates) {
+      if (liveTriangles[v] === 0) {
+        continue;
+      }
+      let priority = 0;
+      if (time - timestamps[v] + 2 * liveTriangles[v] <= cacheSize) {
+        priority = time - timestamps[v];
+      }
+      if (priority > bestPriority) {
+        bestPriority = priority;
+        next = v;
+      }
+    }
+    if (next < 0) {
+      next = skipDeadEnd();
+      if (next >= 0) {
+        hardBoundaries.push(order.length);
+      }
+    }
+    fanningVertex = next;
+  }
+  return { order, hardBoundaries };
+};
+
+const reorderTriangles = (
+  indices: Indices,
+  order: number[],
+  vertexCount: number
+) => {
+  const output: number[] = [];
+  for (const t of order) {
+    output.push(indices[3 * t], indices[3 * t + 1], indices[3 * t + 2]);
+  }
+  return createIndicesLike(indices, output, vertexCount);
+};
+
+/**
+ * Reorders triangles for the post transform vertex cache with Sander et al.'s
+ * Tipsify ("Fast Triangle Reordering for Vertex Locality and Reduced
+ * Overdraw"), which fans around vertices that stay in a FIFO cache of
+ * cacheSize vertices. Runs in linear time.
+ */
+export function optimizeVertexCacheTipsify(
+  indices: Indices,
+  vertexCount: number,
+  cacheSize = 16
+): Indices {
+  const { order } = tipsifyOrder(indices, vertexCount, cacheSize);
+  return reorderTriangles(indices, order, vertexCount);
+}
+
+/**
+ * Reorders the triangles of a mesh to draw the parts facing outwards first,
+ * so less of what's drawn later is hidden, while keeping most of the vertex
+ * cache efficiency of optimizeVertexCacheTipsify(). The Tipsify order is cut
+ * into clusters at its dead ends, and each cluster is cut again wherever the
+ * triangles since the last cut miss the cache at most threshold times as
+ * often as the whole cluster does. The clusters are then drawn in order of
+ * how far their centroid lies out from the mesh's along their average normal.
+ * Higher thresholds allow smaller clusters, which sort better but use the
+ * cache worse.
+ */
+export function optimizeOverdraw(
+  mesh: Mesh,
+  threshold = 1.05,
+  cacheSize = 16
+): Mesh {
+  const indices = mesh.indices;
+  const vertexCount = getVertexCount(mesh);
+  const { order, hardBoundaries } = tipsifyOrder(
+    indices,
+    vertexCount,
+    cacheSize
+  );
+  const tipsified = reorderTriangles(indices, order, vertexCount);
+  const triangleCount = order.length;
+
+  // Cache misses of triangles [start, end), starting with an empty cache
+  const countMisses = (start: number, end: number) =>
+    computeACMR(tipsified.subarray(3 * start, 3 * end), cacheSize) *
+    (end - start);
+
+  const clusterStarts: number[] = [];
+  const hardEnds = [...hardBoundaries, triangleCount];
+  let hardStart = 0;
+  for (const hardEnd of hardEnds) {
+    if (hardEnd <= hardStart) {
+      continue;
+    }
+    const clusterThreshold =
+      (threshold * countMisses(hardStart, hardEnd)) / (hardEnd - hardStart);
+    // Split the cluster where the part since the last split already reuses
+    // the cache about as well as the whole
+    let start = hardStart;
+    clusterStarts.push(start);
+    const cache: number[] = [];
+    let misses = 0;
+    for (let t = hardStart; t < hardEnd; ++t) {
+      for (let c = 0; c < 3; ++c) {
+        const v = tipsified[3 * t + c];
+        if (!cache.includes(v)) {
+          ++misses;
+          cache.push(v);
+          if (cache.length > cacheSize) {
+            cache.shift();
+          }
+        }
+      }
+      if (t + 1 < hardEnd && misses / (t + 1 - start) <= clusterThreshold) {
+        start = t + 1;
+        clusterStarts.push(start);
+        cache.length = 0;
+        misses = 0;
+      }
+    }
+    hardStart = hardEnd;
+  }
+
+  // Area weighted centroid and normal of the mesh and each cluster
+  const meshCentroid = [0, 0, 0];
+  let meshArea = 0;
+  const clusters = clusterStarts.map((start, idx) => {
+    const end = clusterStarts[idx + 1] ?? triangleCount;
+    const centroid = [0, 0, 0];
+    const normal = [0, 0, 0];
+    let area = 0;
+    for (let t = start; t < end; ++t) {
+      const [p0, p1, p2] = [0, 1, 2].map((c) =>
+        getPosition(mesh, tipsified[3 * t + c])
+      );
+      const e1 = [0, 1, 2].map((c) => p1[c] - p0[c]);
+      const e2 = [0, 1, 2].map((c) => p2[c] - p0[c]);
+      const cross = [
+        e1[1] * e2[2] - e1[2] * e2[1],
+        e1[2] * e2[0] - e1[0] * e2[2],
+        e1[0] * e2[1] - e1[1] * e2[0],
+      ];
+      const triangleArea = Math.hypot(...cross) / 2;
+      for (let c = 0; c < 3; ++c) {
+        centroid[c] += ((p0[c] + p1[c] + p2[c]) / 3) * triangleArea;
+        normal[c] += cross[c];
+      }
+      area += triangleArea;
+    }
+    for (let c = 0; c < 3; ++c) {
+      meshCentroid[c] += centroid[c];
+      centroid[c] /= area || 1;
+    }
+    meshArea += area;
+    return { start, end, centroid, normal };
+  });
+  for (let c = 0; c < 3; ++c) {
+    meshCentroid[c] /= meshArea || 1;
+  }
+
+  const sortKeys = clusters.map(({ centroid, normal }) => {
+    const length = Math.hypot(...normal) || 1;
+    let dot = 0;
+    for (let c = 0; c < 3; ++c) {
+      dot += ((centroid[c] - meshCentroid[c]) * normal[c]) / length;
+    }
+    return dot;
+  });
+  const sorted = clusters
+    .map((cluster, idx) => ({ ...cluster, key: sortKeys[idx] }))
+    .sort((a, b) => b.key - a.key);
+
+  const output: number[] = [];
+  for (const { start, end } of sorted) {
+    for (let i = 3 * start; i < 3 * end; ++i) {
+      output.push(tipsified[i]);
+    }
+  }
+  return {
+    vertices: mesh.vertices,
+    indices: createIndicesLike(indices, output, vertexCount),
+    vertexStride: mesh.vertexStride,
+  };
+}
+
+/**
+ * Reorders the vertices of a mesh in the order the triangles first use them,
+ * for locality of the vertex fetches, and drops the vertices no triangle
+ * uses. Run it after reordering the triangles.
+ */
+export function optimizeVertexFetch(mesh: Mesh): Mesh {
+  const floatsPerVertex = mesh.vertexStride / 4;
+  const remap = new Int32Array(getVertexCount(mesh)).fill(-1);
+  const vertices: number[] = [];
+  const indices = Array.from(mesh.indices, (index) => {
+    if (remap[index] < 0) {
+      remap[index] = vertices.length / floatsPerVertex;
+      vertices.push(
+        ...mesh.vertices.subarray(
+          index * floatsPerVertex,
+          (index + 1) * floatsPerVertex
+        )
+      );
+    }
+    return remap[index];
+  });
+  const vertexCount = vertices.length / floatsPerVertex;
+  return {
+    vertices: new Float32Array(vertices),
+    indices: createIndicesLike(mesh.indices, indices, vertexCount),
+    vertexStride: mesh.vertexStride,
+  };
+}
@@ -0,0 +1,294 @@
+import { Mesh, createMesh } from './mesh';
+
+type PLYFormat = 'ascii' | 'binary_little_endian' | 'binary_big_endian';
+
+interface PLYProperty {
+  name: string;
+  type: string;
+  // Type of the count of list properties
+  countType?: string;
+}
+
+interface PLYElement {
+  name: string;
+  count: number;
+  properties: PLYProperty[];
+}
+
+// Size in bytes of each property type, under its old and new names
+const kPLYTypeSizes: { [type: string]: number } = {
+  char: 1,
+  int8: 1,
+  uchar: 1,
+  uint8: 1,
+  short: 2,
+  int16: 2,
+  ushort: 2,
+  uint16: 2,
+  int: 4,
+  int32: 4,
+  uint: 4,
+  uint32: 4,
+  float: 4,
+  float32: 4,
+  double: 8,
+  float64: 8,
+};
+
+// Names of the uv properties, exporters disagree on them
+const kPLYUVNames = [
+  ['u', 'v'],
+  ['s', 't'],
+  ['texture_u', 'texture_v'],
+  ['texture_s', 'texture_t'],
+];
+
+const readBinaryValue = (
+  data: DataView,
+  offset: number,
+  type: string,
+  littleEndian: boolean
+) => {
+  switch (type) {
+    case 'char':
+    case 'int8':
+      return data.getInt8(offset);
+    case 'uchar':
+    case 'uint8':
+      return data.getUint8(offset);
+    case 'short':
+    case 'int16':
+      return data.getInt16(offset, littleEndian);
+    case 'ushort':
+    case 'uint16':
+      return data.getUint16(offset, littleEndian);
+    case 'int':
+    case 'int32':
+      return data.getInt32(offset, littleEndian);
+    case 'uint':
+    case 'uint32':
+      return data.getUint32(offset, littleEndian);
+    case 'float':
+    case 'float32':
+      return data.getFloat32(offset, littleEndian);
+    case 'double':
+    case 'float64':
+      return data.getFloat64(offset, littleEndian);
+  }
+};
+
+const parseHeader = (buffer: ArrayBuffer) => {
+  // The header is ASCII text, ending with the end_header line
+  const bytes = new Uint8Array(buffer);
+  if (String.fromCharCode(...bytes.subarray(0, 3)) !== 'ply') {
+    throw new Error('Not a PLY file');
+  }
+  const lines: string[] = [];
+  let currentLine = '';
+  let bodyOffset = -1;
+  for (let i = 0; i < bytes.length && bodyOffset < 0; ++i) {
+    if (bytes[i] !== 10) {
+      currentLine += String.fromCharCode(bytes[i]);
+      continue;
+    }
+    lines.push(currentLine.trim());
+    currentLine = '';
+    if (lines[lines.length - 1] === 'end_header') {
+      bodyOffset = i + 1;
+    }
+  }
+  if (bodyOffset < 0) {
+    throw new Error('PLY header has no end_header');
+  }
+
+  let format: PLYFormat | undefined;
+  const elements: PLYElement[] = [];
+  for (const line of lines.slice(1)) {
+    const tokens = line.split(/\s+/);
+    switch (tokens[0]) {
+      case 'format':
+        if (
+          tokens[1] !== 'ascii' &&
+          tokens[1] !== 'binary_little_endian' &&
+          tokens[1] !== 'binary_big_endian'
+        ) {
+          throw new Error(`Unknown PLY format ${tokens[1]}`);
+        }
+        format = tokens[1];
+        break;
+      case 'element':
+        elements.push({
+          name: tokens[1],
+          count: parseInt(tokens[2]),
+          properties: [],
+        });
+        break;
+      case 'property': {
+        const element = elements[elements.length - 1];
+        const property: PLYProperty =
+          tokens[1] === 'list'
+            ? { countType: tokens[2], type: tokens[3], name: tokens[4] }
+            : { type: tokens[1], name: tokens[2] };
+        for (const type of [property.type, property.countType]) {
+          if (type !== undefined && !kPLYTypeSizes[type]) {
+            throw new Error(`Unknown PLY property type ${type}`);
+          }
+        }
+        if (!element) {
+          throw new Error(`PLY property ${property.name} outside an element`);
+        }
+        element.properties.push(property);
+        break;
+      }
+    }
+  }
+  if (!format) {
+    throw new Error('PLY header has no format');
+  }
+  return { format, elements, bodyOffset };
+};
+
+// Read the values of every element, calling onElement with each element's
+// property values. List properties have their items as values.
+const readElements = (
+  buffer: ArrayBuffer,
+  format: PLYFormat,
+  elements: PLYElement[],
+  bodyOffset: number,
+  onElement: (element: PLYElement, values: (number | number[])[]) => void
+) => {
+  if (format === 'ascii') {
+    const lines = new TextDecoder()
+      .decode(new Uint8Array(buffer, bodyOffset))
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0 && !line.startsWith('comment'));
+    let lineIndex = 0;
+    for (const element of elements) {
+      for (let i = 0; i < element.count; ++i) {
+        if (lineIndex >= lines.length) {
+          throw new Error(`PLY file ends within the ${element.name} elements`);
+        }
+        const tokens = lines[lineIndex++].split(/\s+/).map(Number);
+        let t = 0;
+        const values = element.properties.map(({ countType }) => {
+          if (countType === undefined) {
+            return tokens[t++];
+          }
+          const count = tokens[t++];
+          const items = tokens.slice(t, t + count);
+          t += count;
+          return items;
+        });
+        onElement(element, values);
+      }
+    }
+    return;
+  }
+
+  const data = new DataView(buffer);
+  const littleEndian = format === 'binary_little_endian';
+  let offset = bodyOffset;
+  const read = (type: string) => {
+    if (offset + kPLYTypeSizes[type] > data.byteLength) {
+      throw new Error('PLY file ends within its elements');
+    }
+    const value = readBinaryValue(data, offset, type, littleEndian);
+    offset += kPLYTypeSizes[type];
+    return value;
+  };
+  for (const element of elements) {
+    for (let i = 0; i < element.count; ++i) {
+      const values = element.properties.map(({ type, countType }) => {
+        if (countType === undefined) {
+          return read(type);
+        }
+        const count = read(countType);
+        const items: number[] = [];
+        for (let j = 0; j < count; ++j) {
+          items.push(read(type));
+        }
+        return items;
+      });
+      onElement(element, values);
+    }
+  }
+};
+
+/**
+ * Parses an ASCII or binary .ply file into a triangle mesh, from the x, y, z
+ * and optional normal and uv properties of its vertex elements and the
+ * vertex_indices of its face elements. Polygons are split into triangle fans
+ * and texture coordinates are flipped vertically, like in parseOBJ(). Other
+ * elements and properties are skipped.
+ * @param buffer the contents of the .ply file
+ * @param normalMaxAngle for models without normals, see createMesh()
+ */
+export function parsePLY(buffer: ArrayBuffer, normalMaxAngle?: number): Mesh {
+  const { format, elements, bodyOffset } = parseHeader(buffer);
+  const vertexElement = elements.find(({ name }) => name === 'vertex');
+  const faceElement = elements.find(({ name }) => name === 'face');
+  if (!vertexElement || !faceElement) {
+    throw new Error('PLY file has no vertex or face elements');
+  }
+
+  const propertyIndex = (element: PLYElement, name: string) =>
+    element.properties.findIndex((property) => property.name === name);
+  const positionIndices = ['x', 'y', 'z'].map((name) =>
+    propertyIndex(vertexElement, name)
+  );
+  if (positionIndices.includes(-1)) {
+    throw new Error('PLY vertices have no x, y and z properties');
+  }
+  const normalIndices = ['nx', 'ny', 'nz'].map((name) =>
+    propertyIndex(vertexElement, name)
+  );
+  const uvIndices = kPLYUVNames
+    .map((names) => names.map((name) => propertyIndex(vertexElement, name)))
+    .find((indices) => !indices.includes(-1));
+  let indicesIndex = propertyIndex(faceElement, 'vertex_indices');
+  if (indicesIndex < 0) {
+    indicesIndex = propertyIndex(faceElement, 'vertex_index');
+  }
+  if (indicesIndex < 0) {
+    throw new Error('PLY faces have no vertex_indices property');
+  }
+
+  const positions: [number, number, number][] = [];
+  const normals: [number, number, number][] = [];
+  const uvs: [number, number][] = [];
+  const triangles: [number, number, number][] = [];
+  readElements(buffer, format, elements, bodyOffset, (element, values) => {
+    if (element === vertexElement) {
+      const get = (indices: number[]) =>
+        indices.map((index) => values[index] as number);
+      positions.push(get(positionIndices) as [number, number, number]);
+      if (!normalIndices.includes(-1)) {
+        normals.push(get(normalIndices) as [number, number, number]);
+      }
+      if (uvIndices) {
+        const [u, v] = get(uvIndices);
+        uvs.push([u, 1 - v]);
+      }
+    } else if (element === faceElement) {
+      const face = values[indicesIndex] as number[];
+      for (let i = 2; i < face.length; ++i) {
+        triangles.push([face[0], face[i - 1], face[i]]);
+      }
+    }
+  });
+
+  for (const triangle of triangles) {
+    if (triangle.some((index) => !(index >= 0 && index < positions.length))) {
+      throw new Error(`PLY face references a missing vertex`);
+    }
+  }
+
+  return createMesh(
+    positions,
+    triangles,
+    normals.length ? normals : undefined,
+    uvs.length ? uvs : undefined,
+    normalMaxAngle
+  );
+}
@@ -0,0 +1,326 @@
+import { Mesh, createIndexArray } from './mesh';
+
+export interface SimplifyOptions {
+  // Stop once the mesh has at most this many triangles
+  targetTriangleCount?: number;
+  // Largest error, in mesh units, collapses may introduce
+  maxError?: number;
+}
+
+export interface SimplifiedMesh {
+  mesh: Mesh;
+  // Root mean square distance of the simplified surface to the planes of
+  // the triangles it replaces, for the worst collapse, in mesh units
+  error: number;
+}
+
+// Collapses that turn a triangle's normal by more than this are skipped
+const kMinNormalDot = 0.25;
+
+// Quadrics are symmetric 4x4 matrices giving the sum of squared distances to
+// a set of planes ax + by + cz + d = 0, stored as a2, ab, ac, ad, b2, bc, bd,
+// c2, cd, d2
+const kQuadricSize = 10;
+
+const evaluateQuadric = (
+  quadric: Float64Array,
+  x: number,
+  y: number,
+  z: number
+) => {
+  const q = (i: number) => quadric[i];
+  return (
+    q(0) * x * x +
+    2 * q(1) * x * y +
+    2 * q(2) * x * z +
+    2 * q(3) * x +
+    q(4) * y * y +
+    2 * q(5) * y * z +
+    2 * q(6) * y +
+    q(7) * z * z +
+    2 * q(8) * z +
+    q(9)
+  );
+};
+
+/**
+ * Simplifies a mesh with Garland and Heckbert's quadric error metric, by
+ * collapsing edges into one of their vertices until the mesh is down to
+ * options.targetTriangleCount triangles or the next collapse would exceed
+ * options.maxError. Vertices aren't moved or created, so the simplified mesh
+ * shares the vertices of the mesh and only has new indices; vertices no
+ * triangle uses anymore can be dropped with optimizeVertexFetch().
+ *
+ * Vertices are matched by position to find the surface's edges. Attribute
+ * seams, where vertices with the same position have different normals or
+ * uvs, only collapse along themselves, with the vertices on each side of the
+ * seam keeping their attributes. Vertices on open borders and where seams
+ * meet never move, which keeps the outline of the mesh intact at the cost of
+ * simplifying less there.
+ */
+export function simplifyMesh(
+  mesh: Mesh,
+  options: SimplifyOptions = {}
+): SimplifiedMesh {
+  const { targetTriangleCount = 0, maxError = Infinity } = options;
+  const floatsPerVertex = mesh.vertexStride / 4;
+  const vertexCount = mesh.vertices.length / floatsPerVertex;
+  const indices = Uint32Array.from(mesh.indices);
+  const triangleCount = indices.length / 3;
+  const position = (v: number) => {
+    const offset = v * floatsPerVertex;
+    return [
+      mesh.vertices[offset],
+      mesh.vertices[offset + 1],
+      mesh.vertices[offset + 2],
+    ];
+  };
+
+  // Vertices by position: the first vertex with each position stands for
+  // all of them
+  const canonical = new Uint32Array(vertexCount);
+  const groupSizes = new Uint32Array(vertexCount);
+  const positionIndices = new Map<string, number>();
+  for (let v = 0; v < vertexCount; ++v) {
+    const key = position(v).join();
+    let c = positionIndices.get(key);
+    if (c === undefined) {
+      c = v;
+      positionIndices.set(key, c);
+    }
+    canonical[v] = c;
+    ++groupSizes[c];
+  }
+
+  // Vertices on borders, where an edge has a single triangle, are locked
+  // along with the corners of seams, where more than two vertices share a
+  // position
+  const locked = new Uint8Array(vertexCount);
+  const edgeCounts = new Map<number, number>();
+  for (let i = 0; i < indices.length; i += 3) {
+    for (let e = 0; e < 3; ++e) {
+      const a = canonical[indices[i + e]];
+      const b = canonical[indices[i + ((e + 1) % 3)]];
+      const key = Math.min(a, b) * vertexCount + Math.max(a, b);
+      edgeCounts.set(key, (edgeCounts.get(key) ?? 0) + 1);
+    }
+  }
+  for (const [key, count] of edgeCounts) {
+    if (count === 1) {
+      locked[Math.floor(key / vertexCount)] = 1;
+      locked[key % vertexCount] = 1;
+    }
+  }
+  for (let v = 0; v < vertexCount; ++v) {
+    if (groupSizes[v] > 2) {
+      locked[v] = 1;
+    }
+  }
+
+  // Area weighted quadrics of the triangles around each position
+  const quadrics = new Float64Array(vertexCount * kQuadricSize);
+  const weights = new Float64Array(vertexCount);
+  const normalOf = (a: number[], b: number[], c: number[]) => {
+    const e1 = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+    const e2 = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+    return [
+      e1[1] * e2[2] - e1[2] * e2[1],
+      e1[2] * e2[0] - e1[0] * e2[2],
+      e1[0] * e2[1] - e1[1] * e2[0],
+    ];
+  };
+  for (let i = 0; i < indices.length; i += 3) {
+    const [p0, p1, p2] = [0, 1, 2].map((c) => position(indices[i + c]));
+    const n = normalOf(p0, p1, p2);
+    const length = Math.hypot(...n);
+    if (length === 0) {
+      continue;
+    }
+    const [a, b, c] = n.map((x) => x / length);
+    const d = -(a * p0[0] + b * p0[1] + c * p0[2]);
+    const area = length / 2;
+    const plane = [a * a, a * b, a * c, a * d, b * b, b * c, b * d];
+    plane.push(c * c, c * d, d * d);
+    for (let corner = 0; corner < 3; ++corner) {
+      const v = canonical[indices[i + corner]];
+      for (let k = 0; k < kQuadricSize; ++k) {
+        quadrics[v * kQuadricSize + k] += plane[k] * area;
+      }
+      weights[v] += area;
+    }
+  }
+
+  const removed = new Uint8Array(triangleCount);
+  let liveCount = triangleCount;
+  let error = 0;
+  const merged = new Float64Array(kQuadricSize);
+
+  while (liveCount > targetTriangleCount) {
+    // Live triangles around each position
+    const vertexTriangles = new Map<number, number[]>();
+    for (let t = 0; t < triangleCount; ++t) {
+      if (removed[t]) {
+        continue;
+      }
+      for (let corner = 0; corner < 3; ++corner) {
+        const v = canonical[indices[3 * t + corner]];
+        let list = vertexTriangles.get(v);
+        if (!list) {
+          list = [];
+          vertexTriangles.set(v, list);
+        }
+        list.push(t);
+      }
+    }
+
+    // Collapse cost of moving u onto v along every edge
+    const candidates: { u: number; v: number; cost: number }[] = [];
+    const collapseCost = (u: number, v: number) => {
+      for (let k = 0; k < kQuadricSize; ++k) {
+        merged[k] =
+          quadrics[u * kQuadricSize + k] + quadrics[v * kQuadricSize + k];
+      }
+      const [x, y, z] = position(v);
+      const weight = weights[u] + weights[v];
+      return weight > 0
+        ? Math.max(evaluateQuadric(merged, x, y, z), 0) / weight
+        : 0;
+    };
+    for (let t = 0; t < triangleCount; ++t) {
+      if (removed[t]) {
+        continue;
+      }
+      for (let e = 0; e < 3; ++e) {
+        const a = canonical[indices[3 * t + e]];
+        const b = canonical[indices[3 * t + ((e + 1) % 3)]];
+        if (!locked[a]) {
+          candidates.push({ u: a, v: b, cost: collapseCost(a, b) });
+        }
+        if (!locked[b]) {
+          candidates.push({ u: b, v: a, cost: collapseCost(b, a) });
+        }
+      }
+    }
+    candidates.sort((x, y) => x.cost - y.cost);
+
+    // Collapse the cheapest edges first. A position whose triangles changed
+    // waits for the next pass, which sees the updated triangles.
+    const touched = new Uint8Array(vertexCount);
+    let collapses = 0;
+    for (const { u, v, cost } of candidates) {
+      if (liveCount <= targetTriangleCount || Math.sqrt(cost) > maxError) {
+        break;
+      }
+      if (touched[u] || touched[v]) {
+        continue;
+      }
+      const uTriangles = vertexTriangles.get(u);
+      const vTriangles = vertexTriangles.get(v);
+      const hasCorner = (t: number, c: number) =>
+        [0, 1, 2].some((corner) => canonical[indices[3 * t + corner]] === c);
+
+      // Only collapse edges whose ends share no neighbours but the ones of
+      // the edge's own triangles, or the surface folds onto itself
+      const shared = uTriangles.filter((t) => hasCorner(t, v));
+      const neighbours = (triangles: number[]) =>
+        new Set(
+          triangles.flatMap((t) =>
+            [0, 1, 2].map((corner) => canonical[indices[3 * t + corner]])
+          )
+        );
+      const vNeighbours = neighbours(vTriangles);
+      let common = 0;
+      for (const w of neighbours(uTriangles)) {
+        if (w !== u && w !== v && vNeighbours.has(w)) {
+          ++common;
+        }
+      }
+      if (shared.length === 0 || common > shared.length) {
+        continue;
+      }
+
+      // Each vertex of u moves onto the vertex of v it shares a triangle
+      // with, so both sides of a seam keep their own attributes. Vertices of
+      // u with no triangle on the edge, or triangles with different vertices
+      // of v, would tear the seam.
+      const replacements = new Map<number, number>();
+      let seamTorn = false;
+      for (const t of shared) {
+        const corners = [0, 1, 2].map((c) => indices[3 * t + c]);
+        const uVertex = corners.find((index) => canonical[index] === u);
+        const vVertex = corners.find((index) => canonical[index] === v);
+        seamTorn ||= (replacements.get(uVertex) ?? vVertex) !== vVertex;
+        replacements.set(uVertex, vVertex);
+      }
+      seamTorn ||= uTriangles.some((t) =>
+        [0, 1, 2].some((c) => {
+          const index = indices[3 * t + c];
+          return canonical[index] === u && !replacements.has(index);
+        })
+      );
+      if (seamTorn) {
+        continue;
+      }
+
+      // Skip collapses that flip or squash triangles
+      const pv = position(v);
+      const flips = uTriangles.some((t) => {
+        if (hasCorner(t, v)) {
+          return false;
+        }
+        const corners = [0, 1, 2].map((c) => indices[3 * t + c]);
+        const before = corners.map(position);
+        const after = corners.map((index) =>
+          canonical[index] === u ? pv : position(index)
+        );
+        const n0 = normalOf(before[0], before[1], before[2]);
+        const n1 = normalOf(after[0], after[1], after[2]);
+        const dot = n0[0] * n1[0] + n0[1] * n1[1] + n0[2] * n1[2];
+        return dot <= kMinNormalDot * Math.hypot(...n0) * Math.hypot(...n1);
+      });
+      if (flips) {
+        continue;
+      }
+
+      for (const t of uTriangles) {
+        for (let corner = 0; corner < 3; ++corner) {
+          touched[canonical[indices[3 * t + corner]]] = 1;
+        }
+        if (hasCorner(t, v)) {
+          removed[t] = 1;
+          --liveCount;
+          continue;
+        }
+        for (let corner = 0; corner < 3; ++corner) {
+          if (canonical[indices[3 * t + corner]] === u) {
+            indices[3 * t + corner] = replacements.get(indices[3 * t + corner]);
+          }
+        }
+      }
+      for (let k = 0; k < kQuadricSize; ++k) {
+        quadrics[v * kQuadricSize + k] += quadrics[u * kQuadricSize + k];
+      }
+      weights[v] += weights[u];
+      error = Math.max(error, Math.sqrt(cost));
+      ++collapses;
+    }
+    if (collapses === 0) {
+      break;
+    }
+  }
+
+  const simplified: number[] = [];
+  for (let t = 0; t < triangleCount; ++t) {
+    if (!removed[t]) {
+      simplified.push(indices[3 * t], indices[3 * t + 1], indices[3 * t + 2]);
+    }
+  }
+  return {
+    mesh: {
+      vertices: mesh.vertices,
+      indices: createIndexArray(simplified, vertexCount),
+      vertexStride: mesh.vertexStride,
+    },
+    error,
+  };
+}
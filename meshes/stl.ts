@@ -0,0 +1,45 @@
+import { Mesh, createMesh } from './mesh';
+
+// 80 byte header and the triangle count
+const kSTLHeaderSize = 84;
+// Normal, three vertices and a 2 byte attribute count
+const kSTLTriangleSize = 50;
+
+/**
+ * Parses a binary .stl file into a triangle mesh. The facet normals are
+ * ignored, since many exporters leave them zero; normals are generated
+ * instead, smoothed across edges whose faces are less than normalMaxAngle
+ * apart.
+ * @param buffer the contents of the .stl file
+ * @param normalMaxAngle see createMesh()
+ */
+export function parseSTL(buffer: ArrayBuffer, normalMaxAngle?: number): Mesh {
+  if (buffer.byteLength < kSTLHeaderSize) {
+    throw new Error('Not a binary STL file');
+  }
+  const data = new DataView(buffer);
+  const triangleCount = data.getUint32(80, true);
+  if (buffer.byteLength !== kSTLHeaderSize + triangleCount * kSTLTriangleSize) {
+    throw new Error(
+      `Binary STL file with ${triangleCount} triangles is ${buffer.byteLength} bytes, ASCII STL files aren't supported`
+    );
+  }
+
+  const positions: [number, number, number][] = [];
+  const triangles: [number, number, number][] = [];
+  for (let i = 0; i < triangleCount; ++i) {
+    // Skip the facet normal
+    const offset = kSTLHeaderSize + i * kSTLTriangleSize + 12;
+    for (let j = 0; j < 3; ++j) {
+      positions.push([
+        data.getFloat32(offset + j * 12, true),
+        data.getFloat32(offset + j * 12 + 4, true),
+        data.getFloat32(offset + j * 12 + 8, true),
+      ]);
+    }
+    triangles.push([3 * i, 3 * i + 1, 3 * i + 2]);
+  }
+
+  // generateNormals() welds the separate vertices of each triangle
+  return createMesh(positions, triangles, undefined, undefined, normalMaxAngle);
+}
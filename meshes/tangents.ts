@@ -0,0 +1,140 @@
+import { vec3, Vec3 } from 'wgpu-matrix';
+import { Mesh, MeshLayout, createIndexArray } from './mesh';
+
+// Layout of the vertices of meshes built by generateTangents(), MeshLayout
+// followed by the tangent and bitangent
+export const MeshWithTangentsLayout = {
+  vertexStride: 14 * 4,
+  positionsOffset: 0,
+  normalOffset: 3 * 4,
+  uvOffset: 6 * 4,
+  tangentOffset: 8 * 4,
+  bitangentOffset: 11 * 4,
+};
+
+// Faces whose uvs span less than this area don't contribute tangents
+const kMinUVArea = 1e-12;
+
+// Any unit vector perpendicular to n
+const perpendicular = (n: Vec3) => {
+  const axis =
+    Math.abs(n[0]) < 0.9 ? vec3.fromValues(1, 0, 0) : vec3.fromValues(0, 1, 0);
+  return vec3.normalize(vec3.cross(axis, n));
+};
+
+/**
+ * Adds tangents and bitangents to a mesh with MeshLayout vertices, the way
+ * MikkTSpace does, so normal maps baked by common tools shade without seams:
+ * the tangent of each face follows the direction of increasing u, is
+ * projected onto the plane of each vertex's normal, and is averaged over the
+ * faces around the vertex weighted by their angle at it. The bitangent is
+ * cross(normal, tangent), negated where the uvs are mirrored. Vertices shared
+ * by mirrored and unmirrored faces are split in two.
+ * @returns the mesh with MeshWithTangentsLayout vertices.
+ */
+export function generateTangents(mesh: Mesh): Mesh {
+  if (mesh.vertexStride !== MeshLayout.vertexStride) {
+    throw new Error(
+      `Expected vertices with a stride of ${MeshLayout.vertexStride}, got ${mesh.vertexStride}`
+    );
+  }
+  const inFloats = MeshLayout.vertexStride / 4;
+  const outFloats = MeshWithTangentsLayout.vertexStride / 4;
+  const position = (index: number) =>
+    mesh.vertices.subarray(index * inFloats, index * inFloats + 3);
+  const normal = (index: number) =>
+    mesh.vertices.subarray(index * inFloats + 3, index * inFloats + 6);
+  const uv = (index: number) =>
+    mesh.vertices.subarray(index * inFloats + 6, index * inFloats + 8);
+
+  // Accumulated tangents of each vertex, apart for mirrored faces
+  const groups = new Map<
+    string,
+    { vertex: number; sign: number; tangent: Vec3 }
+  >();
+  const cornerGroups: string[] = [];
+  for (let i = 0; i < mesh.indices.length; i += 3) {
+    const corners = [mesh.indices[i], mesh.indices[i + 1], mesh.indices[i + 2]];
+    const [p0, p1, p2] = corners.map(position);
+    const [uv0, uv1, uv2] = corners.map(uv);
+    const e1 = vec3.subtract(p1, p0);
+    const e2 = vec3.subtract(p2, p0);
+    const du1 = uv1[0] - uv0[0];
+    const dv1 = uv1[1] - uv0[1];
+    const du2 = uv2[0] - uv0[0];
+    const dv2 = uv2[1] - uv0[1];
+    const r = du1 * dv2 - du2 * dv1;
+    const valid = Math.abs(r) > kMinUVArea;
+    // dP/du and dP/dv of the face, both scaled by r
+    const faceTangent = vec3.subtract(
+      vec3.mulScalar(e1, dv2),
+      vec3.mulScalar(e2, dv1)
+    );
+    const faceBitangent = vec3.subtract(
+      vec3.mulScalar(e2, du1),
+      vec3.mulScalar(e1, du2)
+    );
+    vec3.mulScalar(faceTangent, Math.sign(r), faceTangent);
+    vec3.mulScalar(faceBitangent, Math.sign(r), faceBitangent);
+
+    corners.forEach((index, c) => {
+      const n = normal(index);
+      const sign =
+        valid && vec3.dot(vec3.cross(n, faceTangent), faceBitangent) < 0
+          ? -1
+          : 1;
+      const key = `${index}/${sign}`;
+      cornerGroups.push(key);
+      let group = groups.get(key);
+      if (!group) {
+        group = { vertex: index, sign, tangent: vec3.create() };
+        groups.set(key, group);
+      }
+      if (!valid) {
+        return;
+      }
+      const t = vec3.subtract(
+        faceTangent,
+        vec3.mulScalar(n, vec3.dot(n, faceTangent))
+      );
+      if (vec3.length(t) === 0) {
+        return;
+      }
+      // Angle of the face at this corner
+      const p = [p0, p1, p2];
+      const a = vec3.normalize(vec3.subtract(p[(c + 1) % 3], p[c]));
+      const b = vec3.normalize(vec3.subtract(p[(c + 2) % 3], p[c]));
+      const angle = Math.acos(Math.min(Math.max(vec3.dot(a, b), -1), 1));
+      vec3.add(
+        group.tangent,
+        vec3.mulScalar(vec3.normalize(t), angle),
+        group.tangent
+      );
+    });
+  }
+
+  const vertexIndices = new Map<string, number>();
+  const vertices = new Float32Array(groups.size * outFloats);
+  for (const [key, { vertex, sign, tangent }] of groups) {
+    const index = vertexIndices.size;
+    vertexIndices.set(key, index);
+    const n = normal(vertex);
+    const t =
+      vec3.length(tangent) > 0 ? vec3.normalize(tangent) : perpendicular(n);
+    const offset = index * outFloats;
+    vertices.set(
+      mesh.vertices.subarray(vertex * inFloats, (vertex + 1) * inFloats),
+      offset
+    );
+    vertices.set(t, offset + 8);
+    vertices.set(vec3.mulScalar(vec3.cross(n, t), sign), offset + 11);
+  }
+  return {
+    vertices,
+    indices: createIndexArray(
+      cornerGroups.map((key) => vertexIndices.get(key)),
+      vertexIndices.size
+    ),
+    vertexStride: MeshWithTangentsLayout.vertexStride,
+  };
+}
@@ -1,6 +1,9 @@
 import { mat4, vec3, vec4 } from 'wgpu-matrix';
 import { GUI } from 'dat.gui';
 import { mesh } from '../../meshes/stanfordDragon';
+import { Mesh, createIndexArray } from '../../meshes/mesh';
+import { kMeshFileExtensions, loadMesh } from '../../meshes/loadMesh';
+import { computeProjectedPlaneUVs } from '../../meshes/utils';
 
 import lightUpdate from './lightUpdate.wgsl';
 import vertexWriteGBuffers from './vertexWriteGBuffers.wgsl';
@@ -37,41 +40,144 @@ context.configure({
   format: presentationFormat,
 });
 
-// Create the model vertex buffer.
+interface Model {
+  vertexBuffer: GPUBuffer;
+  indexBuffer: GPUBuffer;
+  indexFormat: GPUIndexFormat;
+  indexCount: number;
+}
+
+// Create the model's vertex and index buffers, from vertices with a position,
+// normal and uv each.
 const kVertexStride = 8;
-const vertexBuffer = device.createBuffer({
-  label: 'model vertex buffer',
-  // position: vec3, normal: vec3, uv: vec2
-  size: mesh.positions.length * kVertexStride * Float32Array.BYTES_PER_ELEMENT,
-  usage: GPUBufferUsage.VERTEX,
-  mappedAtCreation: true,
-});
-{
-  const mapping = new Float32Array(vertexBuffer.getMappedRange());
-  for (let i = 0; i < mesh.positions.length; ++i) {
-    mapping.set(mesh.positions[i], kVertexStride * i);
-    mapping.set(mesh.normals[i], kVertexStride * i + 3);
-    mapping.set(mesh.uvs[i], kVertexStride * i + 6);
-  }
+function createModel(
+  vertices: Float32Array,
+  indices: Uint16Array | Uint32Array
+): Model {
+  const vertexBuffer = device.createBuffer({
+    label: 'model vertex buffer',
+    size: vertices.byteLength,
+    usage: GPUBufferUsage.VERTEX,
+    mappedAtCreation: true,
+  });
+  new Float32Array(vertexBuffer.getMappedRange()).set(vertices);
   vertexBuffer.unmap();
+
+  // Mapped buffers need a size that's a multiple of 4 bytes
+  const indexBuffer = device.createBuffer({
+    label: 'model index buffer',
+    size: Math.ceil(indices.byteLength / 4) * 4,
+    usage: GPUBufferUsage.INDEX,
+    mappedAtCreation: true,
+  });
+  new Uint8Array(indexBuffer.getMappedRange()).set(
+    new Uint8Array(indices.buffer, indices.byteOffset, indices.byteLength)
+  );
+  indexBuffer.unmap();
+
+  return {
+    vertexBuffer,
+    indexBuffer,
+    indexFormat: indices instanceof Uint16Array ? 'uint16' : 'uint32',
+    indexCount: indices.length,
+  };
 }
 
-// Create the model index buffer.
-const indexCount = mesh.triangles.length * 3;
-const indexBuffer = device.createBuffer({
-  label: 'model index buffer',
-  size: indexCount * Uint16Array.BYTES_PER_ELEMENT,
-  usage: GPUBufferUsage.INDEX,
-  mappedAtCreation: true,
-});
-{
-  const mapping = new Uint16Array(indexBuffer.getMappedRange());
-  for (let i = 0; i < mesh.triangles.length; ++i) {
-    mapping.set(mesh.triangles[i], 3 * i);
+const dragonModel = createModel(
+  new Float32Array(
+    mesh.positions.flatMap((position, i) => [
+      ...position,
+      ...mesh.normals[i],
+      ...mesh.uvs[i],
+    ])
+  ),
+  new Uint16Array(mesh.triangles.flat())
+);
+let model = dragonModel;
+
+// Loaded models are scaled to about the size of the dragon and stand on a
+// ground plane like the dragon's
+const kLoadedModelSize = 100;
+const kGroundHeight = 20;
+const kGroundHalfSize = 100;
+
+function createModelFromMesh(loaded: Mesh): Model {
+  const floatsPerVertex = loaded.vertexStride / 4;
+  const vertexCount = loaded.vertices.length / floatsPerVertex;
+  const positions: [number, number, number][] = [];
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < vertexCount; ++i) {
+    const position: [number, number, number] = [0, 0, 0];
+    for (let c = 0; c < 3; ++c) {
+      position[c] = loaded.vertices[i * floatsPerVertex + c];
+      min[c] = Math.min(min[c], position[c]);
+      max[c] = Math.max(max[c], position[c]);
+    }
+    positions.push(position);
   }
-  indexBuffer.unmap();
+  const scale =
+    kLoadedModelSize /
+    Math.max(max[0] - min[0], max[1] - min[1], max[2] - min[2], 1e-6);
+  // Centered above the origin, with its lowest point on the ground
+  const offset = [
+    -scale * (min[0] + max[0]) * 0.5,
+    kGroundHeight - scale * min[1],
+    -scale * (min[2] + max[2]) * 0.5,
+  ];
+  // Projected like the dragon's so the checkerboard looks the same, whatever
+  // uvs the file has
+  const uvs = computeProjectedPlaneUVs(positions, 'xy');
+
+  const vertices = new Float32Array((vertexCount + 4) * kVertexStride);
+  for (let i = 0; i < vertexCount; ++i) {
+    for (let c = 0; c < 3; ++c) {
+      vertices[kVertexStride * i + c] = positions[i][c] * scale + offset[c];
+      vertices[kVertexStride * i + 3 + c] =
+        loaded.vertices[i * floatsPerVertex + 3 + c];
+    }
+    vertices.set(uvs[i], kVertexStride * i + 6);
+  }
+  // prettier-ignore
+  vertices.set([
+    -kGroundHalfSize, kGroundHeight, -kGroundHalfSize, 0, 1, 0, 0, 0,
+     kGroundHalfSize, kGroundHeight,  kGroundHalfSize, 0, 1, 0, 1, 1,
+    -kGroundHalfSize, kGroundHeight,  kGroundHalfSize, 0, 1, 0, 0, 1,
+     kGroundHalfSize, kGroundHeight, -kGroundHalfSize, 0, 1, 0, 1, 0,
+  ], kVertexStride * vertexCount);
+
+  const indices = Array.from(loaded.indices);
+  indices.push(...[0, 2, 1, 0, 1, 3].map((corner) => vertexCount + corner));
+  return createModel(vertices, createIndexArray(indices, vertexCount + 4));
+}
+
+// Models loaded from .obj, .ply or .stl files replace the dragon until it's
+// picked again
+function setModel(newModel: Model) {
+  if (model !== dragonModel) {
+    model.vertexBuffer.destroy();
+    model.indexBuffer.destroy();
+  }
+  model = newModel;
 }
 
+const modelFileInput = document.createElement('input');
+modelFileInput.type = 'file';
+modelFileInput.accept = kMeshFileExtensions.join(',');
+modelFileInput.addEventListener('change', async () => {
+  const file = modelFileInput.files?.[0];
+  modelFileInput.value = '';
+  if (!file) {
+    return;
+  }
+  try {
+    setModel(createModelFromMesh(await loadMesh(file)));
+  } catch (error) {
+    console.error('Failed to load the model:', error);
+    alert(`Failed to load ${file.name}: ${error}`);
+  }
+});
+
 // GBuffer texture render targets
 const gBufferTexture2DFloat16 = device.createTexture({
   size: [canvas.width, canvas.height],
@@ -97,7 +203,7 @@ const gBufferTextureViews = [
 
 const vertexBuffers: Iterable<GPUVertexBufferLayout> = [
   {
-    arrayStride: Float32Array.BYTES_PER_ELEMENT * 8,
+    arrayStride: Float32Array.BYTES_PER_ELEMENT * kVertexStride,
     attributes: [
       {
         // position
@@ -316,6 +422,12 @@ const configUniformBuffer = (() => {
 
 const gui = new GUI();
 gui.add(settings, 'mode', ['rendering', 'gBuffers view']);
+gui
+  .add({ loadModel: () => modelFileInput.click() }, 'loadModel')
+  .name(`Load model (${kMeshFileExtensions.join(', ')})`);
+gui
+  .add({ useDragon: () => setModel(dragonModel) }, 'useDragon')
+  .name('Stanford dragon');
 gui
   .add(settings, 'numLights', 1, kMaxNumLights)
   .step(1)
@@ -543,9 +655,9 @@ function frame() {
     );
     gBufferPass.setPipeline(writeGBuffersPipeline);
     gBufferPass.setBindGroup(0, sceneUniformBindGroup);
-    gBufferPass.setVertexBuffer(0, vertexBuffer);
-    gBufferPass.setIndexBuffer(indexBuffer, 'uint16');
-    gBufferPass.drawIndexed(indexCount);
+    gBufferPass.setVertexBuffer(0, model.vertexBuffer);
+    gBufferPass.setIndexBuffer(model.indexBuffer, model.indexFormat);
+    gBufferPass.drawIndexed(model.indexCount);
     gBufferPass.end();
   }
   {
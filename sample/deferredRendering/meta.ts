@@ -8,6 +8,7 @@ export default {
     We also update light position in a compute shader, where further operations like tile/cluster culling could happen.
     The debug view shows the depth buffer on the left (flipped and scaled a bit to make it more visible), the normal G buffer
     in the middle, and the albedo G-buffer on the right side of the screen.
+    The Stanford dragon can be replaced with a .obj, .ply or .stl model loaded from a file.
     `,
   filename: __DIRNAME__,
   sources: [
@@ -0,0 +1,243 @@
+/**
+ * Utility functions for loading camera metadata sidecars for G-Buffer sequences
+ */
+import { mat4, vec3, Mat4, Vec3 } from 'wgpu-matrix';
+import { SequenceFiles } from './sequenceFiles';
+
+/**
+ * Camera description as exported from the DCC tool that rendered the frames.
+ * Either the matrices or a look-at camera can be given. Matrices are 16 numbers
+ * in column-major order and the projection must map depth to WebGPU's [0, 1].
+ */
+export interface CameraMetadata {
+  viewMatrix?: number[];
+  projectionMatrix?: number[];
+  eye?: number[];
+  target?: number[];
+  up?: number[];
+  fov?: number; // Vertical field of view in degrees
+  near?: number;
+  far?: number;
+  aspect?: number; // Defaults to the image aspect ratio
+}
+
+/**
+ * Layout of the per-sequence `camera.json` sidecar
+ */
+export interface CameraSequenceMetadata extends CameraMetadata {
+  // Per-frame overrides keyed by frame number
+  frames?: { [frame: string]: CameraMetadata };
+  // Also look for a kCameraFramePattern file next to each frame
+  perFrameFiles?: boolean;
+}
+
+// File name pattern of the per-frame sidecars, numbered like the images with
+// the sequence's frameStart and padding
+export const kCameraFramePattern = '0000.{frame}.camera.json';
+
+export interface ResolvedCamera {
+  viewMatrix: Mat4;
+  projectionMatrix: Mat4;
+  viewProjectionMatrix: Mat4;
+  position: Vec3;
+}
+
+// Camera used when a sequence ships without metadata
+const kDefaultCamera: CameraMetadata = {
+  eye: [0, 50, -100],
+  target: [0, 0, 0],
+  up: [0, 1, 0],
+  fov: 72,
+  near: 1,
+  far: 2000,
+};
+
+/**
+ * Apply an override on top of a base camera. A look-at or lens given by the
+ * override replaces an inherited matrix, and vice versa.
+ */
+function mergeCamera(
+  base: CameraMetadata,
+  override: CameraMetadata
+): CameraMetadata {
+  const merged: CameraMetadata = { ...base };
+  if (override.eye || override.target || override.up) {
+    delete merged.viewMatrix;
+  }
+  if (override.viewMatrix) {
+    delete merged.eye;
+    delete merged.target;
+    delete merged.up;
+  }
+  const lens = [override.fov, override.near, override.far, override.aspect];
+  if (lens.some((value) => value !== undefined)) {
+    delete merged.projectionMatrix;
+  }
+  if (override.projectionMatrix) {
+    delete merged.fov;
+    delete merged.near;
+    delete merged.far;
+    delete merged.aspect;
+  }
+
+  for (const [key, value] of Object.entries(override)) {
+    if (value !== undefined) {
+      (merged as Record<string, unknown>)[key] = value;
+    }
+  }
+  return merged;
+}
+
+function checkMatrix(name: string, values: number[]): Mat4 {
+  if (values.length !== 16) {
+    throw new Error(
+      `Camera ${name} must have 16 elements, got ${values.length}`
+    );
+  }
+  return mat4.copy(values);
+}
+
+function resolveCamera(
+  camera: CameraMetadata,
+  imageAspect: number
+): ResolvedCamera {
+  const viewMatrix = camera.viewMatrix
+    ? checkMatrix('viewMatrix', camera.viewMatrix)
+    : mat4.lookAt(
+        camera.eye ?? kDefaultCamera.eye,
+        camera.target ?? kDefaultCamera.target,
+        camera.up ?? kDefaultCamera.up
+      );
+
+  const projectionMatrix = camera.projectionMatrix
+    ? checkMatrix('projectionMatrix', camera.projectionMatrix)
+    : mat4.perspective(
+        ((camera.fov ?? kDefaultCamera.fov) * Math.PI) / 180,
+        camera.aspect ?? imageAspect,
+        camera.near ?? kDefaultCamera.near,
+        camera.far ?? kDefaultCamera.far
+      );
+
+  // The eye is the translation of the camera-to-world matrix
+  const cameraToWorld = mat4.invert(viewMatrix);
+  const position = vec3.fromValues(
+    cameraToWorld[12],
+    cameraToWorld[13],
+    cameraToWorld[14]
+  );
+
+  return {
+    viewMatrix,
+    projectionMatrix,
+    viewProjectionMatrix: mat4.multiply(projectionMatrix, viewMatrix),
+    position,
+  };
+}
+
+/**
+ * Fetch a JSON file of a sequence, returning undefined if it does not exist
+ */
+export async function fetchOptionalJSON<T>(
+  files: SequenceFiles,
+  path: string
+): Promise<T | undefined> {
+  let response: Response;
+  try {
+    response = await files.fetch(path);
+  } catch {
+    return undefined;
+  }
+  if (!response.ok) {
+    return undefined;
+  }
+  return (await response.json()) as T;
+}
+
+/**
+ * Per-frame camera lookup for an image sequence
+ */
+export class CameraSequence {
+  private files: SequenceFiles;
+  private metadata: CameraSequenceMetadata;
+  private imageAspect: number;
+  private frameFiles: Map<number, CameraMetadata | undefined> = new Map();
+  private resolved: Map<number, ResolvedCamera> = new Map();
+
+  constructor(
+    files: SequenceFiles,
+    metadata: CameraSequenceMetadata | undefined,
+    imageAspect: number
+  ) {
+    this.files = files;
+    this.metadata = metadata ?? {};
+    this.imageAspect = imageAspect;
+  }
+
+  /**
+   * Whether the sequence came with camera metadata
+   */
+  hasMetadata(): boolean {
+    return Object.keys(this.metadata).length > 0;
+  }
+
+  /**
+   * Fetch the per-frame sidecar, if the sequence uses them
+   * @param frameNumber the playback index of the frame
+   * @param path the sidecar's file name, kCameraFramePattern expanded with
+   * the frame's number in the file names
+   */
+  async loadFrame(frameNumber: number, path: string): Promise<void> {
+    if (!this.metadata.perFrameFiles || this.frameFiles.has(frameNumber)) {
+      return;
+    }
+
+    const camera = await fetchOptionalJSON<CameraMetadata>(this.files, path);
+    this.frameFiles.set(frameNumber, camera);
+    this.resolved.delete(frameNumber);
+  }
+
+  /**
+   * Get the camera for a frame. Per-frame files override the `frames` table,
+   * which overrides the sequence camera.
+   */
+  getCamera(frameNumber: number): ResolvedCamera {
+    let camera = this.resolved.get(frameNumber);
+    if (camera) {
+      return camera;
+    }
+
+    const { frames, perFrameFiles, ...sequenceCamera } = this.metadata;
+    let merged = mergeCamera(kDefaultCamera, sequenceCamera);
+    const frameCamera = frames?.[frameNumber.toString()];
+    if (frameCamera) {
+      merged = mergeCamera(merged, frameCamera);
+    }
+    const fileCamera = this.frameFiles.get(frameNumber);
+    if (fileCamera) {
+      merged = mergeCamera(merged, fileCamera);
+    }
+
+    camera = resolveCamera(merged, this.imageAspect);
+    this.resolved.set(frameNumber, camera);
+    return camera;
+  }
+}
+
+/**
+ * Load the optional `camera.json` sidecar for a sequence
+ */
+export async function loadCameraSequence(
+  files: SequenceFiles,
+  imageAspect: number
+): Promise<CameraSequence> {
+  const metadata = await fetchOptionalJSON<CameraSequenceMetadata>(
+    files,
+    'camera.json'
+  );
+  if (metadata) {
+    console.log('Loaded camera metadata from camera.json');
+  } else {
+    console.log('No camera.json found, using default camera');
+  }
+  return new CameraSequence(files, metadata, imageAspect);
+}
@@ -0,0 +1,146 @@
+/**
+ * Shared helpers for images decoded in TypeScript (16-bit PNG, OpenEXR,
+ * Radiance HDR)
+ */
+
+/**
+ * Decoded pixels, interleaved, one float per sample
+ */
+export interface DecodedImage {
+  width: number;
+  height: number;
+  channels: number; // 1 to 4
+  data: Float32Array;
+}
+
+/**
+ * Decompress zlib data with the browser's DecompressionStream
+ */
+export async function inflate(chunks: Uint8Array[]): Promise<Uint8Array> {
+  const stream = new Blob(chunks)
+    .stream()
+    .pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+const floatView = new Float32Array(1);
+const uint32View = new Uint32Array(floatView.buffer);
+
+/**
+ * Convert a float to IEEE half precision bits (round to nearest)
+ */
+export function float32ToFloat16(value: number): number {
+  floatView[0] = value;
+  const bits = uint32View[0];
+
+  const sign = (bits >>> 16) & 0x8000;
+  const exponent = (bits >>> 23) & 0xff;
+  let mantissa = bits & 0x7fffff;
+
+  // NaN and infinity
+  if (exponent === 0xff) {
+    return sign | 0x7c00 | (mantissa ? 0x200 : 0);
+  }
+
+  const halfExponent = exponent - 127 + 15;
+  if (halfExponent >= 0x1f) {
+    return sign | 0x7c00;
+  }
+  if (halfExponent <= 0) {
+    // Denormal or zero
+    if (halfExponent < -10) {
+      return sign;
+    }
+    mantissa |= 0x800000;
+    const shift = 14 - halfExponent;
+    const rounded = (mantissa + (1 << (shift - 1))) >> shift;
+    return sign | rounded;
+  }
+
+  const rounded = (halfExponent << 10) | (mantissa >> 13);
+  // Carry from rounding correctly bumps the exponent
+  return sign | (rounded + ((mantissa >> 12) & 1));
+}
+
+/**
+ * Convert IEEE half precision bits to a float
+ */
+export function float16ToFloat32(bits: number): number {
+  const sign = bits & 0x8000 ? -1 : 1;
+  const exponent = (bits >> 10) & 0x1f;
+  const mantissa = bits & 0x3ff;
+
+  if (exponent === 0) {
+    return sign * Math.pow(2, -14) * (mantissa / 1024);
+  }
+  if (exponent === 0x1f) {
+    return mantissa ? NaN : sign * Infinity;
+  }
+  return sign * Math.pow(2, exponent - 15) * (1 + mantissa / 1024);
+}
+
+/**
+ * Number of components and bytes per texel of the float formats we upload to
+ */
+export function describeFloatFormat(format: GPUTextureFormat): {
+  components: number;
+  bytesPerComponent: number;
+} {
+  switch (format) {
+    case 'r16float':
+      return { components: 1, bytesPerComponent: 2 };
+    case 'rgba16float':
+      return { components: 4, bytesPerComponent: 2 };
+    case 'r32float':
+      return { components: 1, bytesPerComponent: 4 };
+    case 'rgba32float':
+      return { components: 4, bytesPerComponent: 4 };
+    default:
+      throw new Error(`Unsupported float texture format: ${format}`);
+  }
+}
+
+/**
+ * Repack a decoded image into the layout of a float texture format.
+ * Grayscale expands to RGB, missing alpha is 1, and single-component
+ * formats keep the first sample.
+ */
+export function packForFormat(
+  image: DecodedImage,
+  format: GPUTextureFormat
+): Uint16Array | Float32Array {
+  const { components, bytesPerComponent } = describeFloatFormat(format);
+  const pixelCount = image.width * image.height;
+  const src = image.data;
+  const srcChannels = image.channels;
+
+  const out = new Float32Array(pixelCount * components);
+  for (let i = 0; i < pixelCount; i++) {
+    const s = i * srcChannels;
+    const d = i * components;
+    if (components === 1) {
+      out[d] = src[s];
+      continue;
+    }
+
+    if (srcChannels <= 2) {
+      out[d] = out[d + 1] = out[d + 2] = src[s];
+      out[d + 3] = srcChannels === 2 ? src[s + 1] : 1;
+    } else {
+      out[d] = src[s];
+      out[d + 1] = src[s + 1];
+      out[d + 2] = src[s + 2];
+      out[d + 3] = srcChannels === 4 ? src[s + 3] : 1;
+    }
+  }
+
+  if (bytesPerComponent === 4) {
+    return out;
+  }
+
+  const half = new Uint16Array(out.length);
+  for (let i = 0; i < out.length; i++) {
+    half[i] = float32ToFloat16(out[i]);
+  }
+  return half;
+}
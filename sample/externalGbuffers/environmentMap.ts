@@ -0,0 +1,406 @@
+/**
+ * Image-based lighting from an equirectangular environment: the GGX
+ * prefiltered specular levels, diffuse irradiance and split-sum BRDF lookup
+ * table the lighting pass samples, all built on the GPU
+ */
+import vertexTextureQuad from './vertexTextureQuad.wgsl';
+import environmentPrefilter from './environmentPrefilter.wgsl';
+import { DecodedImage, packForFormat } from './decodedImage';
+import { decodeHDR } from './hdrDecoder';
+
+// Specular levels from mirror (0) to fully rough (last)
+export const kEnvironmentSpecularLevels = 6;
+const kSpecularSize = [512, 256];
+const kIrradianceSize = [64, 32];
+const kBRDFLUTSize = 128;
+
+const kEnvironmentFormat: GPUTextureFormat = 'rgba16float';
+const kBRDFLUTFormat: GPUTextureFormat = 'rg16float';
+
+// Samples per texel of each precomputed map
+const kSpecularSampleCount = 256;
+const kIrradianceSampleCount = 512;
+const kBRDFLUTSampleCount = 512;
+
+export interface EnvironmentSettings {
+  enabled: boolean;
+  intensity: number;
+  rotation: number; // Degrees around +Y
+}
+
+function mipLevelCount(width: number, height: number) {
+  return Math.floor(Math.log2(Math.max(width, height))) + 1;
+}
+
+export class EnvironmentLighting {
+  private device: GPUDevice;
+  readonly bindGroupLayout: GPUBindGroupLayout;
+  private bindGroup: GPUBindGroup;
+  private uniformBuffer: GPUBuffer;
+  private uniformData = new ArrayBuffer(8 * 4);
+  private environmentSampler: GPUSampler;
+  private lutSampler: GPUSampler;
+  private brdfLUT: GPUTexture;
+  private specularTexture: GPUTexture;
+  private irradianceTexture: GPUTexture;
+
+  private prefilterBindGroupLayout: GPUBindGroupLayout;
+  private prefilterModule: GPUShaderModule;
+  private pipelines = new Map<string, GPURenderPipeline>();
+  private loaded = false;
+
+  constructor(device: GPUDevice) {
+    this.device = device;
+    this.bindGroupLayout = device.createBindGroupLayout({
+      label: 'environment lighting',
+      entries: [
+        {
+          binding: 0,
+          visibility: GPUShaderStage.FRAGMENT,
+          buffer: { type: 'uniform' },
+        },
+        {
+          binding: 1,
+          visibility: GPUShaderStage.FRAGMENT,
+          sampler: { type: 'filtering' },
+        },
+        {
+          binding: 2,
+          visibility: GPUShaderStage.FRAGMENT,
+          texture: { sampleType: 'float' },
+        },
+        {
+          binding: 3,
+          visibility: GPUShaderStage.FRAGMENT,
+          texture: { sampleType: 'float' },
+        },
+        {
+          binding: 4,
+          visibility: GPUShaderStage.FRAGMENT,
+          texture: { sampleType: 'float' },
+        },
+        {
+          binding: 5,
+          visibility: GPUShaderStage.FRAGMENT,
+          sampler: { type: 'filtering' },
+        },
+      ],
+    });
+    this.prefilterBindGroupLayout = device.createBindGroupLayout({
+      label: 'environment prefilter',
+      entries: [
+        {
+          binding: 0,
+          visibility: GPUShaderStage.FRAGMENT,
+          texture: { sampleType: 'float' },
+        },
+        {
+          binding: 1,
+          visibility: GPUShaderStage.FRAGMENT,
+          sampler: { type: 'filtering' },
+        },
+        {
+          binding: 2,
+          visibility: GPUShaderStage.FRAGMENT,
+          buffer: { type: 'uniform' },
+        },
+      ],
+    });
+    this.prefilterModule = device.createShaderModule({
+      code: environmentPrefilter,
+    });
+
+    this.uniformBuffer = device.createBuffer({
+      label: 'environment uniforms',
+      // rotation (cos, sin), intensity, specularLevels, enabled
+      size: this.uniformData.byteLength,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+    });
+    // Equirectangular maps wrap around horizontally only
+    this.environmentSampler = device.createSampler({
+      label: 'environment sampler',
+      addressModeU: 'repeat',
+      addressModeV: 'clamp-to-edge',
+      magFilter: 'linear',
+      minFilter: 'linear',
+      mipmapFilter: 'linear',
+    });
+    this.lutSampler = device.createSampler({
+      label: 'brdf lut sampler',
+      magFilter: 'linear',
+      minFilter: 'linear',
+    });
+
+    // Black placeholders until an environment is loaded
+    this.specularTexture = this.createPlaceholder();
+    this.irradianceTexture = this.createPlaceholder();
+
+    // The lookup table doesn't depend on the environment, so build it once.
+    // Its pass doesn't sample the source, any placeholder will do.
+    this.brdfLUT = device.createTexture({
+      label: 'brdf lut',
+      size: [kBRDFLUTSize, kBRDFLUTSize],
+      format: kBRDFLUTFormat,
+      usage:
+        GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.TEXTURE_BINDING,
+    });
+    const commandEncoder = device.createCommandEncoder();
+    this.encodePrefilterPass(commandEncoder, {
+      entryPoint: 'brdfLUT',
+      source: this.specularTexture,
+      target: this.brdfLUT.createView(),
+      targetSize: [kBRDFLUTSize, kBRDFLUTSize],
+      sampleCount: kBRDFLUTSampleCount,
+    });
+    device.queue.submit([commandEncoder.finish()]);
+
+    this.bindGroup = this.createBindGroup();
+    this.update({ enabled: false, intensity: 1, rotation: 0 });
+  }
+
+  /**
+   * Bind group for the lighting pass's environment group
+   */
+  getBindGroup(): GPUBindGroup {
+    return this.bindGroup;
+  }
+
+  /**
+   * Whether an environment has been loaded
+   */
+  isLoaded(): boolean {
+    return this.loaded;
+  }
+
+  /**
+   * Write the rotation and intensity uniforms. Lighting stays off until an
+   * environment is loaded.
+   */
+  update(settings: EnvironmentSettings): void {
+    const angle = (settings.rotation * Math.PI) / 180;
+    const floats = new Float32Array(this.uniformData);
+    floats[0] = Math.cos(angle);
+    floats[1] = Math.sin(angle);
+    floats[2] = settings.intensity;
+    floats[3] = this.specularTexture.mipLevelCount;
+    new Uint32Array(this.uniformData)[4] =
+      settings.enabled && this.loaded ? 1 : 0;
+    this.device.queue.writeBuffer(this.uniformBuffer, 0, this.uniformData);
+  }
+
+  /**
+   * Decode a Radiance .hdr file and build the lighting maps from it
+   */
+  loadHDR(buffer: ArrayBuffer): void {
+    this.load(decodeHDR(buffer));
+  }
+
+  /**
+   * Build the prefiltered specular and irradiance maps from an
+   * equirectangular image, replacing the previous environment
+   */
+  load(image: DecodedImage): void {
+    const { width, height } = image;
+    const maxSize = this.device.limits.maxTextureDimension2D;
+    if (width > maxSize || height > maxSize) {
+      throw new Error(
+        `Environment is ${width}x${height}, larger than this device's ${maxSize} limit`
+      );
+    }
+
+    // Upload with a full mip chain, which the prefilter passes sample to
+    // keep their sample counts low
+    const source = this.device.createTexture({
+      label: 'environment source',
+      size: [width, height],
+      format: kEnvironmentFormat,
+      mipLevelCount: mipLevelCount(width, height),
+      usage:
+        GPUTextureUsage.RENDER_ATTACHMENT |
+        GPUTextureUsage.TEXTURE_BINDING |
+        GPUTextureUsage.COPY_DST,
+    });
+    const data = packForFormat(image, kEnvironmentFormat);
+    this.device.queue.writeTexture(
+      { texture: source },
+      data,
+      { bytesPerRow: (data.byteLength / height) | 0 },
+      { width, height }
+    );
+
+    const specularTexture = this.device.createTexture({
+      label: 'environment specular',
+      size: kSpecularSize,
+      format: kEnvironmentFormat,
+      mipLevelCount: kEnvironmentSpecularLevels,
+      usage:
+        GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.TEXTURE_BINDING,
+    });
+    const irradianceTexture = this.device.createTexture({
+      label: 'environment irradiance',
+      size: kIrradianceSize,
+      format: kEnvironmentFormat,
+      usage:
+        GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.TEXTURE_BINDING,
+    });
+
+    const commandEncoder = this.device.createCommandEncoder();
+    for (let level = 1; level < source.mipLevelCount; level++) {
+      this.encodePrefilterPass(commandEncoder, {
+        entryPoint: 'downsample',
+        source,
+        sourceLevel: level - 1,
+        target: source.createView({ baseMipLevel: level, mipLevelCount: 1 }),
+        targetSize: [Math.max(width >> level, 1), Math.max(height >> level, 1)],
+      });
+    }
+    for (let level = 0; level < kEnvironmentSpecularLevels; level++) {
+      this.encodePrefilterPass(commandEncoder, {
+        entryPoint: 'prefilterSpecular',
+        source,
+        target: specularTexture.createView({
+          baseMipLevel: level,
+          mipLevelCount: 1,
+        }),
+        targetSize: [kSpecularSize[0] >> level, kSpecularSize[1] >> level],
+        roughness: level / (kEnvironmentSpecularLevels - 1),
+        sampleCount: kSpecularSampleCount,
+      });
+    }
+    this.encodePrefilterPass(commandEncoder, {
+      entryPoint: 'irradiance',
+      source,
+      target: irradianceTexture.createView(),
+      targetSize: kIrradianceSize,
+      sampleCount: kIrradianceSampleCount,
+    });
+    this.device.queue.submit([commandEncoder.finish()]);
+    source.destroy();
+
+    this.specularTexture.destroy();
+    this.irradianceTexture.destroy();
+    this.specularTexture = specularTexture;
+    this.irradianceTexture = irradianceTexture;
+    this.bindGroup = this.createBindGroup();
+    this.loaded = true;
+  }
+
+  private createPlaceholder(): GPUTexture {
+    return this.device.createTexture({
+      label: 'environment placeholder',
+      size: [1, 1],
+      format: kEnvironmentFormat,
+      usage: GPUTextureUsage.TEXTURE_BINDING,
+    });
+  }
+
+  private createBindGroup(): GPUBindGroup {
+    return this.device.createBindGroup({
+      layout: this.bindGroupLayout,
+      entries: [
+        { binding: 0, resource: { buffer: this.uniformBuffer } },
+        { binding: 1, resource: this.environmentSampler },
+        { binding: 2, resource: this.specularTexture.createView() },
+        { binding: 3, resource: this.irradianceTexture.createView() },
+        { binding: 4, resource: this.brdfLUT.createView() },
+        { binding: 5, resource: this.lutSampler },
+      ],
+    });
+  }
+
+  private getPipeline(
+    entryPoint: string,
+    format: GPUTextureFormat
+  ): GPURenderPipeline {
+    const key = `${entryPoint}.${format}`;
+    let pipeline = this.pipelines.get(key);
+    if (!pipeline) {
+      pipeline = this.device.createRenderPipeline({
+        label: `environment ${entryPoint}`,
+        layout: this.device.createPipelineLayout({
+          bindGroupLayouts: [this.prefilterBindGroupLayout],
+        }),
+        vertex: {
+          module: this.device.createShaderModule({
+            code: vertexTextureQuad,
+          }),
+        },
+        fragment: {
+          module: this.prefilterModule,
+          entryPoint,
+          targets: [{ format }],
+        },
+      });
+      this.pipelines.set(key, pipeline);
+    }
+    return pipeline;
+  }
+
+  /**
+   * Render one fullscreen prefilter pass into a single target mip level
+   */
+  private encodePrefilterPass(
+    commandEncoder: GPUCommandEncoder,
+    pass: {
+      entryPoint: string;
+      source: GPUTexture;
+      sourceLevel?: number; // Sample only this level, else all of them
+      target: GPUTextureView;
+      targetSize: number[];
+      roughness?: number;
+      sampleCount?: number;
+    }
+  ): void {
+    const { source, sourceLevel } = pass;
+    const sourceView =
+      sourceLevel === undefined
+        ? source.createView()
+        : source.createView({ baseMipLevel: sourceLevel, mipLevelCount: 1 });
+
+    // Each pass gets its own parameters, as they are all submitted together
+    const paramsBuffer = this.device.createBuffer({
+      label: `environment ${pass.entryPoint} params`,
+      size: 8 * 4, // PrefilterParams, padded
+      usage: GPUBufferUsage.UNIFORM,
+      mappedAtCreation: true,
+    });
+    const mapped = paramsBuffer.getMappedRange();
+    new Float32Array(mapped).set([
+      pass.targetSize[0],
+      pass.targetSize[1],
+      source.width,
+      source.height,
+      sourceLevel === undefined ? source.mipLevelCount : 1,
+      pass.roughness ?? 0,
+    ]);
+    new Uint32Array(mapped)[6] = pass.sampleCount ?? 1;
+    paramsBuffer.unmap();
+
+    const format =
+      pass.entryPoint === 'brdfLUT' ? kBRDFLUTFormat : kEnvironmentFormat;
+    const renderPass = commandEncoder.beginRenderPass({
+      colorAttachments: [
+        {
+          view: pass.target,
+          clearValue: [0, 0, 0, 1],
+          loadOp: 'clear',
+          storeOp: 'store',
+        },
+      ],
+    });
+    renderPass.setPipeline(this.getPipeline(pass.entryPoint, format));
+    renderPass.setBindGroup(
+      0,
+      this.device.createBindGroup({
+        layout: this.prefilterBindGroupLayout,
+        entries: [
+          { binding: 0, resource: sourceView },
+          { binding: 1, resource: this.environmentSampler },
+          { binding: 2, resource: { buffer: paramsBuffer } },
+        ],
+      })
+    );
+    renderPass.draw(3);
+    renderPass.end();
+  }
+}
@@ -0,0 +1,162 @@
+// Image-based lighting precomputation, one fullscreen pass per target:
+// mip downsampling of the equirectangular environment, GGX prefiltered
+// specular levels, diffuse irradiance and the split-sum BRDF lookup table.
+
+@group(0) @binding(0) var source: texture_2d<f32>;
+@group(0) @binding(1) var sourceSampler: sampler;
+@group(0) @binding(2) var<uniform> params: PrefilterParams;
+
+struct PrefilterParams {
+  targetSize: vec2f,
+  sourceSize: vec2f, // Of the source's first mip level
+  sourceLevels: f32,
+  roughness: f32,
+  sampleCount: u32,
+}
+
+const PI: f32 = 3.14159265359;
+
+// Equirectangular mapping: +Y is up, u = 0.5 looks down -Z
+fn direction_from_uv(uv: vec2f) -> vec3f {
+  let phi = (uv.x - 0.5) * 2.0 * PI;
+  let theta = uv.y * PI;
+  return vec3f(sin(theta) * sin(phi), cos(theta), -sin(theta) * cos(phi));
+}
+
+fn uv_from_direction(direction: vec3f) -> vec2f {
+  return vec2f(
+    atan2(direction.x, -direction.z) / (2.0 * PI) + 0.5,
+    acos(clamp(direction.y, -1.0, 1.0)) / PI,
+  );
+}
+
+fn hammersley(i: u32, count: u32) -> vec2f {
+  return vec2f(f32(i) / f32(count), f32(reverseBits(i)) * 2.3283064365386963e-10);
+}
+
+// Rotate a tangent-space sample around a normal
+fn tangent_to_world(local: vec3f, N: vec3f) -> vec3f {
+  let up = select(vec3f(1.0, 0.0, 0.0), vec3f(0.0, 0.0, 1.0), abs(N.z) < 0.999);
+  let tangent = normalize(cross(up, N));
+  let bitangent = cross(N, tangent);
+  return tangent * local.x + bitangent * local.y + N * local.z;
+}
+
+fn importance_sample_ggx(xi: vec2f, N: vec3f, roughness: f32) -> vec3f {
+  let a = roughness * roughness;
+  let phi = 2.0 * PI * xi.x;
+  let cosTheta = sqrt((1.0 - xi.y) / (1.0 + (a * a - 1.0) * xi.y));
+  let sinTheta = sqrt(1.0 - cosTheta * cosTheta);
+  return tangent_to_world(vec3f(cos(phi) * sinTheta, sin(phi) * sinTheta, cosTheta), N);
+}
+
+fn distribution_ggx(NdotH: f32, roughness: f32) -> f32 {
+  let a = roughness * roughness;
+  let a2 = a * a;
+  let d = NdotH * NdotH * (a2 - 1.0) + 1.0;
+  return a2 / (PI * d * d);
+}
+
+// Source mip whose texels cover the solid angle of one sample, which keeps
+// a few hundred samples free of noise (filtered importance sampling)
+fn source_level(pdf: f32, direction: vec3f) -> f32 {
+  let sinTheta = max(sqrt(1.0 - direction.y * direction.y), 1e-4);
+  let texelSolidAngle =
+    (2.0 * PI / params.sourceSize.x) * (PI / params.sourceSize.y) * sinTheta;
+  let sampleSolidAngle = 1.0 / (f32(params.sampleCount) * pdf + 1e-6);
+  return clamp(0.5 * log2(sampleSolidAngle / texelSolidAngle) + 1.0, 0.0, params.sourceLevels - 1.0);
+}
+
+fn target_uv(coord: vec4f) -> vec2f {
+  return coord.xy / params.targetSize;
+}
+
+// Next mip level, from a view of the previous one. Bilinear filtering at
+// the target texel center averages the 2x2 source texels.
+@fragment
+fn downsample(@builtin(position) coord: vec4f) -> @location(0) vec4f {
+  return textureSampleLevel(source, sourceSampler, target_uv(coord), 0.0);
+}
+
+// Radiance convolved with the GGX lobe of one roughness, assuming the view
+// direction equals the normal
+@fragment
+fn prefilterSpecular(@builtin(position) coord: vec4f) -> @location(0) vec4f {
+  let N = direction_from_uv(target_uv(coord));
+  if (params.roughness <= 0.0) {
+    // Mirror reflections only need the source reduced to the target size
+    let level = max(log2(params.sourceSize.x / params.targetSize.x), 0.0);
+    return vec4f(textureSampleLevel(source, sourceSampler, target_uv(coord), level).rgb, 1.0);
+  }
+
+  var color = vec3f(0.0);
+  var weight = 0.0;
+  for (var i = 0u; i < params.sampleCount; i++) {
+    let H = importance_sample_ggx(hammersley(i, params.sampleCount), N, params.roughness);
+    let L = normalize(2.0 * dot(N, H) * H - N);
+    let NdotL = dot(N, L);
+    if (NdotL > 0.0) {
+      // With V = N, the pdf of L is D / 4
+      let NdotH = max(dot(N, H), 0.0);
+      let pdf = distribution_ggx(NdotH, params.roughness) / 4.0;
+      let level = source_level(pdf, L);
+      color += textureSampleLevel(source, sourceSampler, uv_from_direction(L), level).rgb * NdotL;
+      weight += NdotL;
+    }
+  }
+  return vec4f(color / max(weight, 1e-4), 1.0);
+}
+
+// Cosine-weighted radiance over the hemisphere, E / PI, so the diffuse term
+// is albedo times this value
+@fragment
+fn irradiance(@builtin(position) coord: vec4f) -> @location(0) vec4f {
+  let N = direction_from_uv(target_uv(coord));
+  var color = vec3f(0.0);
+  for (var i = 0u; i < params.sampleCount; i++) {
+    let xi = hammersley(i, params.sampleCount);
+    // Cosine-weighted hemisphere sample
+    let phi = 2.0 * PI * xi.x;
+    let cosTheta = sqrt(1.0 - xi.y);
+    let sinTheta = sqrt(xi.y);
+    let L = tangent_to_world(vec3f(cos(phi) * sinTheta, sin(phi) * sinTheta, cosTheta), N);
+    let pdf = max(cosTheta, 1e-4) / PI;
+    color += textureSampleLevel(source, sourceSampler, uv_from_direction(L), source_level(pdf, L)).rgb;
+  }
+  return vec4f(color / f32(params.sampleCount), 1.0);
+}
+
+fn geometry_schlick_ggx(NdotV: f32, roughness: f32) -> f32 {
+  // k for image-based lighting
+  let k = roughness * roughness / 2.0;
+  return NdotV / (NdotV * (1.0 - k) + k);
+}
+
+// Split-sum scale and bias applied to F0, indexed by NdotV (u) and
+// roughness (v)
+@fragment
+fn brdfLUT(@builtin(position) coord: vec4f) -> @location(0) vec4f {
+  let uv = target_uv(coord);
+  let NdotV = max(uv.x, 1e-3);
+  let roughness = uv.y;
+  let V = vec3f(sqrt(1.0 - NdotV * NdotV), 0.0, NdotV);
+  let N = vec3f(0.0, 0.0, 1.0);
+
+  var scale = 0.0;
+  var bias = 0.0;
+  for (var i = 0u; i < params.sampleCount; i++) {
+    let H = importance_sample_ggx(hammersley(i, params.sampleCount), N, roughness);
+    let L = normalize(2.0 * dot(V, H) * H - V);
+    let NdotL = max(L.z, 0.0);
+    let NdotH = max(H.z, 0.0);
+    let VdotH = max(dot(V, H), 0.0);
+    if (NdotL > 0.0) {
+      let G = geometry_schlick_ggx(NdotV, roughness) * geometry_schlick_ggx(NdotL, roughness);
+      let visibility = G * VdotH / (NdotH * NdotV);
+      let fresnel = pow(1.0 - VdotH, 5.0);
+      scale += (1.0 - fresnel) * visibility;
+      bias += fresnel * visibility;
+    }
+  }
+  return vec4f(scale / f32(params.sampleCount), bias / f32(params.sampleCount), 0.0, 1.0);
+}
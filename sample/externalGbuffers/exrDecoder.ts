@@ -0,0 +1,346 @@
+/**
+ * OpenEXR decoder for single-part scanline images with NONE, RLE, ZIPS or ZIP
+ * compression and HALF, FLOAT or UINT channels
+ */
+import { DecodedImage, float16ToFloat32, inflate } from './decodedImage';
+
+const kEXRMagic = 20000630;
+const kTiledFlag = 0x200;
+const kNonImageFlags = 0x800 | 0x1000; // Deep data and multi-part
+
+enum PixelType {
+  UINT = 0,
+  HALF = 1,
+  FLOAT = 2,
+}
+
+enum Compression {
+  NONE = 0,
+  RLE = 1,
+  ZIPS = 2,
+  ZIP = 3,
+}
+
+const kCompressionNames = [
+  'NONE',
+  'RLE',
+  'ZIPS',
+  'ZIP',
+  'PIZ',
+  'PXR24',
+  'B44',
+  'B44A',
+  'DWAA',
+  'DWAB',
+];
+
+const kLinesPerBlock: { [compression: number]: number } = {
+  [Compression.NONE]: 1,
+  [Compression.RLE]: 1,
+  [Compression.ZIPS]: 1,
+  [Compression.ZIP]: 16,
+};
+
+export interface EXRChannel {
+  name: string;
+  pixelType: PixelType;
+  xSampling: number;
+  ySampling: number;
+}
+
+export interface EXRHeader {
+  channels: EXRChannel[];
+  compression: number;
+  width: number;
+  height: number;
+  dataWindowMinY: number;
+  headerSize: number;
+}
+
+class Reader {
+  view: DataView;
+  offset: number;
+
+  constructor(buffer: ArrayBuffer, offset = 0) {
+    this.view = new DataView(buffer);
+    this.offset = offset;
+  }
+
+  int32(): number {
+    const value = this.view.getInt32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  uint8(): number {
+    return this.view.getUint8(this.offset++);
+  }
+
+  uint64(): number {
+    const lo = this.view.getUint32(this.offset, true);
+    const hi = this.view.getUint32(this.offset + 4, true);
+    this.offset += 8;
+    return hi * 0x100000000 + lo;
+  }
+
+  string(): string {
+    let value = '';
+    let c: number;
+    while ((c = this.uint8()) !== 0) {
+      value += String.fromCharCode(c);
+    }
+    return value;
+  }
+}
+
+// Lookup table for half to float conversion, built on first use
+let halfToFloat: Float32Array | undefined;
+
+function getHalfToFloatTable(): Float32Array {
+  if (!halfToFloat) {
+    halfToFloat = new Float32Array(65536);
+    for (let i = 0; i < 65536; i++) {
+      halfToFloat[i] = float16ToFloat32(i);
+    }
+  }
+  return halfToFloat;
+}
+
+function bytesPerSample(pixelType: PixelType): number {
+  return pixelType === PixelType.HALF ? 2 : 4;
+}
+
+/**
+ * Parse the header of a single-part scanline EXR
+ */
+export function readEXRHeader(buffer: ArrayBuffer): EXRHeader {
+  const reader = new Reader(buffer);
+  if (reader.int32() !== kEXRMagic) {
+    throw new Error('Not an OpenEXR file');
+  }
+
+  const version = reader.int32();
+  if (version & kTiledFlag) {
+    throw new Error('Tiled EXR files are not supported');
+  }
+  if (version & kNonImageFlags) {
+    throw new Error('Deep and multi-part EXR files are not supported');
+  }
+
+  const channels: EXRChannel[] = [];
+  let compression = Compression.NONE;
+  let dataWindow: number[] | undefined;
+
+  for (;;) {
+    const name = reader.string();
+    if (name === '') {
+      break;
+    }
+    reader.string(); // Attribute type
+    const size = reader.int32();
+    const end = reader.offset + size;
+
+    if (name === 'channels') {
+      for (;;) {
+        const channelName = reader.string();
+        if (channelName === '') {
+          break;
+        }
+        const pixelType = reader.int32() as PixelType;
+        reader.offset += 4; // pLinear + reserved
+        const xSampling = reader.int32();
+        const ySampling = reader.int32();
+        channels.push({ name: channelName, pixelType, xSampling, ySampling });
+      }
+    } else if (name === 'compression') {
+      compression = reader.uint8();
+    } else if (name === 'dataWindow') {
+      dataWindow = [
+        reader.int32(),
+        reader.int32(),
+        reader.int32(),
+        reader.int32(),
+      ];
+    }
+
+    reader.offset = end;
+  }
+
+  if (!dataWindow) {
+    throw new Error('EXR header has no dataWindow');
+  }
+  if (channels.some((c) => c.xSampling !== 1 || c.ySampling !== 1)) {
+    throw new Error('Subsampled EXR channels are not supported');
+  }
+
+  return {
+    channels,
+    compression,
+    width: dataWindow[2] - dataWindow[0] + 1,
+    height: dataWindow[3] - dataWindow[1] + 1,
+    dataWindowMinY: dataWindow[1],
+    headerSize: reader.offset,
+  };
+}
+
+/**
+ * Undo the byte split and delta predictor applied before RLE/ZIP compression
+ */
+function unpredict(data: Uint8Array): Uint8Array {
+  for (let i = 1; i < data.length; i++) {
+    data[i] = (data[i - 1] + data[i] - 128) & 0xff;
+  }
+
+  const out = new Uint8Array(data.length);
+  const half = (data.length + 1) >> 1;
+  for (let i = 0, t1 = 0, t2 = half; i < data.length; ) {
+    out[i++] = data[t1++];
+    if (i < data.length) {
+      out[i++] = data[t2++];
+    }
+  }
+  return out;
+}
+
+function decodeRLE(data: Uint8Array, expectedSize: number): Uint8Array {
+  const out = new Uint8Array(expectedSize);
+  let src = 0;
+  let dst = 0;
+  while (src < data.length && dst < expectedSize) {
+    const count = (data[src++] << 24) >> 24;
+    if (count < 0) {
+      out.set(data.subarray(src, src - count), dst);
+      src -= count;
+      dst -= count;
+    } else {
+      out.fill(data[src++], dst, dst + count + 1);
+      dst += count + 1;
+    }
+  }
+  return out;
+}
+
+async function decompressBlock(
+  compression: number,
+  data: Uint8Array,
+  expectedSize: number
+): Promise<Uint8Array> {
+  // Blocks that don't shrink are stored uncompressed
+  if (compression === Compression.NONE || data.length === expectedSize) {
+    return data;
+  }
+  if (compression === Compression.RLE) {
+    return unpredict(decodeRLE(data, expectedSize));
+  }
+  return unpredict(await inflate([data]));
+}
+
+/**
+ * Pick which EXR channels to decode: the given names, else RGB(A), else Z,
+ * else the first channel. Names include the layer, e.g. `diffuse.R`.
+ */
+function selectChannels(header: EXRHeader, names?: string[]): number[] {
+  const indexOf = (name: string) =>
+    header.channels.findIndex((c) => c.name === name);
+
+  if (names) {
+    return names.map((name) => {
+      const index = indexOf(name);
+      if (index < 0) {
+        const available = header.channels.map((c) => c.name).join(', ');
+        throw new Error(`EXR has no channel "${name}" (has: ${available})`);
+      }
+      return index;
+    });
+  }
+
+  const rgba = ['R', 'G', 'B', 'A'].map(indexOf).filter((i) => i >= 0);
+  if (rgba.length >= 3) {
+    return rgba;
+  }
+  const depth = ['Z', 'depth.Z', 'Y'].map(indexOf).find((i) => i >= 0);
+  if (depth !== undefined) {
+    return [depth];
+  }
+  return [0];
+}
+
+/**
+ * Decode an OpenEXR file, optionally selecting channels by name
+ */
+export async function decodeEXR(
+  buffer: ArrayBuffer,
+  channelNames?: string[]
+): Promise<DecodedImage> {
+  const header = readEXRHeader(buffer);
+  const linesPerBlock = kLinesPerBlock[header.compression];
+  if (linesPerBlock === undefined) {
+    const name = kCompressionNames[header.compression] ?? header.compression;
+    throw new Error(`Unsupported EXR compression: ${name}`);
+  }
+
+  const { width, height } = header;
+  const selected = selectChannels(header, channelNames);
+  const channels = selected.length;
+  if (channels > 4) {
+    throw new Error('At most 4 EXR channels can be decoded into a texture');
+  }
+
+  // Byte offset of each channel within a scanline
+  const channelOffsets: number[] = [];
+  let lineSize = 0;
+  for (const channel of header.channels) {
+    channelOffsets.push(lineSize * width);
+    lineSize += bytesPerSample(channel.pixelType);
+  }
+  const scanlineBytes = lineSize * width;
+
+  const blockCount = Math.ceil(height / linesPerBlock);
+  const reader = new Reader(buffer, header.headerSize);
+  const blockOffsets: number[] = [];
+  for (let i = 0; i < blockCount; i++) {
+    blockOffsets.push(reader.uint64());
+  }
+
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  const data = new Float32Array(width * height * channels);
+  const halfTable = getHalfToFloatTable();
+
+  const decodeBlock = async (offset: number) => {
+    const y = view.getInt32(offset, true) - header.dataWindowMinY;
+    const size = view.getInt32(offset + 4, true);
+    const lines = Math.min(linesPerBlock, height - y);
+    const block = await decompressBlock(
+      header.compression,
+      bytes.subarray(offset + 8, offset + 8 + size),
+      lines * scanlineBytes
+    );
+    const blockView = new DataView(block.buffer, block.byteOffset);
+
+    for (let line = 0; line < lines; line++) {
+      const lineStart = line * scanlineBytes;
+      const row = (y + line) * width;
+
+      selected.forEach((channelIndex, c) => {
+        const { pixelType } = header.channels[channelIndex];
+        const start = lineStart + channelOffsets[channelIndex];
+        for (let x = 0; x < width; x++) {
+          let value: number;
+          if (pixelType === PixelType.HALF) {
+            value = halfTable[blockView.getUint16(start + x * 2, true)];
+          } else if (pixelType === PixelType.FLOAT) {
+            value = blockView.getFloat32(start + x * 4, true);
+          } else {
+            value = blockView.getUint32(start + x * 4, true);
+          }
+          data[(row + x) * channels + c] = value;
+        }
+      });
+    }
+  };
+
+  await Promise.all(blockOffsets.map(decodeBlock));
+
+  return { width, height, channels, data };
+}
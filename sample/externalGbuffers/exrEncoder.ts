@@ -0,0 +1,122 @@
+/**
+ * Minimal OpenEXR encoder for exported frames: single-part scanline images
+ * with uncompressed HALF RGBA channels
+ */
+
+const kEXRMagic = 20000630;
+const kEXRVersion = 2;
+const kPixelTypeHalf = 1;
+
+class Writer {
+  bytes: number[] = [];
+
+  uint8(value: number): void {
+    this.bytes.push(value & 0xff);
+  }
+
+  int32(value: number): void {
+    for (let i = 0; i < 4; i++) {
+      this.uint8(value >> (i * 8));
+    }
+  }
+
+  float32(value: number): void {
+    const view = new DataView(new ArrayBuffer(4));
+    view.setFloat32(0, value, true);
+    for (let i = 0; i < 4; i++) {
+      this.uint8(view.getUint8(i));
+    }
+  }
+
+  string(value: string): void {
+    for (let i = 0; i < value.length; i++) {
+      this.uint8(value.charCodeAt(i));
+    }
+    this.uint8(0);
+  }
+
+  attribute(name: string, type: string, write: (w: Writer) => void): void {
+    const value = new Writer();
+    write(value);
+    this.string(name);
+    this.string(type);
+    this.int32(value.bytes.length);
+    this.bytes.push(...value.bytes);
+  }
+}
+
+/**
+ * Encode interleaved RGBA half floats (as from an rgba16float texture) as
+ * an uncompressed EXR
+ */
+export function encodeEXR(
+  width: number,
+  height: number,
+  pixels: Uint16Array
+): Uint8Array {
+  // Channels are stored in alphabetical order, with their RGBA index
+  const channels: [string, number][] = [
+    ['A', 3],
+    ['B', 2],
+    ['G', 1],
+    ['R', 0],
+  ];
+
+  const header = new Writer();
+  header.int32(kEXRMagic);
+  header.int32(kEXRVersion);
+  header.attribute('channels', 'chlist', (w) => {
+    for (const [name] of channels) {
+      w.string(name);
+      w.int32(kPixelTypeHalf);
+      w.int32(0); // pLinear + reserved
+      w.int32(1); // xSampling
+      w.int32(1); // ySampling
+    }
+    w.uint8(0);
+  });
+  header.attribute('compression', 'compression', (w) => w.uint8(0));
+  for (const window of ['dataWindow', 'displayWindow']) {
+    header.attribute(window, 'box2i', (w) => {
+      w.int32(0);
+      w.int32(0);
+      w.int32(width - 1);
+      w.int32(height - 1);
+    });
+  }
+  header.attribute('lineOrder', 'lineOrder', (w) => w.uint8(0)); // Increasing Y
+  header.attribute('pixelAspectRatio', 'float', (w) => w.float32(1));
+  header.attribute('screenWindowCenter', 'v2f', (w) => {
+    w.float32(0);
+    w.float32(0);
+  });
+  header.attribute('screenWindowWidth', 'float', (w) => w.float32(1));
+  header.uint8(0);
+
+  // One scanline per block: y, data size, then each channel's samples
+  const blockDataSize = width * channels.length * 2;
+  const blockSize = 8 + blockDataSize;
+  const offsetTableStart = header.bytes.length;
+  const blocksStart = offsetTableStart + height * 8;
+
+  const out = new Uint8Array(blocksStart + height * blockSize);
+  const view = new DataView(out.buffer);
+  out.set(header.bytes);
+
+  for (let y = 0; y < height; y++) {
+    const blockStart = blocksStart + y * blockSize;
+    // Offsets are uint64, files here stay well below 4 GB
+    view.setUint32(offsetTableStart + y * 8, blockStart, true);
+    view.setInt32(blockStart, y, true);
+    view.setInt32(blockStart + 4, blockDataSize, true);
+
+    let offset = blockStart + 8;
+    for (const [, component] of channels) {
+      for (let x = 0; x < width; x++) {
+        view.setUint16(offset, pixels[(y * width + x) * 4 + component], true);
+        offset += 2;
+      }
+    }
+  }
+  return out;
+}
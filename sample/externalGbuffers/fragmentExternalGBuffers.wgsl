@@ -1,14 +1,29 @@
-@group(0) @binding(0) var gBufferBasecolor: texture_2d<f32>;
-@group(0) @binding(1) var gBufferNormal: texture_2d<f32>;
-@group(0) @binding(2) var gBufferDepth: texture_2d<f32>;
-@group(0) @binding(3) var gBufferMetallic: texture_2d<f32>;
-@group(0) @binding(4) var gBufferRoughness: texture_2d<f32>;
+@group(0) @binding(0) var gBufferBasecolor: texture_2d_array<f32>;
+@group(0) @binding(1) var gBufferNormal: texture_2d_array<f32>;
+@group(0) @binding(2) var gBufferDepth: texture_2d_array<f32>;
+@group(0) @binding(3) var gBufferMetallic: texture_2d_array<f32>;
+@group(0) @binding(4) var gBufferRoughness: texture_2d_array<f32>;
 @group(0) @binding(5) var gBufferSampler: sampler;
+// Layer of the texture arrays holding the displayed frame
+@group(0) @binding(6) var<uniform> frameLayer: u32;
+// Optional channels, only read when their has* constant is set
+@group(0) @binding(7) var gBufferAO: texture_2d_array<f32>;
+@group(0) @binding(8) var gBufferEmissive: texture_2d_array<f32>;
+@group(0) @binding(9) var gBufferSpecular: texture_2d_array<f32>;
+
+// Point, directional and spot lights, summed in one pass
+const kPointLight: u32 = 0u;
+const kDirectionalLight: u32 = 1u;
+const kSpotLight: u32 = 2u;
 
 struct LightData {
-  position :vec4f,
-  color: vec3f,
-  radius: f32,
+  position: vec3f,     // Point and spot lights
+  lightType: u32,
+  color: vec3f,        // Premultiplied by intensity
+  radius: f32,         // Range of point and spot lights
+  direction: vec3f,    // Direction the light travels (directional and spot)
+  cosInnerCone: f32,   // Spot cone falloff
+  cosOuterCone: f32,
 }
 
 struct LightsBuffer {
@@ -22,9 +37,37 @@ struct Config {
 struct Camera {
   viewProjectionMatrix: mat4x4f,
   invViewProjectionMatrix: mat4x4f,
+  position: vec4f,
+  forward: vec4f,
+  viewToWorld: mat4x4f, // Inverse view matrix, for view-space normals
 }
 @group(1) @binding(1) var<uniform> config: Config;
 @group(1) @binding(2) var<uniform> camera: Camera;
+struct ShadowConfig {
+  enabled: u32,
+  steps: u32,
+  thickness: f32,  // Depth of the occluders assumed behind the depth buffer
+  bias: f32,       // Start offset along the normal, and depth tolerance
+  maxDistance: f32,
+}
+@group(1) @binding(3) var<uniform> shadowConfig: ShadowConfig;
+
+// Image-based lighting from an equirectangular environment
+struct Environment {
+  rotation: vec2f,      // Cosine and sine of the rotation around +Y
+  intensity: f32,
+  specularLevels: f32,  // Mip levels of the prefiltered specular map
+  enabled: u32,
+}
+@group(2) @binding(0) var<uniform> environment: Environment;
+@group(2) @binding(1) var environmentSampler: sampler;
+// Mip levels are GGX-prefiltered for roughness 0 to 1
+@group(2) @binding(2) var environmentSpecular: texture_2d<f32>;
+// Cosine-weighted irradiance divided by PI
+@group(2) @binding(3) var environmentIrradiance: texture_2d<f32>;
+// Split-sum scale and bias of F0, by NdotV and roughness
+@group(2) @binding(4) var brdfLUT: texture_2d<f32>;
+@group(2) @binding(5) var brdfLUTSampler: sampler;
 
 // Configuration for lighting model
 struct LightingConfig {
@@ -36,18 +79,110 @@ struct LightingConfig {
 
 override canvasSizeWidth: f32;
 override canvasSizeHeight: f32;
+// How the depth texture stores depth: 0 = NDC depth, 1 = linear view-space Z,
+// 2 = distance to the camera
+override depthEncoding: u32 = 0;
+// Basecolor is already linear (EXR) instead of sRGB encoded
+override linearBasecolor: bool = false;
+// Component holding each scalar channel, for images packing several channels
+override depthComponent: u32 = 0;
+override metallicComponent: u32 = 0;
+override roughnessComponent: u32 = 0;
+// Optional channels the sequence provides
+override hasAO: bool = false;
+override hasEmissive: bool = false;
+override hasSpecular: bool = false;
+override linearEmissive: bool = false;
+override aoComponent: u32 = 0;
+override specularComponent: u32 = 0;
+// 0 = specular level (F0 = 0.08 * value), 1 = F0, 2 = index of refraction
+override specularEncoding: u32 = 0;
+// Normal decoding: 0 = world space, 1 = view space; 0 = (n + 1) / 2,
+// 1 = signed, 2 = octahedral; the stored axis for each of X, Y and Z, and
+// the axes negated after that swizzle
+override normalSpace: u32 = 0;
+override normalEncoding: u32 = 0;
+override normalAxisX: u32 = 0;
+override normalAxisY: u32 = 1;
+override normalAxisZ: u32 = 2;
+override normalFlipX: bool = false;
+override normalFlipY: bool = false;
+override normalFlipZ: bool = false;
+
+fn is_background(depth: f32) -> bool {
+  if (depthEncoding == 0u) {
+    return depth >= 1.0;
+  }
+  // Renderers write 0 or a huge value where there is no geometry
+  return depth <= 0.0 || depth >= 1e9;
+}
 
 fn world_from_screen_coord(coord : vec2f, depth_sample: f32) -> vec3f {
-  // Reconstruct world-space position from the screen coordinate.
-  let posClip = vec4(coord.x * 2.0 - 1.0, (1.0 - coord.y) * 2.0 - 1.0, depth_sample, 1.0);
-  let posWorldW = camera.invViewProjectionMatrix * posClip;
-  let posWorld = posWorldW.xyz / posWorldW.www;
-  return posWorld;
+  let ndc = vec2(coord.x * 2.0 - 1.0, (1.0 - coord.y) * 2.0 - 1.0);
+  if (depthEncoding == 0u) {
+    // Reconstruct world-space position from the screen coordinate.
+    let posWorldW = camera.invViewProjectionMatrix * vec4(ndc, depth_sample, 1.0);
+    return posWorldW.xyz / posWorldW.www;
+  }
+
+  // Scale the view ray through this pixel by the stored depth
+  let farWorldW = camera.invViewProjectionMatrix * vec4(ndc, 1.0, 1.0);
+  let rayDir = normalize(farWorldW.xyz / farWorldW.w - camera.position.xyz);
+  if (depthEncoding == 1u) {
+    return camera.position.xyz + rayDir * (depth_sample / dot(rayDir, camera.forward.xyz));
+  }
+  return camera.position.xyz + rayDir * depth_sample;
+}
+
+// Distance in front of the camera along its view axis
+fn view_depth(position: vec3f) -> f32 {
+  return dot(position - camera.position.xyz, camera.forward.xyz);
+}
+
+// March the depth buffer from a surface point toward the light. Returns 0 when
+// the ray passes behind the depth buffer by less than `thickness`, else 1.
+fn screen_space_shadow(position: vec3f, N: vec3f, L: vec3f, rayLength: f32, coord: vec2f) -> f32 {
+  if (shadowConfig.enabled == 0u) {
+    return 1.0;
+  }
+
+  // Start off the surface so it doesn't shadow itself
+  let origin = position + N * shadowConfig.bias;
+  let stepCount = max(shadowConfig.steps, 1u);
+  let stepSize = rayLength / f32(stepCount);
+  // Interleaved gradient noise jitters the start, trading banding for noise
+  let jitter = fract(52.9829189 * fract(dot(coord, vec2f(0.06711056, 0.00583715))));
+
+  for (var i: u32 = 0u; i < stepCount; i++) {
+    let samplePosition = origin + L * (stepSize * (f32(i) + jitter));
+    let clip = camera.viewProjectionMatrix * vec4(samplePosition, 1.0);
+    if (clip.w <= 0.0) {
+      break;
+    }
+    let ndc = clip.xy / clip.w;
+    let uv = vec2(ndc.x * 0.5 + 0.5, 0.5 - ndc.y * 0.5);
+    // Nothing is known about occluders outside the frame
+    if (any(uv < vec2f(0.0)) || any(uv >= vec2f(1.0))) {
+      break;
+    }
+
+    let pixel = vec2i(uv * vec2f(canvasSizeWidth, canvasSizeHeight));
+    let sceneDepth = textureLoad(gBufferDepth, pixel, frameLayer, 0)[depthComponent];
+    if (is_background(sceneDepth)) {
+      continue;
+    }
+    let scenePosition = world_from_screen_coord(uv, sceneDepth);
+    let behind = view_depth(samplePosition) - view_depth(scenePosition);
+    if (behind > shadowConfig.bias && behind < shadowConfig.thickness) {
+      return 0.0;
+    }
+  }
+  return 1.0;
 }
 
 // PBR lighting functions
 fn calculateFresnel(f0: vec3f, cosTheta: f32) -> vec3f {
-  return f0 + (1.0 - f0) * pow(1.0 - cosTheta, 5.0);
+  return f0 + (1.0 - f0) * pow(clamp(1.0 - cosTheta, 0.0, 1.0), 5.0);
 }
 
 fn calculateNormalDistribution(roughness: f32, NdotNH: f32) -> f32 {
@@ -67,39 +202,130 @@ fn calculateGeometryFunction(roughness: f32, NdotV: f32, NdotL: f32) -> f32 {
   return ggx2_l * ggx2_v;
 }
 
+// Fresnel averaged over the lobe, which rough surfaces reflect less of
+fn calculateFresnelRoughness(f0: vec3f, cosTheta: f32, roughness: f32) -> vec3f {
+  return f0 + (max(vec3f(1.0 - roughness), f0) - f0) * pow(clamp(1.0 - cosTheta, 0.0, 1.0), 5.0);
+}
+
+// Equirectangular coordinates of a world direction, +Y up and u = 0.5 down -Z,
+// with the environment rotated around +Y
+fn environment_uv(direction: vec3f) -> vec2f {
+  let c = environment.rotation.x;
+  let s = environment.rotation.y;
+  let rotated = vec3f(c * direction.x - s * direction.z, direction.y, s * direction.x + c * direction.z);
+  return vec2f(
+    atan2(rotated.x, -rotated.z) / (2.0 * PI) + 0.5,
+    acos(clamp(rotated.y, -1.0, 1.0)) / PI,
+  );
+}
+
+// Split-sum image-based lighting. Explicit levels avoid the mip seam where u
+// wraps around.
+fn environment_lighting(N: vec3f, V: vec3f, albedo: vec3f, f0: vec3f, metallic: f32, roughness: f32) -> vec3f {
+  let NdotV = max(dot(N, V), 0.0);
+  let F = calculateFresnelRoughness(f0, NdotV, roughness);
+  let kD = (vec3f(1.0) - F) * (1.0 - metallic);
+  let irradiance = textureSampleLevel(environmentIrradiance, environmentSampler, environment_uv(N), 0.0).rgb;
+
+  let R = reflect(-V, N);
+  let level = roughness * (environment.specularLevels - 1.0);
+  let prefiltered = textureSampleLevel(environmentSpecular, environmentSampler, environment_uv(R), level).rgb;
+  let brdf = textureSampleLevel(brdfLUT, brdfLUTSampler, vec2f(NdotV, roughness), 0.0).rg;
+
+  return (kD * albedo * irradiance + prefiltered * (F * brdf.x + brdf.y)) * environment.intensity;
+}
+
 fn toLinear(color: vec3f) -> vec3f {
   return pow(color, vec3f(2.2));
 }
 
-fn toSRGB(color: vec3f) -> vec3f {
-  return pow(color, vec3f(0.4545));
+fn octahedral_decode(encoded: vec2f) -> vec3f {
+  var n = vec3f(encoded, 1.0 - abs(encoded.x) - abs(encoded.y));
+  if (n.z < 0.0) {
+    let signs = select(vec2f(-1.0), vec2f(1.0), n.xy >= vec2f(0.0));
+    n = vec3f((1.0 - abs(n.yx)) * signs, n.z);
+  }
+  return n;
+}
+
+// World-space unit normal from the stored texel, following the sequence's
+// normal space, encoding and axes
+fn decode_normal(raw: vec4f) -> vec3f {
+  var stored: vec3f;
+  switch normalEncoding {
+    case 1u: {
+      stored = raw.xyz;
+    }
+    case 2u: {
+      stored = octahedral_decode(raw.xy * 2.0 - 1.0);
+    }
+    default: {
+      stored = raw.xyz * 2.0 - 1.0;
+    }
+  }
+  let flips = vec3f(
+    select(1.0, -1.0, normalFlipX),
+    select(1.0, -1.0, normalFlipY),
+    select(1.0, -1.0, normalFlipZ),
+  );
+  var n = vec3f(stored[normalAxisX], stored[normalAxisY], stored[normalAxisZ]) * flips;
+  if (normalSpace == 1u) {
+    n = (camera.viewToWorld * vec4f(n, 0.0)).xyz;
+  }
+  return normalize(n);
+}
+
+// Dielectric reflectance at normal incidence from the specular channel
+fn specular_f0(value: f32) -> f32 {
+  if (specularEncoding == 1u) {
+    return value;
+  }
+  if (specularEncoding == 2u) {
+    let r = (value - 1.0) / (value + 1.0);
+    return r * r;
+  }
+  return 0.08 * value;
 }
 
 const PI: f32 = 3.14159265359;
 
+// Lit color, and the world position and base color luminance of the surface
+// for the temporal filter
+struct LightingOutput {
+  @location(0) color: vec4f,
+  @location(1) guide: vec4f,
+}
+
 @fragment
 fn main(
   @builtin(position) coord: vec4f
-) -> @location(0) vec4f {
+) -> LightingOutput {
   // Use normalized coordinates for texture sampling
   let coordUV = coord.xy / vec2f(canvasSizeWidth, canvasSizeHeight);
   
   // Sample all G-Buffer data
-  let basecolor_raw = textureSample(gBufferBasecolor, gBufferSampler, coordUV);
-  let normal_raw = textureSample(gBufferNormal, gBufferSampler, coordUV);
-  let depth_raw = textureSample(gBufferDepth, gBufferSampler, coordUV);
-  let metallic_raw = textureSample(gBufferMetallic, gBufferSampler, coordUV);
-  let roughness_raw = textureSample(gBufferRoughness, gBufferSampler, coordUV);
+  let basecolor_raw = textureSample(gBufferBasecolor, gBufferSampler, coordUV, frameLayer);
+  let normal_raw = textureSample(gBufferNormal, gBufferSampler, coordUV, frameLayer);
+  let depth_raw = textureLoad(gBufferDepth, vec2i(floor(coord.xy)), frameLayer, 0);
+  let metallic_raw = textureSample(gBufferMetallic, gBufferSampler, coordUV, frameLayer);
+  let roughness_raw = textureSample(gBufferRoughness, gBufferSampler, coordUV, frameLayer);
+  let ao_raw = textureSample(gBufferAO, gBufferSampler, coordUV, frameLayer);
+  let emissive_raw = textureSample(gBufferEmissive, gBufferSampler, coordUV, frameLayer);
+  let specular_raw = textureSample(gBufferSpecular, gBufferSampler, coordUV, frameLayer);
   
   // Extract material properties
-  let albedo = toLinear(basecolor_raw.rgb);
-  let normal = normalize(normal_raw.xyz * 2.0 - 1.0); // Convert from [0,1] to [-1,1]
-  let depth = depth_raw.r; // Assuming depth is stored in red channel
-  let metallic = metallic_raw.r; // Metallic in red channel
-  let roughness = roughness_raw.r; // Roughness in red channel
+  let albedo = select(toLinear(basecolor_raw.rgb), basecolor_raw.rgb, linearBasecolor);
+  let normal = decode_normal(normal_raw);
+  let depth = depth_raw[depthComponent];
+  let metallic = metallic_raw[metallicComponent];
+  let roughness = roughness_raw[roughnessComponent];
+  // Missing channels: no occlusion, no emission and 4% reflectance
+  let ao = select(1.0, ao_raw[aoComponent], hasAO);
+  let emissive = select(vec3f(0.0), select(toLinear(emissive_raw.rgb), emissive_raw.rgb, linearEmissive), hasEmissive);
+  let dielectricF0 = select(0.04, specular_f0(specular_raw[specularComponent]), hasSpecular);
   
-  // Don't light the sky (assuming depth = 1.0 indicates sky)
-  if (depth >= 1.0) {
+  // Don't light the sky
+  if (is_background(depth)) {
     discard;
   }
   
@@ -110,30 +336,58 @@ fn main(
   
   // Surface normal in world space
   let N = normal;
-  let V = normalize(vec3f(0.0, 50.0, -100.0) - position); // Camera position
+  let V = normalize(camera.position.xyz - position);
   
   // Material properties for PBR
-  let f0 = mix(vec3f(0.04), albedo, metallic); // F0 for dielectrics, albedo for metals
-  
-  // Ambient lighting (reduced to make dynamic lights more visible)
-  let ambient = albedo * 0.01;
-  result += ambient;
+  let f0 = mix(vec3f(dielectricF0), albedo, metallic); // F0 for dielectrics, albedo for metals
   
-  // Debug: Track if ANY light contributes
-  var lightContribution: vec3f = vec3f(0.0);
-  var lightsActive: u32 = 0u;
+  // Ambient occlusion only darkens the indirect light
+  if (environment.enabled != 0u) {
+    result += environment_lighting(N, V, albedo, f0, metallic, roughness) * ao;
+  } else {
+    // Ambient lighting (reduced to make dynamic lights more visible)
+    let ambient = albedo * 0.01 * ao;
+    result += ambient;
+  }
+  result += emissive;
   
   // Light accumulation
   for (var i: u32 = 0u; i < config.numLights; i++) {
     let light = lightsBuffer.lights[i];
-    let L = light.position.xyz - position;
-    let distance = length(L);
     
-    if (distance > light.radius) {
-      continue;
+    // Direction to the light, distance falloff and shadow ray length
+    var L_norm: vec3f;
+    var attenuation = 1.0;
+    var rayLength = shadowConfig.maxDistance;
+    if (light.lightType == kDirectionalLight) {
+      // No attenuation - directional lights affect everything equally
+      L_norm = -normalize(light.direction);
+    } else {
+      let L = light.position - position;
+      let distance = length(L);
+      
+      if (distance > light.radius) {
+        continue;
+      }
+      
+      L_norm = L / distance;
+      attenuation = pow(1.0 - distance / light.radius, 2.0);
+      rayLength = min(distance, rayLength);
+      
+      if (light.lightType == kSpotLight) {
+        let cosAngle = dot(-L_norm, normalize(light.direction));
+        // smoothstep() is undefined for equal edges, where the cone has a hard edge
+        if (light.cosInnerCone > light.cosOuterCone) {
+          attenuation *= smoothstep(light.cosOuterCone, light.cosInnerCone, cosAngle);
+        } else {
+          attenuation *= step(light.cosOuterCone, cosAngle);
+        }
+        if (attenuation <= 0.0) {
+          continue;
+        }
+      }
     }
     
-    let L_norm = L / distance;
     let H = normalize(V + L_norm);
     
     // Geometric terms
@@ -146,10 +400,8 @@ fn main(
       continue;
     }
     
-    lightsActive += 1u;
-    
-    // Attenuation
-    let attenuation = pow(1.0 - distance / light.radius, 2.0);
+    // Occlusion by the depth buffer between the surface and the light
+    let shadow = screen_space_shadow(position, N, L_norm, rayLength, coord.xy);
     
     // Fresnel
     let F = calculateFresnel(f0, VdotH);
@@ -177,16 +429,13 @@ fn main(
     let brdf = diffuseBRDF + specular;
     
     // Final radiance for this light
-    let radiance = brdf * light.color * NdotL * attenuation;
-    lightContribution += radiance;
+    let radiance = brdf * light.color * NdotL * attenuation * shadow;
     result += radiance;
   }
   
-  // Convert back to sRGB for display
-  let finalColor = toSRGB(result);
-  
-  // DEBUG: Show light contribution magnitude as overlay
-  let lightIntensity = length(lightContribution);
+  // Linear radiance, exposed and tonemapped for display in a later pass
+  let finalColor = result;
   
-  return vec4(finalColor, 1.0);
+  let luminance = dot(albedo, vec3f(0.2126, 0.7152, 0.0722));
+  return LightingOutput(vec4(finalColor, 1.0), vec4(position, luminance));
 }
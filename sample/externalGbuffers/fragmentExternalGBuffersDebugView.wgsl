@@ -1,12 +1,21 @@
-@group(0) @binding(0) var gBufferBasecolor: texture_2d<f32>;
-@group(0) @binding(1) var gBufferNormal: texture_2d<f32>;
-@group(0) @binding(2) var gBufferDepth: texture_2d<f32>;
-@group(0) @binding(3) var gBufferMetallic: texture_2d<f32>;
-@group(0) @binding(4) var gBufferRoughness: texture_2d<f32>;
+@group(0) @binding(0) var gBufferBasecolor: texture_2d_array<f32>;
+@group(0) @binding(1) var gBufferNormal: texture_2d_array<f32>;
+@group(0) @binding(2) var gBufferDepth: texture_2d_array<f32>;
+@group(0) @binding(3) var gBufferMetallic: texture_2d_array<f32>;
+@group(0) @binding(4) var gBufferRoughness: texture_2d_array<f32>;
 @group(0) @binding(5) var gBufferSampler: sampler;
+// Layer of the texture arrays holding the displayed frame
+@group(0) @binding(6) var<uniform> frameLayer: u32;
 
 override canvasSizeWidth: f32;
 override canvasSizeHeight: f32;
+// 0 = NDC depth, 1 = linear view-space Z, 2 = distance to the camera
+override depthEncoding: u32 = 0;
+override linearBasecolor: bool = false;
+// Component holding each scalar channel, for images packing several channels
+override depthComponent: u32 = 0;
+override metallicComponent: u32 = 0;
+override roughnessComponent: u32 = 0;
 
 @fragment
 fn main(
@@ -16,23 +25,25 @@ fn main(
   let coordUV = coord.xy / vec2f(canvasSizeWidth, canvasSizeHeight);
   
   // Sample all textures unconditionally for uniform control flow
-  let basecolor = textureSample(gBufferBasecolor, gBufferSampler, coordUV);
-  let normal = textureSample(gBufferNormal, gBufferSampler, coordUV);
-  let depth = textureSample(gBufferDepth, gBufferSampler, coordUV);
-  let metallic = textureSample(gBufferMetallic, gBufferSampler, coordUV);
-  let roughness = textureSample(gBufferRoughness, gBufferSampler, coordUV);
+  let basecolor = textureSample(gBufferBasecolor, gBufferSampler, coordUV, frameLayer);
+  let normal = textureSample(gBufferNormal, gBufferSampler, coordUV, frameLayer);
+  let depth = textureLoad(gBufferDepth, vec2i(floor(coord.xy)), frameLayer, 0);
+  let metallic = textureSample(gBufferMetallic, gBufferSampler, coordUV, frameLayer);
+  let roughness = textureSample(gBufferRoughness, gBufferSampler, coordUV, frameLayer);
   
   // Divide screen into 5 horizontal sections to view each G-Buffer
   let sectionWidth = canvasSizeWidth / 5.0;
   let sectionIndex = floor(coord.x / sectionWidth);
   
   // Initialize result vectors for each section
-  let basecolor_result = basecolor;
+  let basecolor_result = select(basecolor, vec4(pow(basecolor.rgb, vec3f(0.4545)), basecolor.a), linearBasecolor);
   let normal_result = vec4((normal.xyz + 1.0) * 0.5, 1.0); // Convert from [-1,1] to [0,1]
-  let depth_remapped = (1.0 - depth.x) * 50.0;
+  // Linear depths are in scene units, fade them out with distance
+  let depth_value = depth[depthComponent];
+  let depth_remapped = select((1.0 - depth_value) * 50.0, exp(-depth_value * 0.01), depthEncoding != 0u);
   let depth_result = vec4(depth_remapped, depth_remapped, depth_remapped, 1.0);
-  let metallic_result = vec4(metallic.r, metallic.r, metallic.r, 1.0);
-  let roughness_result = vec4(roughness.r, roughness.r, roughness.r, 1.0);
+  let metallic_result = vec4(vec3(metallic[metallicComponent]), 1.0);
+  let roughness_result = vec4(vec3(roughness[roughnessComponent]), 1.0);
   
   // Use linear interpolation to blend between sections based on sectionIndex
   var result: vec4f = basecolor_result;
@@ -0,0 +1,211 @@
+// G-buffer inspector: shows one channel fullscreen, or compares two side by
+// side or with a wipe. Scalar channels are remapped from an adjustable range
+// to grayscale or a false-color heatmap. Texels are loaded unfiltered, so
+// every pixel shows the value the hover probe reads back.
+
+@group(0) @binding(0) var gBufferBasecolor: texture_2d_array<f32>;
+@group(0) @binding(1) var gBufferNormal: texture_2d_array<f32>;
+@group(0) @binding(2) var gBufferDepth: texture_2d_array<f32>;
+@group(0) @binding(3) var gBufferMetallic: texture_2d_array<f32>;
+@group(0) @binding(4) var gBufferRoughness: texture_2d_array<f32>;
+// Layer of the texture arrays holding the displayed frame
+@group(0) @binding(6) var<uniform> frameLayer: u32;
+// Optional channels, only read when their has* constant is set
+@group(0) @binding(7) var gBufferAO: texture_2d_array<f32>;
+@group(0) @binding(8) var gBufferEmissive: texture_2d_array<f32>;
+@group(0) @binding(9) var gBufferSpecular: texture_2d_array<f32>;
+
+@group(1) @binding(0) var<uniform> params: InspectorParams;
+// Linear radiance of the lighting pass, and its tonemapped display output
+@group(1) @binding(1) var hdrTexture: texture_2d<f32>;
+@group(1) @binding(2) var litTexture: texture_2d<f32>;
+
+struct InspectorParams {
+  channelA: u32,
+  channelB: u32,
+  compare: u32,
+  heatmap: u32,
+  wipe: f32, // Wipe position across the screen, 0-1
+  rangeMin: f32,
+  rangeMax: f32,
+}
+
+override canvasSizeWidth: f32;
+override canvasSizeHeight: f32;
+// 0 = NDC depth, 1 = linear view-space Z, 2 = distance to the camera
+override depthEncoding: u32 = 0;
+override linearBasecolor: bool = false;
+// Component holding each scalar channel, for images packing several channels
+override depthComponent: u32 = 0;
+override metallicComponent: u32 = 0;
+override roughnessComponent: u32 = 0;
+// Optional channels the sequence provides
+override hasAO: bool = false;
+override hasEmissive: bool = false;
+override hasSpecular: bool = false;
+override linearEmissive: bool = false;
+override aoComponent: u32 = 0;
+override specularComponent: u32 = 0;
+// 0 = specular level (F0 = 0.08 * value), 1 = F0, 2 = index of refraction
+override specularEncoding: u32 = 0;
+
+const kChannelLit = 0u;
+const kChannelBasecolor = 1u;
+const kChannelNormal = 2u;
+const kChannelDepth = 3u;
+const kChannelMetallic = 4u;
+const kChannelRoughness = 5u;
+const kChannelAO = 6u;
+const kChannelEmissive = 7u;
+const kChannelSpecular = 8u;
+
+// kCompareNone = 0u shows channel A fullscreen
+const kCompareSideBySide = 1u;
+const kCompareWipe = 2u;
+
+fn luminance(color: vec3f) -> f32 {
+  return dot(color, vec3f(0.2126, 0.7152, 0.0722));
+}
+
+// Linear emission, black when the sequence has no emissive channel
+fn emissiveColor(texel: vec2i) -> vec3f {
+  if (!hasEmissive) {
+    return vec3f(0.0);
+  }
+  let color = textureLoad(gBufferEmissive, texel, frameLayer, 0).rgb;
+  return select(pow(color, vec3f(2.2)), color, linearEmissive);
+}
+
+// Stored specular value, or the one matching 4% reflectance when missing
+fn specularValue(texel: vec2i) -> f32 {
+  if (hasSpecular) {
+    return textureLoad(gBufferSpecular, texel, frameLayer, 0)[specularComponent];
+  }
+  // Specular level, F0 or index of refraction
+  return select(select(0.5, 0.04, specularEncoding == 1u), 1.5, specularEncoding == 2u);
+}
+
+// Turbo colormap, polynomial fit by Google
+fn turbo(x: f32) -> vec3f {
+  let red4 = vec4f(0.13572138, 4.61539260, -42.66032258, 132.13108234);
+  let green4 = vec4f(0.09140261, 2.19418839, 4.84296658, -14.18503333);
+  let blue4 = vec4f(0.10667330, 12.64194608, -60.58204836, 110.36276771);
+  let red2 = vec2f(-152.94239396, 59.28637943);
+  let green2 = vec2f(4.27729857, 2.82956604);
+  let blue2 = vec2f(-89.90310912, 27.34824973);
+  let v4 = vec4f(1.0, x, x * x, x * x * x);
+  let v2 = v4.zw * v4.z;
+  return vec3f(
+    dot(v4, red4) + dot(v2, red2),
+    dot(v4, green4) + dot(v2, green2),
+    dot(v4, blue4) + dot(v2, blue2),
+  );
+}
+
+// Value a heatmap shows: scalar channels as stored (or their defaults when
+// missing), the luminance of color channels, the encoded Z of normals, and the linear radiance of the lit
+// render before exposure
+fn channelValue(channel: u32, texel: vec2i) -> f32 {
+  var value = 0.0;
+  switch channel {
+    case kChannelLit: {
+      value = luminance(textureLoad(hdrTexture, texel, 0).rgb);
+    }
+    case kChannelBasecolor: {
+      let color = textureLoad(gBufferBasecolor, texel, frameLayer, 0).rgb;
+      value = luminance(select(pow(color, vec3f(2.2)), color, linearBasecolor));
+    }
+    case kChannelNormal: {
+      value = textureLoad(gBufferNormal, texel, frameLayer, 0).z;
+    }
+    case kChannelDepth: {
+      value = textureLoad(gBufferDepth, texel, frameLayer, 0)[depthComponent];
+    }
+    case kChannelMetallic: {
+      value = textureLoad(gBufferMetallic, texel, frameLayer, 0)[metallicComponent];
+    }
+    case kChannelRoughness: {
+      value = textureLoad(gBufferRoughness, texel, frameLayer, 0)[roughnessComponent];
+    }
+    case kChannelAO: {
+      value = select(1.0, textureLoad(gBufferAO, texel, frameLayer, 0)[aoComponent], hasAO);
+    }
+    case kChannelEmissive: {
+      value = luminance(emissiveColor(texel));
+    }
+    case kChannelSpecular: {
+      value = specularValue(texel);
+    }
+    default: {}
+  }
+  return value;
+}
+
+fn is_background(depth: f32) -> bool {
+  if (depthEncoding == 0u) {
+    return depth >= 1.0;
+  }
+  // Renderers write 0 or a huge value where there is no geometry
+  return depth <= 0.0 || depth >= 1e9;
+}
+
+fn remap(value: f32) -> f32 {
+  let range = max(params.rangeMax - params.rangeMin, 1e-6);
+  return clamp((value - params.rangeMin) / range, 0.0, 1.0);
+}
+
+fn channelColor(channel: u32, texel: vec2i) -> vec3f {
+  // Background depth would otherwise saturate the range
+  if (channel == kChannelDepth && is_background(channelValue(channel, texel))) {
+    return vec3f(0.0);
+  }
+  if (params.heatmap != 0u) {
+    return turbo(remap(channelValue(channel, texel)));
+  }
+  switch channel {
+    case kChannelLit: {
+      return textureLoad(litTexture, texel, 0).rgb;
+    }
+    case kChannelBasecolor: {
+      let color = textureLoad(gBufferBasecolor, texel, frameLayer, 0).rgb;
+      return select(color, pow(color, vec3f(0.4545)), linearBasecolor);
+    }
+    case kChannelNormal: {
+      // Normals are stored encoded to 0-1, show them as they are
+      return textureLoad(gBufferNormal, texel, frameLayer, 0).xyz;
+    }
+    case kChannelEmissive: {
+      return pow(emissiveColor(texel), vec3f(0.4545));
+    }
+    default: {
+      return vec3f(remap(channelValue(channel, texel)));
+    }
+  }
+}
+
+@fragment
+fn main(
+  @builtin(position) coord: vec4f
+) -> @location(0) vec4f {
+  let size = vec2f(canvasSizeWidth, canvasSizeHeight);
+  var uv = coord.xy / size;
+  var channel = params.channelA;
+
+  if (params.compare == kCompareSideBySide) {
+    // Both channels at half size, A on the left and B on the right
+    channel = select(params.channelA, params.channelB, uv.x >= 0.5);
+    uv = vec2f(fract(uv.x * 2.0), uv.y * 2.0 - 0.5);
+    if (uv.y < 0.0 || uv.y >= 1.0) {
+      return vec4f(0.0, 0.0, 0.0, 1.0);
+    }
+  } else if (params.compare == kCompareWipe) {
+    let wipeX = params.wipe * canvasSizeWidth;
+    if (abs(coord.x - wipeX) < 1.0) {
+      return vec4f(1.0);
+    }
+    channel = select(params.channelA, params.channelB, coord.x > wipeX);
+  }
+
+  let texel = vec2i(floor(uv * size));
+  return vec4f(channelColor(channel, texel), 1.0);
+}
@@ -0,0 +1,108 @@
+// Tonemapping pass: exposes the linear HDR render, applies a tone curve and
+// encodes the result for display. The output is not clamped, so on an
+// rgba16float canvas with extended tone mapping values above 1 reach the
+// display's headroom.
+
+@group(0) @binding(0) var hdrTexture: texture_2d<f32>;
+@group(0) @binding(1) var<uniform> params: TonemapParams;
+
+struct TonemapParams {
+  exposure: f32,  // Linear scale, 2^EV
+  curve: u32,
+}
+
+// kCurveNone = 0u passes the exposed radiance through
+const kCurveReinhard = 1u;
+const kCurveACES = 2u;
+const kCurveAgX = 3u;
+
+fn luminance(color: vec3f) -> f32 {
+  return dot(color, vec3f(0.2126, 0.7152, 0.0722));
+}
+
+// Reinhard on luminance, which keeps saturated highlights from shifting hue
+fn reinhard(color: vec3f) -> vec3f {
+  let l = luminance(color);
+  return color / (1.0 + l);
+}
+
+// ACES RRT + ODT fit by Stephen Hill, with the sRGB to ACEScg input and
+// output matrices
+fn aces(color: vec3f) -> vec3f {
+  let inputMatrix = mat3x3f(
+    vec3f(0.59719, 0.07600, 0.02840),
+    vec3f(0.35458, 0.90834, 0.13383),
+    vec3f(0.04823, 0.01566, 0.83777),
+  );
+  let outputMatrix = mat3x3f(
+    vec3f(1.60475, -0.10208, -0.00327),
+    vec3f(-0.53108, 1.10813, -0.07276),
+    vec3f(-0.07367, -0.00605, 1.07602),
+  );
+  let v = inputMatrix * color;
+  let a = v * (v + 0.0245786) - 0.000090537;
+  let b = v * (0.983729 * v + 0.4329510) + 0.238081;
+  return clamp(outputMatrix * (a / b), vec3f(0.0), vec3f(1.0));
+}
+
+// AgX with the polynomial fit of its default contrast curve
+fn agxContrast(x: vec3f) -> vec3f {
+  let x2 = x * x;
+  let x4 = x2 * x2;
+  return 15.5 * x4 * x2
+    - 40.14 * x4 * x
+    + 31.96 * x4
+    - 6.868 * x2 * x
+    + 0.4298 * x2
+    + 0.1191 * x
+    - 0.00232;
+}
+
+fn agx(color: vec3f) -> vec3f {
+  let inset = mat3x3f(
+    vec3f(0.842479062253094, 0.0423282422610123, 0.0423756549057051),
+    vec3f(0.0784335999999992, 0.878468636469772, 0.0784336),
+    vec3f(0.0792237451477643, 0.0791661274605434, 0.879142973793104),
+  );
+  let outset = mat3x3f(
+    vec3f(1.19687900512017, -0.0528968517574562, -0.0529716355144438),
+    vec3f(-0.0980208811401368, 1.15190312990417, -0.0980434501171241),
+    vec3f(-0.0990297440797205, -0.0989611768448433, 1.15107367264116),
+  );
+  let minEV = -12.47393;
+  let maxEV = 4.026069;
+
+  var v = inset * max(color, vec3f(1e-10));
+  v = clamp((log2(v) - minEV) / (maxEV - minEV), vec3f(0.0), vec3f(1.0));
+  v = agxContrast(v);
+  // The curve outputs display encoded values, return them to linear
+  return pow(max(outset * v, vec3f(0.0)), vec3f(2.2));
+}
+
+// Gamma encode, keeping the sign of the out of gamut values an extended
+// range canvas can show
+fn toSRGB(color: vec3f) -> vec3f {
+  return sign(color) * pow(abs(color), vec3f(0.4545));
+}
+
+@fragment
+fn main(@builtin(position) coord: vec4f) -> @location(0) vec4f {
+  let hdr = textureLoad(hdrTexture, vec2i(floor(coord.xy)), 0).rgb;
+  let exposed = hdr * params.exposure;
+
+  var mapped = exposed;
+  switch params.curve {
+    case kCurveReinhard: {
+      mapped = reinhard(exposed);
+    }
+    case kCurveACES: {
+      mapped = aces(exposed);
+    }
+    case kCurveAgX: {
+      mapped = agx(exposed);
+    }
+    default: {}
+  }
+
+  return vec4f(toSRGB(mapped), 1.0);
+}
@@ -1,13 +1,152 @@
 /**
- * Frame exporter utility for capturing rendered frames as JPEG files
+ * Frame exporter utility for capturing rendered frames as images bundled into
+ * one zip, or as a WebM or MP4 video
  */
+import { float16ToFloat32 } from './decodedImage';
+import { encodeEXR } from './exrEncoder';
+import { MP4Muxer } from './mp4Muxer';
+import { encodePNG } from './pngEncoder';
+import { WebMMuxer, WebMVideoTrack } from './webmMuxer';
+import { ZipWriter } from './zipWriter';
+
+/**
+ * Output formats:
+ * - jpeg: 8-bit tonemapped frames, encoded by the browser
+ * - png: 8-bit tonemapped frames
+ * - png16: 16-bit tonemapped frames
+ * - exr: half float linear radiance, before exposure and tonemapping
+ * - webm: VP9 (or VP8) video of the tonemapped frames, encoded with WebCodecs
+ * - mp4: H.264 video of the tonemapped frames, encoded with WebCodecs
+ */
+export type ExportFormat = 'jpeg' | 'png' | 'png16' | 'exr' | 'webm' | 'mp4';
+type VideoFormat = 'webm' | 'mp4';
+
+function isVideoFormat(format: ExportFormat): format is VideoFormat {
+  return format === 'webm' || format === 'mp4';
+}
+
+/**
+ * Texture an export reads back from
+ */
+export interface CaptureTarget {
+  format: GPUTextureFormat;
+  // Linear radiance rather than the tonemapped display output
+  linear: boolean;
+}
 
 export interface FrameExportOptions {
   totalFrames: number;
   outputPrefix: string;
+  firstFrame?: number; // Sequence frame of the first export, for filenames
   onProgress?: (current: number, total: number) => void;
-  onComplete?: () => void;
   quality?: number; // 0-1 for JPEG, ignored for PNG
+  format?: ExportFormat; // Defaults to jpeg
+  fps?: number; // Video frame rate, defaults to 30
+  videoBitrate?: number; // Bits per second, scaled to the frame size by default
+}
+
+const kFileExtensions: { [K in ExportFormat]: string } = {
+  jpeg: 'jpg',
+  png: 'png',
+  png16: 'png',
+  exr: 'exr',
+  webm: 'webm',
+  mp4: 'mp4',
+};
+
+interface VideoCodec {
+  codec: string; // WebCodecs codec string
+  webmCodec?: WebMVideoTrack['codec'];
+}
+
+// Codecs of each video container, in order of preference. The H.264 levels
+// go up to 4K.
+const kVideoCodecs: { [K in VideoFormat]: VideoCodec[] } = {
+  webm: [
+    { codec: 'vp09.00.40.08', webmCodec: 'V_VP9' },
+    { codec: 'vp8', webmCodec: 'V_VP8' },
+  ],
+  mp4: [
+    { codec: 'avc1.640033' }, // High
+    { codec: 'avc1.4d0033' }, // Main
+    { codec: 'avc1.42e033' }, // Constrained baseline
+  ],
+};
+
+/**
+ * What the exporter needs of the WebM and MP4 muxers
+ */
+interface VideoMuxer {
+  addChunk(
+    chunk: EncodedVideoChunk,
+    metadata?: EncodedVideoChunkMetadata
+  ): void;
+  getChunkCount(): number;
+  finish(): Blob;
+}
+
+// Keyframe interval of exported videos, in seconds
+const kKeyframeInterval = 2;
+// Frames queued in the video encoder before capture waits for it
+const kMaxEncodeQueueSize = 4;
+
+/**
+ * Encode RGBA pixels as a JPEG with the browser's encoder
+ */
+async function encodeJPEG(
+  width: number,
+  height: number,
+  pixels: Uint8Array,
+  quality: number
+): Promise<Uint8Array> {
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext('2d')!;
+  context.putImageData(
+    new ImageData(new Uint8ClampedArray(pixels.buffer), width, height),
+    0,
+    0
+  );
+  const blob = await canvas.convertToBlob({ type: 'image/jpeg', quality });
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+/**
+ * Pick the first video codec the browser can encode at this size
+ */
+async function selectVideoCodec(
+  format: VideoFormat,
+  width: number,
+  height: number,
+  fps: number,
+  bitrate: number
+): Promise<{
+  config: VideoEncoderConfig;
+  webmCodec?: WebMVideoTrack['codec'];
+}> {
+  if (typeof VideoEncoder === 'undefined') {
+    throw new Error('WebCodecs VideoEncoder is not supported in this browser');
+  }
+  for (const { codec, webmCodec } of kVideoCodecs[format]) {
+    const config: VideoEncoderConfig = {
+      codec,
+      width,
+      height,
+      bitrate,
+      framerate: fps,
+      latencyMode: 'quality',
+    };
+    if (format === 'mp4') {
+      // Length prefixed NAL units, with the SPS and PPS in the description
+      config.avc = { format: 'avc' };
+    }
+    const { supported } = await VideoEncoder.isConfigSupported(config);
+    if (supported) {
+      return { config, webmCodec };
+    }
+  }
+  throw new Error(
+    `No supported ${format.toUpperCase()} video codec for ${width}x${height}`
+  );
 }
 
 export class FrameExporter {
@@ -16,9 +155,21 @@ export class FrameExporter {
   private isExporting: boolean = false;
   private currentFrame: number = 0;
   private options: FrameExportOptions;
-  private capturedFrames: Blob[] = [];
   private exportStartTime: number = 0;
 
+  // Read back of the render target, copied in the frame's command encoder
+  private readbackBuffer?: GPUBuffer;
+  private readbackBytesPerRow = 0;
+  private readbackWidth = 0;
+  private readbackHeight = 0;
+  private readbackFormat?: GPUTextureFormat;
+  private hasPendingReadback = false;
+
+  private zip?: ZipWriter;
+  private videoEncoder?: VideoEncoder;
+  private muxer?: VideoMuxer;
+  private videoError?: Error;
+
   constructor(canvas: HTMLCanvasElement, device: GPUDevice) {
     this.canvas = canvas;
     this.device = device;
@@ -33,13 +184,55 @@ export class FrameExporter {
       return;
     }
 
+    const format = options.format ?? 'jpeg';
+    if (isVideoFormat(format)) {
+      await this.startVideo(format, options);
+    } else {
+      this.zip = new ZipWriter();
+    }
+
     this.isExporting = true;
     this.currentFrame = 0;
     this.options = options;
-    this.capturedFrames = [];
     this.exportStartTime = performance.now();
+    this.hasPendingReadback = false;
+
+    console.log(
+      `Starting frame export: ${options.totalFrames} frames as ${format}`
+    );
+  }
+
+  private async startVideo(
+    format: VideoFormat,
+    options: FrameExportOptions
+  ): Promise<void> {
+    const { width, height } = this.canvas;
+    const fps = options.fps ?? 30;
+    const bitrate =
+      options.videoBitrate ?? Math.round(width * height * fps * 0.2);
+    const { config, webmCodec } = await selectVideoCodec(
+      format,
+      width,
+      height,
+      fps,
+      bitrate
+    );
 
-    console.log(`Starting frame export: ${options.totalFrames} frames`);
+    const muxer: VideoMuxer =
+      format === 'webm'
+        ? new WebMMuxer({ codec: webmCodec!, width, height, frameRate: fps })
+        : new MP4Muxer({ width, height, frameRate: fps });
+    this.muxer = muxer;
+    this.videoError = undefined;
+    this.videoEncoder = new VideoEncoder({
+      output: (chunk, metadata) => muxer.addChunk(chunk, metadata),
+      error: (error) => {
+        console.error('Video encoder error:', error);
+        this.videoError = error;
+      },
+    });
+    this.videoEncoder.configure(config);
+    console.log(`Encoding video with ${config.codec} at ${bitrate} bps`);
   }
 
   /**
@@ -57,103 +250,252 @@ export class FrameExporter {
   }
 
   /**
-   * Capture the current frame
-   * Call this after rendering each frame
+   * What the current export reads back. Render the frame to a texture of
+   * this format and pass it to encodeCapture().
    */
-  async captureFrame(): Promise<boolean> {
+  getCaptureTarget(): CaptureTarget | undefined {
     if (!this.isExporting) {
-      return false;
+      return undefined;
+    }
+    switch (this.options.format ?? 'jpeg') {
+      case 'png16':
+        return { format: 'rgba16float', linear: false };
+      case 'exr':
+        return { format: 'rgba16float', linear: true };
+      default:
+        return { format: 'rgba8unorm', linear: false };
     }
+  }
 
-    if (this.currentFrame >= this.options.totalFrames) {
-      await this.finishExport();
-      return false;
-    }
-
-    try {
-      // Wait for GPU work to complete
-      await this.device.queue.onSubmittedWorkDone();
-
-      // Capture canvas as blob with maximum quality
-      const blob = await new Promise<Blob>((resolve, reject) => {
-        this.canvas.toBlob(
-          (blob) => {
-            if (blob) {
-              resolve(blob);
-            } else {
-              reject(new Error('Failed to create blob from canvas'));
-            }
-          },
-          'image/jpeg',
-          1.0  // Maximum quality
-        );
+  /**
+   * Copy the rendered frame into the read back buffer. Call this with the
+   * frame's command encoder, before it is submitted, as the canvas texture
+   * is only valid until the frame is presented.
+   */
+  encodeCapture(commandEncoder: GPUCommandEncoder, texture: GPUTexture): void {
+    if (!this.isExporting || this.currentFrame >= this.options.totalFrames) {
+      return;
+    }
+
+    const bytesPerPixel = texture.format === 'rgba16float' ? 8 : 4;
+    const bytesPerRow = Math.ceil((texture.width * bytesPerPixel) / 256) * 256;
+    const size = bytesPerRow * texture.height;
+    if (!this.readbackBuffer || this.readbackBuffer.size !== size) {
+      this.readbackBuffer?.destroy();
+      this.readbackBuffer = this.device.createBuffer({
+        label: 'frame export readback',
+        size,
+        usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
       });
+    }
+
+    commandEncoder.copyTextureToBuffer(
+      { texture },
+      { buffer: this.readbackBuffer, bytesPerRow },
+      [texture.width, texture.height]
+    );
+    this.readbackBytesPerRow = bytesPerRow;
+    this.readbackWidth = texture.width;
+    this.readbackHeight = texture.height;
+    this.readbackFormat = texture.format;
+    this.hasPendingReadback = true;
+  }
 
-      // Store blob for batch download
-      this.capturedFrames.push(blob);
+  /**
+   * Map the read back buffer and return its rows tightly packed as RGBA.
+   * 8-bit formats give bytes, rgba16float gives half float bits.
+   */
+  private async readPixels(): Promise<Uint8Array | Uint16Array> {
+    const buffer = this.readbackBuffer!;
+    const width = this.readbackWidth;
+    const height = this.readbackHeight;
+    await buffer.mapAsync(GPUMapMode.READ);
+    const mapped = new Uint8Array(buffer.getMappedRange());
 
-      this.currentFrame++;
+    const bytesPerPixel = this.readbackFormat === 'rgba16float' ? 8 : 4;
+    const rowBytes = width * bytesPerPixel;
+    const packed = new Uint8Array(rowBytes * height);
+    for (let y = 0; y < height; y++) {
+      const row = y * this.readbackBytesPerRow;
+      packed.set(mapped.subarray(row, row + rowBytes), y * rowBytes);
+    }
+    buffer.unmap();
+    this.hasPendingReadback = false;
 
-      // Report progress
-      if (this.options.onProgress) {
-        this.options.onProgress(this.currentFrame, this.options.totalFrames);
+    if (this.readbackFormat === 'rgba16float') {
+      return new Uint16Array(packed.buffer);
+    }
+    if (this.readbackFormat?.startsWith('bgra8')) {
+      for (let i = 0; i < packed.length; i += 4) {
+        const b = packed[i];
+        packed[i] = packed[i + 2];
+        packed[i + 2] = b;
       }
+    }
+    return packed;
+  }
+
+  /**
+   * Encode the captured frame in the export format
+   */
+  private async encodeFrame(frameIndex: number): Promise<void> {
+    const format = this.options.format ?? 'jpeg';
+    if (!this.hasPendingReadback) {
+      throw new Error('No frame was copied with encodeCapture()');
+    }
+    const pixels = await this.readPixels();
+    const width = this.readbackWidth;
+    const height = this.readbackHeight;
+
+    if (isVideoFormat(format)) {
+      await this.encodeVideoFrame(pixels as Uint8Array, frameIndex);
+      return;
+    }
 
-      // Log progress every 10 frames
-      if (this.currentFrame % 10 === 0 || this.currentFrame === this.options.totalFrames) {
-        const elapsed = (performance.now() - this.exportStartTime) / 1000;
-        const fps = this.currentFrame / elapsed;
-        console.log(
-          `Captured frame ${this.currentFrame}/${this.options.totalFrames} (${fps.toFixed(1)} fps)`
-        );
+    let data: Uint8Array;
+    if (format === 'jpeg') {
+      // Default to maximum quality
+      data = await encodeJPEG(
+        width,
+        height,
+        pixels as Uint8Array,
+        this.options.quality ?? 1.0
+      );
+    } else if (format === 'exr') {
+      data = encodeEXR(width, height, pixels as Uint16Array);
+    } else if (format === 'png16') {
+      // Half floats to 16-bit unorm
+      const half = pixels as Uint16Array;
+      const samples = new Uint16Array(half.length);
+      for (let i = 0; i < half.length; i++) {
+        const value = Math.min(Math.max(float16ToFloat32(half[i]), 0), 1);
+        samples[i] = Math.round(value * 65535);
       }
+      data = await encodePNG(width, height, samples);
+    } else {
+      data = await encodePNG(width, height, pixels);
+    }
+    this.zip!.addFile(this.getFrameFilename(frameIndex), data);
+  }
+
+  private async encodeVideoFrame(
+    pixels: Uint8Array,
+    frameIndex: number
+  ): Promise<void> {
+    const encoder = this.videoEncoder!;
+    if (this.videoError) {
+      throw this.videoError;
+    }
 
-      return true;
-    } catch (error) {
-      console.error('Error capturing frame:', error);
-      this.stopExport();
-      return false;
+    // Let the encoder catch up rather than queueing every frame in memory
+    while (encoder.encodeQueueSize > kMaxEncodeQueueSize) {
+      await new Promise((resolve) =>
+        encoder.addEventListener('dequeue', resolve, { once: true })
+      );
     }
+
+    // Timestamps come from the frame index, so the video timing does not
+    // depend on how fast frames were rendered
+    const fps = this.options.fps ?? 30;
+    const videoFrame = new VideoFrame(pixels, {
+      format: 'RGBA',
+      codedWidth: this.readbackWidth,
+      codedHeight: this.readbackHeight,
+      timestamp: Math.round((frameIndex * 1e6) / fps),
+      duration: Math.round(1e6 / fps),
+    });
+    const keyFrame =
+      frameIndex % Math.max(1, Math.round(fps * kKeyframeInterval)) === 0;
+    encoder.encode(videoFrame, { keyFrame });
+    videoFrame.close();
+  }
+
+  private getFrameFilename(frameIndex: number): string {
+    const frameNumber = String(
+      (this.options.firstFrame ?? 0) + frameIndex
+    ).padStart(4, '0');
+    const extension = kFileExtensions[this.options.format ?? 'jpeg'];
+    // Use the same format as input images: 0000.0xxx.basecolor.jpg
+    return `${this.options.outputPrefix}.${frameNumber}.basecolor.${extension}`;
   }
 
   /**
-   * Finish export and download all frames
+   * Read back and encode the frame copied by encodeCapture(). Call this
+   * after submitting the frame's command buffer. Throws if the frame cannot
+   * be encoded, after which the export should be stopped.
    */
-  private async finishExport(): Promise<void> {
+  async captureFrame(): Promise<void> {
+    if (!this.isExporting) {
+      throw new Error('No export in progress');
+    }
+    if (this.currentFrame >= this.options.totalFrames) {
+      throw new Error(`All ${this.options.totalFrames} frames were captured`);
+    }
+
+    // Wait for GPU work to complete
+    await this.device.queue.onSubmittedWorkDone();
+
+    await this.encodeFrame(this.currentFrame);
+
+    this.currentFrame++;
+
+    // Report progress
+    if (this.options.onProgress) {
+      this.options.onProgress(this.currentFrame, this.options.totalFrames);
+    }
+
+    // Log progress every 10 frames
+    if (
+      this.currentFrame % 10 === 0 ||
+      this.currentFrame === this.options.totalFrames
+    ) {
+      const elapsed = (performance.now() - this.exportStartTime) / 1000;
+      const fps = this.currentFrame / elapsed;
+      console.log(
+        `Captured frame ${this.currentFrame}/${
+          this.options.totalFrames
+        } (${fps.toFixed(1)} fps)`
+      );
+    }
+  }
+
+  /**
+   * Finish the export, returning the zip or video as one file
+   */
+  async finishExport(): Promise<{ blob: Blob; filename: string }> {
+    if (!this.isExporting) {
+      throw new Error('No export in progress');
+    }
     const totalTime = (performance.now() - this.exportStartTime) / 1000;
     console.log(`Frame capture complete! Total time: ${totalTime.toFixed(2)}s`);
-    console.log(`Average FPS: ${(this.options.totalFrames / totalTime).toFixed(1)}`);
-    console.log('Starting download of all frames...');
-
-    // Download all frames
-    for (let i = 0; i < this.capturedFrames.length; i++) {
-      const blob = this.capturedFrames[i];
-      const frameNumber = String(i).padStart(4, '0');
-      // Use the same format as input images: 0000.0xxx.basecolor.jpg
-      const filename = `${this.options.outputPrefix}.${frameNumber}.basecolor.jpg`;
-      
-      await this.downloadBlob(blob, filename);
-      
-      // Add small delay between downloads to prevent browser throttling
-      if (i % 50 === 0 && i > 0) {
-        await new Promise(resolve => setTimeout(resolve, 100));
+    console.log(`Average FPS: ${(this.currentFrame / totalTime).toFixed(1)}`);
+
+    let blob: Blob;
+    let filename: string;
+    const format = this.options.format ?? 'jpeg';
+    if (isVideoFormat(format)) {
+      await this.videoEncoder!.flush();
+      if (this.videoError) {
+        throw this.videoError;
       }
+      blob = this.muxer!.finish();
+      filename = `${this.options.outputPrefix}.${kFileExtensions[format]}`;
+      console.log(`Muxed ${this.muxer!.getChunkCount()} video frames`);
+    } else {
+      blob = this.zip!.finish();
+      filename = `${this.options.outputPrefix}.zip`;
     }
 
-    console.log(`Successfully downloaded ${this.capturedFrames.length} frames`);
-
     this.isExporting = false;
-    this.capturedFrames = [];
-
-    if (this.options.onComplete) {
-      this.options.onComplete();
-    }
+    this.releaseExportState();
+    return { blob, filename };
   }
 
   /**
    * Download a blob as a file
    */
-  private async downloadBlob(blob: Blob, filename: string): Promise<void> {
+  async download(blob: Blob, filename: string): Promise<void> {
+    console.log(`Downloading ${filename} (${(blob.size / 1e6).toFixed(1)} MB)`);
     return new Promise((resolve) => {
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
@@ -162,7 +504,7 @@ export class FrameExporter {
       a.style.display = 'none';
       document.body.appendChild(a);
       a.click();
-      
+
       // Clean up after a short delay
       setTimeout(() => {
         document.body.removeChild(a);
@@ -172,6 +514,18 @@ export class FrameExporter {
     });
   }
 
+  private releaseExportState(): void {
+    this.zip = undefined;
+    if (this.videoEncoder && this.videoEncoder.state !== 'closed') {
+      this.videoEncoder.close();
+    }
+    this.videoEncoder = undefined;
+    this.muxer = undefined;
+    this.readbackBuffer?.destroy();
+    this.readbackBuffer = undefined;
+    this.hasPendingReadback = false;
+  }
+
   /**
    * Stop export
    */
@@ -179,7 +533,7 @@ export class FrameExporter {
     if (this.isExporting) {
       console.log('Export stopped');
       this.isExporting = false;
-      this.capturedFrames = [];
+      this.releaseExportState();
     }
   }
 
@@ -195,7 +549,10 @@ export class FrameExporter {
 /**
  * Calculate total frames in a video
  */
-export function calculateVideoFrames(video: HTMLVideoElement, fps: number = 30): number {
+export function calculateVideoFrames(
+  video: HTMLVideoElement,
+  fps: number = 30
+): number {
   return Math.floor(video.duration * fps);
 }
 
@@ -206,11 +563,10 @@ export function estimateVideoFrameRate(video: HTMLVideoElement): number {
   // Try to detect common frame rates
   // This is approximate - for exact frame rate, you'd need to analyze the video file
   const duration = video.duration;
-  
+
   // Common frame rates: 24, 25, 30, 60
   const commonFPS = [24, 25, 30, 60];
-  
+
   // Default to 30 fps if we can't determine
   return 30;
 }
-
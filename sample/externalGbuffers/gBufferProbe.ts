@@ -0,0 +1,222 @@
+/**
+ * Reads raw G-buffer texels back to the CPU for the inspector's hover probe
+ * and auto range, and reconstructs world positions the way the lighting
+ * shader does.
+ */
+import { mat4, vec3, vec4, Vec3 } from 'wgpu-matrix';
+import { ResolvedCamera } from './cameraLoader';
+import { DepthEncoding, NormalDecoding } from './imageLoader';
+import { float16ToFloat32 } from './decodedImage';
+
+interface TexelLayout {
+  bytesPerTexel: number;
+  components: number;
+  read: (view: DataView, offset: number) => number;
+}
+
+// Formats of the G-buffer textures and render targets
+const kTexelLayouts: { [format: string]: TexelLayout } = {
+  rgba8unorm: {
+    bytesPerTexel: 4,
+    components: 4,
+    read: (view, offset) => view.getUint8(offset) / 255,
+  },
+  r16float: {
+    bytesPerTexel: 2,
+    components: 1,
+    read: (view, offset) => float16ToFloat32(view.getUint16(offset, true)),
+  },
+  rgba16float: {
+    bytesPerTexel: 8,
+    components: 4,
+    read: (view, offset) => float16ToFloat32(view.getUint16(offset, true)),
+  },
+  r32float: {
+    bytesPerTexel: 4,
+    components: 1,
+    read: (view, offset) => view.getFloat32(offset, true),
+  },
+  rgba32float: {
+    bytesPerTexel: 16,
+    components: 4,
+    read: (view, offset) => view.getFloat32(offset, true),
+  },
+};
+
+/**
+ * Texels of a texture region, components interleaved
+ */
+export interface TexelData {
+  width: number;
+  height: number;
+  components: number;
+  data: Float32Array;
+}
+
+/**
+ * Copy a region of a texture layer back and decode its texels. The texture
+ * needs COPY_SRC usage.
+ */
+export async function readTexels(
+  device: GPUDevice,
+  texture: GPUTexture,
+  layer: number,
+  x: number,
+  y: number,
+  width = 1,
+  height = 1
+): Promise<TexelData> {
+  const layout = kTexelLayouts[texture.format];
+  if (!layout) {
+    throw new Error(`Can't read back ${texture.format} textures`);
+  }
+
+  const bytesPerRow = Math.ceil((width * layout.bytesPerTexel) / 256) * 256;
+  const buffer = device.createBuffer({
+    label: 'texel readback',
+    size: bytesPerRow * height,
+    usage: GPUBufferUsage.COPY_DST | GPUBufferUsage.MAP_READ,
+  });
+  const commandEncoder = device.createCommandEncoder();
+  commandEncoder.copyTextureToBuffer(
+    { texture, origin: { x, y, z: layer } },
+    { buffer, bytesPerRow },
+    { width, height }
+  );
+  device.queue.submit([commandEncoder.finish()]);
+
+  try {
+    await buffer.mapAsync(GPUMapMode.READ);
+    const view = new DataView(buffer.getMappedRange());
+    const componentBytes = layout.bytesPerTexel / layout.components;
+    const data = new Float32Array(width * height * layout.components);
+    for (let row = 0; row < height; row++) {
+      for (let i = 0; i < width * layout.components; i++) {
+        data[row * width * layout.components + i] = layout.read(
+          view,
+          row * bytesPerRow + i * componentBytes
+        );
+      }
+    }
+    return { width, height, components: layout.components, data };
+  } finally {
+    buffer.destroy();
+  }
+}
+
+/**
+ * Whether a depth sample has no geometry, matching the lighting shader
+ */
+export function isBackgroundDepth(
+  depth: number,
+  encoding: DepthEncoding
+): boolean {
+  if (encoding === 'ndc') {
+    return depth >= 1;
+  }
+  return depth <= 0 || depth >= 1e9;
+}
+
+/**
+ * World position of a depth sample at a screen position, with uv in 0-1
+ * from the top left, matching the lighting shader's reconstruction
+ */
+export function worldFromScreen(
+  u: number,
+  v: number,
+  depth: number,
+  encoding: DepthEncoding,
+  camera: ResolvedCamera
+): Float32Array {
+  const invViewProj = mat4.invert(camera.viewProjectionMatrix);
+  const ndcX = u * 2 - 1;
+  const ndcY = (1 - v) * 2 - 1;
+  const unproject = (z: number) => {
+    const world = vec4.transformMat4([ndcX, ndcY, z, 1], invViewProj);
+    return vec3.divScalar(
+      vec3.fromValues(world[0], world[1], world[2]),
+      world[3]
+    );
+  };
+
+  if (encoding === 'ndc') {
+    return unproject(depth);
+  }
+
+  // Scale the view ray through this pixel by the stored depth
+  const rayDir = vec3.normalize(vec3.sub(unproject(1), camera.position));
+  let distance = depth;
+  if (encoding === 'linear') {
+    const view = camera.viewMatrix;
+    const forward = vec3.fromValues(-view[2], -view[6], -view[10]);
+    distance = depth / vec3.dot(rayDir, forward);
+  }
+  return vec3.add(camera.position, vec3.mulScalar(rayDir, distance));
+}
+
+/**
+ * Screen position of a world position, with uv in 0-1 from the top left, or
+ * undefined behind the camera
+ */
+export function screenFromWorld(
+  position: Vec3,
+  camera: ResolvedCamera
+): { u: number; v: number } | undefined {
+  const clip = vec4.transformMat4(
+    [position[0], position[1], position[2], 1],
+    camera.viewProjectionMatrix
+  );
+  if (clip[3] <= 0) {
+    return undefined;
+  }
+  return {
+    u: (clip[0] / clip[3] + 1) * 0.5,
+    v: (1 - clip[1] / clip[3]) * 0.5,
+  };
+}
+
+function octahedralDecode(x: number, y: number): Vec3 {
+  const z = 1 - Math.abs(x) - Math.abs(y);
+  if (z < 0) {
+    return vec3.fromValues(
+      (1 - Math.abs(y)) * (x >= 0 ? 1 : -1),
+      (1 - Math.abs(x)) * (y >= 0 ? 1 : -1),
+      z
+    );
+  }
+  return vec3.fromValues(x, y, z);
+}
+
+/**
+ * World-space unit normal of a normal texel, matching the lighting shader's
+ * decoding
+ */
+export function worldNormalFromTexel(
+  texel: ArrayLike<number>,
+  decoding: NormalDecoding,
+  camera: ResolvedCamera
+): Vec3 {
+  let stored: Vec3;
+  if (decoding.encoding === 'signed') {
+    stored = vec3.fromValues(texel[0], texel[1], texel[2] ?? 0);
+  } else if (decoding.encoding === 'octahedral') {
+    stored = octahedralDecode(texel[0] * 2 - 1, texel[1] * 2 - 1);
+  } else {
+    stored = vec3.fromValues(
+      texel[0] * 2 - 1,
+      texel[1] * 2 - 1,
+      (texel[2] ?? 0) * 2 - 1
+    );
+  }
+
+  // Stored axis for each of X, Y and Z, negated by the flips
+  const axis = (i: number) => {
+    const value = stored['xyz'.indexOf(decoding.swizzle[i])];
+    return decoding.flip.includes('xyz'[i]) ? -value : value;
+  };
+  let normal = vec3.fromValues(axis(0), axis(1), axis(2));
+  if (decoding.space === 'view') {
+    normal = vec3.transformMat4Upper3x3(normal, mat4.invert(camera.viewMatrix));
+  }
+  return vec3.normalize(normal);
+}
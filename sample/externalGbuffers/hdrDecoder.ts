@@ -0,0 +1,163 @@
+/**
+ * Radiance .hdr (RGBE) decoder for flat, old-style RLE and adaptive RLE
+ * scanlines
+ */
+import { DecodedImage } from './decodedImage';
+
+// Adaptive RLE scanlines are only used for widths in this range
+const kMinRLEWidth = 8;
+const kMaxRLEWidth = 0x7fff;
+
+function readLine(bytes: Uint8Array, offset: number) {
+  let end = offset;
+  while (end < bytes.length && bytes[end] !== 0x0a) {
+    end++;
+  }
+  if (end >= bytes.length) {
+    throw new Error('Radiance HDR header is truncated');
+  }
+  let line = '';
+  for (let i = offset; i < end; i++) {
+    line += String.fromCharCode(bytes[i]);
+  }
+  return { line, next: end + 1 };
+}
+
+/**
+ * Read one scanline of RGBE pixels into out, returning the next offset
+ */
+function readScanline(
+  bytes: Uint8Array,
+  offset: number,
+  width: number,
+  out: Uint8Array
+): number {
+  const truncated = () => new Error('Radiance HDR pixel data is truncated');
+
+  const adaptive =
+    width >= kMinRLEWidth &&
+    width <= kMaxRLEWidth &&
+    bytes[offset] === 2 &&
+    bytes[offset + 1] === 2 &&
+    !(bytes[offset + 2] & 0x80);
+  if (adaptive) {
+    if (((bytes[offset + 2] << 8) | bytes[offset + 3]) !== width) {
+      throw new Error('Radiance HDR scanline width mismatch');
+    }
+    offset += 4;
+    // Each component is run-length encoded separately
+    for (let component = 0; component < 4; component++) {
+      let x = 0;
+      while (x < width) {
+        if (offset >= bytes.length) {
+          throw truncated();
+        }
+        let count = bytes[offset++];
+        if (count > 128) {
+          count -= 128;
+          if (x + count > width) {
+            throw new Error('Radiance HDR run overflows the scanline');
+          }
+          const value = bytes[offset++];
+          for (let i = 0; i < count; i++) {
+            out[x++ * 4 + component] = value;
+          }
+        } else {
+          if (count === 0 || x + count > width) {
+            throw new Error('Radiance HDR run overflows the scanline');
+          }
+          if (offset + count > bytes.length) {
+            throw truncated();
+          }
+          for (let i = 0; i < count; i++) {
+            out[x++ * 4 + component] = bytes[offset++];
+          }
+        }
+      }
+    }
+    return offset;
+  }
+
+  // Flat pixels, where (1, 1, 1, n) repeats the previous pixel n times,
+  // shifted by 8 bits for each consecutive repeat
+  let x = 0;
+  let shift = 0;
+  while (x < width) {
+    if (offset + 4 > bytes.length) {
+      throw truncated();
+    }
+    const [r, g, b, e] = bytes.subarray(offset, offset + 4);
+    offset += 4;
+    if (r === 1 && g === 1 && b === 1) {
+      if (x === 0) {
+        throw new Error('Radiance HDR scanline starts with a repeat');
+      }
+      const count = Math.min(e << shift, width - x);
+      for (let i = 0; i < count; i++, x++) {
+        out.copyWithin(x * 4, (x - 1) * 4, x * 4);
+      }
+      shift += 8;
+    } else {
+      out.set([r, g, b, e], x++ * 4);
+      shift = 0;
+    }
+  }
+  return offset;
+}
+
+/**
+ * Decode a Radiance .hdr file to linear RGB floats, top row first
+ */
+export function decodeHDR(buffer: ArrayBuffer): DecodedImage {
+  const bytes = new Uint8Array(buffer);
+
+  let { line, next } = readLine(bytes, 0);
+  if (!line.startsWith('#?')) {
+    throw new Error('Not a Radiance HDR file');
+  }
+
+  // Header variables up to an empty line
+  let exposure = 1;
+  for (;;) {
+    ({ line, next } = readLine(bytes, next));
+    if (line === '') {
+      break;
+    }
+    if (line.startsWith('FORMAT=') && line !== 'FORMAT=32-bit_rle_rgbe') {
+      throw new Error(`Unsupported Radiance HDR format "${line.slice(7)}"`);
+    }
+    // Exposures multiply, pixel values are divided by the total
+    if (line.startsWith('EXPOSURE=')) {
+      exposure *= parseFloat(line.slice(9)) || 1;
+    }
+  }
+
+  // Resolution string, rows first
+  ({ line, next } = readLine(bytes, next));
+  const resolution = /^([-+])Y\s+(\d+)\s+\+X\s+(\d+)$/.exec(line.trim());
+  if (!resolution) {
+    throw new Error(`Unsupported Radiance HDR orientation "${line}"`);
+  }
+  const flipY = resolution[1] === '+';
+  const height = parseInt(resolution[2]);
+  const width = parseInt(resolution[3]);
+
+  const data = new Float32Array(width * height * 3);
+  const scanline = new Uint8Array(width * 4);
+  let offset = next;
+  for (let row = 0; row < height; row++) {
+    offset = readScanline(bytes, offset, width, scanline);
+    const y = flipY ? height - 1 - row : row;
+    for (let x = 0; x < width; x++) {
+      const e = scanline[x * 4 + 3];
+      // Mantissas are 8-bit fractions of 2^(e - 128)
+      const scale = e === 0 ? 0 : Math.pow(2, e - 136) / exposure;
+      const index = (y * width + x) * 3;
+      data[index] = (scanline[x * 4] + 0.5) * scale;
+      data[index + 1] = (scanline[x * 4 + 1] + 0.5) * scale;
+      data[index + 2] = (scanline[x * 4 + 2] + 0.5) * scale;
+    }
+  }
+
+  return { width, height, channels: 3, data };
+}
@@ -1,6 +1,17 @@
 /**
  * Utility functions for loading image sequence G-Buffer textures
  */
+import {
+  CameraSequence,
+  ResolvedCamera,
+  fetchOptionalJSON,
+  kCameraFramePattern,
+  loadCameraSequence,
+} from './cameraLoader';
+import { packForFormat } from './decodedImage';
+import { decodeEXR, readEXRHeader } from './exrDecoder';
+import { decodePNG } from './pngDecoder';
+import { SequenceFiles, urlSequenceFiles } from './sequenceFiles';
 
 export interface ImageGBufferTextures {
   basecolor: GPUTexture;
@@ -8,107 +19,645 @@ export interface ImageGBufferTextures {
   depth: GPUTexture;
   metallic: GPUTexture;
   roughness: GPUTexture;
+  // Optional channels, which the shaders replace by defaults when absent
+  ao?: GPUTexture;
+  emissive?: GPUTexture;
+  specular?: GPUTexture;
+}
+
+export type ImageFileFormat = 'jpg' | 'png' | 'exr';
+
+/**
+ * How the depth channel stores depth:
+ * - ndc: projected depth in [0, 1], 1 = far plane
+ * - linear: view-space Z along the camera axis
+ * - distance: distance from the camera position
+ */
+export type DepthEncoding = 'ndc' | 'linear' | 'distance';
+
+export type ChannelComponent = 'r' | 'g' | 'b' | 'a';
+
+/**
+ * How the specular channel stores dielectric reflectance:
+ * - level: specular level where 0.5 is 4% reflectance (F0 = 0.08 * value)
+ * - f0: reflectance at normal incidence
+ * - ior: index of refraction, F0 = ((ior - 1) / (ior + 1))^2
+ */
+export type SpecularEncoding = 'level' | 'f0' | 'ior';
+
+/**
+ * Space of the normal channel. View-space normals are rotated to world space
+ * with the frame's camera.
+ */
+export type NormalSpace = 'world' | 'view';
+
+/**
+ * How the normal channel stores normals:
+ * - unsigned: components encoded as (n + 1) / 2
+ * - signed: components as is, for float images
+ * - octahedral: octahedral mapping in the first two components, encoded as
+ *   (e + 1) / 2
+ */
+export type NormalEncoding = 'unsigned' | 'signed' | 'octahedral';
+
+/**
+ * Normal channel settings with their defaults filled in
+ */
+export interface NormalDecoding {
+  space: NormalSpace;
+  encoding: NormalEncoding;
+  swizzle: string;
+  flip: string;
+}
+
+export interface ImageChannelConfig {
+  // File name pattern relative to the sequence folder. `####` or `%04d` is
+  // replaced by the padded frame number, `{frame}` uses the manifest padding.
+  // Defaults to `0000.####.<channel>.<format>`.
+  file?: string;
+  format?: ImageFileFormat; // Defaults to the file extension, else 'jpg'
+  component?: ChannelComponent; // Component to read from a packed image
+  exrChannels?: string[]; // EXR channels to read, e.g. ['Z']
+  depthEncoding?: DepthEncoding; // Depth channel only, defaults to 'ndc'
+  specularEncoding?: SpecularEncoding; // Specular only, defaults to 'level'
+  // Normal only: the space, encoding and axes of the stored normals. The
+  // swizzle picks the stored axis for each of X, Y and Z (Y up, right-handed)
+  // and the flip lists axes negated after it, e.g. 'xzy' and 'z' for
+  // Blender's Z-up world.
+  normalSpace?: NormalSpace; // Defaults to 'world'
+  normalEncoding?: NormalEncoding; // Defaults to 'unsigned'
+  normalSwizzle?: string; // Defaults to 'xyz'
+  normalFlip?: string; // Defaults to ''
+  linear?: boolean; // Basecolor and emissive only, defaults to true for EXR
 }
 
 export interface ImageGBufferConfig {
-  basecolor?: boolean;
-  depth?: boolean;
-  metallic?: boolean;
-  normal?: boolean;
-  roughness?: boolean;
+  basecolor?: boolean | ImageChannelConfig;
+  depth?: boolean | ImageChannelConfig;
+  metallic?: boolean | ImageChannelConfig;
+  normal?: boolean | ImageChannelConfig;
+  roughness?: boolean | ImageChannelConfig;
+  ao?: boolean | ImageChannelConfig;
+  emissive?: boolean | ImageChannelConfig;
+  specular?: boolean | ImageChannelConfig;
+}
+
+/**
+ * Layout of the `gbuffer.json` manifest describing a G-Buffer sequence
+ */
+export interface ImageSequenceManifest {
+  channels: ImageGBufferConfig;
+  frameStart?: number; // First frame number in the file names, defaults to 0
+  frameEnd?: number; // Last frame number (inclusive), detected when absent
+  padding?: number; // Frame number digits for `{frame}`, defaults to 4
+  fps?: number; // Defaults to 30
+  prefetchFrames?: number; // Upcoming frames decoded ahead, defaults to 4
+}
+
+/**
+ * One image file per frame, feeding one or more G-Buffer channels
+ */
+interface ImageSource {
+  pattern: string;
+  format: ImageFileFormat;
+  exrChannels?: string[];
+  channels: string[];
+  components: ChannelComponent[];
+  texture?: GPUTexture;
+}
+
+const kDepthEncodings: DepthEncoding[] = ['ndc', 'linear', 'distance'];
+const kComponents: ChannelComponent[] = ['r', 'g', 'b', 'a'];
+const kSpecularEncodings: SpecularEncoding[] = ['level', 'f0', 'ior'];
+const kNormalSpaces: NormalSpace[] = ['world', 'view'];
+const kNormalEncodings: NormalEncoding[] = ['unsigned', 'signed', 'octahedral'];
+const kAxes = 'xyz';
+
+// Channels the lighting shaders read as a single component
+const kScalarChannels = ['depth', 'metallic', 'roughness', 'ao', 'specular'];
+
+// Binding of each channel's texture in the G-Buffer bind group. The sampler
+// and the frame layer uniform follow the required channels, the optional
+// channels come last.
+export const kGBufferBindings: {
+  [K in keyof ImageGBufferTextures]-?: number;
+} = {
+  basecolor: 0,
+  normal: 1,
+  depth: 2,
+  metallic: 3,
+  roughness: 4,
+  ao: 7,
+  emissive: 8,
+  specular: 9,
+};
+export const kGBufferSamplerBinding = 5;
+export const kGBufferFrameLayerBinding = 6;
+
+const kDefaultPrefetchFrames = 4;
+
+function formatFromExtension(pattern: string): ImageFileFormat | undefined {
+  const extension = pattern.split('.').pop()?.toLowerCase();
+  switch (extension) {
+    case 'jpg':
+    case 'jpeg':
+      return 'jpg';
+    case 'png':
+      return 'png';
+    case 'exr':
+      return 'exr';
+  }
+  return undefined;
+}
+
+/**
+ * Substitute a frame number into a file name pattern
+ */
+export function expandFramePattern(
+  pattern: string,
+  frameNumber: number,
+  padding: number = 4
+): string {
+  const frame = frameNumber.toString();
+  return pattern
+    .replace(/#+/g, (hashes) => frame.padStart(hashes.length, '0'))
+    .replace(/%(0?\d*)d/g, (_, width) => frame.padStart(Number(width), '0'))
+    .replace(/\{frame\}/g, () => frame.padStart(padding, '0'));
+}
+
+/**
+ * Pick the texture format for an image source. JPGs upload as 8-bit, while
+ * PNG and EXR inputs keep their precision; depth gets full 32-bit floats.
+ */
+function textureFormatForSource(source: ImageSource): GPUTextureFormat {
+  if (source.format === 'jpg') {
+    return 'rgba8unorm';
+  }
+
+  const packed =
+    source.channels.length > 1 || source.components.some((c) => c !== 'r');
+  if (source.channels.includes('depth')) {
+    // Depth isn't filterable as a float32 texture, so it can't be sampled
+    // together with other channels
+    if (source.channels.length > 1) {
+      throw new Error(
+        `${source.pattern}: depth can't share a PNG/EXR file with other channels`
+      );
+    }
+    return packed ? 'rgba32float' : 'r32float';
+  }
+
+  const scalar = source.channels.every((c) => kScalarChannels.includes(c));
+  return scalar && !packed ? 'r16float' : 'rgba16float';
+}
+
+/**
+ * Create the bind group layout matching the G-Buffer textures of a sequence.
+ * Missing optional channels get the layout of createMissingChannelTexture().
+ */
+export function createGBufferBindGroupLayout(
+  device: GPUDevice,
+  textures: ImageGBufferTextures
+): GPUBindGroupLayout {
+  const entries: GPUBindGroupLayoutEntry[] = [];
+  for (const [channel, binding] of Object.entries(kGBufferBindings)) {
+    const format =
+      textures[channel as keyof ImageGBufferTextures]?.format ?? 'rgba8unorm';
+    // Depth is read with textureLoad so it can be a float32 format
+    const filterable = channel !== 'depth' && !format.endsWith('32float');
+    entries.push({
+      binding,
+      visibility: GPUShaderStage.FRAGMENT,
+      texture: {
+        sampleType: filterable ? 'float' : 'unfilterable-float',
+        viewDimension: '2d-array',
+      },
+    });
+  }
+  entries.push({
+    binding: kGBufferSamplerBinding,
+    visibility: GPUShaderStage.FRAGMENT,
+    sampler: {},
+  });
+  entries.push({
+    binding: kGBufferFrameLayerBinding,
+    visibility: GPUShaderStage.FRAGMENT,
+    buffer: {},
+  });
+
+  return device.createBindGroupLayout({
+    label: 'gBuffer textures',
+    entries,
+  });
+}
+
+/**
+ * Texture bound in place of the optional channels a sequence doesn't have.
+ * The shaders use defaults for those channels instead of reading it.
+ */
+export function createMissingChannelTexture(device: GPUDevice): GPUTexture {
+  return device.createTexture({
+    label: 'gBuffer missing channel',
+    size: [1, 1, 1],
+    textureBindingViewDimension: '2d-array',
+    format: 'rgba8unorm',
+    usage: GPUTextureUsage.TEXTURE_BINDING,
+  });
+}
+
+/**
+ * Load the optional `gbuffer.json` manifest of a sequence
+ */
+export async function loadGBufferManifest(
+  files: SequenceFiles
+): Promise<ImageSequenceManifest | undefined> {
+  return fetchOptionalJSON<ImageSequenceManifest>(files, 'gbuffer.json');
+}
+
+/**
+ * A frame held in one layer of the texture-array ring
+ */
+interface CachedFrame {
+  frame: number;
+  layer: number;
+  ready: boolean;
+  error?: unknown;
+  promise: Promise<void>;
+}
+
+/**
+ * Playback statistics of the frame prefetch cache
+ */
+export interface PrefetchStats {
+  hits: number; // Frames that were decoded before they were due
+  misses: number; // Frames that weren't ready when due
+  hitRate: number; // hits / (hits + misses), 1 before any playback
+  droppedFrames: number; // Frames skipped because they weren't ready in time
+  cachedFrames: number; // Decoded frames currently held in the ring
+}
+
+/**
+ * Number of layers in the texture-array ring: the displayed frame, the frame
+ * being seeked to and the prefetched frames after it
+ */
+function ringSizeForManifest(manifest: ImageSequenceManifest): number {
+  return (manifest.prefetchFrames ?? kDefaultPrefetchFrames) + 2;
 }
 
 /**
- * Image sequence controller to manage frame-by-frame loading
+ * Image sequence controller to manage frame-by-frame loading. Upcoming frames
+ * are decoded ahead of time into spare layers of the G-Buffer texture arrays,
+ * so advancing playback only changes which layer the shaders read.
  */
 export class ImageSequenceController {
-  private basePath: string;
+  private files: SequenceFiles;
   private currentFrame: number = 0;
   private totalFrames: number = 0;
-  private fps: number = 30;
+  // Multiplier of the speed playback advances at
+  private playbackRate: number = 1;
   private isPlaying: boolean = false;
   private lastUpdateTime: number = 0;
   private device: GPUDevice;
   private textures: ImageGBufferTextures;
-  private channels: string[];
+  private baseFps: number = 30;
+  private frameStart: number;
+  private padding: number;
+  private sources: ImageSource[];
+  private channelConfigs: { [channel: string]: ImageChannelConfig };
+  private cameras: CameraSequence;
+
+  // Frame prefetch ring
+  private ringSize: number;
+  private lookAhead: number;
+  private cache: Map<number, CachedFrame> = new Map();
+  private freeLayers: number[] = [];
+  private displayedLayer: number = 0;
+  private frameLayerBuffer: GPUBuffer;
+  private seekRequest: number = 0;
+  private lastMissedFrame: number = -1;
+  private hits: number = 0;
+  private misses: number = 0;
+  private droppedFrames: number = 0;
 
   constructor(
     device: GPUDevice,
     textures: ImageGBufferTextures,
-    basePath: string,
+    files: SequenceFiles,
     totalFrames: number,
-    channels: string[],
-    fps: number = 30
+    manifest: ImageSequenceManifest,
+    sources: ImageSource[],
+    channelConfigs: { [channel: string]: ImageChannelConfig },
+    cameras: CameraSequence
   ) {
     this.device = device;
     this.textures = textures;
-    this.basePath = basePath;
+    this.files = files;
     this.totalFrames = totalFrames;
-    this.channels = channels;
-    this.fps = fps;
+    this.frameStart = manifest.frameStart ?? 0;
+    this.padding = manifest.padding ?? 4;
+    this.sources = sources;
+    this.channelConfigs = channelConfigs;
+    this.cameras = cameras;
+    this.baseFps = manifest.fps ?? 30;
+
+    this.ringSize = ringSizeForManifest(manifest);
+    this.lookAhead = this.ringSize - 2;
+    for (let layer = this.ringSize - 1; layer >= 0; layer--) {
+      this.freeLayers.push(layer);
+    }
+    this.frameLayerBuffer = device.createBuffer({
+      label: 'gBuffer frame layer',
+      size: 4 * 4,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+    });
   }
 
   /**
-   * Load a specific frame for all channels
+   * Load a specific frame for all channels and display it
    */
   async loadFrame(frameNumber: number): Promise<void> {
     if (frameNumber < 0 || frameNumber >= this.totalFrames) {
-      console.warn(`Frame ${frameNumber} out of range [0, ${this.totalFrames - 1}]`);
+      console.warn(
+        `Frame ${frameNumber} out of range [0, ${this.totalFrames - 1}]`
+      );
+      return;
+    }
+
+    const request = ++this.seekRequest;
+    const entry = this.requestFrame(frameNumber, frameNumber, this.lookAhead);
+    if (!entry) {
+      throw new Error(`No free layer to load frame ${frameNumber}`);
+    }
+    await entry.promise;
+    if (entry.error) {
+      throw entry.error;
+    }
+
+    // A later seek, or playback, superseded this one while it loaded
+    if (request !== this.seekRequest || this.cache.get(frameNumber) !== entry) {
       return;
     }
+    this.showFrame(entry);
+    this.prefetch(frameNumber);
+  }
+
+  /**
+   * Offset of a frame after another, wrapping around the end of the sequence
+   */
+  private frameOffset(frameNumber: number, fromFrame: number): number {
+    return (frameNumber - fromFrame + this.totalFrames) % this.totalFrames;
+  }
+
+  /**
+   * Take a layer of the ring for a new frame, evicting the oldest frame
+   * outside of [windowStart, windowStart + windowLength]. The displayed layer
+   * is never reused.
+   */
+  private acquireLayer(
+    windowStart: number,
+    windowLength: number
+  ): number | undefined {
+    const free = this.freeLayers.pop();
+    if (free !== undefined) {
+      return free;
+    }
+
+    // Maps iterate in insertion order, so the oldest request goes first
+    for (const [frameNumber, entry] of this.cache) {
+      if (
+        entry.layer !== this.displayedLayer &&
+        this.frameOffset(frameNumber, windowStart) > windowLength
+      ) {
+        this.cache.delete(frameNumber);
+        return entry.layer;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Get the ring entry of a frame, starting to decode it if it isn't cached.
+   * Returns undefined when every layer holds a frame that is still needed.
+   */
+  private requestFrame(
+    frameNumber: number,
+    windowStart: number,
+    windowLength: number
+  ): CachedFrame | undefined {
+    const cached = this.cache.get(frameNumber);
+    if (cached) {
+      return cached;
+    }
+
+    const layer = this.acquireLayer(windowStart, windowLength);
+    if (layer === undefined) {
+      return undefined;
+    }
+
+    const entry: CachedFrame = {
+      frame: frameNumber,
+      layer,
+      ready: false,
+      promise: Promise.resolve(),
+    };
+    // The layer may be handed to another frame before decoding finishes, in
+    // which case the decoded images must not be written to it
+    const isCurrent = () => this.cache.get(frameNumber) === entry;
+
+    entry.promise = this.loadFrameIntoLayer(frameNumber, layer, isCurrent).then(
+      () => {
+        entry.ready = true;
+      },
+      (error) => {
+        console.error(`Failed to load frame ${frameNumber}:`, error);
+        entry.error = error;
+        if (isCurrent()) {
+          this.cache.delete(frameNumber);
+          this.freeLayers.push(layer);
+        }
+      }
+    );
+    this.cache.set(frameNumber, entry);
+    return entry;
+  }
+
+  /**
+   * Start decoding the frames following a frame into free layers
+   */
+  private prefetch(fromFrame: number): void {
+    const count = Math.min(this.lookAhead, this.totalFrames - 1);
+    for (let i = 1; i <= count; i++) {
+      const frameNumber = (fromFrame + i) % this.totalFrames;
+      if (!this.requestFrame(frameNumber, fromFrame, this.lookAhead)) {
+        break;
+      }
+    }
+  }
+
+  /**
+   * Make a decoded frame the displayed one
+   */
+  private showFrame(entry: CachedFrame): void {
+    this.currentFrame = entry.frame;
+    this.displayedLayer = entry.layer;
+    this.device.queue.writeBuffer(
+      this.frameLayerBuffer,
+      0,
+      new Uint32Array([entry.layer])
+    );
+  }
 
-    const frameString = frameNumber.toString().padStart(4, '0');
+  /**
+   * Decode all channels of a frame into one layer of the ring
+   */
+  private async loadFrameIntoLayer(
+    frameNumber: number,
+    layer: number,
+    isCurrent: () => boolean
+  ): Promise<void> {
     const loadPromises: Promise<void>[] = [];
+    const fileFrame = this.frameStart + frameNumber;
 
-    for (const channel of this.channels) {
-      const imagePath = `${this.basePath}0000.${frameString}.${channel}.jpg`;
-      loadPromises.push(this.loadImageToTexture(imagePath, channel));
+    for (const source of this.sources) {
+      const imagePath = expandFramePattern(
+        source.pattern,
+        fileFrame,
+        this.padding
+      );
+      if (source.format === 'jpg') {
+        loadPromises.push(
+          this.loadImageToTexture(imagePath, source, layer, isCurrent)
+        );
+      } else {
+        loadPromises.push(
+          this.loadDecodedImageToTexture(imagePath, source, layer, isCurrent)
+        );
+      }
     }
+    loadPromises.push(
+      this.cameras.loadFrame(
+        frameNumber,
+        expandFramePattern(kCameraFramePattern, fileFrame, this.padding)
+      )
+    );
 
     await Promise.all(loadPromises);
-    this.currentFrame = frameNumber;
   }
 
   /**
-   * Load an image and copy it to the corresponding GPU texture
+   * Load an image and copy it to a layer of the corresponding GPU texture
    */
-  private async loadImageToTexture(imagePath: string, channel: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-      img.crossOrigin = 'anonymous';
+  private async loadImageToTexture(
+    imagePath: string,
+    source: ImageSource,
+    layer: number,
+    isCurrent: () => boolean
+  ): Promise<void> {
+    const texture = source.texture;
+    if (!texture) {
+      throw new Error(`No texture found for: ${source.pattern}`);
+    }
+
+    const response = await this.files.fetch(imagePath);
+    if (!response.ok) {
+      throw new Error(`Failed to load image: ${imagePath}`);
+    }
+
+    // createImageBitmap decodes off the main thread
+    const imageBitmap = await createImageBitmap(await response.blob());
+    if (isCurrent()) {
+      this.device.queue.copyExternalImageToTexture(
+        { source: imageBitmap },
+        { texture, origin: { z: layer } },
+        { width: imageBitmap.width, height: imageBitmap.height }
+      );
+    }
+    imageBitmap.close();
+  }
 
-      img.onload = async () => {
-        try {
-          // Create an ImageBitmap for efficient GPU upload
-          const imageBitmap = await createImageBitmap(img);
+  /**
+   * Decode a 16-bit PNG or EXR in TypeScript and upload it to a layer of the
+   * corresponding float texture
+   */
+  private async loadDecodedImageToTexture(
+    imagePath: string,
+    source: ImageSource,
+    layer: number,
+    isCurrent: () => boolean
+  ): Promise<void> {
+    const texture = source.texture;
+    if (!texture) {
+      throw new Error(`No texture found for: ${source.pattern}`);
+    }
 
-          // Get the corresponding texture
-          const texture = this.textures[channel as keyof ImageGBufferTextures];
-          if (!texture) {
-            throw new Error(`No texture found for channel: ${channel}`);
-          }
+    const response = await this.files.fetch(imagePath);
+    if (!response.ok) {
+      throw new Error(`Failed to load image: ${imagePath}`);
+    }
+    const buffer = await response.arrayBuffer();
 
-          // Copy the image to the texture
-          this.device.queue.copyExternalImageToTexture(
-            { source: imageBitmap },
-            { texture: texture },
-            { width: imageBitmap.width, height: imageBitmap.height }
-          );
+    const image =
+      source.format === 'exr'
+        ? await decodeEXR(buffer, source.exrChannels)
+        : await decodePNG(buffer);
 
-          imageBitmap.close();
-          resolve();
-        } catch (error) {
-          console.error(`Failed to load image ${imagePath}:`, error);
-          reject(error);
-        }
-      };
+    if (image.width !== texture.width || image.height !== texture.height) {
+      throw new Error(
+        `${imagePath} is ${image.width}x${image.height}, expected ${texture.width}x${texture.height}`
+      );
+    }
+    if (!isCurrent()) {
+      return;
+    }
 
-      img.onerror = () => {
-        reject(new Error(`Failed to load image: ${imagePath}`));
-      };
+    const data = packForFormat(image, texture.format);
+    this.device.queue.writeTexture(
+      { texture, origin: { z: layer } },
+      data,
+      { bytesPerRow: (data.byteLength / image.height) | 0 },
+      { width: image.width, height: image.height }
+    );
+  }
 
-      img.src = imagePath;
-    });
+  /**
+   * Pipeline-overridable constants describing how the inputs are encoded
+   */
+  getShaderConstants(): Record<string, number> {
+    const depth = this.channelConfigs.depth;
+    const basecolor = this.channelConfigs.basecolor;
+    const emissive = this.channelConfigs.emissive;
+    const specular = this.channelConfigs.specular;
+    const normal = this.channelConfigs.normal;
+    const swizzle = normal?.normalSwizzle ?? kAxes;
+    const flip = normal?.normalFlip ?? '';
+    const componentIndex = (channel: string) =>
+      kComponents.indexOf(this.channelConfigs[channel]?.component ?? 'r');
+    return {
+      depthEncoding: kDepthEncodings.indexOf(depth?.depthEncoding ?? 'ndc'),
+      linearBasecolor: basecolor?.linear ? 1 : 0,
+      depthComponent: componentIndex('depth'),
+      metallicComponent: componentIndex('metallic'),
+      roughnessComponent: componentIndex('roughness'),
+      hasAO: this.textures.ao ? 1 : 0,
+      hasEmissive: this.textures.emissive ? 1 : 0,
+      hasSpecular: this.textures.specular ? 1 : 0,
+      linearEmissive: emissive?.linear ? 1 : 0,
+      aoComponent: componentIndex('ao'),
+      specularComponent: componentIndex('specular'),
+      specularEncoding: kSpecularEncodings.indexOf(
+        specular?.specularEncoding ?? 'level'
+      ),
+      normalSpace: kNormalSpaces.indexOf(normal?.normalSpace ?? 'world'),
+      normalEncoding: kNormalEncodings.indexOf(
+        normal?.normalEncoding ?? 'unsigned'
+      ),
+      normalAxisX: kAxes.indexOf(swizzle[0]),
+      normalAxisY: kAxes.indexOf(swizzle[1]),
+      normalAxisZ: kAxes.indexOf(swizzle[2]),
+      normalFlipX: flip.includes('x') ? 1 : 0,
+      normalFlipY: flip.includes('y') ? 1 : 0,
+      normalFlipZ: flip.includes('z') ? 1 : 0,
+    };
   }
 
   /**
@@ -130,7 +679,7 @@ export class ImageSequenceController {
    * Seek to a specific time in seconds
    */
   async seek(time: number): Promise<void> {
-    const frameNumber = Math.floor(time * this.fps);
+    const frameNumber = Math.floor(time * this.baseFps);
     await this.loadFrame(Math.min(frameNumber, this.totalFrames - 1));
   }
 
@@ -142,24 +691,151 @@ export class ImageSequenceController {
   }
 
   /**
-   * Update - should be called every frame to advance the sequence if playing
+   * Update - should be called every frame to advance the sequence if playing.
+   * Never waits for decoding: when the due frame isn't in the ring yet, the
+   * newest decoded frame before it is shown, or the current one is kept.
    */
-  async update(currentTime: number): Promise<boolean> {
+  update(currentTime: number): boolean {
     if (!this.isPlaying) {
       return false;
     }
 
     const deltaTime = (currentTime - this.lastUpdateTime) / 1000;
-    const frameStep = deltaTime * this.fps;
+    const playbackFps = this.baseFps * this.playbackRate;
+    const frameStep = Math.floor(deltaTime * playbackFps);
+    if (frameStep < 1) {
+      return false;
+    }
+
+    const targetFrame = (this.currentFrame + frameStep) % this.totalFrames;
+    const targetReady = this.cache.get(targetFrame)?.ready ?? false;
+    if (targetFrame !== this.lastMissedFrame) {
+      if (targetReady) {
+        this.hits++;
+      } else {
+        this.misses++;
+        this.lastMissedFrame = targetFrame;
+      }
+    }
+
+    // Newest frame up to the target that can be shown right away
+    let best: CachedFrame | undefined;
+    let bestOffset = 0;
+    let pending = false;
+    for (const entry of this.cache.values()) {
+      const offset = this.frameOffset(entry.frame, this.currentFrame);
+      if (offset === 0 || offset > frameStep) {
+        continue;
+      }
+      if (!entry.ready) {
+        pending = true;
+      } else if (offset > bestOffset) {
+        best = entry;
+        bestOffset = offset;
+      }
+    }
+
+    if (!best) {
+      // Only chase the target when nothing before it is on the way, so
+      // slow decodes don't keep evicting each other
+      if (!pending) {
+        this.requestFrame(targetFrame, this.currentFrame, frameStep);
+      }
+      return false;
+    }
+
+    this.droppedFrames += bestOffset - 1;
+    this.lastUpdateTime += (bestOffset / playbackFps) * 1000;
+    this.showFrame(best);
+    this.prefetch(best.frame);
+    return true;
+  }
+
+  /**
+   * Uniform buffer holding the texture-array layer of the displayed frame
+   */
+  getFrameLayerBuffer(): GPUBuffer {
+    return this.frameLayerBuffer;
+  }
+
+  /**
+   * Texture-array layer holding the displayed frame
+   */
+  getDisplayedLayer(): number {
+    return this.displayedLayer;
+  }
+
+  /**
+   * How the depth channel stores depth
+   */
+  getDepthEncoding(): DepthEncoding {
+    return this.channelConfigs.depth?.depthEncoding ?? 'ndc';
+  }
+
+  /**
+   * How the normal channel stores normals
+   */
+  getNormalDecoding(): NormalDecoding {
+    const normal = this.channelConfigs.normal;
+    return {
+      space: normal?.normalSpace ?? 'world',
+      encoding: normal?.normalEncoding ?? 'unsigned',
+      swizzle: normal?.normalSwizzle ?? kAxes,
+      flip: normal?.normalFlip ?? '',
+    };
+  }
+
+  /**
+   * Number of frames decoded ahead of the displayed one
+   */
+  getLookAhead(): number {
+    return this.lookAhead;
+  }
 
-    if (frameStep >= 1.0) {
-      const nextFrame = (this.currentFrame + Math.floor(frameStep)) % this.totalFrames;
-      await this.loadFrame(nextFrame);
-      this.lastUpdateTime = currentTime;
-      return true;
+  /**
+   * Largest look-ahead the ring has room for
+   */
+  getMaxLookAhead(): number {
+    return this.ringSize - 2;
+  }
+
+  /**
+   * Change the number of frames decoded ahead, up to getMaxLookAhead()
+   */
+  setLookAhead(frames: number): void {
+    const maxLookAhead = this.ringSize - 2;
+    this.lookAhead = Math.max(0, Math.min(Math.floor(frames), maxLookAhead));
+    this.prefetch(this.currentFrame);
+  }
+
+  /**
+   * Get cache hit rate and dropped frame counts
+   */
+  getPrefetchStats(): PrefetchStats {
+    const requests = this.hits + this.misses;
+    let cachedFrames = 0;
+    for (const entry of this.cache.values()) {
+      if (entry.ready) {
+        cachedFrames++;
+      }
     }
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: requests > 0 ? this.hits / requests : 1,
+      droppedFrames: this.droppedFrames,
+      cachedFrames,
+    };
+  }
 
-    return false;
+  /**
+   * Reset the hit, miss and dropped frame counters
+   */
+  resetPrefetchStats(): void {
+    this.hits = 0;
+    this.misses = 0;
+    this.droppedFrames = 0;
+    this.lastMissedFrame = -1;
   }
 
   /**
@@ -169,6 +845,13 @@ export class ImageSequenceController {
     return this.currentFrame;
   }
 
+  /**
+   * Get the camera that rendered the current frame
+   */
+  getCamera(): ResolvedCamera {
+    return this.cameras.getCamera(this.currentFrame);
+  }
+
   /**
    * Get total number of frames
    */
@@ -180,21 +863,22 @@ export class ImageSequenceController {
    * Get duration in seconds
    */
   getDuration(): number {
-    return this.totalFrames / this.fps;
+    return this.totalFrames / this.baseFps;
   }
 
   /**
    * Get current time in seconds
    */
   getCurrentTime(): number {
-    return this.currentFrame / this.fps;
+    return this.currentFrame / this.baseFps;
   }
 
   /**
-   * Set playback rate (FPS multiplier)
+   * Set playback rate (FPS multiplier). Only the playback speed changes, times
+   * keep converting to frames at the sequence's frame rate.
    */
   setPlaybackRate(rate: number): void {
-    this.fps = 30 * rate; // Base FPS is 30
+    this.playbackRate = rate;
   }
 
   /**
@@ -205,27 +889,44 @@ export class ImageSequenceController {
   }
 
   /**
-   * Get FPS
+   * Get the sequence's frame rate, whatever the playback rate
    */
   getFPS(): number {
-    return this.fps;
+    return this.baseFps;
+  }
+
+  /**
+   * Stop playback and free the GPU resources, when another sequence replaces
+   * this one. Frames still decoding are dropped.
+   */
+  destroy(): void {
+    this.isPlaying = false;
+    this.cache.clear();
+    for (const source of this.sources) {
+      source.texture?.destroy();
+    }
+    this.frameLayerBuffer.destroy();
   }
 }
 
 /**
  * Detect available frames in the directory
  */
-async function detectFrameCount(basePath: string, channel: string): Promise<number> {
+async function detectFrameCount(
+  files: SequenceFiles,
+  pattern: string,
+  frameStart: number,
+  padding: number
+): Promise<number> {
   // Try to load frames sequentially until one fails
   let frameCount = 0;
   const maxFrames = 10000; // Safety limit
 
   for (let i = 0; i < maxFrames; i++) {
-    const frameString = i.toString().padStart(4, '0');
-    const imagePath = `${basePath}0000.${frameString}.${channel}.jpg`;
+    const imagePath = expandFramePattern(pattern, frameStart + i, padding);
 
     try {
-      const response = await fetch(imagePath, { method: 'HEAD' });
+      const response = await files.fetch(imagePath, { method: 'HEAD' });
       if (!response.ok) {
         break;
       }
@@ -241,21 +942,92 @@ async function detectFrameCount(basePath: string, channel: string): Promise<numb
 /**
  * Load first frame to determine dimensions
  */
-async function loadFirstFrame(basePath: string, channel: string): Promise<{ width: number; height: number }> {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.crossOrigin = 'anonymous';
+async function loadFirstFrame(
+  files: SequenceFiles,
+  imagePath: string,
+  format: ImageFileFormat
+): Promise<{ width: number; height: number }> {
+  const response = await files.fetch(imagePath);
+  if (!response.ok) {
+    throw new Error(`Failed to load first frame: ${imagePath}`);
+  }
 
-    img.onload = () => {
-      resolve({ width: img.width, height: img.height });
-    };
+  // Browsers can't decode EXR, read the size from the header instead
+  if (format === 'exr') {
+    return readEXRHeader(await response.arrayBuffer());
+  }
 
-    img.onerror = () => {
-      reject(new Error(`Failed to load first frame for channel: ${channel}`));
-    };
+  const imageBitmap = await createImageBitmap(await response.blob());
+  const size = { width: imageBitmap.width, height: imageBitmap.height };
+  imageBitmap.close();
+  return size;
+}
 
-    img.src = `${basePath}0000.0000.${channel}.jpg`;
-  });
+/**
+ * Check that a normal swizzle uses each axis once and flips only axes
+ */
+function validateNormalAxes(config: ImageChannelConfig): void {
+  const swizzle = config.normalSwizzle;
+  if (swizzle !== undefined && [...swizzle].sort().join('') !== kAxes) {
+    throw new Error(
+      `Normal swizzle "${swizzle}" must use each of x, y and z once`
+    );
+  }
+  const flip = config.normalFlip;
+  if (flip !== undefined && !/^[xyz]*$/.test(flip)) {
+    throw new Error(`Normal flip "${flip}" may only list x, y and z`);
+  }
+}
+
+/**
+ * Resolve the channel settings of a manifest and group channels that are
+ * packed into the same image file
+ */
+function resolveSources(config: ImageGBufferConfig): {
+  sources: ImageSource[];
+  channelConfigs: { [channel: string]: ImageChannelConfig };
+} {
+  const channelConfigs: { [channel: string]: ImageChannelConfig } = {};
+  const sources = new Map<string, ImageSource>();
+
+  for (const [channel, value] of Object.entries(config)) {
+    if (!value) {
+      continue;
+    }
+
+    // Normalize `true` to the default settings for the channel
+    const channelConfig: ImageChannelConfig =
+      typeof value === 'object' ? { ...value } : {};
+    if (!channelConfig.format && channelConfig.file) {
+      channelConfig.format = formatFromExtension(channelConfig.file);
+    }
+    channelConfig.format = channelConfig.format ?? 'jpg';
+    channelConfig.file =
+      channelConfig.file ?? `0000.####.${channel}.${channelConfig.format}`;
+    channelConfig.component = channelConfig.component ?? 'r';
+    channelConfig.linear =
+      channelConfig.linear ?? channelConfig.format === 'exr';
+    validateNormalAxes(channelConfig);
+    channelConfigs[channel] = channelConfig;
+
+    // Channels reading the same data from the same file share a texture
+    const key = [channelConfig.file, ...(channelConfig.exrChannels ?? [])];
+    let source = sources.get(key.join('|'));
+    if (!source) {
+      source = {
+        pattern: channelConfig.file,
+        format: channelConfig.format,
+        exrChannels: channelConfig.exrChannels,
+        channels: [],
+        components: [],
+      };
+      sources.set(key.join('|'), source);
+    }
+    source.channels.push(channel);
+    source.components.push(channelConfig.component);
+  }
+
+  return { sources: [...sources.values()], channelConfigs };
 }
 
 /**
@@ -263,55 +1035,86 @@ async function loadFirstFrame(basePath: string, channel: string): Promise<{ widt
  */
 export async function loadGBufferImages(
   device: GPUDevice,
-  config: ImageGBufferConfig,
-  basePath: string = '../../assets/gbuffers/4/',
+  manifest: ImageSequenceManifest,
+  files: SequenceFiles = urlSequenceFiles('../../assets/gbuffers/4/'),
   totalFrames?: number
-): Promise<{ textures: ImageGBufferTextures; controller: ImageSequenceController }> {
-  const channels = Object.keys(config).filter(key => config[key as keyof ImageGBufferConfig]);
+): Promise<{
+  textures: ImageGBufferTextures;
+  controller: ImageSequenceController;
+}> {
+  const { sources, channelConfigs } = resolveSources(manifest.channels);
 
-  if (channels.length === 0) {
+  if (sources.length === 0) {
     throw new Error('No channels specified in config');
   }
 
-  // Detect frame count if not provided
+  const frameStart = manifest.frameStart ?? 0;
+  const padding = manifest.padding ?? 4;
+
+  // Use the manifest's frame range, else detect the frame count if not provided
   let frameCount = totalFrames;
+  if (!frameCount && manifest.frameEnd !== undefined) {
+    frameCount = manifest.frameEnd - frameStart + 1;
+  }
   if (!frameCount) {
     console.log('Detecting frame count...');
-    frameCount = await detectFrameCount(basePath, channels[0]);
+    frameCount = await detectFrameCount(
+      files,
+      sources[0].pattern,
+      frameStart,
+      padding
+    );
     console.log(`Detected ${frameCount} frames`);
   }
 
   if (frameCount === 0) {
-    throw new Error('No frames found in the specified directory');
+    throw new Error(`No frames found in ${files.name}`);
   }
 
   // Load first frame to get dimensions
-  const firstChannel = channels[0];
-  const { width, height } = await loadFirstFrame(basePath, firstChannel);
+  const { width, height } = await loadFirstFrame(
+    files,
+    expandFramePattern(sources[0].pattern, frameStart, padding),
+    sources[0].format
+  );
   console.log(`Image dimensions: ${width}x${height}`);
 
-  // Create GPU textures for each channel
+  // Camera metadata is optional, the default camera is used without it
+  const cameras = await loadCameraSequence(files, width / height);
+
+  // Create a GPU texture array for each image source; packed channels share
+  // one. Each layer holds a frame of the prefetch ring.
   const textures: Partial<ImageGBufferTextures> = {};
+  const ringSize = ringSizeForManifest(manifest);
 
-  for (const channel of channels) {
-    const texture = device.createTexture({
-      label: `gBuffer ${channel}`,
-      size: { width, height },
-      format: 'rgba8unorm',
-      usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_DST | GPUTextureUsage.RENDER_ATTACHMENT,
+  for (const source of sources) {
+    source.texture = device.createTexture({
+      label: `gBuffer ${source.channels.join('+')}`,
+      size: { width, height, depthOrArrayLayers: ringSize },
+      textureBindingViewDimension: '2d-array',
+      format: textureFormatForSource(source),
+      usage:
+        GPUTextureUsage.TEXTURE_BINDING |
+        GPUTextureUsage.COPY_DST |
+        GPUTextureUsage.COPY_SRC | // Read back by the inspector's probe
+        GPUTextureUsage.RENDER_ATTACHMENT,
     });
 
-    textures[channel as keyof ImageGBufferTextures] = texture;
+    for (const channel of source.channels) {
+      textures[channel as keyof ImageGBufferTextures] = source.texture;
+    }
   }
 
   // Create controller
   const controller = new ImageSequenceController(
     device,
     textures as ImageGBufferTextures,
-    basePath,
+    files,
     frameCount,
-    channels,
-    30 // Default 30 FPS
+    manifest,
+    sources,
+    channelConfigs,
+    cameras
   );
 
   // Load first frame
@@ -321,4 +1124,3 @@ export async function loadGBufferImages(
 
   return { textures: textures as ImageGBufferTextures, controller };
 }
-
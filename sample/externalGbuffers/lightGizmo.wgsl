@@ -3,6 +3,8 @@
 struct Camera {
   viewProjectionMatrix: mat4x4f,
   invViewProjectionMatrix: mat4x4f,
+  position: vec4f,
+  forward: vec4f,
 }
 
 struct LightGizmoUniforms {
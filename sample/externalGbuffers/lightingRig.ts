@@ -0,0 +1,286 @@
+/**
+ * Lighting rigs: the lights and exposure of a scene, saved as JSON, shared
+ * through the URL and animated with keyframes over the sequence's frames
+ */
+import { inflate } from './decodedImage';
+import { LightSettings, LightType, createLight } from './lights';
+
+const kRigVersion = 1;
+const kLightTypes: LightType[] = ['point', 'directional', 'spot'];
+
+// Light settings interpolated between keyframes. Angles take the shortest
+// way around.
+const kAnimatedParams = [
+  'x',
+  'y',
+  'z',
+  'azimuth',
+  'elevation',
+  'intensity',
+  'radius',
+  'colorR',
+  'colorG',
+  'colorB',
+  'innerConeAngle',
+  'outerConeAngle',
+] as const;
+const kAngleParams = ['azimuth'];
+
+type AnimatedParam = (typeof kAnimatedParams)[number];
+
+/**
+ * Animated state of one light at a keyframe. `enabled` steps, everything
+ * else is interpolated.
+ */
+export type LightKeyframeValues = Pick<LightSettings, AnimatedParam> & {
+  enabled: boolean;
+};
+
+/**
+ * Light state captured at a sequence frame. Lights are matched by name.
+ */
+export interface LightKeyframe {
+  frame: number;
+  exposure: number;
+  lights: { [name: string]: LightKeyframeValues };
+}
+
+/**
+ * Layout of a saved rig
+ */
+export interface LightingRig {
+  version: number;
+  exposure: number; // In stops
+  frame: number; // Playback frame the rig was saved at
+  lights: LightSettings[];
+  keyframes: LightKeyframe[]; // Sorted by frame
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readNumber(
+  value: Record<string, unknown>,
+  key: string,
+  fallback: number
+): number {
+  const number = value[key];
+  if (number === undefined) {
+    return fallback;
+  }
+  if (typeof number !== 'number' || !Number.isFinite(number)) {
+    throw new Error(`Lighting rig: "${key}" must be a number`);
+  }
+  return number;
+}
+
+function parseLight(value: unknown, index: number): LightSettings {
+  if (!isObject(value) || !kLightTypes.includes(value.type as LightType)) {
+    throw new Error(
+      `Lighting rig: light ${index} needs a type of ${kLightTypes.join(', ')}`
+    );
+  }
+
+  // Missing settings keep the defaults for the light type
+  const name =
+    typeof value.name === 'string' ? value.name : `Light ${index + 1}`;
+  const light = createLight(value.type as LightType, name);
+  light.enabled = value.enabled !== false;
+  for (const key of kAnimatedParams) {
+    light[key] = readNumber(value, key, light[key]);
+  }
+  return light;
+}
+
+function parseKeyframe(value: unknown): LightKeyframe {
+  if (!isObject(value) || !isObject(value.lights)) {
+    throw new Error('Lighting rig: keyframes need a frame and lights');
+  }
+
+  const lights: { [name: string]: LightKeyframeValues } = {};
+  for (const [name, values] of Object.entries(value.lights)) {
+    if (!isObject(values)) {
+      throw new Error(`Lighting rig: invalid keyframe values for "${name}"`);
+    }
+    // Parse through a light to fill in missing values
+    const light = parseLight({ type: 'point', ...values }, 0);
+    lights[name] = keyframeValues(light);
+  }
+
+  return {
+    frame: readNumber(value, 'frame', 0),
+    exposure: readNumber(value, 'exposure', 0),
+    lights,
+  };
+}
+
+/**
+ * Validate a rig read from JSON, filling in defaults for missing settings
+ */
+export function parseLightingRig(value: unknown): LightingRig {
+  if (!isObject(value) || !Array.isArray(value.lights)) {
+    throw new Error('Lighting rig: expected an object with a lights array');
+  }
+  const version = readNumber(value, 'version', kRigVersion);
+  if (version > kRigVersion) {
+    throw new Error(`Lighting rig: unsupported version ${version}`);
+  }
+
+  const keyframes = Array.isArray(value.keyframes)
+    ? value.keyframes.map(parseKeyframe)
+    : [];
+  keyframes.sort((a, b) => a.frame - b.frame);
+
+  return {
+    version: kRigVersion,
+    exposure: readNumber(value, 'exposure', 0),
+    frame: readNumber(value, 'frame', 0),
+    lights: value.lights.map(parseLight),
+    keyframes,
+  };
+}
+
+/**
+ * Create a rig from the current lights
+ */
+export function createLightingRig(
+  lights: LightSettings[],
+  exposure: number,
+  frame: number,
+  keyframes: LightKeyframe[]
+): LightingRig {
+  return {
+    version: kRigVersion,
+    exposure,
+    frame,
+    lights: lights.map((light) => ({ ...light })),
+    keyframes: structuredClone(keyframes),
+  };
+}
+
+function keyframeValues(light: LightSettings): LightKeyframeValues {
+  const values = { enabled: light.enabled } as LightKeyframeValues;
+  for (const key of kAnimatedParams) {
+    values[key] = light[key];
+  }
+  return values;
+}
+
+/**
+ * Capture the current lights as a keyframe
+ */
+export function captureKeyframe(
+  frame: number,
+  exposure: number,
+  lights: LightSettings[]
+): LightKeyframe {
+  const keyframe: LightKeyframe = { frame, exposure, lights: {} };
+  for (const light of lights) {
+    keyframe.lights[light.name] = keyframeValues(light);
+  }
+  return keyframe;
+}
+
+/**
+ * Insert a keyframe, replacing any keyframe on the same frame
+ */
+export function setKeyframe(
+  keyframes: LightKeyframe[],
+  keyframe: LightKeyframe
+): void {
+  const index = keyframes.findIndex((k) => k.frame >= keyframe.frame);
+  if (index < 0) {
+    keyframes.push(keyframe);
+  } else if (keyframes[index].frame === keyframe.frame) {
+    keyframes[index] = keyframe;
+  } else {
+    keyframes.splice(index, 0, keyframe);
+  }
+}
+
+function lerpAngle(a: number, b: number, t: number): number {
+  const delta = ((((b - a) % 360) + 540) % 360) - 180;
+  return (((a + delta * t) % 360) + 360) % 360;
+}
+
+/**
+ * Evaluate the keyframes at a frame. Before the first and after the last
+ * keyframe the values are held. Returns undefined without keyframes.
+ */
+export function evaluateKeyframes(
+  keyframes: LightKeyframe[],
+  frame: number
+): LightKeyframe | undefined {
+  if (keyframes.length === 0) {
+    return undefined;
+  }
+
+  const next = keyframes.findIndex((k) => k.frame > frame);
+  if (next === 0) {
+    return keyframes[0];
+  }
+  if (next < 0) {
+    return keyframes[keyframes.length - 1];
+  }
+
+  const k0 = keyframes[next - 1];
+  const k1 = keyframes[next];
+  const t = (frame - k0.frame) / (k1.frame - k0.frame);
+  const result: LightKeyframe = {
+    frame,
+    exposure: k0.exposure + (k1.exposure - k0.exposure) * t,
+    lights: {},
+  };
+
+  for (const [name, a] of Object.entries(k0.lights)) {
+    const b = k1.lights[name];
+    if (!b) {
+      result.lights[name] = a;
+      continue;
+    }
+    const values = { enabled: a.enabled } as LightKeyframeValues;
+    for (const key of kAnimatedParams) {
+      values[key] = kAngleParams.includes(key)
+        ? lerpAngle(a[key], b[key], t)
+        : a[key] + (b[key] - a[key]) * t;
+    }
+    result.lights[name] = values;
+  }
+  return result;
+}
+
+function toBase64URL(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function fromBase64URL(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+/**
+ * Encode a rig for the `rig` URL query parameter as deflated, base64url
+ * encoded JSON
+ */
+export async function encodeRigForURL(rig: LightingRig): Promise<string> {
+  const stream = new Blob([JSON.stringify(rig)])
+    .stream()
+    .pipeThrough(new CompressionStream('deflate'));
+  return toBase64URL(new Uint8Array(await new Response(stream).arrayBuffer()));
+}
+
+/**
+ * Decode a rig from the `rig` URL query parameter
+ */
+export async function decodeRigFromURL(text: string): Promise<LightingRig> {
+  const json = new TextDecoder().decode(await inflate([fromBase64URL(text)]));
+  return parseLightingRig(JSON.parse(json));
+}
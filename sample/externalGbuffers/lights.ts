@@ -0,0 +1,210 @@
+/**
+ * Light list for the external G-Buffer renderer. All lights are packed into
+ * one storage buffer and summed in a single lighting pass.
+ */
+import { vec3, Vec3 } from 'wgpu-matrix';
+
+export type LightType = 'point' | 'directional' | 'spot';
+
+/**
+ * Settings of one light, kept flat so the GUI can edit them directly.
+ * Positions use the GUI axes: X = left/right, Y = depth, Z = up/down.
+ */
+export interface LightSettings {
+  type: LightType;
+  name: string;
+  enabled: boolean;
+  // Position of point and spot lights
+  x: number;
+  y: number;
+  z: number;
+  // Direction toward a directional light, or the axis a spot light points
+  // along, in degrees (see azimuthElevationToDirection)
+  azimuth: number;
+  elevation: number;
+  intensity: number;
+  radius: number; // Range of point and spot lights
+  colorR: number;
+  colorG: number;
+  colorB: number;
+  // Spot cone, in degrees from the axis. Falloff goes from inner to outer.
+  innerConeAngle: number;
+  outerConeAngle: number;
+}
+
+export const kMaxNumLights = 16;
+
+// LightData in the lighting shader: position + type, color + radius,
+// direction + cos(inner cone), cos(outer cone) + padding
+export const kLightDataStride = 16;
+
+const kLightTypeIds: { [K in LightType]: number } = {
+  point: 0,
+  directional: 1,
+  spot: 2,
+};
+
+// Directional lights have no position, their gizmo sits this far from the
+// origin toward the light
+const kDirectionalGizmoDistance = 80;
+
+/**
+ * Convert yaw/pitch angles to a direction vector
+ */
+export function azimuthElevationToDirection(
+  azimuthDeg: number,
+  elevationDeg: number
+): Vec3 {
+  const azimuthRad = (azimuthDeg * Math.PI) / 180;
+  const elevationRad = (elevationDeg * Math.PI) / 180;
+
+  // Convert spherical coordinates to Cartesian
+  // Yaw (Azimuth): 0° = +X, 90° = +Z, 180° = -X, 270° = -Z (horizontal rotation)
+  // Pitch (Elevation): -90° = down, 0° = horizon, +90° = up (vertical rotation)
+  const x = Math.cos(elevationRad) * Math.cos(azimuthRad);
+  const y = Math.sin(elevationRad);
+  const z = Math.cos(elevationRad) * Math.sin(azimuthRad);
+
+  return vec3.normalize(vec3.fromValues(x, y, z));
+}
+
+/**
+ * Inverse of azimuthElevationToDirection, with the azimuth in [0, 360)
+ */
+export function directionToAzimuthElevation(direction: Vec3): {
+  azimuth: number;
+  elevation: number;
+} {
+  const d = vec3.normalize(direction);
+  const elevation =
+    (Math.asin(Math.max(-1, Math.min(1, d[1]))) * 180) / Math.PI;
+  const azimuth = (Math.atan2(d[2], d[0]) * 180) / Math.PI;
+  return { azimuth: (azimuth + 360) % 360, elevation };
+}
+
+/**
+ * Create a light with default settings for its type
+ */
+export function createLight(type: LightType, name: string): LightSettings {
+  const light: LightSettings = {
+    type,
+    name,
+    enabled: true,
+    x: 0,
+    y: -30, // Closer to camera (negative depth)
+    z: 30, // Up
+    azimuth: 135,
+    elevation: 45,
+    intensity: 5.0,
+    radius: 200.0,
+    colorR: 1.0,
+    colorG: 1.0,
+    colorB: 1.0,
+    innerConeAngle: 15,
+    outerConeAngle: 25,
+  };
+
+  if (type === 'directional') {
+    light.intensity = 3.0;
+    light.colorG = 0.95;
+    light.colorB = 0.9;
+  } else if (type === 'spot') {
+    // Above the camera, pointing at the origin
+    light.z = 50;
+    light.azimuth = 90;
+    light.elevation = -59;
+    light.intensity = 10.0;
+    light.radius = 300.0;
+  }
+  return light;
+}
+
+/**
+ * World-space position of a point or spot light. World axes are X =
+ * left/right, Y = up/down, Z = depth.
+ */
+export function lightWorldPosition(light: LightSettings): Vec3 {
+  return vec3.fromValues(light.x, light.z, light.y);
+}
+
+/**
+ * Set a point or spot light's position from a world-space position
+ */
+export function setLightWorldPosition(
+  light: LightSettings,
+  position: Vec3
+): void {
+  light.x = position[0];
+  light.z = position[1];
+  light.y = position[2];
+}
+
+/**
+ * World-space direction the light travels in, for directional and spot lights
+ */
+export function lightDirection(light: LightSettings): Vec3 {
+  const direction = azimuthElevationToDirection(light.azimuth, light.elevation);
+  // Directional lights are described by the direction toward them
+  return light.type === 'directional' ? vec3.negate(direction) : direction;
+}
+
+/**
+ * Where to draw a light's gizmo
+ */
+export function lightGizmoPosition(light: LightSettings): Vec3 {
+  if (light.type === 'directional') {
+    const towardLight = azimuthElevationToDirection(
+      light.azimuth,
+      light.elevation
+    );
+    return vec3.mulScalar(towardLight, kDirectionalGizmoDistance);
+  }
+  return lightWorldPosition(light);
+}
+
+/**
+ * Move a light to follow its dragged gizmo. Directional lights turn to face
+ * the gizmo position instead.
+ */
+export function setLightGizmoPosition(
+  light: LightSettings,
+  position: Vec3
+): void {
+  if (light.type === 'directional') {
+    Object.assign(light, directionToAzimuthElevation(position));
+  } else {
+    setLightWorldPosition(light, position);
+  }
+}
+
+/**
+ * Pack the enabled lights into the lights storage buffer layout. Returns the
+ * number of lights written.
+ */
+export function packLights(lights: LightSettings[], data: ArrayBuffer): number {
+  const floats = new Float32Array(data);
+  const uints = new Uint32Array(data);
+  let count = 0;
+
+  for (const light of lights) {
+    if (!light.enabled || count >= kMaxNumLights) {
+      continue;
+    }
+    const offset = count * kLightDataStride;
+    floats.set(lightWorldPosition(light), offset);
+    uints[offset + 3] = kLightTypeIds[light.type];
+
+    floats[offset + 4] = light.colorR * light.intensity;
+    floats[offset + 5] = light.colorG * light.intensity;
+    floats[offset + 6] = light.colorB * light.intensity;
+    floats[offset + 7] = light.radius;
+
+    floats.set(lightDirection(light), offset + 8);
+    // The inner cone can't be wider than the outer one
+    const innerConeAngle = Math.min(light.innerConeAngle, light.outerConeAngle);
+    floats[offset + 11] = Math.cos((innerConeAngle * Math.PI) / 180);
+    floats[offset + 12] = Math.cos((light.outerConeAngle * Math.PI) / 180);
+    count++;
+  }
+  return count;
+}
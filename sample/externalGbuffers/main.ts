@@ -1,42 +1,82 @@
-import { mat4, vec3, vec4 } from 'wgpu-matrix';
+import { mat4, vec3, vec4, Vec3 } from 'wgpu-matrix';
 import { GUI } from 'dat.gui';
 import { quitIfWebGPUNotAvailable, quitIfLimitLessThan } from '../util';
 
 // Import external G-Buffer shaders
 import vertexTextureQuad from './vertexTextureQuad.wgsl';
 import fragmentExternalGBuffers from './fragmentExternalGBuffers.wgsl';
-import fragmentExternalGBuffersDirectional from './fragmentExternalGBuffersDirectional.wgsl';
 import fragmentExternalGBuffersDebugView from './fragmentExternalGBuffersDebugView.wgsl';
+import fragmentTonemap from './fragmentTonemap.wgsl';
+import fragmentGBufferInspector from './fragmentGBufferInspector.wgsl';
 import lightGizmoShader from './lightGizmo.wgsl';
 import lightGizmo2DShader from './lightGizmo2D.wgsl';
 
 // Import Image sequence loader utilities
-import { loadGBufferImages, ImageGBufferTextures, ImageGBufferConfig, ImageSequenceController } from './imageLoader';
-import { FrameExporter } from './frameExporter';
-
-// Point lights configuration
-const kMaxNumLights = 1; // Single point light for precise control
+import {
+  loadGBufferImages,
+  loadGBufferManifest,
+  createGBufferBindGroupLayout,
+  createMissingChannelTexture,
+  ImageGBufferTextures,
+  ImageGBufferConfig,
+  ImageSequenceController,
+} from './imageLoader';
+import { ExportFormat, FrameExporter } from './frameExporter';
+import {
+  OfflineRenderOptions,
+  OfflineRenderResult,
+  OfflineRenderer,
+} from './offlineRenderer';
+import {
+  LightKeyframe,
+  LightingRig,
+  captureKeyframe,
+  createLightingRig,
+  decodeRigFromURL,
+  encodeRigForURL,
+  evaluateKeyframes,
+  parseLightingRig,
+  setKeyframe,
+} from './lightingRig';
+import {
+  LightSettings,
+  LightType,
+  createLight,
+  kLightDataStride,
+  kMaxNumLights,
+  lightGizmoPosition,
+  directionToAzimuthElevation,
+  packLights,
+  setLightGizmoPosition,
+} from './lights';
+import {
+  isBackgroundDepth,
+  readTexels,
+  screenFromWorld,
+  worldFromScreen,
+  worldNormalFromTexel,
+} from './gBufferProbe';
+import { EnvironmentLighting } from './environmentMap';
+import {
+  TemporalFilter,
+  kTemporalGuideClearValue,
+  kTemporalGuideFormat,
+} from './temporalFilter';
+import {
+  LocalSequenceFiles,
+  SequenceFiles,
+  canPickDirectory,
+  detectImageSequence,
+  filesFromDataTransfer,
+  filesFromFileList,
+  pickDirectory,
+  urlSequenceFiles,
+} from './sequenceFiles';
+
+// Bounds of the light gizmo drag area
 const lightExtentMin = vec3.fromValues(-50, -30, -50);
 const lightExtentMax = vec3.fromValues(50, 50, 50);
 
-// Directional lights configuration
-const kMaxNumDirectionalLights = 4; // Typically only need 1-3 directional lights (sun, moon, etc.)
-
-// Helper function to convert yaw/pitch angles to direction vector
-function azimuthElevationToDirection(azimuthDeg: number, elevationDeg: number) {
-  const azimuthRad = (azimuthDeg * Math.PI) / 180;
-  const elevationRad = (elevationDeg * Math.PI) / 180;
-  
-  // Convert spherical coordinates to Cartesian
-  // Yaw (Azimuth): 0° = +X, 90° = +Z, 180° = -X, 270° = -Z (horizontal rotation)
-  // Pitch (Elevation): -90° = down, 0° = horizon, +90° = up (vertical rotation)
-  const x = Math.cos(elevationRad) * Math.cos(azimuthRad);
-  const y = Math.sin(elevationRad);
-  const z = Math.cos(elevationRad) * Math.sin(azimuthRad);
-  
-  return vec3.normalize(vec3.fromValues(x, y, z));
-}
-
 const canvas = document.querySelector('canvas') as HTMLCanvasElement;
 const adapter = await navigator.gpu?.requestAdapter({
   featureLevel: 'compatibility',
@@ -53,12 +93,15 @@ const context = canvas.getContext('webgpu') as GPUCanvasContext;
 
 // Canvas will be resized after loading images to match their resolution
 const presentationFormat = navigator.gpu.getPreferredCanvasFormat();
+// Format of the lighting pass output and of HDR canvases
+const kHDRFormat: GPUTextureFormat = 'rgba16float';
 
 // Load external G-Buffer textures (Image sequence)
 let gBufferTextures: ImageGBufferTextures;
 let imageSequenceController: ImageSequenceController;
 
-async function loadGbufferAssets() {
+// Replaces the current sequence only once the new one has loaded
+async function loadGbufferAssets(files: SequenceFiles) {
   // Image sequence G-Buffer configuration
   const imageConfig: ImageGBufferConfig = {
     basecolor: true,
@@ -68,35 +111,67 @@ async function loadGbufferAssets() {
     roughness: true
   };
 
-  const pathToUse = '../../assets/gbuffers/tractor/';
-  const result = await loadGBufferImages(device, imageConfig, pathToUse);
+  // A gbuffer.json manifest in the folder overrides the default file layout.
+  // Without one, local files are recognized by their names.
+  let manifest = await loadGBufferManifest(files);
+  if (!manifest) {
+    manifest =
+      files instanceof LocalSequenceFiles
+        ? detectImageSequence(files.list())
+        : { channels: imageConfig };
+  }
+  const result = await loadGBufferImages(device, manifest, files);
+  imageSequenceController?.destroy();
   gBufferTextures = result.textures;
   imageSequenceController = result.controller;
-  console.log('Successfully loaded G-Buffer image sequence');
+  console.log(`Successfully loaded G-Buffer image sequence ${files.name}`);
   console.log(`Total frames: ${imageSequenceController.getTotalFrames()}`);
   console.log('Use GUI controls to adjust playback');
 }
 
-await loadGbufferAssets();
+await loadGbufferAssets(urlSequenceFiles('../../assets/gbuffers/tractor/'));
 
 // Resize canvas to match input image resolution
-const imageWidth = gBufferTextures.basecolor.width;
-const imageHeight = gBufferTextures.basecolor.height;
-canvas.width = imageWidth;
-canvas.height = imageHeight;
+function resizeCanvasToSequence() {
+  const imageWidth = gBufferTextures.basecolor.width;
+  const imageHeight = gBufferTextures.basecolor.height;
+  canvas.width = imageWidth;
+  canvas.height = imageHeight;
+
+  // Also set display size to match (or maintain aspect ratio)
+  canvas.style.width = `${imageWidth}px`;
+  canvas.style.height = `${imageHeight}px`;
+
+  console.log(
+    `Canvas resized to match input images: ${imageWidth}x${imageHeight}`
+  );
+}
 
-// Also set display size to match (or maintain aspect ratio)
-canvas.style.width = `${imageWidth}px`;
-canvas.style.height = `${imageHeight}px`;
+resizeCanvasToSequence();
 
-const aspect = canvas.width / canvas.height;
-console.log(`Canvas resized to match input images: ${imageWidth}x${imageHeight}`);
+// Configure WebGPU context. For HDR output the canvas is rgba16float with
+// extended tone mapping, which lets values above 1 use the display's
+// headroom.
+let canvasFormat: GPUTextureFormat = presentationFormat;
 
-// Configure WebGPU context
-context.configure({
-  device,
-  format: presentationFormat,
-});
+function configureCanvas(hdr: boolean) {
+  canvasFormat = hdr ? kHDRFormat : presentationFormat;
+  context.configure({
+    device,
+    format: canvasFormat,
+    toneMapping: { mode: hdr ? 'extended' : 'standard' },
+  });
+
+  if (hdr && context.getConfiguration?.()?.toneMapping?.mode !== 'extended') {
+    console.warn(
+      'HDR canvas output is not supported, output is clamped to SDR'
+    );
+  } else if (hdr && !window.matchMedia('(dynamic-range: high)').matches) {
+    console.warn('This display does not report HDR support');
+  }
+}
+
+configureCanvas(false);
 
 // Initialize frame exporter
 const frameExporter = new FrameExporter(canvas, device);
@@ -108,175 +183,331 @@ const gBufferSampler = device.createSampler({
   minFilter: 'linear',
 });
 
-// Bind group layout for G-Buffer textures (regular textures)
-const gBufferTexturesBindGroupLayout = device.createBindGroupLayout({
+// Bind group layout for G-Buffer textures, matching the sequence's formats
+let gBufferTexturesBindGroupLayout = createGBufferBindGroupLayout(
+  device,
+  gBufferTextures
+);
+// Bound in place of the optional channels the sequence doesn't have
+const missingChannelTexture = createMissingChannelTexture(device);
+
+// Bind group layout for lights buffer
+const lightsBufferBindGroupLayout = device.createBindGroupLayout({
   entries: [
     {
       binding: 0,
-      visibility: GPUShaderStage.FRAGMENT,
-      texture: { sampleType: 'float' },
+      visibility: GPUShaderStage.FRAGMENT | GPUShaderStage.COMPUTE,
+      buffer: {
+        type: 'read-only-storage',
+      },
     },
     {
       binding: 1,
-      visibility: GPUShaderStage.FRAGMENT,
-      texture: { sampleType: 'float' },
+      visibility: GPUShaderStage.FRAGMENT | GPUShaderStage.COMPUTE,
+      buffer: {
+        type: 'uniform',
+      },
     },
     {
       binding: 2,
       visibility: GPUShaderStage.FRAGMENT,
-      texture: { sampleType: 'float' },
+      buffer: {
+        type: 'uniform',
+      },
     },
     {
       binding: 3,
       visibility: GPUShaderStage.FRAGMENT,
-      texture: { sampleType: 'float' },
+      buffer: {
+        type: 'uniform',
+      },
+    },
+  ],
+});
+
+const primitive: GPUPrimitiveState = {
+  topology: 'triangle-list',
+  cullMode: 'back',
+};
+
+// Sequence constants a fragment shader declares as overrides, as pipelines
+// reject constants their shader doesn't declare
+function getSequenceConstants(shaderCode: string): Record<string, number> {
+  const declared = new Set(
+    [...shaderCode.matchAll(/^override (\w+)/gm)].map((match) => match[1])
+  );
+  return Object.fromEntries(
+    Object.entries(imageSequenceController.getShaderConstants()).filter(
+      ([name]) => declared.has(name)
+    )
+  );
+}
+
+// External G-Buffers Debug View Pipeline
+const createDebugViewPipeline = (format: GPUTextureFormat) =>
+  device.createRenderPipeline({
+    label: 'external gbuffers debug view',
+    layout: device.createPipelineLayout({
+      bindGroupLayouts: [gBufferTexturesBindGroupLayout],
+    }),
+    vertex: {
+      module: device.createShaderModule({
+        code: vertexTextureQuad,
+      }),
+    },
+    fragment: {
+      module: device.createShaderModule({
+        code: fragmentExternalGBuffersDebugView,
+      }),
+      targets: [
+        {
+          format,
+        },
+      ],
+      constants: {
+        canvasSizeWidth: canvas.width,
+        canvasSizeHeight: canvas.height,
+        ...getSequenceConstants(fragmentExternalGBuffersDebugView),
+      },
+    },
+    primitive,
+  });
+
+// HDR render target: the lighting pass writes linear radiance, which the
+// tonemapping pass exposes and maps for display. The temporal filter copies
+// its stabilized result back into it.
+const createHDRTexture = () =>
+  device.createTexture({
+    label: 'hdr render target',
+    size: [canvas.width, canvas.height],
+    format: kHDRFormat,
+    usage:
+      GPUTextureUsage.RENDER_ATTACHMENT |
+      GPUTextureUsage.TEXTURE_BINDING |
+      GPUTextureUsage.COPY_SRC |
+      GPUTextureUsage.COPY_DST,
+  });
+
+let hdrTexture = createHDRTexture();
+
+// Image-based lighting, black until an environment is loaded
+const environmentLighting = new EnvironmentLighting(device);
+
+// External G-Buffers Deferred Rendering Pipeline (all lights)
+const createDeferredRenderPipeline = () =>
+  device.createRenderPipeline({
+    label: 'external gbuffers deferred rendering',
+    layout: device.createPipelineLayout({
+      bindGroupLayouts: [
+        gBufferTexturesBindGroupLayout,
+        lightsBufferBindGroupLayout,
+        environmentLighting.bindGroupLayout,
+      ],
+    }),
+    vertex: {
+      module: device.createShaderModule({
+        code: vertexTextureQuad,
+      }),
+    },
+    fragment: {
+      module: device.createShaderModule({
+        code: fragmentExternalGBuffers,
+      }),
+      targets: [
+        {
+          format: kHDRFormat,
+        },
+        {
+          // World positions and base color for the temporal filter
+          format: kTemporalGuideFormat,
+        },
+      ],
+      constants: {
+        canvasSizeWidth: canvas.width,
+        canvasSizeHeight: canvas.height,
+        ...getSequenceConstants(fragmentExternalGBuffers),
+      },
     },
+    primitive,
+  });
+
+let externalGBuffersDeferredRenderPipeline = createDeferredRenderPipeline();
+
+// Tonemapping pass from the HDR target to the output format
+const tonemapShaderModule = device.createShaderModule({
+  code: fragmentTonemap,
+});
+
+const tonemapBindGroupLayout = device.createBindGroupLayout({
+  entries: [
     {
-      binding: 4,
+      binding: 0,
       visibility: GPUShaderStage.FRAGMENT,
-      texture: { sampleType: 'float' },
+      texture: {
+        sampleType: 'float',
+      },
     },
     {
-      binding: 5,
+      binding: 1,
       visibility: GPUShaderStage.FRAGMENT,
-      sampler: {},
+      buffer: {
+        type: 'uniform',
+      },
     },
   ],
 });
 
-// Bind group layout for lights buffer
-const lightsBufferBindGroupLayout = device.createBindGroupLayout({
+const createTonemapPipeline = (format: GPUTextureFormat) =>
+  device.createRenderPipeline({
+    label: 'tonemapping',
+    layout: device.createPipelineLayout({
+      bindGroupLayouts: [tonemapBindGroupLayout],
+    }),
+    vertex: {
+      module: device.createShaderModule({
+        code: vertexTextureQuad,
+      }),
+    },
+    fragment: {
+      module: tonemapShaderModule,
+      targets: [
+        {
+          format,
+        },
+      ],
+    },
+    primitive,
+  });
+
+const tonemapUniformBuffer = device.createBuffer({
+  label: 'tonemap uniforms',
+  size: 4 * 4, // exposure, curve, padding
+  usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+});
+
+const createTonemapBindGroup = () =>
+  device.createBindGroup({
+    layout: tonemapBindGroupLayout,
+    entries: [
+      {
+        binding: 0,
+        resource: hdrTexture.createView(),
+      },
+      {
+        binding: 1,
+        resource: {
+          buffer: tonemapUniformBuffer,
+        },
+      },
+    ],
+  });
+
+let tonemapBindGroup = createTonemapBindGroup();
+
+// G-buffer inspector: single channels, comparisons and heatmaps. The lit
+// channel reads the tonemapped render from its own target.
+const createInspectorLitTexture = () =>
+  device.createTexture({
+    label: 'inspector lit target',
+    size: [canvas.width, canvas.height],
+    format: kHDRFormat,
+    usage: GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.TEXTURE_BINDING,
+  });
+
+let inspectorLitTexture = createInspectorLitTexture();
+
+const inspectorBindGroupLayout = device.createBindGroupLayout({
   entries: [
     {
       binding: 0,
-      visibility: GPUShaderStage.FRAGMENT | GPUShaderStage.COMPUTE,
+      visibility: GPUShaderStage.FRAGMENT,
       buffer: {
-        type: 'read-only-storage',
+        type: 'uniform',
       },
     },
     {
       binding: 1,
-      visibility: GPUShaderStage.FRAGMENT | GPUShaderStage.COMPUTE,
-      buffer: {
-        type: 'uniform',
+      visibility: GPUShaderStage.FRAGMENT,
+      texture: {
+        sampleType: 'unfilterable-float',
       },
     },
     {
       binding: 2,
       visibility: GPUShaderStage.FRAGMENT,
-      buffer: {
-        type: 'uniform',
+      texture: {
+        sampleType: 'unfilterable-float',
       },
     },
   ],
 });
 
-const primitive: GPUPrimitiveState = {
-  topology: 'triangle-list',
-  cullMode: 'back',
-};
-
-// External G-Buffers Debug View Pipeline
-const externalGBuffersDebugViewPipeline = device.createRenderPipeline({
-  label: 'external gbuffers debug view',
-  layout: device.createPipelineLayout({
-    bindGroupLayouts: [gBufferTexturesBindGroupLayout],
-  }),
-  vertex: {
-    module: device.createShaderModule({
-      code: vertexTextureQuad,
+const createInspectorPipeline = (format: GPUTextureFormat) =>
+  device.createRenderPipeline({
+    label: 'gbuffer inspector',
+    layout: device.createPipelineLayout({
+      bindGroupLayouts: [
+        gBufferTexturesBindGroupLayout,
+        inspectorBindGroupLayout,
+      ],
     }),
-  },
-  fragment: {
-    module: device.createShaderModule({
-      code: fragmentExternalGBuffersDebugView,
-    }),
-    targets: [
-      {
-        format: presentationFormat,
+    vertex: {
+      module: device.createShaderModule({
+        code: vertexTextureQuad,
+      }),
+    },
+    fragment: {
+      module: device.createShaderModule({
+        code: fragmentGBufferInspector,
+      }),
+      targets: [
+        {
+          format,
+        },
+      ],
+      constants: {
+        canvasSizeWidth: canvas.width,
+        canvasSizeHeight: canvas.height,
+        ...getSequenceConstants(fragmentGBufferInspector),
       },
-    ],
-    constants: {
-      canvasSizeWidth: canvas.width,
-      canvasSizeHeight: canvas.height,
     },
-  },
-  primitive,
+    primitive,
+  });
+
+const inspectorUniformBuffer = device.createBuffer({
+  label: 'inspector uniforms',
+  size: 4 * 8, // channels, compare, heatmap, wipe, range, padding
+  usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
 });
 
-// External G-Buffers Deferred Rendering Pipeline (Point Lights)
-const externalGBuffersDeferredRenderPipeline = device.createRenderPipeline({
-  label: 'external gbuffers deferred rendering - point lights',
-  layout: device.createPipelineLayout({
-    bindGroupLayouts: [
-      gBufferTexturesBindGroupLayout,
-      lightsBufferBindGroupLayout,
-    ],
-  }),
-  vertex: {
-    module: device.createShaderModule({
-      code: vertexTextureQuad,
-    }),
-  },
-  fragment: {
-    module: device.createShaderModule({
-      code: fragmentExternalGBuffers,
-    }),
-    targets: [
+const createInspectorBindGroup = () =>
+  device.createBindGroup({
+    layout: inspectorBindGroupLayout,
+    entries: [
       {
-        format: presentationFormat,
+        binding: 0,
+        resource: {
+          buffer: inspectorUniformBuffer,
+        },
+      },
+      {
+        binding: 1,
+        resource: hdrTexture.createView(),
       },
-    ],
-    constants: {
-      canvasSizeWidth: canvas.width,
-      canvasSizeHeight: canvas.height,
-    },
-  },
-  primitive,
-});
-
-// External G-Buffers Deferred Rendering Pipeline (Directional Lights)
-const externalGBuffersDirectionalRenderPipeline = device.createRenderPipeline({
-  label: 'external gbuffers deferred rendering - directional lights',
-  layout: device.createPipelineLayout({
-    bindGroupLayouts: [
-      gBufferTexturesBindGroupLayout,
-      lightsBufferBindGroupLayout, // Same layout works for directional lights
-    ],
-  }),
-  vertex: {
-    module: device.createShaderModule({
-      code: vertexTextureQuad,
-    }),
-  },
-  fragment: {
-    module: device.createShaderModule({
-      code: fragmentExternalGBuffersDirectional,
-    }),
-    targets: [
       {
-        format: presentationFormat,
+        binding: 2,
+        resource: inspectorLitTexture.createView(),
       },
     ],
-    constants: {
-      canvasSizeWidth: canvas.width,
-      canvasSizeHeight: canvas.height,
-    },
-  },
-  primitive,
-});
+  });
+
+let inspectorBindGroup = createInspectorBindGroup();
 
 // Light Gizmo Pipeline
 const lightGizmoShaderModule = device.createShaderModule({
   code: lightGizmoShader,
 });
 
-const lightGizmoUniformBuffer = device.createBuffer({
-  label: 'light gizmo uniforms',
-  size: Float32Array.BYTES_PER_ELEMENT * 8, // vec3 pos + f32 radius + vec3 color + f32 padding
-  usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
-});
-
 const lightGizmoBindGroupLayout = device.createBindGroupLayout({
   entries: [
     {
@@ -296,53 +527,48 @@ const lightGizmoBindGroupLayout = device.createBindGroupLayout({
   ],
 });
 
-const lightGizmoPipeline = device.createRenderPipeline({
-  label: 'light gizmo',
-  layout: device.createPipelineLayout({
-    bindGroupLayouts: [lightGizmoBindGroupLayout],
-  }),
-  vertex: {
-    module: lightGizmoShaderModule,
-    entryPoint: 'vertexMain',
-  },
-  fragment: {
-    module: lightGizmoShaderModule,
-    entryPoint: 'fragmentMain',
-    targets: [
-      {
-        format: presentationFormat,
-        blend: {
-          color: {
-            srcFactor: 'src-alpha',
-            dstFactor: 'one-minus-src-alpha',
-            operation: 'add',
-          },
-          alpha: {
-            srcFactor: 'one',
-            dstFactor: 'one-minus-src-alpha',
-            operation: 'add',
+const createLightGizmoPipeline = (format: GPUTextureFormat) =>
+  device.createRenderPipeline({
+    label: 'light gizmo',
+    layout: device.createPipelineLayout({
+      bindGroupLayouts: [lightGizmoBindGroupLayout],
+    }),
+    vertex: {
+      module: lightGizmoShaderModule,
+      entryPoint: 'vertexMain',
+    },
+    fragment: {
+      module: lightGizmoShaderModule,
+      entryPoint: 'fragmentMain',
+      targets: [
+        {
+          format,
+          blend: {
+            color: {
+              srcFactor: 'src-alpha',
+              dstFactor: 'one-minus-src-alpha',
+              operation: 'add',
+            },
+            alpha: {
+              srcFactor: 'one',
+              dstFactor: 'one-minus-src-alpha',
+              operation: 'add',
+            },
           },
         },
-      },
-    ],
-  },
-  primitive: {
-    topology: 'triangle-list',
-    cullMode: 'none',
-  },
-});
+      ],
+    },
+    primitive: {
+      topology: 'triangle-list',
+      cullMode: 'none',
+    },
+  });
 
 // Light Gizmo 2D Cross + Depth Ring Pipeline
 const lightGizmo2DShaderModule = device.createShaderModule({
   code: lightGizmo2DShader,
 });
 
-const lightGizmo2DUniformBuffer = device.createBuffer({
-  label: 'light gizmo 2d uniforms',
-  size: Float32Array.BYTES_PER_ELEMENT * 4, // vec3 position + padding
-  usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
-});
-
 const lightGizmo2DBindGroupLayout = device.createBindGroupLayout({
   entries: [
     {
@@ -362,30 +588,58 @@ const lightGizmo2DBindGroupLayout = device.createBindGroupLayout({
   ],
 });
 
-const lightGizmo2DPipeline = device.createRenderPipeline({
-  label: 'light gizmo 2d',
-  layout: device.createPipelineLayout({
-    bindGroupLayouts: [lightGizmo2DBindGroupLayout],
-  }),
-  vertex: {
-    module: lightGizmo2DShaderModule,
-    entryPoint: 'vertexMain',
-  },
-  fragment: {
-    module: lightGizmo2DShaderModule,
-    entryPoint: 'fragmentMain',
-    targets: [
-      {
-        format: presentationFormat,
-      },
-    ],
-  },
-  primitive: {
-    topology: 'triangle-list',
-    cullMode: 'none',
-  },
-  depthStencil: undefined,
-});
+const createLightGizmo2DPipeline = (format: GPUTextureFormat) =>
+  device.createRenderPipeline({
+    label: 'light gizmo 2d',
+    layout: device.createPipelineLayout({
+      bindGroupLayouts: [lightGizmo2DBindGroupLayout],
+    }),
+    vertex: {
+      module: lightGizmo2DShaderModule,
+      entryPoint: 'vertexMain',
+    },
+    fragment: {
+      module: lightGizmo2DShaderModule,
+      entryPoint: 'fragmentMain',
+      targets: [
+        {
+          format,
+        },
+      ],
+    },
+    primitive: {
+      topology: 'triangle-list',
+      cullMode: 'none',
+    },
+    depthStencil: undefined,
+  });
+
+// Pipelines that write display output: to the canvas, whose format changes
+// with HDR output, and to export targets. Created per format on first use.
+interface OutputPipelines {
+  debugView: GPURenderPipeline;
+  inspector: GPURenderPipeline;
+  tonemap: GPURenderPipeline;
+  lightGizmo: GPURenderPipeline;
+  lightGizmo2D: GPURenderPipeline;
+}
+
+const outputPipelines = new Map<GPUTextureFormat, OutputPipelines>();
+
+function getOutputPipelines(format: GPUTextureFormat): OutputPipelines {
+  let pipelines = outputPipelines.get(format);
+  if (!pipelines) {
+    pipelines = {
+      debugView: createDebugViewPipeline(format),
+      inspector: createInspectorPipeline(format),
+      tonemap: createTonemapPipeline(format),
+      lightGizmo: createLightGizmoPipeline(format),
+      lightGizmo2D: createLightGizmo2DPipeline(format),
+    };
+    outputPipelines.set(format, pipelines);
+  }
+  return pipelines;
+}
 
 const textureQuadPassDescriptor: GPURenderPassDescriptor = {
   colorAttachments: [
@@ -399,219 +653,618 @@ const textureQuadPassDescriptor: GPURenderPassDescriptor = {
   ],
 };
 
+// Tone curves, by their index in the tonemapping shader
+const kToneMappingCurves: { [name: string]: number } = {
+  None: 0,
+  Reinhard: 1,
+  ACES: 2,
+  AgX: 3,
+};
+
+// Inspector channels and comparisons, by their index in the inspector shader
+const kInspectorChannels: { [name: string]: number } = {
+  Lit: 0,
+  'Base Color': 1,
+  Normal: 2,
+  Depth: 3,
+  Metallic: 4,
+  Roughness: 5,
+  AO: 6,
+  Emissive: 7,
+  Specular: 8,
+};
+
+const kInspectorCompareModes: { [name: string]: number } = {
+  None: 0,
+  'Side by Side': 1,
+  Wipe: 2,
+};
+
 const settings = {
   mode: 'rendering',
-  lightType: 'directional', // 'point' or 'directional'
-  numLights: 1, // Single point light
   playbackRate: 1.0,
   debugLights: false, // Toggle to visualize where lights are active
+  showLightGizmos: true,
+  // Lights placed on a surface sit this far along its normal
+  surfaceOffset: 5,
+  stickToSurface: false,
+  exposure: 0, // In stops
+  toneMapping: 'ACES',
+  hdrOutput: false,
+  // G-buffer inspector
+  inspectChannel: 'Lit',
+  inspectCompare: 'None',
+  inspectChannelB: 'Base Color',
+  inspectWipe: 0.5,
+  inspectHeatmap: false,
+  inspectRangeMin: 0,
+  inspectRangeMax: 1,
+  inspectProbe: true,
+  // Light keyframes
+  animateLights: false,
+  keyframeCount: 0,
   currentFrame: 0,
+  prefetchFrames: 0, // Will be read from the image sequence controller
+  cacheHitRate: '100%',
+  droppedFrames: 0,
   // Frame export settings
   exportFrames: false,
   exportFPS: 30,
+  exportFormat: 'png' as ExportFormat,
   exportPrefix: '0000',
   exportTotalFrames: 0, // Will be calculated from image sequence
-  // Directional light 0 controls (main sun)
-  light0Azimuth: 135, // Horizontal angle in degrees (0 = +X, 90 = +Z, 180 = -X, 270 = -Z)
-  light0Elevation: 45, // Vertical angle in degrees (-90 = down, 0 = horizon, 90 = up)
-  light0Intensity: 3.0,
-  light0ColorR: 1.0,
-  light0ColorG: 0.95,
-  light0ColorB: 0.9,
-  // Point light controls
-  // X = horizontal (left/right) - cyan cross arms
-  // Y = depth (forward/back) - manual control only
-  // Z = vertical (up/down) - yellow cross arms
-  pointLightX: 0,
-  pointLightY: -30,  // Closer to camera (negative depth)
-  pointLightZ: 30,   // Up
-  pointLightIntensity: 5.0,
-  pointLightRadius: 200.0,
-  pointLightColorR: 1.0,
-  pointLightColorG: 1.0,
-  pointLightColorB: 1.0,
+  // Screen-space shadow controls
+  shadowsEnabled: false,
+  shadowSteps: 16,
+  shadowThickness: 5.0,
+  shadowBias: 0.5,
+  shadowMaxDistance: 200.0,
+  // Image-based lighting
+  environmentEnabled: true,
+  environmentIntensity: 1.0,
+  environmentRotation: 0, // Degrees around +Y
+  // Temporal stabilization
+  temporalEnabled: false,
+  temporalHistoryWeight: 0.8,
+  temporalPositionTolerance: 0.02, // Relative to depth
+  temporalAlbedoTolerance: 0.1,
+  temporalCutThreshold: 0.5, // Fraction of mismatched surfaces
 };
 
-const configUniformBuffer = (() => {
-  const buffer = device.createBuffer({
-    label: 'config uniforms',
-    size: Uint32Array.BYTES_PER_ELEMENT,
-    mappedAtCreation: true,
-    usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
-  });
-  new Uint32Array(buffer.getMappedRange())[0] = settings.numLights;
-  buffer.unmap();
-  return buffer;
-})();
+const configUniformBuffer = device.createBuffer({
+  label: 'config uniforms',
+  size: Uint32Array.BYTES_PER_ELEMENT,
+  usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+});
 
 const gui = new GUI();
-gui.add(settings, 'mode', ['rendering', 'gBuffers view']);
-
-// Directional Light Controls (Main Sun/Light 0)
-const dirLightFolder = gui.addFolder('Directional Light 0');
-dirLightFolder.add(settings, 'light0Azimuth', 0, 360).name('Yaw (°)').listen();
-dirLightFolder.add(settings, 'light0Elevation', -90, 90).name('Pitch (°)').listen();
-dirLightFolder.add(settings, 'light0Intensity', 0, 10).name('Intensity').listen();
-dirLightFolder.addColor(
-  {
-    color: [
-      settings.light0ColorR * 255,
-      settings.light0ColorG * 255,
-      settings.light0ColorB * 255
-    ]
-  },
-  'color'
-).name('Color').onChange((value: number[]) => {
-  settings.light0ColorR = value[0] / 255;
-  settings.light0ColorG = value[1] / 255;
-  settings.light0ColorB = value[2] / 255;
-});
+gui.add(settings, 'mode', ['rendering', 'gBuffers view', 'inspector']).listen();
+
+// Lights: any number of point, directional and spot lights, all summed in
+// one lighting pass. Each light gets its own folder and gizmo.
+const lights: LightSettings[] = [];
+const lightFolders = new Map<LightSettings, GUI>();
+let lightNameCounter = 0;
+
+const kLightTypeNames: { [K in LightType]: string } = {
+  point: 'Point Light',
+  directional: 'Directional Light',
+  spot: 'Spot Light',
+};
 
-// Quick presets for common sun positions
-dirLightFolder.add({
-  preset: () => {
-    settings.light0Azimuth = 90;
-    settings.light0Elevation = 5;
-    settings.light0Intensity = 2.5;
-    settings.light0ColorR = 1.0;
-    settings.light0ColorG = 0.7;
-    settings.light0ColorB = 0.5;
-  }
-}, 'preset').name('☀️ Sunrise');
-
-dirLightFolder.add({
-  preset: () => {
-    settings.light0Azimuth = 180;
-    settings.light0Elevation = 60;
-    settings.light0Intensity = 4.0;
-    settings.light0ColorR = 1.0;
-    settings.light0ColorG = 1.0;
-    settings.light0ColorB = 0.95;
-  }
-}, 'preset').name('☀️ Noon');
-
-dirLightFolder.add({
-  preset: () => {
-    settings.light0Azimuth = 270;
-    settings.light0Elevation = 5;
-    settings.light0Intensity = 2.0;
-    settings.light0ColorR = 1.0;
-    settings.light0ColorG = 0.5;
-    settings.light0ColorB = 0.3;
-  }
-}, 'preset').name('🌅 Sunset');
-
-dirLightFolder.add({
-  preset: () => {
-    settings.light0Azimuth = 0;
-    settings.light0Elevation = -30;
-    settings.light0Intensity = 1.5;
-    settings.light0ColorR = 0.2;
-    settings.light0ColorG = 0.3;
-    settings.light0ColorB = 0.6;
-  }
-}, 'preset').name('🌙 Night/Moon');
-
-dirLightFolder.open();
-
-// Point Light Controls
-const pointLightFolder = gui.addFolder('Point Light');
+function rgb(colorR: number, colorG: number, colorB: number) {
+  return { colorR, colorG, colorB };
+}
+
+// Quick presets, applied on top of a light's settings
+const kLightPresets: {
+  [K in LightType]: { name: string; settings: Partial<LightSettings> }[];
+} = {
+  directional: [
+    {
+      name: '☀️ Sunrise',
+      settings: {
+        azimuth: 90,
+        elevation: 5,
+        intensity: 2.5,
+        ...rgb(1.0, 0.7, 0.5),
+      },
+    },
+    {
+      name: '☀️ Noon',
+      settings: {
+        azimuth: 180,
+        elevation: 60,
+        intensity: 4.0,
+        ...rgb(1.0, 1.0, 0.95),
+      },
+    },
+    {
+      name: '🌅 Sunset',
+      settings: {
+        azimuth: 270,
+        elevation: 5,
+        intensity: 2.0,
+        ...rgb(1.0, 0.5, 0.3),
+      },
+    },
+    {
+      name: '🌙 Night/Moon',
+      settings: {
+        azimuth: 0,
+        elevation: -30,
+        intensity: 1.5,
+        ...rgb(0.2, 0.3, 0.6),
+      },
+    },
+  ],
+  point: [
+    {
+      name: '💡 Center Front',
+      settings: {
+        x: 0,
+        y: -30,
+        z: 30,
+        intensity: 5.0,
+        radius: 200.0,
+        ...rgb(1, 1, 1),
+      },
+    },
+    {
+      name: '🔥 Warm Side',
+      settings: {
+        x: 40,
+        y: 0,
+        z: 20,
+        intensity: 8.0,
+        radius: 150.0,
+        ...rgb(1.0, 0.7, 0.4),
+      },
+    },
+    {
+      name: '💡 Top Light',
+      settings: {
+        x: 0,
+        y: 0,
+        z: 50,
+        intensity: 10.0,
+        radius: 300.0,
+        ...rgb(1, 1, 1),
+      },
+    },
+  ],
+  spot: [
+    {
+      name: '🔦 Overhead',
+      settings: { x: 0, y: 0, z: 80, azimuth: 0, elevation: -90 },
+    },
+    {
+      name: '🔦 Front Key',
+      settings: { x: 0, y: -60, z: 30, azimuth: 90, elevation: -27 },
+    },
+  ],
+};
+
+const lightsFolder = gui.addFolder('Lights');
+for (const type of ['point', 'directional', 'spot'] as LightType[]) {
+  lightsFolder
+    .add({ add: () => addLight(type) }, 'add')
+    .name(`➕ Add ${kLightTypeNames[type]}`);
+}
 // Add helpful text
 const gizmoHelp = document.createElement('div');
-gizmoHelp.style.cssText = 'padding: 5px; font-size: 10px; color: #888; line-height: 1.3;';
-gizmoHelp.innerHTML = 'Drag the gizmo:<br>• Cyan cross = Horizontal (X)<br>• Yellow cross = Vertical (Z)<br>• Center = Free 3D movement';
-pointLightFolder.domElement.appendChild(gizmoHelp);
-
-pointLightFolder.add(settings, 'pointLightX', -100, 100).name('X - Horizontal (Cyan ←→)').listen();
-pointLightFolder.add(settings, 'pointLightY', -100, 100).name('Y - Depth (Manual)').listen();
-pointLightFolder.add(settings, 'pointLightZ', -100, 100).name('Z - Vertical (Yellow ↑↓)').listen();
-pointLightFolder.add(settings, 'pointLightIntensity', 0, 20).name('Intensity').listen();
-pointLightFolder.add(settings, 'pointLightRadius', 10, 500).name('Radius').listen();
-pointLightFolder.addColor(
-  {
-    color: [
-      settings.pointLightColorR * 255,
-      settings.pointLightColorG * 255,
-      settings.pointLightColorB * 255
-    ]
-  },
-  'color'
-).name('Color').onChange((value: number[]) => {
-  settings.pointLightColorR = value[0] / 255;
-  settings.pointLightColorG = value[1] / 255;
-  settings.pointLightColorB = value[2] / 255;
-});
+gizmoHelp.style.cssText =
+  'padding: 5px; font-size: 10px; color: #888; line-height: 1.3;';
+gizmoHelp.innerHTML =
+  'Drag a gizmo:<br>• Cyan cross = Horizontal (X)<br>• Yellow cross = Vertical (Z)<br>• Center = Free 3D movement<br>• Directional lights turn toward their gizmo<br>Place on Surface, then click the image to put a light above that point. Esc cancels.';
+lightsFolder.add(settings, 'showLightGizmos').name('Show Gizmos');
+lightsFolder
+  .add(settings, 'surfaceOffset', 0, 50)
+  .name('Surface Offset')
+  .onChange(() => {
+    for (const [light, anchor] of surfaceAnchors) {
+      placeLightOnSurface(light, anchor);
+    }
+  });
+lightsFolder
+  .add(settings, 'stickToSurface')
+  .name('Stick to Surface')
+  .onChange(() =>
+    followSurfaces().catch((error) =>
+      console.error('Failed to follow the surface:', error)
+    )
+  );
+lightsFolder.domElement.appendChild(gizmoHelp);
+lightsFolder.open();
+
+function createLightFolder(light: LightSettings): GUI {
+  const folder = lightsFolder.addFolder(light.name);
+  folder.add(light, 'enabled').name('Enabled');
+
+  if (light.type !== 'directional') {
+    folder.add(light, 'x', -100, 100).name('X - Horizontal (Cyan ←→)').listen();
+    folder.add(light, 'y', -100, 100).name('Y - Depth (Manual)').listen();
+    folder.add(light, 'z', -100, 100).name('Z - Vertical (Yellow ↑↓)').listen();
+    folder.add(light, 'radius', 10, 500).name('Radius').listen();
+    folder
+      .add({ place: () => startSurfacePlacement(light) }, 'place')
+      .name('🎯 Place on Surface');
+  }
+  if (light.type !== 'point') {
+    folder.add(light, 'azimuth', 0, 360).name('Yaw (°)').listen();
+    folder.add(light, 'elevation', -90, 90).name('Pitch (°)').listen();
+  }
+  if (light.type === 'spot') {
+    folder.add(light, 'innerConeAngle', 0, 90).name('Inner Cone (°)').listen();
+    folder.add(light, 'outerConeAngle', 0, 90).name('Outer Cone (°)').listen();
+  }
+  const maxIntensity = light.type === 'directional' ? 10 : 20;
+  folder.add(light, 'intensity', 0, maxIntensity).name('Intensity').listen();
 
-// Quick presets for point lights
-pointLightFolder.add({
-  preset: () => {
-    settings.pointLightX = 0;      // Center
-    settings.pointLightY = -30;    // Depth (closer to camera)
-    settings.pointLightZ = 30;     // Up
-    settings.pointLightIntensity = 5.0;
-    settings.pointLightRadius = 200.0;
-    settings.pointLightColorR = 1.0;
-    settings.pointLightColorG = 1.0;
-    settings.pointLightColorB = 1.0;
-  }
-}, 'preset').name('💡 Center Front');
-
-pointLightFolder.add({
-  preset: () => {
-    settings.pointLightX = 40;     // Right side
-    settings.pointLightY = 0;      // Mid depth
-    settings.pointLightZ = 20;     // Mid height
-    settings.pointLightIntensity = 8.0;
-    settings.pointLightRadius = 150.0;
-    settings.pointLightColorR = 1.0;
-    settings.pointLightColorG = 0.7;
-    settings.pointLightColorB = 0.4;
-  }
-}, 'preset').name('🔥 Warm Side');
-
-pointLightFolder.add({
-  preset: () => {
-    settings.pointLightX = 0;      // Center
-    settings.pointLightY = 0;      // Mid depth
-    settings.pointLightZ = 50;     // High up
-    settings.pointLightIntensity = 10.0;
-    settings.pointLightRadius = 300.0;
-    settings.pointLightColorR = 1.0;
-    settings.pointLightColorG = 1.0;
-    settings.pointLightColorB = 1.0;
-  }
-}, 'preset').name('💡 Top Light');
-
-// Light type selector
-gui.add(settings, 'lightType', ['point', 'directional']).name('Light Type').onChange((value: string) => {
-  // Show/hide controls based on light type using DOM
-  const pointLightFolderElement = pointLightFolder.domElement.parentElement;
-  const dirLightFolderElement = dirLightFolder.domElement.parentElement;
-  
-  if (value === 'directional') {
-    // Hide point light controls, show directional light controls
-    if (pointLightFolderElement) pointLightFolderElement.style.display = 'none';
-    if (dirLightFolderElement) dirLightFolderElement.style.display = '';
-  } else {
-    // Show point light controls, hide directional light controls
-    if (pointLightFolderElement) pointLightFolderElement.style.display = '';
-    if (dirLightFolderElement) dirLightFolderElement.style.display = 'none';
+  const color = {
+    color: [light.colorR * 255, light.colorG * 255, light.colorB * 255],
+  };
+  const colorController = folder
+    .addColor(color, 'color')
+    .name('Color')
+    .onChange((value: number[]) => {
+      light.colorR = value[0] / 255;
+      light.colorG = value[1] / 255;
+      light.colorB = value[2] / 255;
+    });
+
+  for (const preset of kLightPresets[light.type]) {
+    folder
+      .add(
+        {
+          preset: () => {
+            Object.assign(light, preset.settings);
+            color.color = [light.colorR, light.colorG, light.colorB].map(
+              (c) => c * 255
+            );
+            colorController.updateDisplay();
+          },
+        },
+        'preset'
+      )
+      .name(preset.name);
+  }
+
+  folder.add({ remove: () => removeLight(light) }, 'remove').name('🗑 Remove');
+  folder.open();
+  return folder;
+}
+
+function addLight(
+  type: LightType,
+  overrides: Partial<LightSettings> = {}
+): LightSettings | undefined {
+  if (lights.length >= kMaxNumLights) {
+    console.warn(`At most ${kMaxNumLights} lights are supported`);
+    return undefined;
   }
-});
 
-// Initially show/hide controls based on light type
-if (settings.lightType === 'directional') {
-  const pointLightFolderElement = pointLightFolder.domElement.parentElement;
-  if (pointLightFolderElement) {
-    pointLightFolderElement.style.display = 'none';
+  // Light names key the GUI folders and keyframes, so keep them unique
+  let name = overrides.name ?? `${kLightTypeNames[type]} ${++lightNameCounter}`;
+  const baseName = name;
+  for (let i = 2; lights.some((light) => light.name === name); i++) {
+    name = `${baseName} (${i})`;
   }
-} else {
-  const dirLightFolderElement = dirLightFolder.domElement.parentElement;
-  if (dirLightFolderElement) {
-    dirLightFolderElement.style.display = 'none';
+  const light = { ...createLight(type, name), ...overrides, name };
+  lights.push(light);
+  lightGizmos.set(light, createLightGizmo());
+  lightFolders.set(light, createLightFolder(light));
+  return light;
+}
+
+function removeLight(light: LightSettings) {
+  const index = lights.indexOf(light);
+  if (index < 0) {
+    return;
+  }
+  lights.splice(index, 1);
+
+  const folder = lightFolders.get(light);
+  if (folder) {
+    lightsFolder.removeFolder(folder);
+    lightFolders.delete(light);
+  }
+  const gizmo = lightGizmos.get(light);
+  if (gizmo) {
+    gizmo.uniformBuffer.destroy();
+    gizmo.uniform2DBuffer.destroy();
+    lightGizmos.delete(light);
+  }
+  if (draggedLight === light) {
+    draggedLight = undefined;
+  }
+  surfaceAnchors.delete(light);
+  if (placingLight === light) {
+    stopSurfacePlacement();
   }
 }
 
+// Lighting rigs: save/load the lights as JSON, share them through the URL
+// and keyframe them over the sequence
+let lightKeyframes: LightKeyframe[] = [];
+// Frame the keyframes were last applied at. Keyframes are only applied when
+// the frame changes, so lights can be edited while paused and keyed.
+let lastAnimatedFrame = -1;
+
+function getLightingRig(): LightingRig {
+  return createLightingRig(
+    lights,
+    settings.exposure,
+    imageSequenceController.getCurrentFrame(),
+    lightKeyframes
+  );
+}
+
+async function applyLightingRig(rig: LightingRig) {
+  for (const light of [...lights]) {
+    removeLight(light);
+  }
+  for (const light of rig.lights) {
+    addLight(light.type, light);
+  }
+  settings.exposure = rig.exposure;
+  lightKeyframes = rig.keyframes;
+  settings.animateLights = lightKeyframes.length > 0;
+  settings.keyframeCount = lightKeyframes.length;
+  lastAnimatedFrame = -1;
+
+  const frame = Math.min(
+    rig.frame,
+    imageSequenceController.getTotalFrames() - 1
+  );
+  await imageSequenceController.seekToFrame(Math.max(0, frame));
+  settings.currentFrame = imageSequenceController.getCurrentFrame();
+}
+
+// Apply the keyframed light values for a sequence frame
+function applyLightKeyframes(frame: number) {
+  const keyframe = evaluateKeyframes(lightKeyframes, frame);
+  if (!keyframe) {
+    return;
+  }
+  settings.exposure = keyframe.exposure;
+  for (const light of lights) {
+    const values = keyframe.lights[light.name];
+    if (values) {
+      Object.assign(light, values);
+    }
+  }
+}
+
+function downloadJSON(filename: string, data: unknown) {
+  const blob = new Blob([JSON.stringify(data, null, 2)], {
+    type: 'application/json',
+  });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+const rigFileInput = document.createElement('input');
+rigFileInput.type = 'file';
+rigFileInput.accept = '.json,application/json';
+rigFileInput.addEventListener('change', async () => {
+  const file = rigFileInput.files?.[0];
+  rigFileInput.value = '';
+  if (!file) {
+    return;
+  }
+  try {
+    await applyLightingRig(parseLightingRig(JSON.parse(await file.text())));
+    console.log(`Loaded lighting rig from ${file.name}`);
+  } catch (error) {
+    console.error('Failed to load lighting rig:', error);
+    alert(`Failed to load lighting rig: ${error}`);
+  }
+});
+
+const rigFolder = gui.addFolder('Lighting Rig');
+rigFolder
+  .add(
+    { save: () => downloadJSON('lighting-rig.json', getLightingRig()) },
+    'save'
+  )
+  .name('💾 Save Rig JSON');
+rigFolder
+  .add({ load: () => rigFileInput.click() }, 'load')
+  .name('📂 Load Rig JSON');
+rigFolder
+  .add(
+    {
+      share: async () => {
+        const url = new URL(window.location.href);
+        url.searchParams.set('rig', await encodeRigForURL(getLightingRig()));
+        history.replaceState(null, '', url);
+        try {
+          await navigator.clipboard.writeText(url.href);
+          console.log('Copied lighting rig link to the clipboard');
+        } catch {
+          console.log(`Lighting rig link: ${url.href}`);
+        }
+      },
+    },
+    'share'
+  )
+  .name('🔗 Copy Share Link');
+
+rigFolder.add(settings, 'animateLights').name('Animate Lights');
+rigFolder.add(settings, 'keyframeCount').name('Keyframes').listen();
+rigFolder
+  .add(
+    {
+      key: () => {
+        const frame = imageSequenceController.getCurrentFrame();
+        setKeyframe(
+          lightKeyframes,
+          captureKeyframe(frame, settings.exposure, lights)
+        );
+        settings.keyframeCount = lightKeyframes.length;
+        settings.animateLights = true;
+        lastAnimatedFrame = frame;
+      },
+    },
+    'key'
+  )
+  .name('◆ Set Keyframe');
+rigFolder
+  .add(
+    {
+      remove: () => {
+        const frame = imageSequenceController.getCurrentFrame();
+        lightKeyframes = lightKeyframes.filter((k) => k.frame !== frame);
+        settings.keyframeCount = lightKeyframes.length;
+        lastAnimatedFrame = -1;
+      },
+    },
+    'remove'
+  )
+  .name('◇ Delete Keyframe');
+rigFolder
+  .add(
+    {
+      clear: () => {
+        lightKeyframes = [];
+        settings.keyframeCount = 0;
+      },
+    },
+    'clear'
+  )
+  .name('Clear Keyframes');
+
+// Tone mapping of the HDR render. Exposure is saved with the lighting rig.
+const toneMappingFolder = gui.addFolder('Tone Mapping');
+toneMappingFolder
+  .add(settings, 'toneMapping', Object.keys(kToneMappingCurves))
+  .name('Curve');
+toneMappingFolder
+  .add(settings, 'hdrOutput')
+  .name('HDR Display')
+  .onChange((value: boolean) => configureCanvas(value));
+toneMappingFolder
+  .add(settings, 'exposure', -5, 5, 0.1)
+  .name('Exposure (EV)')
+  .listen();
+
+// Screen-space shadows, ray marched through the external depth buffer
+const shadowFolder = gui.addFolder('Screen-Space Shadows');
+shadowFolder.add(settings, 'shadowsEnabled').name('Enabled');
+shadowFolder.add(settings, 'shadowSteps', 1, 64, 1).name('Steps');
+shadowFolder.add(settings, 'shadowThickness', 0.1, 50).name('Thickness');
+shadowFolder.add(settings, 'shadowBias', 0, 5).name('Bias');
+shadowFolder.add(settings, 'shadowMaxDistance', 1, 1000).name('Max Distance');
+
+// Image-based lighting from an equirectangular Radiance .hdr file
+const environmentFileInput = document.createElement('input');
+environmentFileInput.type = 'file';
+environmentFileInput.accept = '.hdr';
+environmentFileInput.addEventListener('change', async () => {
+  const file = environmentFileInput.files?.[0];
+  environmentFileInput.value = '';
+  if (!file) {
+    return;
+  }
+  try {
+    environmentLighting.loadHDR(await file.arrayBuffer());
+    console.log(`Loaded environment from ${file.name}`);
+  } catch (error) {
+    console.error('Failed to load environment:', error);
+    alert(`Failed to load environment: ${error}`);
+  }
+});
+
+const environmentFolder = gui.addFolder('Environment Lighting');
+environmentFolder
+  .add({ load: () => environmentFileInput.click() }, 'load')
+  .name('📂 Load HDR');
+environmentFolder.add(settings, 'environmentEnabled').name('Enabled');
+environmentFolder
+  .add(settings, 'environmentIntensity', 0, 10, 0.05)
+  .name('Intensity');
+environmentFolder
+  .add(settings, 'environmentRotation', -180, 180, 1)
+  .name('Rotation (°)');
+
+const temporalFolder = gui.addFolder('Temporal Stabilization');
+temporalFolder.add(settings, 'temporalEnabled').name('Enabled');
+temporalFolder
+  .add(settings, 'temporalHistoryWeight', 0, 0.95, 0.01)
+  .name('History Weight');
+temporalFolder
+  .add(settings, 'temporalPositionTolerance', 0.001, 0.1, 0.001)
+  .name('Position Tolerance');
+temporalFolder
+  .add(settings, 'temporalAlbedoTolerance', 0.01, 1, 0.01)
+  .name('Albedo Tolerance');
+temporalFolder
+  .add(settings, 'temporalCutThreshold', 0.05, 1, 0.05)
+  .name('Cut Threshold');
+const temporalHelp = document.createElement('div');
+temporalHelp.innerHTML = `
+  <div style="padding: 5px; font-size: 10px; color: #888; line-height: 1.3;">
+    Blends each frame with the previous one, reprojected with the sequence
+    cameras. History is dropped where surfaces don't match, and for the
+    whole frame when more than the cut threshold of them don't.
+  </div>
+`;
+temporalFolder.domElement.appendChild(temporalHelp);
+
+// G-buffer inspector. Changing any of its settings switches to the inspector.
+const inspectorFolder = gui.addFolder('G-Buffer Inspector');
+const showInspector = () => {
+  settings.mode = 'inspector';
+};
+inspectorFolder
+  .add(settings, 'inspectChannel', Object.keys(kInspectorChannels))
+  .name('Channel')
+  .onChange(() => {
+    showInspector();
+    resetInspectorRange();
+  });
+inspectorFolder
+  .add(settings, 'inspectCompare', Object.keys(kInspectorCompareModes))
+  .name('Compare')
+  .onChange(showInspector);
+inspectorFolder
+  .add(settings, 'inspectChannelB', Object.keys(kInspectorChannels))
+  .name('Compare With')
+  .onChange(showInspector);
+inspectorFolder
+  .add(settings, 'inspectWipe', 0, 1, 0.01)
+  .name('Wipe Position')
+  .onChange(showInspector);
+inspectorFolder
+  .add(settings, 'inspectHeatmap')
+  .name('Heatmap')
+  .onChange(showInspector);
+inspectorFolder
+  .add(settings, 'inspectRangeMin')
+  .name('Range Min')
+  .listen()
+  .onChange(showInspector);
+inspectorFolder
+  .add(settings, 'inspectRangeMax')
+  .name('Range Max')
+  .listen()
+  .onChange(showInspector);
+inspectorFolder
+  .add({ autoRange: () => autoInspectorRange() }, 'autoRange')
+  .name('Auto Range');
+inspectorFolder.add(settings, 'inspectProbe').name('Hover Probe');
+const inspectorHelp = document.createElement('div');
+inspectorHelp.style.cssText =
+  'padding: 5px; font-size: 10px; color: #888; line-height: 1.3;';
+inspectorHelp.innerHTML =
+  'Range maps scalar channels and heatmaps.<br>Heatmaps of color channels show luminance, of Lit the linear radiance before exposure.<br>Hover the image to probe raw texels.';
+inspectorFolder.domElement.appendChild(inspectorHelp);
+
 // Image sequence controls
 const sequenceFolder = gui.addFolder('Sequence Controls');
 sequenceFolder.add(settings, 'playbackRate', 0.1, 3.0).name('Playback Rate').onChange(() => {
@@ -620,10 +1273,25 @@ sequenceFolder.add(settings, 'playbackRate', 0.1, 3.0).name('Playback Rate').onC
   }
 });
 
-sequenceFolder.add(settings, 'currentFrame', 0, imageSequenceController.getTotalFrames() - 1, 1).name('Frame').listen().onChange((value: number) => {
-  if (imageSequenceController) {
-    imageSequenceController.seekToFrame(Math.floor(value));
-  }
+const frameSlider = sequenceFolder
+  .add(
+    settings,
+    'currentFrame',
+    0,
+    imageSequenceController.getTotalFrames() - 1,
+    1
+  )
+  .name('Frame')
+  .listen();
+// Seek from the GUI, which doesn't wait for the frame to load
+function seekFromGUI(frame: number) {
+  imageSequenceController
+    ?.seekToFrame(frame)
+    .catch((error) => console.error('Failed to seek to the frame:', error));
+}
+
+frameSlider.onChange((value: number) => {
+  seekFromGUI(Math.floor(value));
 });
 
 sequenceFolder.add({
@@ -636,95 +1304,236 @@ sequenceFolder.add({
 
 sequenceFolder.add({
   button: () => {
-    imageSequenceController?.seekToFrame(0);
+    seekFromGUI(0);
     settings.currentFrame = 0;
   },
 }, 'button').name('Reset to Frame 0');
 
+// Frame prefetch cache
+settings.prefetchFrames = imageSequenceController.getLookAhead();
+const maxPrefetchFrames = imageSequenceController.getMaxLookAhead();
+const prefetchSlider = sequenceFolder
+  .add(settings, 'prefetchFrames', 0, maxPrefetchFrames, 1)
+  .name('Prefetch Frames')
+  .onChange((value: number) => {
+    imageSequenceController.setLookAhead(value);
+  });
+sequenceFolder.add(settings, 'cacheHitRate').name('Cache Hit Rate').listen();
+sequenceFolder.add(settings, 'droppedFrames').name('Dropped Frames').listen();
+sequenceFolder
+  .add({ button: () => imageSequenceController.resetPrefetchStats() }, 'button')
+  .name('Reset Cache Stats');
+
+// Recreate what is sized or specialized for the sequence after loading
+// another one
+function recreateSequenceResources() {
+  resizeCanvasToSequence();
+  gBufferTexturesBindGroupLayout = createGBufferBindGroupLayout(
+    device,
+    gBufferTextures
+  );
+  externalGBuffersDeferredRenderPipeline = createDeferredRenderPipeline();
+  outputPipelines.clear();
+  hdrTexture.destroy();
+  hdrTexture = createHDRTexture();
+  temporalFilter.resize(canvas.width, canvas.height);
+  inspectorLitTexture.destroy();
+  inspectorLitTexture = createInspectorLitTexture();
+  tonemapBindGroup = createTonemapBindGroup();
+  inspectorBindGroup = createInspectorBindGroup();
+  gBufferTexturesBindGroup = createGBufferBindGroup();
+  for (const texture of exportTargets.values()) {
+    texture.destroy();
+  }
+  exportTargets.clear();
+  // Anchors are points of the previous sequence's surfaces
+  surfaceAnchors.clear();
+
+  imageSequenceController.setPlaybackRate(settings.playbackRate);
+  const totalFrames = imageSequenceController.getTotalFrames();
+  settings.currentFrame = 0;
+  frameSlider.max(totalFrames - 1).updateDisplay();
+  settings.prefetchFrames = imageSequenceController.getLookAhead();
+  prefetchSlider.max(imageSequenceController.getMaxLookAhead()).updateDisplay();
+  settings.exportTotalFrames = totalFrames;
+  lastAnimatedFrame = -1;
+  resetInspectorRange();
+}
+
+// Play a sequence from local files, found by their names or a gbuffer.json
+// among them
+async function loadLocalSequence(files: Map<string, File>) {
+  if (files.size === 0) {
+    return;
+  }
+  if (offlineRenderer.isRendering()) {
+    alert('Wait for the export to finish before loading another sequence');
+    return;
+  }
+  try {
+    imageSequenceController.pause();
+    await loadGbufferAssets(new LocalSequenceFiles(files));
+  } catch (error) {
+    console.error('Failed to load G-Buffer sequence:', error);
+    alert(`Failed to load G-Buffer sequence: ${error}`);
+    return;
+  }
+  recreateSequenceResources();
+}
+
+// Without the directory picker, folders are picked through a file input
+const sequenceFolderInput = document.createElement('input');
+sequenceFolderInput.type = 'file';
+sequenceFolderInput.webkitdirectory = true;
+const sequenceFilesInput = document.createElement('input');
+sequenceFilesInput.type = 'file';
+sequenceFilesInput.multiple = true;
+sequenceFilesInput.accept = '.jpg,.jpeg,.png,.exr,.json';
+for (const input of [sequenceFolderInput, sequenceFilesInput]) {
+  input.addEventListener('change', () => {
+    const files = input.files ? filesFromFileList(input.files) : new Map();
+    input.value = '';
+    loadLocalSequence(files);
+  });
+}
+
+document.addEventListener('dragover', (event) => {
+  event.preventDefault();
+});
+document.addEventListener('drop', async (event) => {
+  event.preventDefault();
+  if (!event.dataTransfer) {
+    return;
+  }
+  // Collects the dropped entries before anything else awaits
+  const files = filesFromDataTransfer(event.dataTransfer);
+  try {
+    await loadLocalSequence(await files);
+  } catch (error) {
+    console.error('Failed to read the dropped files:', error);
+  }
+});
+
+const loadSequenceFolder = gui.addFolder('Load Sequence');
+loadSequenceFolder
+  .add(
+    {
+      openFolder: async () => {
+        if (!canPickDirectory()) {
+          sequenceFolderInput.click();
+          return;
+        }
+        let files: Map<string, File>;
+        try {
+          files = await pickDirectory();
+        } catch (error) {
+          // The picker was dismissed
+          if (error instanceof DOMException && error.name === 'AbortError') {
+            return;
+          }
+          console.error('Failed to open the folder:', error);
+          alert(`Failed to open the folder: ${error}`);
+          return;
+        }
+        await loadLocalSequence(files);
+      },
+    },
+    'openFolder'
+  )
+  .name('📂 Open Folder');
+loadSequenceFolder
+  .add({ selectFiles: () => sequenceFilesInput.click() }, 'selectFiles')
+  .name('🖼️ Select Files');
+const loadSequenceHelp = document.createElement('div');
+loadSequenceHelp.style.cssText =
+  'padding: 5px; font-size: 10px; color: #888; line-height: 1.3;';
+loadSequenceHelp.innerHTML =
+  'Or drop a folder or images onto the page.<br>Channels are recognized by file name, e.g. shot.0001.basecolor.png, and frames by the last number.';
+loadSequenceFolder.domElement.appendChild(loadSequenceHelp);
+
 // Calculate total frames from image sequence
 settings.exportTotalFrames = imageSequenceController.getTotalFrames();
 
 // Frame Export Controls
-const exportFolder = gui.addFolder('Frame Export (JPEG Max Quality)');
+const exportFolder = gui.addFolder('Frame Export');
+exportFolder
+  .add(settings, 'exportFormat', {
+    'JPEG (zip)': 'jpeg',
+    'PNG 8-bit (zip)': 'png',
+    'PNG 16-bit (zip)': 'png16',
+    'OpenEXR half float (zip)': 'exr',
+    'WebM video': 'webm',
+    'MP4 video (H.264)': 'mp4',
+  })
+  .name('Format');
 exportFolder.add(settings, 'exportFPS', 1, 60, 1).name('Target FPS');
 exportFolder.add(settings, 'exportTotalFrames').name('Total Frames').listen();
 exportFolder.add(settings, 'exportPrefix').name('Filename Prefix');
 
 let exportProgressText: HTMLElement | null = null;
 
-exportFolder.add({
-  startExport: async () => {
-    if (frameExporter.isActive()) {
-      console.warn('Export already in progress');
-      return;
-    }
-
-    if (!imageSequenceController) {
-      alert('Image sequence not loaded yet!');
-      return;
-    }
-
-    // Pause and seek to start
-    imageSequenceController.pause();
-    await imageSequenceController.seekToFrame(0);
-    settings.currentFrame = 0;
-    
-    // Wait for images to be ready
-    await new Promise(resolve => setTimeout(resolve, 200));
-
-    // Use the total frames from the image sequence
-    const totalFrames = imageSequenceController.getTotalFrames();
-    settings.exportTotalFrames = totalFrames;
+function showExportStatus(text: string, color = '#4CAF50') {
+  if (!exportProgressText) {
+    exportProgressText = document.createElement('div');
+    exportProgressText.style.cssText =
+      'padding: 5px; font-size: 11px; font-weight: bold;';
+    exportFolder.domElement.appendChild(exportProgressText);
+  }
+  exportProgressText.textContent = text;
+  exportProgressText.style.color = color;
+}
 
-    console.log(`Starting export of ${totalFrames} frames`);
-    console.log(`Sequence duration: ${imageSequenceController.getDuration().toFixed(2)}s`);
+// Render the sequence offline from a frame to the end and download it
+async function runExport(startFrame: number) {
+  if (offlineRenderer.isRendering()) {
+    console.warn('Export already in progress');
+    return;
+  }
 
-    // Create progress indicator
-    if (!exportProgressText) {
-      exportProgressText = document.createElement('div');
-      exportProgressText.style.cssText = 'padding: 5px; font-size: 11px; color: #4CAF50; font-weight: bold;';
-      exportFolder.domElement.appendChild(exportProgressText);
-    }
-    exportProgressText.textContent = 'Starting export...';
+  imageSequenceController.pause();
+  const totalFrames = imageSequenceController.getTotalFrames() - startFrame;
+  settings.exportTotalFrames = totalFrames;
+  console.log(`Starting export of ${totalFrames} frames from ${startFrame}`);
+  showExportStatus('Starting export...');
 
-    // Start export
-    await frameExporter.startExport({
-      totalFrames: totalFrames,
+  try {
+    await offlineRenderer.render({
+      format: settings.exportFormat,
+      fps: settings.exportFPS,
       outputPrefix: settings.exportPrefix,
-      onProgress: (current, total) => {
-        if (exportProgressText) {
-          const percent = ((current / total) * 100).toFixed(1);
-          exportProgressText.textContent = `Exporting: ${current}/${total} (${percent}%)`;
-        }
+      startFrame,
+      onProgress: ({ completed, total }) => {
+        const percent = ((completed / total) * 100).toFixed(1);
+        showExportStatus(`Exporting: ${completed}/${total} (${percent}%)`);
       },
-      onComplete: () => {
-        if (exportProgressText) {
-          exportProgressText.textContent = `Export complete! ${totalFrames} frames saved`;
-          exportProgressText.style.color = '#4CAF50';
-        }
-        console.log('Export finished! All frames have been downloaded.');
-        // Resume normal playback
-        imageSequenceController.seekToFrame(0);
-        settings.currentFrame = 0;
-        imageSequenceController.play();
-      }
     });
-  }
-}, 'startExport').name('▶ Start Export');
-
-exportFolder.add({
-  stopExport: () => {
-    frameExporter.stopExport();
-    if (exportProgressText) {
-      exportProgressText.textContent = 'Export stopped';
-      exportProgressText.style.color = '#FF5722';
-    }
-    // Resume normal playback
-    if (imageSequenceController) {
-      imageSequenceController.play();
+    showExportStatus(`Export complete! ${totalFrames} frames saved`);
+    console.log('Export finished!');
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      showExportStatus('Export stopped', '#FF5722');
+    } else {
+      console.error('Export failed:', error);
+      showExportStatus(`Export failed: ${error}`, '#FF5722');
     }
   }
-}, 'stopExport').name('⏹ Stop Export');
+
+  // Resume normal playback
+  imageSequenceController.play();
+}
+
+exportFolder
+  .add(
+    {
+      startExport: () => runExport(imageSequenceController.getCurrentFrame()),
+    },
+    'startExport'
+  )
+  .name('▶ Start Export');
+
+exportFolder
+  .add({ stopExport: () => offlineRenderer.cancel() }, 'stopExport')
+  .name('⏹ Stop Export');
 
 // Add divider
 const divider = document.createElement('div');
@@ -732,115 +1541,260 @@ divider.style.cssText = 'height: 1px; background: #333; margin: 8px 0;';
 exportFolder.domElement.appendChild(divider);
 
 // Quick export button (reset + start)
-exportFolder.add({
-  quickExport: async () => {
-    if (frameExporter.isActive()) {
-      console.warn('Export already in progress');
-      return;
-    }
+exportFolder
+  .add({ quickExport: () => runExport(0) }, 'quickExport')
+  .name('🚀 Reset & Export All');
 
-    if (!imageSequenceController) {
-      alert('Image sequence not loaded yet!');
-      return;
-    }
+const exportHelp = document.createElement('div');
+exportHelp.style.cssText =
+  'padding: 8px; font-size: 10px; color: #888; line-height: 1.4; border-top: 1px solid #333; margin-top: 5px;';
+exportHelp.innerHTML =
+  '<b>Quick Export:</b><br>• Click "🚀 Reset & Export All" for one-click export<br><br><b>Manual Export:</b><br>1. Set desired FPS<br>2. Position video where you want<br>3. Click "▶ Start Export" to render from there to the end<br>4. Frames download as one zip, or one WebM or MP4 video';
+exportFolder.domElement.appendChild(exportHelp);
 
-    // Pause and reset
-    imageSequenceController.pause();
-    await imageSequenceController.seekToFrame(0);
-    settings.currentFrame = 0;
-    
-    // Wait for images to be ready at frame 0
-    await new Promise(resolve => setTimeout(resolve, 200));
+const cameraUniformBuffer = device.createBuffer({
+  label: 'camera matrix uniform',
+  size: 4 * 16 * 3 + 4 * 4 * 2, // 3 matrices + eye position + forward
+  usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+});
+
+const shadowConfigUniformBuffer = device.createBuffer({
+  label: 'shadow config uniform',
+  size: 4 * 5, // enabled, steps, thickness, bias, max distance
+  usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+});
+const shadowConfigData = new ArrayBuffer(4 * 5);
+const shadowConfigUints = new Uint32Array(shadowConfigData);
+const shadowConfigFloats = new Float32Array(shadowConfigData);
+
+function updateShadowConfigFromSettings() {
+  shadowConfigUints[0] = settings.shadowsEnabled ? 1 : 0;
+  shadowConfigUints[1] = settings.shadowSteps;
+  shadowConfigFloats[2] = settings.shadowThickness;
+  shadowConfigFloats[3] = settings.shadowBias;
+  shadowConfigFloats[4] = settings.shadowMaxDistance;
+  device.queue.writeBuffer(shadowConfigUniformBuffer, 0, shadowConfigData);
+}
 
-    // Get total frames
-    const totalFrames = imageSequenceController.getTotalFrames();
-    settings.exportTotalFrames = totalFrames;
+const tonemapData = new ArrayBuffer(4 * 4);
+const tonemapFloats = new Float32Array(tonemapData);
+const tonemapUints = new Uint32Array(tonemapData);
 
-    console.log(`Quick Export: ${totalFrames} frames`);
-    console.log(`Sequence duration: ${imageSequenceController.getDuration().toFixed(2)}s`);
+function updateTonemapFromSettings() {
+  tonemapFloats[0] = Math.pow(2, settings.exposure);
+  tonemapUints[1] = kToneMappingCurves[settings.toneMapping];
+  device.queue.writeBuffer(tonemapUniformBuffer, 0, tonemapData);
+}
+
+function updateEnvironmentFromSettings() {
+  environmentLighting.update({
+    enabled: settings.environmentEnabled,
+    intensity: settings.environmentIntensity,
+    rotation: settings.environmentRotation,
+  });
+}
+
+function getTemporalFilterSettings() {
+  return {
+    enabled: settings.temporalEnabled,
+    historyWeight: settings.temporalHistoryWeight,
+    positionTolerance: settings.temporalPositionTolerance,
+    albedoTolerance: settings.temporalAlbedoTolerance,
+    cutThreshold: settings.temporalCutThreshold,
+  };
+}
 
-    // Create progress indicator if needed
-    if (!exportProgressText) {
-      exportProgressText = document.createElement('div');
-      exportProgressText.style.cssText = 'padding: 5px; font-size: 11px; color: #4CAF50; font-weight: bold;';
-      exportFolder.domElement.appendChild(exportProgressText);
+// Stabilizes the lit frames, reprojecting the previous one
+const temporalFilter = new TemporalFilter(
+  device,
+  canvas.width,
+  canvas.height,
+  getTemporalFilterSettings()
+);
+
+function updateTemporalFilterFromSettings() {
+  temporalFilter.update(getTemporalFilterSettings());
+}
+
+const inspectorData = new ArrayBuffer(4 * 8);
+const inspectorFloats = new Float32Array(inspectorData);
+const inspectorUints = new Uint32Array(inspectorData);
+
+function updateInspectorFromSettings() {
+  inspectorUints[0] = kInspectorChannels[settings.inspectChannel];
+  inspectorUints[1] = kInspectorChannels[settings.inspectChannelB];
+  inspectorUints[2] = kInspectorCompareModes[settings.inspectCompare];
+  inspectorUints[3] = settings.inspectHeatmap ? 1 : 0;
+  inspectorFloats[4] = settings.inspectWipe;
+  inspectorFloats[5] = settings.inspectRangeMin;
+  inspectorFloats[6] = settings.inspectRangeMax;
+  device.queue.writeBuffer(inspectorUniformBuffer, 0, inspectorData);
+}
+
+// Value of an inspector channel in a texel read back from its texture,
+// matching what the inspector shader remaps
+function inspectorChannelValue(channel: string, texel: ArrayLike<number>) {
+  const constants = imageSequenceController.getShaderConstants();
+  const luminance = (r: number, g: number, b: number) =>
+    0.2126 * r + 0.7152 * g + 0.0722 * b;
+  switch (channel) {
+    case 'Lit':
+      return luminance(texel[0], texel[1], texel[2]);
+    case 'Base Color': {
+      const linear = (c: number) =>
+        constants.linearBasecolor ? c : Math.pow(c, 2.2);
+      return luminance(linear(texel[0]), linear(texel[1]), linear(texel[2]));
+    }
+    case 'Normal':
+      return texel[2];
+    case 'Depth':
+      return texel[constants.depthComponent] ?? texel[0];
+    case 'Metallic':
+      return texel[constants.metallicComponent] ?? texel[0];
+    case 'AO':
+      return texel[constants.aoComponent] ?? texel[0];
+    case 'Emissive': {
+      const linear = (c: number) =>
+        constants.linearEmissive ? c : Math.pow(c, 2.2);
+      return luminance(linear(texel[0]), linear(texel[1]), linear(texel[2]));
     }
-    exportProgressText.textContent = 'Quick export starting...';
-    exportProgressText.style.color = '#4CAF50';
+    case 'Specular':
+      return texel[constants.specularComponent] ?? texel[0];
+    default:
+      return texel[constants.roughnessComponent] ?? texel[0];
+  }
+}
 
-    // Start export immediately
-    await frameExporter.startExport({
-      totalFrames: totalFrames,
-      outputPrefix: settings.exportPrefix,
-      onProgress: (current, total) => {
-        if (exportProgressText) {
-          const percent = ((current / total) * 100).toFixed(1);
-          exportProgressText.textContent = `Exporting: ${current}/${total} (${percent}%)`;
-        }
-      },
-      onComplete: () => {
-        if (exportProgressText) {
-          exportProgressText.textContent = `Export complete! ${totalFrames} frames saved`;
-          exportProgressText.style.color = '#4CAF50';
-        }
-        console.log('Quick export finished! All frames have been downloaded.');
-        // Resume normal playback
-        imageSequenceController.seekToFrame(0);
-        settings.currentFrame = 0;
-        imageSequenceController.play();
-      }
-    });
+// Texture an inspector channel reads, and its layer. Optional channels the
+// sequence doesn't have read nothing.
+function inspectorChannelSource(
+  channel: string
+): [GPUTexture, number] | undefined {
+  const layer = imageSequenceController.getDisplayedLayer();
+  const optional = (texture?: GPUTexture) =>
+    texture ? ([texture, layer] as [GPUTexture, number]) : undefined;
+  switch (channel) {
+    case 'Lit':
+      return [hdrTexture, 0];
+    case 'Base Color':
+      return [gBufferTextures.basecolor, layer];
+    case 'Normal':
+      return [gBufferTextures.normal, layer];
+    case 'Depth':
+      return [gBufferTextures.depth, layer];
+    case 'Metallic':
+      return [gBufferTextures.metallic, layer];
+    case 'AO':
+      return optional(gBufferTextures.ao);
+    case 'Emissive':
+      return optional(gBufferTextures.emissive);
+    case 'Specular':
+      return optional(gBufferTextures.specular);
+    default:
+      return [gBufferTextures.roughness, layer];
   }
-}, 'quickExport').name('🚀 Reset & Export All');
+}
 
-const exportHelp = document.createElement('div');
-exportHelp.style.cssText = 'padding: 8px; font-size: 10px; color: #888; line-height: 1.4; border-top: 1px solid #333; margin-top: 5px;';
-exportHelp.innerHTML = '<b>Quick Export:</b><br>• Click "🚀 Reset & Export All" for one-click export<br><br><b>Manual Export:</b><br>1. Set desired FPS<br>2. Position video where you want<br>3. Click "▶ Start Export"<br>4. Frames auto-download';
-exportFolder.domElement.appendChild(exportHelp);
+// Fit the range to the displayed channel's values in the current frame,
+// leaving out background depth
+async function autoInspectorRange() {
+  const channel = settings.inspectChannel;
+  const source = inspectorChannelSource(channel);
+  if (!source) {
+    return;
+  }
+  const [texture, layer] = source;
+  const texels = await readTexels(
+    device,
+    texture,
+    layer,
+    0,
+    0,
+    texture.width,
+    texture.height
+  );
+  const depthEncoding = imageSequenceController.getDepthEncoding();
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < texels.data.length; i += texels.components) {
+    const value = inspectorChannelValue(
+      channel,
+      texels.data.subarray(i, i + texels.components)
+    );
+    if (
+      !Number.isFinite(value) ||
+      (channel === 'Depth' && isBackgroundDepth(value, depthEncoding))
+    ) {
+      continue;
+    }
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  }
+  if (min <= max) {
+    settings.inspectRangeMin = min;
+    settings.inspectRangeMax = max > min ? max : min + 1e-3;
+  }
+}
 
-const cameraUniformBuffer = device.createBuffer({
-  label: 'camera matrix uniform',
-  size: 4 * 16 * 2, // two 4x4 matrix
-  usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
-});
+// Material channels are stored in 0-1, depth, radiance, emission and
+// indices of refraction get fit to the frame
+function resetInspectorRange() {
+  settings.inspectRangeMin = 0;
+  settings.inspectRangeMax = 1;
+  const channel = settings.inspectChannel;
+  const ior =
+    channel === 'Specular' &&
+    imageSequenceController.getShaderConstants().specularEncoding === 2;
+  if (
+    channel === 'Depth' ||
+    channel === 'Lit' ||
+    channel === 'Emissive' ||
+    ior
+  ) {
+    autoInspectorRange().catch((error) =>
+      console.error('Failed to fit the inspector range:', error)
+    );
+  }
+}
 
-// Light Gizmo Bind Group (created after cameraUniformBuffer)
-const lightGizmoBindGroup = device.createBindGroup({
-  layout: lightGizmoBindGroupLayout,
-  entries: [
-    {
-      binding: 0,
-      resource: {
-        buffer: cameraUniformBuffer,
-      },
-    },
-    {
-      binding: 1,
-      resource: {
-        buffer: lightGizmoUniformBuffer,
-      },
-    },
-  ],
-});
+// Each light has its own gizmo uniforms and bind groups
+interface LightGizmo {
+  uniformBuffer: GPUBuffer;
+  bindGroup: GPUBindGroup;
+  uniform2DBuffer: GPUBuffer;
+  bindGroup2D: GPUBindGroup;
+}
+const lightGizmos = new Map<LightSettings, LightGizmo>();
+
+function createLightGizmo(): LightGizmo {
+  const uniformBuffer = device.createBuffer({
+    label: 'light gizmo uniforms',
+    size: Float32Array.BYTES_PER_ELEMENT * 8, // vec3 pos + f32 radius + vec3 color + f32 padding
+    usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+  });
+  const uniform2DBuffer = device.createBuffer({
+    label: 'light gizmo 2d uniforms',
+    size: Float32Array.BYTES_PER_ELEMENT * 4, // vec3 position + padding
+    usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+  });
+
+  const bindGroup = device.createBindGroup({
+    layout: lightGizmoBindGroupLayout,
+    entries: [
+      { binding: 0, resource: { buffer: cameraUniformBuffer } },
+      { binding: 1, resource: { buffer: uniformBuffer } },
+    ],
+  });
+  const bindGroup2D = device.createBindGroup({
+    layout: lightGizmo2DBindGroupLayout,
+    entries: [
+      { binding: 0, resource: { buffer: cameraUniformBuffer } },
+      { binding: 1, resource: { buffer: uniform2DBuffer } },
+    ],
+  });
 
-// Light Gizmo 2D Bind Group (created after cameraUniformBuffer)
-const lightGizmo2DBindGroup = device.createBindGroup({
-  layout: lightGizmo2DBindGroupLayout,
-  entries: [
-    {
-      binding: 0,
-      resource: {
-        buffer: cameraUniformBuffer,
-      },
-    },
-    {
-      binding: 1,
-      resource: {
-        buffer: lightGizmo2DUniformBuffer,
-      },
-    },
-  ],
-});
+  return { uniformBuffer, bindGroup, uniform2DBuffer, bindGroup2D };
+}
 
 // G-Buffer textures bind group - created once with regular textures
 function createGBufferBindGroup() {
@@ -875,6 +1829,28 @@ function createGBufferBindGroup() {
         binding: 5,
         resource: gBufferSampler,
       },
+      {
+        binding: 6,
+        resource: {
+          buffer: imageSequenceController.getFrameLayerBuffer(),
+        },
+      },
+      {
+        binding: 7,
+        resource: (gBufferTextures.ao ?? missingChannelTexture).createView(),
+      },
+      {
+        binding: 8,
+        resource: (
+          gBufferTextures.emissive ?? missingChannelTexture
+        ).createView(),
+      },
+      {
+        binding: 9,
+        resource: (
+          gBufferTextures.specular ?? missingChannelTexture
+        ).createView(),
+      },
     ],
   });
 }
@@ -882,188 +1858,88 @@ function createGBufferBindGroup() {
 let gBufferTexturesBindGroup: GPUBindGroup = createGBufferBindGroup();
 
 // Lights data are uploaded in a storage buffer
-const extent = vec3.sub(lightExtentMax, lightExtentMin);
-const lightDataStride = 8;
-const bufferSizeInByte =
-  Float32Array.BYTES_PER_ELEMENT * lightDataStride * kMaxNumLights;
+const lightsData = new ArrayBuffer(
+  Float32Array.BYTES_PER_ELEMENT * kLightDataStride * kMaxNumLights
+);
 const lightsBuffer = device.createBuffer({
   label: 'lights storage',
-  size: bufferSizeInByte,
+  size: lightsData.byteLength,
   usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST, // Allow updates via writeBuffer
-  mappedAtCreation: true,
-});
-
-// Initialize single point light from settings
-const lightData = new Float32Array(lightsBuffer.getMappedRange());
-const tmpVec4 = vec4.create();
-
-// Position (map user coordinates to world coordinates)
-// User: X=left/right, Y=depth, Z=up/down
-// World: X=left/right, Y=up/down, Z=depth
-tmpVec4[0] = settings.pointLightX;  // X stays as X
-tmpVec4[1] = settings.pointLightZ;  // User Z -> World Y
-tmpVec4[2] = settings.pointLightY;  // User Y -> World Z
-tmpVec4[3] = 1;
-lightData.set(tmpVec4, 0);
-
-// Color and radius
-tmpVec4[0] = settings.pointLightColorR * settings.pointLightIntensity;
-tmpVec4[1] = settings.pointLightColorG * settings.pointLightIntensity;
-tmpVec4[2] = settings.pointLightColorB * settings.pointLightIntensity;
-tmpVec4[3] = settings.pointLightRadius;
-lightData.set(tmpVec4, 4);
-lightsBuffer.unmap();
-
-console.log(`Initialized single point light at X:${settings.pointLightX}, Y(depth):${settings.pointLightY}, Z(up/down):${settings.pointLightZ}`);
-
-// ===== Directional Lights Buffer =====
-// Directional light data: vec3 direction, f32 intensity, vec3 color, f32 padding = 8 floats
-const directionalLightDataStride = 8;
-const directionalBufferSizeInByte =
-  Float32Array.BYTES_PER_ELEMENT * directionalLightDataStride * kMaxNumDirectionalLights;
-const directionalLightsBuffer = device.createBuffer({
-  label: 'directional lights storage',
-  size: directionalBufferSizeInByte,
-  usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST, // Allow updates
-  mappedAtCreation: true,
 });
 
-// Populate directional lights (like Unreal's Directional Light / Sun)
-const directionalLightData = new Float32Array(directionalLightsBuffer.getMappedRange());
-
-// Pre-calculate initial direction for light 0 from settings
-const initialDirection0 = azimuthElevationToDirection(settings.light0Azimuth, settings.light0Elevation);
-
-const directionalLights = [
-  {
-    direction: initialDirection0, // Main sun light (controlled by user)
-    intensity: settings.light0Intensity,
-    color: vec3.fromValues(settings.light0ColorR, settings.light0ColorG, settings.light0ColorB),
-  },
+// Initial rig: the main sun plus fill, rim and top-down directional lights,
+// and a point light that starts disabled
+addLight('directional', { name: 'Sun' });
+const kFillLights = [
   {
-    direction: vec3.normalize(vec3.fromValues(-0.3, -0.5, -0.8)), // Fill light (from opposite direction)
+    name: 'Fill', // From the opposite direction
+    direction: vec3.fromValues(-0.3, -0.5, -0.8),
     intensity: 1.0,
-    color: vec3.fromValues(0.5, 0.6, 0.8), // Cool blue fill
+    color: [0.5, 0.6, 0.8], // Cool blue fill
   },
   {
-    direction: vec3.normalize(vec3.fromValues(0.0, 0.8, -0.6)), // Rim/back light
+    name: 'Rim',
+    direction: vec3.fromValues(0.0, 0.8, -0.6),
     intensity: 0.8,
-    color: vec3.fromValues(0.9, 0.9, 1.0), // Slight blue rim
+    color: [0.9, 0.9, 1.0], // Slight blue rim
   },
   {
-    direction: vec3.normalize(vec3.fromValues(0.0, -1.0, 0.0)), // Top-down light
+    name: 'Top',
+    direction: vec3.fromValues(0.0, -1.0, 0.0),
     intensity: 0.5,
-    color: vec3.fromValues(1.0, 1.0, 1.0), // White fill
+    color: [1.0, 1.0, 1.0], // White fill
   },
 ];
-
-for (let i = 0; i < kMaxNumDirectionalLights; i++) {
-  const lightOffset = directionalLightDataStride * i;
-  const light = directionalLights[i];
-  
-  // Direction (vec3)
-  directionalLightData[lightOffset + 0] = light.direction[0];
-  directionalLightData[lightOffset + 1] = light.direction[1];
-  directionalLightData[lightOffset + 2] = light.direction[2];
-  // Intensity (f32)
-  directionalLightData[lightOffset + 3] = light.intensity;
-  // Color (vec3)
-  directionalLightData[lightOffset + 4] = light.color[0];
-  directionalLightData[lightOffset + 5] = light.color[1];
-  directionalLightData[lightOffset + 6] = light.color[2];
-  // Padding (f32)
-  directionalLightData[lightOffset + 7] = 0.0;
+for (const fill of kFillLights) {
+  const [colorR, colorG, colorB] = fill.color;
+  addLight('directional', {
+    name: fill.name,
+    ...directionToAzimuthElevation(fill.direction),
+    intensity: fill.intensity,
+    colorR,
+    colorG,
+    colorB,
+  });
 }
-directionalLightsBuffer.unmap();
+addLight('point', { enabled: false });
 
-console.log(`Initialized ${kMaxNumDirectionalLights} directional lights (sun-like)`);
+console.log(`Initialized ${lights.length} lights`);
 
-// Function to update directional lights from settings
-function updateDirectionalLightsFromSettings() {
-  const tempData = new Float32Array(directionalBufferSizeInByte / Float32Array.BYTES_PER_ELEMENT);
-  
-  // Update light 0 from user settings
-  const direction0 = azimuthElevationToDirection(settings.light0Azimuth, settings.light0Elevation);
-  tempData[0] = direction0[0];
-  tempData[1] = direction0[1];
-  tempData[2] = direction0[2];
-  tempData[3] = settings.light0Intensity;
-  tempData[4] = settings.light0ColorR;
-  tempData[5] = settings.light0ColorG;
-  tempData[6] = settings.light0ColorB;
-  tempData[7] = 0.0; // padding
-  
-  // Keep other lights as originally configured
-  for (let i = 1; i < kMaxNumDirectionalLights; i++) {
-    const lightOffset = directionalLightDataStride * i;
-    const light = directionalLights[i];
-    
-    tempData[lightOffset + 0] = light.direction[0];
-    tempData[lightOffset + 1] = light.direction[1];
-    tempData[lightOffset + 2] = light.direction[2];
-    tempData[lightOffset + 3] = light.intensity;
-    tempData[lightOffset + 4] = light.color[0];
-    tempData[lightOffset + 5] = light.color[1];
-    tempData[lightOffset + 6] = light.color[2];
-    tempData[lightOffset + 7] = 0.0;
-  }
-  
-  device.queue.writeBuffer(directionalLightsBuffer, 0, tempData);
-}
-
-// Function to update point light from settings
-function updatePointLightFromSettings() {
-  const tempData = new Float32Array(lightDataStride);
-  
-  // Position (map user coordinates to world coordinates)
-  // User: X=left/right, Y=depth, Z=up/down
-  // World: X=left/right, Y=up/down, Z=depth
-  tempData[0] = settings.pointLightX;  // X stays as X
-  tempData[1] = settings.pointLightZ;  // User Z -> World Y
-  tempData[2] = settings.pointLightY;  // User Y -> World Z
-  tempData[3] = 1;
-  
-  // Color and radius
-  tempData[4] = settings.pointLightColorR * settings.pointLightIntensity;
-  tempData[5] = settings.pointLightColorG * settings.pointLightIntensity;
-  tempData[6] = settings.pointLightColorB * settings.pointLightIntensity;
-  tempData[7] = settings.pointLightRadius;
-  
-  device.queue.writeBuffer(lightsBuffer, 0, tempData);
+// Upload the enabled lights and their count
+function updateLightsFromSettings() {
+  const numLights = packLights(lights, lightsData);
+  device.queue.writeBuffer(lightsBuffer, 0, lightsData);
+  device.queue.writeBuffer(
+    configUniformBuffer,
+    0,
+    new Uint32Array([numLights])
+  );
 }
 
-// Function to update light gizmo uniforms
+// Update the gizmo uniforms of every light
 function updateLightGizmoUniforms() {
-  const gizmoData = new Float32Array(8);
-  
-  // Position (map user coordinates to world coordinates)
-  // User: X=left/right, Y=depth, Z=up/down
-  // World: X=left/right, Y=up/down, Z=depth
-  gizmoData[0] = settings.pointLightX;  // X stays as X
-  gizmoData[1] = settings.pointLightZ;  // User Z -> World Y
-  gizmoData[2] = settings.pointLightY;  // User Y -> World Z
-  gizmoData[3] = settings.pointLightRadius; // radius
-  
-  // Color (normalized)
-  gizmoData[4] = settings.pointLightColorR;
-  gizmoData[5] = settings.pointLightColorG;
-  gizmoData[6] = settings.pointLightColorB;
-  gizmoData[7] = 0.0; // padding
-  
-  device.queue.writeBuffer(lightGizmoUniformBuffer, 0, gizmoData);
-}
-
-// Function to update light gizmo 2D uniforms
-function updateLightGizmo2DUniforms() {
-  const gizmo2DData = new Float32Array(4);
-  
-  // Position (map user coordinates to world coordinates)
-  gizmo2DData[0] = settings.pointLightX;  // X stays as X
-  gizmo2DData[1] = settings.pointLightZ;  // User Z -> World Y
-  gizmo2DData[2] = settings.pointLightY;  // User Y -> World Z
-  gizmo2DData[3] = 0.0; // padding
-  
-  device.queue.writeBuffer(lightGizmo2DUniformBuffer, 0, gizmo2DData);
+  for (const light of lights) {
+    const gizmo = lightGizmos.get(light);
+    if (!gizmo) {
+      continue;
+    }
+    const position = lightGizmoPosition(light);
+
+    const gizmoData = new Float32Array(8);
+    gizmoData.set(position, 0);
+    gizmoData[3] = light.radius;
+    // Color (normalized)
+    gizmoData[4] = light.colorR;
+    gizmoData[5] = light.colorG;
+    gizmoData[6] = light.colorB;
+    gizmoData[7] = 0.0; // padding
+    device.queue.writeBuffer(gizmo.uniformBuffer, 0, gizmoData);
+
+    const gizmo2DData = new Float32Array(4);
+    gizmo2DData.set(position, 0);
+    gizmo2DData[3] = 0.0; // padding
+    device.queue.writeBuffer(gizmo.uniform2DBuffer, 0, gizmo2DData);
+  }
 }
 
 const lightExtentBuffer = device.createBuffer({
@@ -1082,7 +1958,7 @@ device.queue.writeBuffer(
   lightExtentData.byteLength
 );
 
-// Bind group for point lights
+// Bind group for the lights
 const lightsBufferBindGroup = device.createBindGroup({
   layout: lightsBufferBindGroupLayout,
   entries: [
@@ -1104,57 +1980,113 @@ const lightsBufferBindGroup = device.createBindGroup({
         buffer: cameraUniformBuffer,
       },
     },
-  ],
-});
-
-// Bind group for directional lights
-const directionalLightsBufferBindGroup = device.createBindGroup({
-  layout: lightsBufferBindGroupLayout, // Same layout works for both
-  entries: [
-    {
-      binding: 0,
-      resource: {
-        buffer: directionalLightsBuffer,
-      },
-    },
-    {
-      binding: 1,
-      resource: {
-        buffer: configUniformBuffer,
-      },
-    },
     {
-      binding: 2,
+      binding: 3,
       resource: {
-        buffer: cameraUniformBuffer,
+        buffer: shadowConfigUniformBuffer,
       },
     },
   ],
 });
 
-// Scene matrices
-const eyePosition = vec3.fromValues(0, 50, -100);
-const upVector = vec3.fromValues(0, 1, 0);
-const origin = vec3.fromValues(0, 0, 0);
+// Camera comes from the sequence's camera.json sidecar, or a fixed default
+// camera when the sequence doesn't have one
+function getCameraViewProjMatrix() {
+  return imageSequenceController.getCamera().viewProjectionMatrix;
+}
 
-const projectionMatrix = mat4.perspective((2 * Math.PI) / 5, aspect, 1, 2000.0);
+// Offscreen targets that exports read back from, created per format on
+// first use
+const exportTargets = new Map<GPUTextureFormat, GPUTexture>();
+
+function getExportTarget(format: GPUTextureFormat): GPUTexture {
+  let texture = exportTargets.get(format);
+  if (!texture) {
+    texture = device.createTexture({
+      label: `export target ${format}`,
+      size: [canvas.width, canvas.height],
+      format,
+      usage: GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.COPY_SRC,
+    });
+    exportTargets.set(format, texture);
+  }
+  return texture;
+}
 
-// Camera stays fixed for easy light manipulation
-function getCameraViewProjMatrix() {
-  const viewMatrix = mat4.lookAt(eyePosition, origin, upVector);
-  return mat4.multiply(projectionMatrix, viewMatrix);
+// Light the G-buffers into the HDR target, all lights are summed in a
+// single pass. The temporal filter then stabilizes the target in place.
+function encodeLightingPass(commandEncoder: GPUCommandEncoder) {
+  const guideView = temporalFilter.beginFrame(
+    imageSequenceController.getCurrentFrame(),
+    getCameraViewProjMatrix()
+  );
+  const pass = commandEncoder.beginRenderPass({
+    colorAttachments: [
+      {
+        view: hdrTexture.createView(),
+        clearValue: [0, 0, 0, 1],
+        loadOp: 'clear',
+        storeOp: 'store',
+      },
+      {
+        view: guideView,
+        clearValue: kTemporalGuideClearValue,
+        loadOp: 'clear',
+        storeOp: 'store',
+      },
+    ],
+  });
+  pass.setPipeline(externalGBuffersDeferredRenderPipeline);
+  pass.setBindGroup(0, gBufferTexturesBindGroup);
+  pass.setBindGroup(1, lightsBufferBindGroup);
+  pass.setBindGroup(2, environmentLighting.getBindGroup());
+  pass.draw(6);
+  pass.end();
+
+  temporalFilter.encode(commandEncoder, hdrTexture);
 }
 
-async function frame() {
-  // Update image sequence if playing
-  if (imageSequenceController && imageSequenceController.isPlayingNow()) {
-    const currentTime = performance.now();
-    const updated = await imageSequenceController.update(currentTime);
-    if (updated) {
-      settings.currentFrame = imageSequenceController.getCurrentFrame();
-    }
+// Write display output to a view: the G-buffers view, the inspector, or the
+// tonemapped HDR target
+function encodeOutputPass(
+  commandEncoder: GPUCommandEncoder,
+  view: GPUTextureView,
+  format: GPUTextureFormat
+) {
+  const pipelines = getOutputPipelines(format);
+  if (settings.mode === 'inspector') {
+    // The inspector's lit channel shows the tonemapped render
+    textureQuadPassDescriptor.colorAttachments[0].view =
+      inspectorLitTexture.createView();
+    const tonemapPass = commandEncoder.beginRenderPass(
+      textureQuadPassDescriptor
+    );
+    tonemapPass.setPipeline(getOutputPipelines(kHDRFormat).tonemap);
+    tonemapPass.setBindGroup(0, tonemapBindGroup);
+    tonemapPass.draw(6);
+    tonemapPass.end();
   }
 
+  textureQuadPassDescriptor.colorAttachments[0].view = view;
+  const pass = commandEncoder.beginRenderPass(textureQuadPassDescriptor);
+  if (settings.mode === 'gBuffers view') {
+    // External G-Buffers debug view
+    pass.setPipeline(pipelines.debugView);
+    pass.setBindGroup(0, gBufferTexturesBindGroup);
+  } else if (settings.mode === 'inspector') {
+    pass.setPipeline(pipelines.inspector);
+    pass.setBindGroup(0, gBufferTexturesBindGroup);
+    pass.setBindGroup(1, inspectorBindGroup);
+  } else {
+    pass.setPipeline(pipelines.tonemap);
+    pass.setBindGroup(0, tonemapBindGroup);
+  }
+  pass.draw(6);
+  pass.end();
+}
+
+// Write the camera, shadow and light uniforms for the displayed frame
+function updateFrameUniforms() {
   const cameraViewProj = getCameraViewProjMatrix();
   device.queue.writeBuffer(
     cameraUniformBuffer,
@@ -1171,80 +2103,178 @@ async function frame() {
     cameraInvViewProj.byteOffset,
     cameraInvViewProj.byteLength
   );
+  const camera = imageSequenceController.getCamera();
+  device.queue.writeBuffer(
+    cameraUniformBuffer,
+    128,
+    camera.position.buffer,
+    camera.position.byteOffset,
+    camera.position.byteLength
+  );
+  // View axis in world space, used to reconstruct positions from linear depth
+  const viewMatrix = camera.viewMatrix;
+  const cameraForward = new Float32Array([
+    -viewMatrix[2],
+    -viewMatrix[6],
+    -viewMatrix[10],
+    0,
+  ]);
+  device.queue.writeBuffer(cameraUniformBuffer, 144, cameraForward);
+  // Rotates view-space normals to world space
+  const viewToWorld = mat4.invert(viewMatrix);
+  device.queue.writeBuffer(
+    cameraUniformBuffer,
+    160,
+    viewToWorld.buffer,
+    viewToWorld.byteOffset,
+    viewToWorld.byteLength
+  );
+
+  updateShadowConfigFromSettings();
+  updateEnvironmentFromSettings();
+  updateTemporalFilterFromSettings();
+  updateTonemapFromSettings();
+  updateInspectorFromSettings();
+
+  // Keyframed lights follow the sequence frame, also during export
+  const sequenceFrame = imageSequenceController.getCurrentFrame();
+  if (settings.animateLights && sequenceFrame !== lastAnimatedFrame) {
+    applyLightKeyframes(sequenceFrame);
+    lastAnimatedFrame = sequenceFrame;
+  }
 
   // Update lights from user settings
-  if (settings.lightType === 'directional') {
-    updateDirectionalLightsFromSettings();
-  } else {
-    updatePointLightFromSettings();
-    updateLightGizmoUniforms();
-    updateLightGizmo2DUniforms();
+  updateLightsFromSettings();
+  updateLightGizmoUniforms();
+}
+
+// Offline renders load, render and read back one frame at a time, while the
+// live loop below stays idle
+const offlineRenderer = new OfflineRenderer(device, frameExporter, {
+  getTotalFrames: () => imageSequenceController.getTotalFrames(),
+  loadFrame: async (frameNumber) => {
+    await imageSequenceController.seekToFrame(frameNumber);
+    if (imageSequenceController.getCurrentFrame() !== frameNumber) {
+      throw new Error(`Frame ${frameNumber} could not be loaded`);
+    }
+    settings.currentFrame = frameNumber;
+    // Apply keyframes even if the frame was already displayed
+    lastAnimatedFrame = -1;
+    await followSurfaces();
+  },
+  renderFrame: (commandEncoder, target) => {
+    updateFrameUniforms();
+    const lit = settings.mode !== 'gBuffers view';
+    if (lit) {
+      encodeLightingPass(commandEncoder);
+    }
+
+    // The canvas shows the progress
+    encodeOutputPass(
+      commandEncoder,
+      context.getCurrentTexture().createView(),
+      canvasFormat
+    );
+    if (settings.mode === 'rendering' && target.linear) {
+      return hdrTexture;
+    }
+
+    const texture = getExportTarget(target.format);
+    encodeOutputPass(commandEncoder, texture.createView(), target.format);
+    return texture;
+  },
+});
+
+// Page API for offline renders, also meant for headless harnesses:
+//   const { blob } = await window.externalGBuffers.renderOffline({
+//     format: 'exr', startFrame: 0, endFrame: 99, download: false });
+declare global {
+  interface Window {
+    externalGBuffers?: {
+      renderOffline(
+        options?: OfflineRenderOptions
+      ): Promise<OfflineRenderResult>;
+      cancelOfflineRender(): void;
+      getTotalFrames(): number;
+    };
+  }
+}
+
+window.externalGBuffers = {
+  renderOffline: async (options) => {
+    imageSequenceController.pause();
+    return offlineRenderer.render(options);
+  },
+  cancelOfflineRender: () => offlineRenderer.cancel(),
+  getTotalFrames: () => imageSequenceController.getTotalFrames(),
+};
+
+function frame() {
+  if (offlineRenderer.isRendering()) {
+    requestAnimationFrame(frame);
+    return;
+  }
+
+  // Update image sequence if playing
+  if (imageSequenceController && imageSequenceController.isPlayingNow()) {
+    const currentTime = performance.now();
+    const updated = imageSequenceController.update(currentTime);
+    if (updated) {
+      settings.currentFrame = imageSequenceController.getCurrentFrame();
+    }
   }
+  const prefetchStats = imageSequenceController.getPrefetchStats();
+  settings.cacheHitRate = `${(prefetchStats.hitRate * 100).toFixed(1)}%`;
+  settings.droppedFrames = prefetchStats.droppedFrames;
+  followSurfaces().catch((error) =>
+    console.error('Failed to follow the surface:', error)
+  );
+
+  updateFrameUniforms();
 
   try {
     const commandEncoder = device.createCommandEncoder();
-    
-    {
-      textureQuadPassDescriptor.colorAttachments[0].view = context
-        .getCurrentTexture()
-        .createView();
-      
-      if (settings.mode === 'gBuffers view') {
-        // External G-Buffers debug view
-        const debugViewPass = commandEncoder.beginRenderPass(
-          textureQuadPassDescriptor
-        );
-        debugViewPass.setPipeline(externalGBuffersDebugViewPipeline);
-        debugViewPass.setBindGroup(0, gBufferTexturesBindGroup);
-        debugViewPass.draw(6);
-        debugViewPass.end();
-      } else {
-        // External G-Buffers deferred rendering
-        const deferredRenderingPass = commandEncoder.beginRenderPass(
-          textureQuadPassDescriptor
-        );
-        
-        // Use the appropriate pipeline and bind group based on light type
-        if (settings.lightType === 'directional') {
-          deferredRenderingPass.setPipeline(externalGBuffersDirectionalRenderPipeline);
-          deferredRenderingPass.setBindGroup(0, gBufferTexturesBindGroup);
-          deferredRenderingPass.setBindGroup(1, directionalLightsBufferBindGroup);
-        } else {
-          deferredRenderingPass.setPipeline(externalGBuffersDeferredRenderPipeline);
-          deferredRenderingPass.setBindGroup(0, gBufferTexturesBindGroup);
-          deferredRenderingPass.setBindGroup(1, lightsBufferBindGroup);
+
+    if (settings.mode !== 'gBuffers view') {
+      encodeLightingPass(commandEncoder);
+    }
+    const canvasTexture = context.getCurrentTexture();
+    encodeOutputPass(commandEncoder, canvasTexture.createView(), canvasFormat);
+
+    // Render a gizmo for each enabled light
+    if (settings.mode === 'rendering' && settings.showLightGizmos) {
+      const gizmoPass = commandEncoder.beginRenderPass({
+        colorAttachments: [
+          {
+            view: canvasTexture.createView(),
+            loadOp: 'load', // Don't clear, draw on top
+            storeOp: 'store',
+          },
+        ],
+      });
+
+      for (const light of lights) {
+        const gizmo = lightGizmos.get(light);
+        if (!light.enabled || !gizmo) {
+          continue;
         }
-        
-        deferredRenderingPass.draw(6);
-        deferredRenderingPass.end();
-        
-        // Render light gizmo for point lights
-        if (settings.lightType === 'point') {
-          const gizmoPass = commandEncoder.beginRenderPass({
-            colorAttachments: [
-              {
-                view: context.getCurrentTexture().createView(),
-                loadOp: 'load', // Don't clear, draw on top
-                storeOp: 'store',
-              },
-            ],
-          });
-          
-          // Draw center sphere gizmo
-          gizmoPass.setPipeline(lightGizmoPipeline);
-          gizmoPass.setBindGroup(0, lightGizmoBindGroup);
-          gizmoPass.draw(6);
-          
-          // Draw 2D cross controls
-          gizmoPass.setPipeline(lightGizmo2DPipeline);
-          gizmoPass.setBindGroup(0, lightGizmo2DBindGroup);
+
+        // Draw center sphere gizmo
+        gizmoPass.setPipeline(getOutputPipelines(canvasFormat).lightGizmo);
+        gizmoPass.setBindGroup(0, gizmo.bindGroup);
+        gizmoPass.draw(6);
+
+        // Draw 2D cross controls, directional lights only turn
+        if (light.type !== 'directional') {
+          gizmoPass.setPipeline(getOutputPipelines(canvasFormat).lightGizmo2D);
+          gizmoPass.setBindGroup(0, gizmo.bindGroup2D);
           gizmoPass.draw(24); // Cross only (4 arms * 6 vertices)
-          
-          gizmoPass.end();
         }
       }
+
+      gizmoPass.end();
     }
-    
+
     device.queue.submit([commandEncoder.finish()]);
   } catch (error) {
     console.error('Error during rendering:', error);
@@ -1252,37 +2282,155 @@ async function frame() {
     gBufferTexturesBindGroup = undefined as any;
   }
   
-  // Handle frame export
-  if (frameExporter.isActive()) {
-    // Capture the current frame
-    const captured = await frameExporter.captureFrame();
-    
-    if (captured) {
-      // Advance to next frame
-      const nextFrame = frameExporter.getCurrentFrame();
-      
-      // Seek to next frame in image sequence
-      if (imageSequenceController && nextFrame < imageSequenceController.getTotalFrames()) {
-        await imageSequenceController.seekToFrame(nextFrame);
-        settings.currentFrame = nextFrame;
-        // Wait for image to be ready
-        await new Promise(resolve => setTimeout(resolve, 50));
-      }
-      
-      // Continue to next frame immediately
-      requestAnimationFrame(frame);
-    } else {
-      // Export finished or stopped
-      requestAnimationFrame(frame);
+
+  requestAnimationFrame(frame);
+}
+
+// Click-to-place: lights put above the surface under a clicked pixel, at
+// the surface offset along its normal. Each placed light keeps the picked
+// point as its anchor; stuck lights re-pick the surface at the anchor's
+// screen position whenever the frame changes.
+interface SurfaceAnchor {
+  position: Vec3;
+  normal: Vec3;
+  frame: number; // Sequence frame the surface was picked in
+}
+
+const surfaceAnchors = new Map<LightSettings, SurfaceAnchor>();
+let placingLight: LightSettings | undefined;
+// Running surface anchor update, and the one queued to run after it
+let followingSurfaces: Promise<void> | undefined;
+let followingSurfacesAgain: Promise<void> | undefined;
+
+// Surface in the displayed frame at a screen position, with uv in 0-1 from
+// the top left, or undefined for background
+async function pickSurface(
+  u: number,
+  v: number
+): Promise<SurfaceAnchor | undefined> {
+  if (u < 0 || u >= 1 || v < 0 || v >= 1) {
+    return undefined;
+  }
+  const x = Math.floor(u * canvas.width);
+  const y = Math.floor(v * canvas.height);
+  // Capture the frame before the readback, which playback may outlast
+  const frame = imageSequenceController.getCurrentFrame();
+  const layer = imageSequenceController.getDisplayedLayer();
+  const camera = imageSequenceController.getCamera();
+  const [depth, normal] = await Promise.all([
+    readTexels(device, gBufferTextures.depth, layer, x, y),
+    readTexels(device, gBufferTextures.normal, layer, x, y),
+  ]);
+
+  const depthEncoding = imageSequenceController.getDepthEncoding();
+  const depthValue = inspectorChannelValue('Depth', depth.data);
+  if (isBackgroundDepth(depthValue, depthEncoding)) {
+    return undefined;
+  }
+  return {
+    position: worldFromScreen(
+      (x + 0.5) / canvas.width,
+      (y + 0.5) / canvas.height,
+      depthValue,
+      depthEncoding,
+      camera
+    ),
+    normal: worldNormalFromTexel(
+      normal.data,
+      imageSequenceController.getNormalDecoding(),
+      camera
+    ),
+    frame,
+  };
+}
+
+// Put a light above its anchor. Spot lights also aim back at the surface.
+function placeLightOnSurface(light: LightSettings, anchor: SurfaceAnchor) {
+  setLightGizmoPosition(
+    light,
+    vec3.addScaled(anchor.position, anchor.normal, settings.surfaceOffset)
+  );
+  if (light.type === 'spot') {
+    Object.assign(
+      light,
+      directionToAzimuthElevation(vec3.negate(anchor.normal))
+    );
+  }
+}
+
+function startSurfacePlacement(light: LightSettings) {
+  placingLight = light;
+  canvas.style.cursor = 'crosshair';
+}
+
+function stopSurfacePlacement() {
+  placingLight = undefined;
+  canvas.style.cursor = 'default';
+}
+
+async function placeLightAt(light: LightSettings, u: number, v: number) {
+  const anchor = await pickSurface(u, v);
+  if (!anchor) {
+    console.warn('No surface under the cursor to place the light on');
+    return;
+  }
+  // The light may have been removed meanwhile
+  if (!lights.includes(light)) {
+    return;
+  }
+  surfaceAnchors.set(light, anchor);
+  placeLightOnSurface(light, anchor);
+}
+
+// Move stuck lights with their surface to the displayed frame. Lights whose
+// anchor leaves the view or hits background stay where they are.
+function followSurfaces(): Promise<void> {
+  if (!followingSurfaces) {
+    followingSurfaces = updateSurfaceAnchors().finally(() => {
+      followingSurfaces = undefined;
+    });
+    return followingSurfaces;
+  }
+  // The running update may be for an earlier frame: update again once it's
+  // done, with every call made meanwhile waiting for that one update
+  followingSurfacesAgain ??= followingSurfaces
+    .catch(() => {})
+    .then(() => {
+      followingSurfacesAgain = undefined;
+      return followSurfaces();
+    });
+  return followingSurfacesAgain;
+}
+
+async function updateSurfaceAnchors() {
+  if (!settings.stickToSurface) {
+    return;
+  }
+  const frame = imageSequenceController.getCurrentFrame();
+  const camera = imageSequenceController.getCamera();
+  for (const [light, anchor] of surfaceAnchors) {
+    if (anchor.frame === frame) {
+      continue;
+    }
+    const screen = screenFromWorld(anchor.position, camera);
+    const surface = screen && (await pickSurface(screen.u, screen.v));
+    anchor.frame = frame;
+    if (surface && surfaceAnchors.get(light) === anchor) {
+      surfaceAnchors.set(light, surface);
+      placeLightOnSurface(light, surface);
     }
-  } else {
-    // Normal playback
-    requestAnimationFrame(frame);
   }
 }
 
+window.addEventListener('keydown', (event) => {
+  if (event.key === 'Escape' && placingLight) {
+    stopSurfacePlacement();
+  }
+});
+
 // Mouse interaction for light manipulation
 let isDraggingLight = false;
+let draggedLight: LightSettings | undefined;
 let dragPlaneDistance = 0;
 let dragStartCameraPos = vec3.create();
 let dragStartCameraViewProj = mat4.create();
@@ -1294,7 +2442,13 @@ let dragStartMouseX = 0;
 let dragStartMouseY = 0;
 
 // Helper function to check if mouse is near the gizmo controls
-function getGizmoHitType(mouseX: number, mouseY: number, lightPosWorld: Float32Array, cameraViewProj: Float32Array): 'none' | 'horizontal' | 'vertical' | 'center' {
+function getGizmoHitType(
+  mouseX: number,
+  mouseY: number,
+  lightPosWorld: Float32Array,
+  cameraViewProj: Float32Array,
+  hasCross = true
+): 'none' | 'horizontal' | 'vertical' | 'center' {
   // Project light position to screen
   const lightClipPos = vec4.transformMat4(vec4.fromValues(lightPosWorld[0], lightPosWorld[1], lightPosWorld[2], 1), cameraViewProj);
   const lightScreenX = (lightClipPos[0] / lightClipPos[3] + 1) * 0.5;
@@ -1305,12 +2459,12 @@ function getGizmoHitType(mouseX: number, mouseY: number, lightPosWorld: Float32A
   const dist = Math.sqrt(dx * dx + dy * dy);
   
   // Check vertical cross arms (yellow - up/down for Z)
-  if (Math.abs(dx) < 0.015 && Math.abs(dy) < 0.15) {
+  if (hasCross && Math.abs(dx) < 0.015 && Math.abs(dy) < 0.15) {
     return 'vertical';
   }
   
   // Check horizontal cross arms (cyan - left/right for X)
-  if (Math.abs(dy) < 0.015 && Math.abs(dx) < 0.15) {
+  if (hasCross && Math.abs(dy) < 0.015 && Math.abs(dx) < 0.15) {
     return 'horizontal';
   }
   
@@ -1322,24 +2476,57 @@ function getGizmoHitType(mouseX: number, mouseY: number, lightPosWorld: Float32A
   return 'none';
 }
 
+// Find the gizmo under the mouse, preferring lights drawn last (on top)
+function findGizmoHit(mouseX: number, mouseY: number) {
+  if (settings.mode !== 'rendering' || !settings.showLightGizmos) {
+    return undefined;
+  }
+  const cameraViewProj = getCameraViewProjMatrix();
+  for (let i = lights.length - 1; i >= 0; i--) {
+    const light = lights[i];
+    if (!light.enabled) {
+      continue;
+    }
+    const lightPosWorld = lightGizmoPosition(light);
+    const hitType = getGizmoHitType(
+      mouseX,
+      mouseY,
+      lightPosWorld,
+      cameraViewProj,
+      light.type !== 'directional'
+    );
+    if (hitType !== 'none') {
+      return { light, lightPosWorld, hitType };
+    }
+  }
+  return undefined;
+}
+
 canvas.addEventListener('mousedown', (event) => {
-  if (settings.lightType !== 'point') return;
-  
-  // Check if clicking near the light gizmo
+  // Check if clicking near a light gizmo
   const rect = canvas.getBoundingClientRect();
   const mouseX = (event.clientX - rect.left) / rect.width;
   const mouseY = (event.clientY - rect.top) / rect.height;
-  const mouseScreen = vec3.fromValues(mouseX, mouseY, 0);
-  
-  // Get light position in world space
-  const lightPosWorld = vec3.fromValues(settings.pointLightX, settings.pointLightZ, settings.pointLightY);
   const cameraViewProj = getCameraViewProjMatrix();
+
+  if (placingLight) {
+    const light = placingLight;
+    stopSurfacePlacement();
+    placeLightAt(light, mouseX, mouseY).catch((error) =>
+      console.error('Failed to place the light:', error)
+    );
+    return;
+  }
   
-  // Check what part of the gizmo was clicked
-  const hitType = getGizmoHitType(mouseX, mouseY, lightPosWorld, cameraViewProj);
+  // Check what part of which gizmo was clicked
+  const hit = findGizmoHit(mouseX, mouseY);
   
-  if (hitType !== 'none') {
+  if (hit) {
+    const { light, lightPosWorld, hitType } = hit;
+    // Dragging takes the light off its surface
+    surfaceAnchors.delete(light);
     isDraggingLight = true;
+    draggedLight = light;
     dragAxis = hitType === 'center' ? 'none' : hitType;
     // Store the current distance from origin for plane projection
     dragPlaneDistance = vec3.length(lightPosWorld);
@@ -1347,8 +2534,10 @@ canvas.addEventListener('mousedown', (event) => {
     dragStartMouseX = mouseX;
     dragStartMouseY = mouseY;
     
-    // Capture camera state at drag start (camera is static for point lights)
-    dragStartCameraPos = vec3.copy(eyePosition);
+    // Capture camera state at drag start (camera may change per frame)
+    dragStartCameraPos = vec3.copy(
+      imageSequenceController.getCamera().position
+    );
     dragStartCameraViewProj = mat4.copy(cameraViewProj);
     dragStartCameraInvViewProj = mat4.invert(dragStartCameraViewProj);
     
@@ -1357,19 +2546,18 @@ canvas.addEventListener('mousedown', (event) => {
 });
 
 canvas.addEventListener('mousemove', (event) => {
+  if (placingLight) {
+    return;
+  }
   if (!isDraggingLight) {
-    // Update cursor when hovering over the light
-    if (settings.lightType === 'point') {
-      const rect = canvas.getBoundingClientRect();
-      const mouseX = (event.clientX - rect.left) / rect.width;
-      const mouseY = (event.clientY - rect.top) / rect.height;
-      
-      const lightPos = vec3.fromValues(settings.pointLightX, settings.pointLightZ, settings.pointLightY);
-      const cameraViewProj = getCameraViewProjMatrix();
-      
-      const hitType = getGizmoHitType(mouseX, mouseY, lightPos, cameraViewProj);
-      canvas.style.cursor = hitType !== 'none' ? 'pointer' : 'default';
-    }
+    // Update cursor when hovering over a light
+    const rect = canvas.getBoundingClientRect();
+    const mouseX = (event.clientX - rect.left) / rect.width;
+    const mouseY = (event.clientY - rect.top) / rect.height;
+    canvas.style.cursor = findGizmoHit(mouseX, mouseY) ? 'pointer' : 'default';
+    return;
+  }
+  if (!draggedLight) {
     return;
   }
   
@@ -1423,17 +2611,14 @@ canvas.addEventListener('mousemove', (event) => {
     }
   }
   
-  // Update settings with correct coordinate mapping
-  // World space: X=left/right, Y=up/down, Z=depth
-  // User space: X=left/right, Z=up/down, Y=depth
-  settings.pointLightX = newLightPosWorld[0];  // X stays as X (left/right)
-  settings.pointLightZ = newLightPosWorld[1];  // World Y -> User Z (up/down)
-  settings.pointLightY = newLightPosWorld[2];  // World Z -> User Y (depth)
+  // Update the light, mapping world space back to the GUI axes
+  setLightGizmoPosition(draggedLight, newLightPosWorld);
 });
 
 canvas.addEventListener('mouseup', () => {
   if (isDraggingLight) {
     isDraggingLight = false;
+    draggedLight = undefined;
     dragAxis = 'none';
     canvas.style.cursor = 'pointer';
   }
@@ -1442,9 +2627,157 @@ canvas.addEventListener('mouseup', () => {
 canvas.addEventListener('mouseleave', () => {
   if (isDraggingLight) {
     isDraggingLight = false;
+    draggedLight = undefined;
     dragAxis = 'none';
     canvas.style.cursor = 'default';
   }
 });
 
+// Inspector hover probe: raw texels and the reconstructed world position
+// under the cursor. One readback is in flight at a time; moves meanwhile
+// probe the latest texel once it lands.
+const probeLabel = document.createElement('div');
+probeLabel.style.cssText =
+  'position: fixed; display: none; pointer-events: none; z-index: 10; padding: 6px 8px; background: rgba(0, 0, 0, 0.8); color: #eee; font: 11px monospace; white-space: pre;';
+document.body.appendChild(probeLabel);
+
+let probeTexel: { x: number; y: number } | undefined;
+let probeInFlight = false;
+
+// Image texel under a canvas position, following the inspector's layout
+function inspectorTexelAt(mouseX: number, mouseY: number) {
+  let u = mouseX;
+  let v = mouseY;
+  if (settings.inspectCompare === 'Side by Side') {
+    u = (u * 2) % 1;
+    v = v * 2 - 0.5;
+  }
+  if (u < 0 || u >= 1 || v < 0 || v >= 1) {
+    return undefined;
+  }
+  return {
+    x: Math.floor(u * canvas.width),
+    y: Math.floor(v * canvas.height),
+  };
+}
+
+async function probeGBuffers(x: number, y: number): Promise<string> {
+  const layer = imageSequenceController.getDisplayedLayer();
+  const [basecolor, normal, depth, metallic, roughness, radiance] =
+    await Promise.all([
+      readTexels(device, gBufferTextures.basecolor, layer, x, y),
+      readTexels(device, gBufferTextures.normal, layer, x, y),
+      readTexels(device, gBufferTextures.depth, layer, x, y),
+      readTexels(device, gBufferTextures.metallic, layer, x, y),
+      readTexels(device, gBufferTextures.roughness, layer, x, y),
+      readTexels(device, hdrTexture, 0, x, y),
+    ]);
+
+  const values = (texel: ArrayLike<number>, count = texel.length) =>
+    Array.from(texel)
+      .slice(0, count)
+      .map((value) => value.toFixed(4).padStart(9))
+      .join(' ');
+  const depthEncoding = imageSequenceController.getDepthEncoding();
+  const depthValue = inspectorChannelValue('Depth', depth.data);
+  let world = 'background';
+  if (!isBackgroundDepth(depthValue, depthEncoding)) {
+    const position = worldFromScreen(
+      (x + 0.5) / canvas.width,
+      (y + 0.5) / canvas.height,
+      depthValue,
+      depthEncoding,
+      imageSequenceController.getCamera()
+    );
+    world = values(position);
+  }
+
+  // Optional channels the sequence has
+  const optionalLines: string[] = [];
+  for (const [name, texture] of [
+    ['AO        ', gBufferTextures.ao],
+    ['Emissive  ', gBufferTextures.emissive],
+    ['Specular  ', gBufferTextures.specular],
+  ] as const) {
+    if (texture) {
+      const texel = await readTexels(device, texture, layer, x, y);
+      optionalLines.push(`${name} ${values(texel.data)}`);
+    }
+  }
+
+  return [
+    `Pixel       ${x}, ${y}  frame ${imageSequenceController.getCurrentFrame()}`,
+    `Base Color ${values(basecolor.data)}`,
+    `Normal     ${values(normal.data)}`,
+    `Depth      ${values(depth.data)}`,
+    `Metallic   ${values(metallic.data)}`,
+    `Roughness  ${values(roughness.data)}`,
+    ...optionalLines,
+    `Radiance   ${values(radiance.data, 3)}`,
+    `World      ${world}`,
+  ].join('\n');
+}
+
+async function runProbe() {
+  probeInFlight = true;
+  while (probeTexel) {
+    const { x, y } = probeTexel;
+    try {
+      const text = await probeGBuffers(x, y);
+      // The cursor may have left meanwhile
+      if (probeTexel) {
+        probeLabel.textContent = text;
+        probeLabel.style.display = 'block';
+      }
+      if (probeTexel?.x === x && probeTexel?.y === y) {
+        break;
+      }
+    } catch (error) {
+      console.error('G-buffer probe failed:', error);
+      break;
+    }
+  }
+  probeInFlight = false;
+}
+
+function hideProbe() {
+  probeTexel = undefined;
+  probeLabel.style.display = 'none';
+}
+
+canvas.addEventListener('mousemove', (event) => {
+  if (settings.mode !== 'inspector' || !settings.inspectProbe) {
+    hideProbe();
+    return;
+  }
+  const rect = canvas.getBoundingClientRect();
+  const texel = inspectorTexelAt(
+    (event.clientX - rect.left) / rect.width,
+    (event.clientY - rect.top) / rect.height
+  );
+  if (!texel) {
+    hideProbe();
+    return;
+  }
+  probeLabel.style.left = `${event.clientX + 16}px`;
+  probeLabel.style.top = `${event.clientY + 16}px`;
+  probeTexel = texel;
+  if (!probeInFlight) {
+    runProbe();
+  }
+});
+
+canvas.addEventListener('mouseleave', hideProbe);
+
+// A rig shared through the URL replaces the initial rig
+const sharedRig = new URL(window.location.href).searchParams.get('rig');
+if (sharedRig) {
+  try {
+    await applyLightingRig(await decodeRigFromURL(sharedRig));
+    console.log('Loaded lighting rig from the URL');
+  } catch (error) {
+    console.error('Failed to load the lighting rig from the URL:', error);
+  }
+}
+
 requestAnimationFrame(frame);
@@ -0,0 +1,265 @@
+/**
+ * Minimal MP4 (ISO-BMFF) muxer for a single H.264 track of WebCodecs chunks.
+ * Like the WebM muxer, the file is assembled when the export finishes, so
+ * the sample tables can be written before the media data for fast start.
+ */
+
+// Track timescale, in ticks per second
+const kTimescale = 90000;
+// Movie timescale, in ticks per second
+const kMovieTimescale = 1000;
+// Unity transformation matrix of mvhd and tkhd, in 16.16 and 2.30 fixed point
+const kUnityMatrix = [0x10000, 0, 0, 0, 0x10000, 0, 0, 0, 0x40000000];
+
+type Box = Uint8Array[];
+
+function byteLength(parts: Uint8Array[]): number {
+  return parts.reduce((size, part) => size + part.length, 0);
+}
+
+function fourCC(type: string): Uint8Array {
+  return new Uint8Array([...type].map((c) => c.charCodeAt(0)));
+}
+
+function u8(...values: number[]): Uint8Array {
+  return new Uint8Array(values);
+}
+
+function u16(...values: number[]): Uint8Array {
+  const bytes = new Uint8Array(values.length * 2);
+  const view = new DataView(bytes.buffer);
+  values.forEach((value, i) => view.setUint16(i * 2, value));
+  return bytes;
+}
+
+function u32(...values: number[]): Uint8Array {
+  const bytes = new Uint8Array(values.length * 4);
+  const view = new DataView(bytes.buffer);
+  values.forEach((value, i) => view.setUint32(i * 4, value >>> 0));
+  return bytes;
+}
+
+function u64(value: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, Math.floor(value / 0x100000000));
+  view.setUint32(4, value >>> 0);
+  return bytes;
+}
+
+function box(type: string, children: Uint8Array[]): Box {
+  return [u32(8 + byteLength(children)), fourCC(type), ...children];
+}
+
+/**
+ * Box with a version and flags, which is version 0 for all boxes here
+ */
+function fullBox(type: string, flags: number, children: Uint8Array[]): Box {
+  return box(type, [u32(flags & 0xffffff), ...children]);
+}
+
+interface Sample {
+  data: Uint8Array;
+  timestamp: number; // Microseconds
+  key: boolean;
+}
+
+export interface MP4VideoTrack {
+  width: number;
+  height: number;
+  frameRate: number;
+}
+
+/**
+ * Collects encoded H.264 chunks in the avc format, with length prefixed NAL
+ * units, and writes them as an MP4 file
+ */
+export class MP4Muxer {
+  private track: MP4VideoTrack;
+  private samples: Sample[] = [];
+  // avcC decoder configuration record from the encoder metadata
+  private decoderConfig?: Uint8Array;
+
+  constructor(track: MP4VideoTrack) {
+    this.track = track;
+  }
+
+  /**
+   * Add a chunk from a VideoEncoder output callback. Chunks must arrive in
+   * presentation order, which holds for encoders without B-frames.
+   */
+  addChunk(chunk: EncodedVideoChunk, metadata?: EncodedVideoChunkMetadata) {
+    const description = metadata?.decoderConfig?.description;
+    if (description) {
+      this.decoderConfig = new Uint8Array(
+        ArrayBuffer.isView(description)
+          ? description.buffer.slice(
+              description.byteOffset,
+              description.byteOffset + description.byteLength
+            )
+          : description.slice(0)
+      );
+    }
+    const data = new Uint8Array(chunk.byteLength);
+    chunk.copyTo(data);
+    this.samples.push({
+      data,
+      timestamp: chunk.timestamp,
+      key: chunk.type === 'key',
+    });
+  }
+
+  /**
+   * Number of chunks added so far
+   */
+  getChunkCount(): number {
+    return this.samples.length;
+  }
+
+  /**
+   * Sample durations in track ticks, run length encoded for stts. The last
+   * sample lasts one frame.
+   */
+  private getSampleDurations(): [number, number][] {
+    const frameTicks = Math.round(kTimescale / this.track.frameRate);
+    const ticks = this.samples.map(({ timestamp }) =>
+      Math.round((timestamp * kTimescale) / 1e6)
+    );
+    const entries: [number, number][] = [];
+    ticks.forEach((tick, i) => {
+      const duration = i + 1 < ticks.length ? ticks[i + 1] - tick : frameTicks;
+      const last = entries[entries.length - 1];
+      if (last && last[1] === duration) {
+        last[0]++;
+      } else {
+        entries.push([1, duration]);
+      }
+    });
+    return entries;
+  }
+
+  private buildMoov(mediaOffset: number): Box {
+    const { width, height } = this.track;
+    const durations = this.getSampleDurations();
+    const duration = durations.reduce(
+      (total, [count, delta]) => total + count * delta,
+      0
+    );
+    const movieDuration = Math.round((duration * kMovieTimescale) / kTimescale);
+    const keySamples = this.samples
+      .map(({ key }, i) => (key ? i + 1 : 0))
+      .filter((sample) => sample > 0);
+
+    const avc1 = box('avc1', [
+      u8(0, 0, 0, 0, 0, 0), // Reserved
+      u16(1), // Data reference index
+      u16(0, 0), // Pre-defined, reserved
+      u32(0, 0, 0), // Pre-defined
+      u16(width, height),
+      u32(0x480000, 0x480000), // 72 dpi
+      u32(0), // Reserved
+      u16(1), // Frame count
+      new Uint8Array(32), // Compressor name
+      u16(0x18, 0xffff), // Depth, pre-defined
+      ...box('avcC', [this.decoderConfig!]),
+    ]);
+
+    const stbl = box('stbl', [
+      ...fullBox('stsd', 0, [u32(1), ...avc1]),
+      ...fullBox('stts', 0, [u32(durations.length), u32(...durations.flat())]),
+      ...fullBox('stss', 0, [u32(keySamples.length), u32(...keySamples)]),
+      // All samples in one chunk
+      ...fullBox('stsc', 0, [u32(1), u32(1, this.samples.length, 1)]),
+      ...fullBox('stsz', 0, [
+        u32(0, this.samples.length),
+        u32(...this.samples.map(({ data }) => data.length)),
+      ]),
+      ...fullBox('co64', 0, [u32(1), u64(mediaOffset)]),
+    ]);
+
+    const minf = box('minf', [
+      ...fullBox('vmhd', 1, [u16(0, 0, 0, 0)]),
+      ...box('dinf', [
+        ...fullBox('dref', 0, [u32(1), ...fullBox('url ', 1, [])]),
+      ]),
+      ...stbl,
+    ]);
+
+    const mdia = box('mdia', [
+      ...fullBox('mdhd', 0, [
+        u32(0, 0, kTimescale, duration),
+        u16(0x55c4, 0), // Language 'und', pre-defined
+      ]),
+      ...fullBox('hdlr', 0, [
+        u32(0),
+        fourCC('vide'),
+        u32(0, 0, 0),
+        new TextEncoder().encode('VideoHandler\0'),
+      ]),
+      ...minf,
+    ]);
+
+    const trak = box('trak', [
+      ...fullBox('tkhd', 3, [
+        u32(0, 0, 1, 0, movieDuration), // Times, track ID, reserved
+        u32(0, 0), // Reserved
+        u16(0, 0, 0, 0), // Layer, alternate group, volume, reserved
+        u32(...kUnityMatrix),
+        u32(width * 0x10000, height * 0x10000),
+      ]),
+      ...mdia,
+    ]);
+
+    return box('moov', [
+      ...fullBox('mvhd', 0, [
+        u32(0, 0, kMovieTimescale, movieDuration),
+        u32(0x10000), // Rate
+        u16(0x100, 0), // Volume, reserved
+        u32(0, 0), // Reserved
+        u32(...kUnityMatrix),
+        u32(0, 0, 0, 0, 0, 0), // Pre-defined
+        u32(2), // Next track ID
+      ]),
+      ...trak,
+    ]);
+  }
+
+  /**
+   * Assemble the MP4 file
+   */
+  finish(): Blob {
+    if (!this.decoderConfig) {
+      throw new Error('The video encoder gave no H.264 decoder configuration');
+    }
+    const ftyp = box('ftyp', [
+      fourCC('isom'),
+      u32(0x200),
+      fourCC('isom'),
+      fourCC('iso2'),
+      fourCC('avc1'),
+      fourCC('mp41'),
+    ]);
+
+    // mdat uses a 64-bit size once it passes 4 GB
+    const mediaSize = byteLength(this.samples.map(({ data }) => data));
+    const mdatHeader =
+      mediaSize + 8 <= 0xffffffff
+        ? [u32(mediaSize + 8), fourCC('mdat')]
+        : [u32(1), fourCC('mdat'), u64(mediaSize + 16)];
+
+    // The moov size doesn't depend on the media offset written into it
+    const moovSize = byteLength(this.buildMoov(0));
+    const mediaOffset = byteLength(ftyp) + moovSize + byteLength(mdatHeader);
+    const moov = this.buildMoov(mediaOffset);
+
+    return new Blob(
+      [
+        ...ftyp,
+        ...moov,
+        ...mdatHeader,
+        ...this.samples.map(({ data }) => data),
+      ],
+      { type: 'video/mp4' }
+    );
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Deterministic offline rendering. Each frame is loaded, rendered, read back
+ * and encoded before the next one starts, independent of
+ * requestAnimationFrame and of wall-clock playback.
+ */
+import { CaptureTarget, ExportFormat, FrameExporter } from './frameExporter';
+
+/**
+ * What the offline renderer needs from the sample
+ */
+export interface OfflineScene {
+  getTotalFrames(): number;
+  // Load a sequence frame and make it the displayed frame
+  loadFrame(frame: number): Promise<void>;
+  // Encode a render of the loaded frame into a texture matching the target,
+  // without gizmos or other overlays, and return the texture
+  renderFrame(
+    commandEncoder: GPUCommandEncoder,
+    target: CaptureTarget
+  ): GPUTexture;
+}
+
+export interface OfflineRenderProgress {
+  frame: number; // Sequence frame just finished
+  completed: number;
+  total: number;
+  elapsed: number; // Seconds
+}
+
+export interface OfflineRenderOptions {
+  format?: ExportFormat; // Defaults to png
+  startFrame?: number; // Defaults to 0
+  endFrame?: number; // Inclusive, defaults to the last frame
+  fps?: number; // Video frame rate, defaults to 30
+  quality?: number; // 0-1 for JPEG
+  videoBitrate?: number;
+  outputPrefix?: string; // Defaults to 0000
+  download?: boolean; // Download the result when done, defaults to true
+  signal?: AbortSignal;
+  onProgress?: (progress: OfflineRenderProgress) => void;
+}
+
+export interface OfflineRenderResult {
+  blob: Blob;
+  filename: string;
+  frameCount: number;
+}
+
+export class OfflineRenderer {
+  private device: GPUDevice;
+  private exporter: FrameExporter;
+  private scene: OfflineScene;
+  private abortController?: AbortController;
+
+  constructor(device: GPUDevice, exporter: FrameExporter, scene: OfflineScene) {
+    this.device = device;
+    this.exporter = exporter;
+    this.scene = scene;
+  }
+
+  /**
+   * Whether a render is in progress. The live render loop should stay idle
+   * meanwhile.
+   */
+  isRendering(): boolean {
+    return this.abortController !== undefined;
+  }
+
+  /**
+   * Cancel the render in progress. Its promise rejects with an AbortError.
+   */
+  cancel(): void {
+    this.abortController?.abort(
+      new DOMException('Offline render cancelled', 'AbortError')
+    );
+  }
+
+  /**
+   * Render a frame range and encode it with the frame exporter
+   */
+  async render(
+    options: OfflineRenderOptions = {}
+  ): Promise<OfflineRenderResult> {
+    if (this.isRendering()) {
+      throw new Error('An offline render is already in progress');
+    }
+
+    const lastFrame = this.scene.getTotalFrames() - 1;
+    const startFrame = options.startFrame ?? 0;
+    const endFrame = options.endFrame ?? lastFrame;
+    if (
+      !Number.isInteger(startFrame) ||
+      !Number.isInteger(endFrame) ||
+      startFrame < 0 ||
+      endFrame > lastFrame ||
+      startFrame > endFrame
+    ) {
+      throw new Error(
+        `Invalid frame range ${startFrame}-${endFrame}, the sequence has frames 0-${lastFrame}`
+      );
+    }
+
+    const abortController = new AbortController();
+    const signal = abortController.signal;
+    const onAbort = () => this.cancel();
+    this.abortController = abortController;
+    options.signal?.addEventListener('abort', onAbort);
+
+    const total = endFrame - startFrame + 1;
+    const startTime = performance.now();
+    try {
+      options.signal?.throwIfAborted();
+      await this.exporter.startExport({
+        totalFrames: total,
+        firstFrame: startFrame,
+        outputPrefix: options.outputPrefix ?? '0000',
+        format: options.format ?? 'png',
+        fps: options.fps,
+        quality: options.quality,
+        videoBitrate: options.videoBitrate,
+      });
+      const captureTarget = this.exporter.getCaptureTarget()!;
+
+      for (let i = 0; i < total; i++) {
+        const frame = startFrame + i;
+        signal.throwIfAborted();
+        await this.scene.loadFrame(frame);
+        signal.throwIfAborted();
+
+        const commandEncoder = this.device.createCommandEncoder();
+        const texture = this.scene.renderFrame(commandEncoder, captureTarget);
+        this.exporter.encodeCapture(commandEncoder, texture);
+        this.device.queue.submit([commandEncoder.finish()]);
+        await this.exporter.captureFrame();
+
+        options.onProgress?.({
+          frame,
+          completed: i + 1,
+          total,
+          elapsed: (performance.now() - startTime) / 1000,
+        });
+      }
+
+      signal.throwIfAborted();
+      const { blob, filename } = await this.exporter.finishExport();
+      if (options.download ?? true) {
+        await this.exporter.download(blob, filename);
+      }
+      return { blob, filename, frameCount: total };
+    } catch (error) {
+      this.exporter.stopExport();
+      throw error;
+    } finally {
+      options.signal?.removeEventListener('abort', onAbort);
+      this.abortController = undefined;
+    }
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Minimal PNG decoder that keeps 16-bit samples, which the browser's image
+ * decoding quantizes to 8 bits
+ */
+import { DecodedImage, inflate } from './decodedImage';
+
+const kPNGSignature = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Samples per pixel, indexed by PNG color type
+const kChannelsForColorType: { [colorType: number]: number } = {
+  0: 1, // Grayscale
+  2: 3, // RGB
+  4: 2, // Grayscale + alpha
+  6: 4, // RGBA
+};
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  if (pb <= pc) return b;
+  return c;
+}
+
+/**
+ * Undo the per-scanline filters in place, returning the raw sample bytes
+ */
+function unfilter(
+  data: Uint8Array,
+  height: number,
+  rowBytes: number,
+  bytesPerPixel: number
+): Uint8Array {
+  const out = new Uint8Array(height * rowBytes);
+  let src = 0;
+
+  for (let y = 0; y < height; y++) {
+    const filterType = data[src++];
+    const row = y * rowBytes;
+    const prevRow = row - rowBytes;
+
+    for (let x = 0; x < rowBytes; x++) {
+      const left = x >= bytesPerPixel ? out[row + x - bytesPerPixel] : 0;
+      const up = y > 0 ? out[prevRow + x] : 0;
+      const upLeft =
+        y > 0 && x >= bytesPerPixel ? out[prevRow + x - bytesPerPixel] : 0;
+
+      let predictor = 0;
+      switch (filterType) {
+        case 0:
+          break;
+        case 1:
+          predictor = left;
+          break;
+        case 2:
+          predictor = up;
+          break;
+        case 3:
+          predictor = (left + up) >> 1;
+          break;
+        case 4:
+          predictor = paeth(left, up, upLeft);
+          break;
+        default:
+          throw new Error(`Invalid PNG filter type: ${filterType}`);
+      }
+      out[row + x] = (data[src++] + predictor) & 0xff;
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Decode an 8 or 16-bit non-interlaced grayscale/RGB(A) PNG.
+ * Samples are normalized to [0, 1].
+ */
+export async function decodePNG(buffer: ArrayBuffer): Promise<DecodedImage> {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+
+  for (let i = 0; i < kPNGSignature.length; i++) {
+    if (bytes[i] !== kPNGSignature[i]) {
+      throw new Error('Not a PNG file');
+    }
+  }
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  const idatChunks: Uint8Array[] = [];
+
+  let offset = kPNGSignature.length;
+  while (offset < bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const dataOffset = offset + 8;
+
+    if (type === 'IHDR') {
+      width = view.getUint32(dataOffset);
+      height = view.getUint32(dataOffset + 4);
+      bitDepth = bytes[dataOffset + 8];
+      colorType = bytes[dataOffset + 9];
+      const interlace = bytes[dataOffset + 12];
+      if (interlace !== 0) {
+        throw new Error('Interlaced PNGs are not supported');
+      }
+    } else if (type === 'IDAT') {
+      idatChunks.push(bytes.subarray(dataOffset, dataOffset + length));
+    } else if (type === 'IEND') {
+      break;
+    }
+
+    // Skip length, type, data and CRC
+    offset = dataOffset + length + 4;
+  }
+
+  const channels = kChannelsForColorType[colorType];
+  if (!channels) {
+    throw new Error(`Unsupported PNG color type: ${colorType}`);
+  }
+  if (bitDepth !== 8 && bitDepth !== 16) {
+    throw new Error(`Unsupported PNG bit depth: ${bitDepth}`);
+  }
+
+  const bytesPerSample = bitDepth / 8;
+  const bytesPerPixel = channels * bytesPerSample;
+  const rowBytes = width * bytesPerPixel;
+
+  const raw = unfilter(
+    await inflate(idatChunks),
+    height,
+    rowBytes,
+    bytesPerPixel
+  );
+
+  const sampleCount = width * height * channels;
+  const data = new Float32Array(sampleCount);
+  if (bitDepth === 16) {
+    for (let i = 0; i < sampleCount; i++) {
+      data[i] = ((raw[i * 2] << 8) | raw[i * 2 + 1]) / 65535;
+    }
+  } else {
+    for (let i = 0; i < sampleCount; i++) {
+      data[i] = raw[i] / 255;
+    }
+  }
+
+  return { width, height, channels, data };
+}
@@ -0,0 +1,104 @@
+/**
+ * Minimal PNG encoder for exported frames, writing 8 or 16-bit RGBA
+ */
+import { crc32 } from './zipWriter';
+
+const kPNGSignature = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const kColorTypeRGBA = 6;
+const kFilterSub = 1;
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) {
+    out[4 + i] = type.charCodeAt(i);
+  }
+  out.set(data, 8);
+  // The CRC covers the type and the data
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+}
+
+/**
+ * Filter each scanline with the Sub filter, which suits the smooth
+ * gradients of rendered frames
+ */
+function filterScanlines(
+  samples: Uint8Array,
+  height: number,
+  rowBytes: number,
+  bytesPerPixel: number
+): Uint8Array {
+  const out = new Uint8Array(height * (rowBytes + 1));
+  for (let y = 0; y < height; y++) {
+    const src = y * rowBytes;
+    const dst = y * (rowBytes + 1);
+    out[dst] = kFilterSub;
+    for (let x = 0; x < rowBytes; x++) {
+      const left = x >= bytesPerPixel ? samples[src + x - bytesPerPixel] : 0;
+      out[dst + 1 + x] = (samples[src + x] - left) & 0xff;
+    }
+  }
+  return out;
+}
+
+/**
+ * Encode RGBA pixels as a PNG. 8-bit data is written as is, 16-bit data is
+ * written with the PNG's big-endian sample order.
+ */
+export async function encodePNG(
+  width: number,
+  height: number,
+  pixels: Uint8Array | Uint16Array
+): Promise<Uint8Array> {
+  const bitDepth = pixels instanceof Uint16Array ? 16 : 8;
+  const bytesPerPixel = (4 * bitDepth) / 8;
+
+  let samples: Uint8Array;
+  if (pixels instanceof Uint16Array) {
+    samples = new Uint8Array(pixels.length * 2);
+    for (let i = 0; i < pixels.length; i++) {
+      samples[i * 2] = pixels[i] >> 8;
+      samples[i * 2 + 1] = pixels[i] & 0xff;
+    }
+  } else {
+    samples = pixels;
+  }
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = bitDepth;
+  header[9] = kColorTypeRGBA;
+  // Compression, filter and interlace methods stay 0
+
+  const filtered = filterScanlines(
+    samples,
+    height,
+    width * bytesPerPixel,
+    bytesPerPixel
+  );
+  const parts = [
+    new Uint8Array(kPNGSignature),
+    chunk('IHDR', header),
+    chunk('IDAT', await deflate(filtered)),
+    chunk('IEND', new Uint8Array(0)),
+  ];
+
+  const out = new Uint8Array(parts.reduce((size, p) => size + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
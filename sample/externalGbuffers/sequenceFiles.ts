@@ -0,0 +1,353 @@
+/**
+ * Where the files of a G-Buffer sequence are read from: URLs under a base
+ * path, or local files dropped onto the page, multi-selected or picked with
+ * the File System Access directory picker. Local files answer like fetch,
+ * so the loaders read both the same way.
+ */
+import {
+  ChannelComponent,
+  ImageChannelConfig,
+  ImageGBufferConfig,
+  ImageSequenceManifest,
+} from './imageLoader';
+
+export interface SequenceFiles {
+  // Shown in log messages
+  readonly name: string;
+  // Read a file by its path relative to the sequence folder. Missing files
+  // give a response that isn't ok, like a 404.
+  fetch(path: string, init?: RequestInit): Promise<Response>;
+}
+
+/**
+ * Files served under a base URL
+ */
+export function urlSequenceFiles(basePath: string): SequenceFiles {
+  return {
+    name: basePath,
+    fetch: (path, init) => fetch(basePath + path, init),
+  };
+}
+
+/**
+ * Local files, by path relative to the sequence folder
+ */
+export class LocalSequenceFiles implements SequenceFiles {
+  readonly name: string;
+  private files: Map<string, File>;
+
+  /**
+   * A folder shared by all paths, such as the dropped folder itself, is
+   * stripped from them and names the sequence
+   */
+  constructor(files: Map<string, File>) {
+    const paths = [...files.keys()];
+    const root = commonFolder(paths);
+    this.name = root ? root.slice(0, -1) : `${files.size} files`;
+    this.files = new Map(
+      paths.map((path) => [path.slice(root.length), files.get(path)!])
+    );
+  }
+
+  async fetch(path: string): Promise<Response> {
+    const file = this.files.get(path);
+    if (!file) {
+      return new Response(null, { status: 404, statusText: 'Not Found' });
+    }
+    return new Response(file);
+  }
+
+  /**
+   * Paths of all files
+   */
+  list(): string[] {
+    return [...this.files.keys()];
+  }
+}
+
+/**
+ * Folder prefix, with its trailing slash, shared by all paths
+ */
+function commonFolder(paths: string[]): string {
+  if (paths.length === 0) {
+    return '';
+  }
+  let folders = paths[0].split('/').slice(0, -1);
+  for (const path of paths) {
+    const parts = path.split('/').slice(0, -1);
+    let i = 0;
+    while (i < folders.length && i < parts.length && folders[i] === parts[i]) {
+      i++;
+    }
+    folders = folders.slice(0, i);
+  }
+  return folders.map((folder) => `${folder}/`).join('');
+}
+
+function readEntryFile(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+async function addEntry(
+  entry: FileSystemEntry,
+  files: Map<string, File>
+): Promise<void> {
+  if (entry.isFile) {
+    const file = await readEntryFile(entry as FileSystemFileEntry);
+    files.set(entry.fullPath.replace(/^\//, ''), file);
+    return;
+  }
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    // Directories are read in batches, until an empty one
+    for (;;) {
+      const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+        reader.readEntries(resolve, reject)
+      );
+      if (batch.length === 0) {
+        break;
+      }
+      await Promise.all(batch.map((child) => addEntry(child, files)));
+    }
+  }
+}
+
+/**
+ * Files and folders dropped onto the page, recursively. Must be called
+ * while the drop event is dispatched.
+ */
+export async function filesFromDataTransfer(
+  dataTransfer: DataTransfer
+): Promise<Map<string, File>> {
+  const entries: FileSystemEntry[] = [];
+  for (const item of dataTransfer.items) {
+    const entry = item.kind === 'file' ? item.webkitGetAsEntry() : null;
+    if (entry) {
+      entries.push(entry);
+    }
+  }
+  const files = new Map<string, File>();
+  await Promise.all(entries.map((entry) => addEntry(entry, files)));
+  return files;
+}
+
+/**
+ * Files of a file input, with their folder paths when a folder was picked
+ */
+export function filesFromFileList(list: FileList): Map<string, File> {
+  const files = new Map<string, File>();
+  for (const file of list) {
+    files.set(file.webkitRelativePath || file.name, file);
+  }
+  return files;
+}
+
+type DirectoryPicker = () => Promise<FileSystemDirectoryHandle>;
+
+/**
+ * Whether the browser has the File System Access directory picker
+ */
+export function canPickDirectory(): boolean {
+  return 'showDirectoryPicker' in window;
+}
+
+/**
+ * Let the user pick a folder and read all files in it, recursively. Paths
+ * start with the folder's name.
+ */
+export async function pickDirectory(): Promise<Map<string, File>> {
+  const picker = (window as unknown as { showDirectoryPicker: DirectoryPicker })
+    .showDirectoryPicker;
+  const handle = await picker();
+  const files = new Map<string, File>();
+  const addDirectory = async (
+    directory: FileSystemDirectoryHandle,
+    prefix: string
+  ) => {
+    for await (const child of directory.values()) {
+      if (child.kind === 'file') {
+        const file = await (child as FileSystemFileHandle).getFile();
+        files.set(prefix + child.name, file);
+      } else {
+        await addDirectory(
+          child as FileSystemDirectoryHandle,
+          `${prefix}${child.name}/`
+        );
+      }
+    }
+  };
+  await addDirectory(handle, `${handle.name}/`);
+  return files;
+}
+
+const kImageExtensions: { [extension: string]: boolean } = {
+  jpg: true,
+  jpeg: true,
+  png: true,
+  exr: true,
+};
+
+// Names that identify each channel's files, matched against the words of
+// their paths
+const kChannelNames: { [K in keyof ImageGBufferConfig]-?: string[] } = {
+  basecolor: ['basecolor', 'albedo', 'diffuse', 'diffcol', 'color'],
+  normal: ['normal', 'normals', 'nrm', 'n'],
+  depth: ['depth', 'zdepth', 'z'],
+  metallic: ['metallic', 'metalness', 'metal'],
+  roughness: ['roughness', 'rough'],
+  ao: ['ao', 'occlusion', 'ambientocclusion'],
+  emissive: ['emissive', 'emission', 'emit'],
+  specular: ['specular', 'spec', 'ior'],
+};
+
+// Packed occlusion, roughness and metallic images, as used by glTF
+const kPackedORMNames = ['orm', 'arm'];
+const kPackedORMChannels: [keyof ImageGBufferConfig, ChannelComponent][] = [
+  ['ao', 'r'],
+  ['roughness', 'g'],
+  ['metallic', 'b'],
+];
+
+const kRequiredChannels: (keyof ImageGBufferConfig)[] = [
+  'basecolor',
+  'normal',
+  'depth',
+  'metallic',
+  'roughness',
+];
+
+/**
+ * Frames of one file name pattern
+ */
+interface DetectedPattern {
+  pattern: string;
+  words: string[];
+  frames: Set<number>;
+}
+
+/**
+ * Lower case words of a path, also splitting camelCase
+ */
+function wordsOf(path: string): string[] {
+  return path
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 0 && !/^\d+$/.test(word));
+}
+
+/**
+ * Build a manifest from the paths of a sequence's files. The last number in
+ * each image file name is its frame, files differing only by it form one
+ * pattern, and the words of each pattern name its channel. Frames run over
+ * the range every channel has.
+ */
+export function detectImageSequence(paths: string[]): ImageSequenceManifest {
+  const patterns = new Map<string, DetectedPattern>();
+  for (const path of paths) {
+    const match = /^(.*?)(\d+)([^\d/]*)\.([^./]+)$/.exec(path);
+    if (!match || !kImageExtensions[match[4].toLowerCase()]) {
+      continue;
+    }
+    const [, prefix, digits, suffix, extension] = match;
+    const pattern = `${prefix}${'#'.repeat(
+      digits.length
+    )}${suffix}.${extension}`;
+    let detected = patterns.get(pattern);
+    if (!detected) {
+      detected = {
+        pattern,
+        words: wordsOf(`${prefix} ${suffix}`),
+        frames: new Set(),
+      };
+      patterns.set(pattern, detected);
+    }
+    detected.frames.add(parseInt(digits, 10));
+  }
+
+  // Name each channel's pattern, preferring the one with most frames
+  const channelPatterns = new Map<keyof ImageGBufferConfig, DetectedPattern>();
+  const channels: ImageGBufferConfig = {};
+  const assign = (
+    channel: keyof ImageGBufferConfig,
+    detected: DetectedPattern,
+    config: ImageChannelConfig
+  ) => {
+    const current = channelPatterns.get(channel);
+    if (current && current.frames.size >= detected.frames.size) {
+      console.warn(
+        `Ignoring ${detected.pattern}, ${channel} is ${current.pattern}`
+      );
+      return;
+    }
+    channelPatterns.set(channel, detected);
+    channels[channel] = { file: detected.pattern, ...config };
+  };
+
+  for (const detected of patterns.values()) {
+    // Words closest to the file name come last and win
+    let channel: keyof ImageGBufferConfig | undefined;
+    let word: string | undefined;
+    for (const candidate of detected.words) {
+      for (const [name, names] of Object.entries(kChannelNames)) {
+        if (names.includes(candidate)) {
+          channel = name as keyof ImageGBufferConfig;
+          word = candidate;
+        }
+      }
+    }
+    if (channel) {
+      assign(
+        channel,
+        detected,
+        word === 'ior' ? { specularEncoding: 'ior' } : {}
+      );
+    } else if (detected.words.some((w) => kPackedORMNames.includes(w))) {
+      for (const [packed, component] of kPackedORMChannels) {
+        if (!channelPatterns.has(packed)) {
+          assign(packed, detected, { component });
+        }
+      }
+    } else {
+      console.warn(`No G-Buffer channel recognized in ${detected.pattern}`);
+    }
+  }
+
+  const missing = kRequiredChannels.filter((c) => !channelPatterns.has(c));
+  if (missing.length > 0) {
+    throw new Error(
+      `No ${missing.join(
+        ', '
+      )} images found. Name files after their channel, e.g. 0000.0001.basecolor.png, or add a gbuffer.json.`
+    );
+  }
+
+  // Frames every channel has
+  const detectedPatterns = [...channelPatterns.values()];
+  const frameStart = Math.max(
+    ...detectedPatterns.map((d) => Math.min(...d.frames))
+  );
+  const frameEnd = Math.min(
+    ...detectedPatterns.map((d) => Math.max(...d.frames))
+  );
+  if (frameEnd < frameStart) {
+    throw new Error('The channels have no frame numbers in common');
+  }
+  for (const detected of new Set(detectedPatterns)) {
+    const inRange = [...detected.frames].filter(
+      (f) => f >= frameStart && f <= frameEnd
+    );
+    if (inRange.length < frameEnd - frameStart + 1) {
+      console.warn(
+        `${detected.pattern} doesn't have every frame of ${frameStart}-${frameEnd}`
+      );
+    }
+  }
+
+  console.log(
+    `Detected frames ${frameStart}-${frameEnd} of ${Object.entries(channels)
+      .map(([channel, config]) => `${channel}: ${config.file}`)
+      .join(', ')}`
+  );
+  return { channels, frameStart, frameEnd };
+}
@@ -0,0 +1,370 @@
+/**
+ * Temporal stabilization of the lit image sequence: each frame blends in the
+ * previous filtered frame, reprojected with the per-frame cameras, so noise
+ * in the G-buffer inputs doesn't flicker. History only carries over between
+ * consecutive sequence frames and is dropped on cuts.
+ */
+import { mat4, Mat4 } from 'wgpu-matrix';
+import vertexTextureQuad from './vertexTextureQuad.wgsl';
+import temporalFilter from './temporalFilter.wgsl';
+
+// Target the lighting pass writes world positions and base color luminance
+// to, next to the lit color
+export const kTemporalGuideFormat: GPUTextureFormat = 'rgba32float';
+// Background pixels keep the clear value, which has a negative w
+export const kTemporalGuideClearValue: GPUColor = [0, 0, 0, -1];
+
+const kColorFormat: GPUTextureFormat = 'rgba16float';
+// Matches kCutSampleStride and the workgroup size in the shader
+const kCutSampleStride = 4;
+const kWorkgroupSize = 8;
+
+export interface TemporalFilterSettings {
+  enabled: boolean;
+  historyWeight: number; // Blend weight of the history, 0 to below 1
+  positionTolerance: number; // Relative to the surface's depth
+  albedoTolerance: number; // Base color luminance change
+  cutThreshold: number; // Fraction of mismatched surfaces
+}
+
+/**
+ * Filtered color and guide of one sequence frame
+ */
+interface FrameTargets {
+  color: GPUTexture;
+  guide: GPUTexture;
+}
+
+export class TemporalFilter {
+  private device: GPUDevice;
+  private settings: TemporalFilterSettings;
+  private paramsBuffer: GPUBuffer;
+  private paramsData = new ArrayBuffer(24 * 4);
+  // Counts of mismatched and tested surfaces, written by the cut detection
+  // and read as a uniform by the resolve pass
+  private cutStatsBuffer: GPUBuffer;
+  private historySampler: GPUSampler;
+  private cutBindGroupLayout: GPUBindGroupLayout;
+  private resolveBindGroupLayout: GPUBindGroupLayout;
+  private cutPipeline: GPUComputePipeline;
+  private resolvePipeline: GPURenderPipeline;
+
+  // Ping-ponged between the current frame and the history
+  private targets: FrameTargets[] = [];
+  private cutBindGroups: GPUBindGroup[] = [];
+  private resolveBindGroups: GPUBindGroup[] = [];
+  private current = 0;
+  private width = 0;
+  private height = 0;
+
+  // Sequence frame the current targets hold, and whether they were filtered
+  private frame = -1;
+  private filtered = false;
+  private viewProjection = mat4.create();
+  private historyViewProjection = mat4.create();
+  private historyValid = false;
+  // Lit color of the frame being filtered
+  private sourceTexture?: GPUTexture;
+
+  constructor(
+    device: GPUDevice,
+    width: number,
+    height: number,
+    settings: TemporalFilterSettings
+  ) {
+    this.device = device;
+    this.settings = { ...settings };
+    this.paramsBuffer = device.createBuffer({
+      label: 'temporal filter params',
+      // previousViewProjection, weights and tolerances, historyValid
+      size: this.paramsData.byteLength,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+    });
+    this.cutStatsBuffer = device.createBuffer({
+      label: 'temporal filter cut stats',
+      size: 4 * 4,
+      usage:
+        GPUBufferUsage.STORAGE |
+        GPUBufferUsage.UNIFORM |
+        GPUBufferUsage.COPY_DST,
+    });
+    this.historySampler = device.createSampler({
+      label: 'temporal history sampler',
+      magFilter: 'linear',
+      minFilter: 'linear',
+    });
+
+    const guideEntries = (visibility: number): GPUBindGroupLayoutEntry[] => [
+      { binding: 0, visibility, buffer: { type: 'uniform' } },
+      {
+        binding: 1,
+        visibility,
+        texture: { sampleType: 'unfilterable-float' },
+      },
+      {
+        binding: 2,
+        visibility,
+        texture: { sampleType: 'unfilterable-float' },
+      },
+    ];
+    this.cutBindGroupLayout = device.createBindGroupLayout({
+      label: 'temporal cut detection',
+      entries: [
+        ...guideEntries(GPUShaderStage.COMPUTE),
+        {
+          binding: 3,
+          visibility: GPUShaderStage.COMPUTE,
+          buffer: { type: 'storage' },
+        },
+      ],
+    });
+    this.resolveBindGroupLayout = device.createBindGroupLayout({
+      label: 'temporal resolve',
+      entries: [
+        ...guideEntries(GPUShaderStage.FRAGMENT),
+        {
+          binding: 4,
+          visibility: GPUShaderStage.FRAGMENT,
+          buffer: { type: 'uniform' },
+        },
+        {
+          binding: 5,
+          visibility: GPUShaderStage.FRAGMENT,
+          texture: { sampleType: 'float' },
+        },
+        {
+          binding: 6,
+          visibility: GPUShaderStage.FRAGMENT,
+          texture: { sampleType: 'float' },
+        },
+        {
+          binding: 7,
+          visibility: GPUShaderStage.FRAGMENT,
+          sampler: { type: 'filtering' },
+        },
+      ],
+    });
+
+    const module = device.createShaderModule({ code: temporalFilter });
+    this.cutPipeline = device.createComputePipeline({
+      label: 'temporal cut detection',
+      layout: device.createPipelineLayout({
+        bindGroupLayouts: [this.cutBindGroupLayout],
+      }),
+      compute: { module, entryPoint: 'detectCut' },
+    });
+    this.resolvePipeline = device.createRenderPipeline({
+      label: 'temporal resolve',
+      layout: device.createPipelineLayout({
+        bindGroupLayouts: [this.resolveBindGroupLayout],
+      }),
+      vertex: {
+        module: device.createShaderModule({ code: vertexTextureQuad }),
+      },
+      fragment: {
+        module,
+        entryPoint: 'resolve',
+        targets: [{ format: kColorFormat }],
+      },
+      primitive: { topology: 'triangle-list' },
+    });
+
+    this.resize(width, height);
+  }
+
+  /**
+   * Recreate the targets for another output size, dropping the history
+   */
+  resize(width: number, height: number): void {
+    for (const { color, guide } of this.targets) {
+      color.destroy();
+      guide.destroy();
+    }
+    this.width = width;
+    this.height = height;
+    this.targets = [0, 1].map((i) => ({
+      color: this.device.createTexture({
+        label: `temporal color ${i}`,
+        size: [width, height],
+        format: kColorFormat,
+        usage:
+          GPUTextureUsage.RENDER_ATTACHMENT |
+          GPUTextureUsage.TEXTURE_BINDING |
+          GPUTextureUsage.COPY_SRC,
+      }),
+      guide: this.device.createTexture({
+        label: `temporal guide ${i}`,
+        size: [width, height],
+        format: kTemporalGuideFormat,
+        usage:
+          GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.TEXTURE_BINDING,
+      }),
+    }));
+    this.cutBindGroups = [];
+    this.resolveBindGroups = [];
+    this.sourceTexture = undefined;
+    this.reset();
+  }
+
+  /**
+   * Drop the history, e.g. when the lit images change for other reasons
+   * than the sequence playing
+   */
+  reset(): void {
+    this.frame = -1;
+    this.filtered = false;
+    this.historyValid = false;
+  }
+
+  /**
+   * Apply new settings. Turning the filter off drops the history.
+   */
+  update(settings: TemporalFilterSettings): void {
+    if (this.settings.enabled && !settings.enabled) {
+      this.reset();
+    }
+    this.settings = { ...settings };
+  }
+
+  /**
+   * Start rendering a sequence frame, returning the guide target for the
+   * lighting pass. When the frame follows the one last filtered, that one
+   * becomes the history; other frames start without history.
+   */
+  beginFrame(frame: number, viewProjection: Mat4): GPUTextureView {
+    if (frame !== this.frame) {
+      this.historyValid = this.filtered && frame === this.frame + 1;
+      if (this.historyValid) {
+        this.current = 1 - this.current;
+        mat4.copy(this.viewProjection, this.historyViewProjection);
+      }
+      this.frame = frame;
+      this.filtered = false;
+    }
+    mat4.copy(viewProjection, this.viewProjection);
+    return this.targets[this.current].guide.createView();
+  }
+
+  /**
+   * Filter the lit frame in place, after the lighting pass wrote it and the
+   * guide from beginFrame()
+   */
+  encode(commandEncoder: GPUCommandEncoder, lit: GPUTexture): void {
+    if (!this.settings.enabled) {
+      return;
+    }
+    if (lit.width !== this.width || lit.height !== this.height) {
+      throw new Error(
+        `Temporal filter is ${this.width}x${this.height}, the lit frame ${lit.width}x${lit.height}`
+      );
+    }
+    this.writeParams();
+
+    // Cuts are only looked for against a history
+    if (this.historyValid) {
+      commandEncoder.clearBuffer(this.cutStatsBuffer);
+      const pass = commandEncoder.beginComputePass({
+        label: 'temporal cut detection',
+      });
+      pass.setPipeline(this.cutPipeline);
+      pass.setBindGroup(0, this.getCutBindGroup());
+      pass.dispatchWorkgroups(
+        Math.ceil(this.width / kCutSampleStride / kWorkgroupSize),
+        Math.ceil(this.height / kCutSampleStride / kWorkgroupSize)
+      );
+      pass.end();
+    }
+
+    const pass = commandEncoder.beginRenderPass({
+      label: 'temporal resolve',
+      colorAttachments: [
+        {
+          view: this.targets[this.current].color.createView(),
+          loadOp: 'clear',
+          clearValue: [0, 0, 0, 1],
+          storeOp: 'store',
+        },
+      ],
+    });
+    pass.setPipeline(this.resolvePipeline);
+    pass.setBindGroup(0, this.getResolveBindGroup(lit));
+    pass.draw(6);
+    pass.end();
+
+    commandEncoder.copyTextureToTexture(
+      { texture: this.targets[this.current].color },
+      { texture: lit },
+      [this.width, this.height]
+    );
+    this.filtered = true;
+  }
+
+  private writeParams(): void {
+    const floats = new Float32Array(this.paramsData);
+    floats.set(this.historyViewProjection, 0);
+    floats[16] = Math.min(Math.max(this.settings.historyWeight, 0), 0.99);
+    floats[17] = this.settings.positionTolerance;
+    floats[18] = this.settings.albedoTolerance;
+    floats[19] = this.settings.cutThreshold;
+    new Uint32Array(this.paramsData)[20] = this.historyValid ? 1 : 0;
+    this.device.queue.writeBuffer(this.paramsBuffer, 0, this.paramsData);
+  }
+
+  // Bind groups for the current parity, recreated when the lit source
+  // changes
+  private getCutBindGroup(): GPUBindGroup {
+    let bindGroup = this.cutBindGroups[this.current];
+    if (!bindGroup) {
+      bindGroup = this.device.createBindGroup({
+        label: 'temporal cut detection',
+        layout: this.cutBindGroupLayout,
+        entries: [
+          ...this.guideEntries(),
+          { binding: 3, resource: { buffer: this.cutStatsBuffer } },
+        ],
+      });
+      this.cutBindGroups[this.current] = bindGroup;
+    }
+    return bindGroup;
+  }
+
+  private getResolveBindGroup(lit: GPUTexture): GPUBindGroup {
+    if (lit !== this.sourceTexture) {
+      this.resolveBindGroups = [];
+      this.sourceTexture = lit;
+    }
+    let bindGroup = this.resolveBindGroups[this.current];
+    if (!bindGroup) {
+      bindGroup = this.device.createBindGroup({
+        label: 'temporal resolve',
+        layout: this.resolveBindGroupLayout,
+        entries: [
+          ...this.guideEntries(),
+          { binding: 4, resource: { buffer: this.cutStatsBuffer } },
+          { binding: 5, resource: lit.createView() },
+          {
+            binding: 6,
+            resource: this.targets[1 - this.current].color.createView(),
+          },
+          { binding: 7, resource: this.historySampler },
+        ],
+      });
+      this.resolveBindGroups[this.current] = bindGroup;
+    }
+    return bindGroup;
+  }
+
+  private guideEntries(): GPUBindGroupEntry[] {
+    return [
+      { binding: 0, resource: { buffer: this.paramsBuffer } },
+      {
+        binding: 1,
+        resource: this.targets[this.current].guide.createView(),
+      },
+      {
+        binding: 2,
+        resource: this.targets[1 - this.current].guide.createView(),
+      },
+    ];
+  }
+}
@@ -0,0 +1,124 @@
+// Temporal stabilization of the lit sequence. The previous filtered frame is
+// reprojected with the world positions the lighting pass writes to its guide
+// target, clamped to the current frame's 3x3 neighborhood and blended in.
+// A compute pass first counts the surfaces that don't match between the two
+// frames; when too many don't, the frames are a cut and the history is
+// dropped.
+
+struct TemporalParams {
+  previousViewProjection: mat4x4f,
+  historyWeight: f32,      // Blend weight of the reprojected history
+  positionTolerance: f32,  // Distance between positions of one surface, relative to its depth
+  albedoTolerance: f32,    // Base color luminance change of one surface
+  cutThreshold: f32,       // Fraction of mismatched surfaces that makes a cut
+  historyValid: u32,       // The history holds the previous sequence frame
+}
+
+struct CutStats {
+  mismatched: atomic<u32>,
+  tested: atomic<u32>,
+}
+
+struct CutResult {
+  mismatched: u32,
+  tested: u32,
+}
+
+@group(0) @binding(0) var<uniform> params: TemporalParams;
+// World position and base color luminance, w < 0 for background
+@group(0) @binding(1) var currentGuide: texture_2d<f32>;
+@group(0) @binding(2) var historyGuide: texture_2d<f32>;
+// Cut detection
+@group(0) @binding(3) var<storage, read_write> cutStats: CutStats;
+// Resolve
+@group(0) @binding(4) var<uniform> cutResult: CutResult;
+@group(0) @binding(5) var currentColor: texture_2d<f32>;
+@group(0) @binding(6) var historyColor: texture_2d<f32>;
+@group(0) @binding(7) var historySampler: sampler;
+
+// Every this many pixels in each direction are tested for cuts
+const kCutSampleStride = 4u;
+
+// Position of a surface in the previous frame: uv from the top left, and its
+// view depth there. w <= 0 behind the previous camera.
+fn reproject(position: vec3f) -> vec3f {
+  let clip = params.previousViewProjection * vec4f(position, 1.0);
+  if (clip.w <= 0.0) {
+    return vec3f(-1.0, -1.0, clip.w);
+  }
+  let ndc = clip.xy / clip.w;
+  return vec3f(ndc.x * 0.5 + 0.5, 0.5 - ndc.y * 0.5, clip.w);
+}
+
+fn in_frame(uv: vec2f) -> bool {
+  return all(uv >= vec2f(0.0)) && all(uv < vec2f(1.0));
+}
+
+// Whether the history shows the same surface at the reprojected position
+fn history_matches(current: vec4f, previous: vec3f) -> bool {
+  let size = vec2f(textureDimensions(historyGuide));
+  let history = textureLoad(historyGuide, vec2u(previous.xy * size), 0);
+  if (history.w < 0.0) {
+    return false;
+  }
+  let moved = length(history.xyz - current.xyz);
+  return moved <= params.positionTolerance * previous.z &&
+    abs(history.w - current.w) <= params.albedoTolerance;
+}
+
+@compute @workgroup_size(8, 8)
+fn detectCut(@builtin(global_invocation_id) id: vec3u) {
+  let pixel = id.xy * kCutSampleStride;
+  if (any(pixel >= textureDimensions(currentGuide))) {
+    return;
+  }
+  let current = textureLoad(currentGuide, pixel, 0);
+  if (current.w < 0.0) {
+    return;
+  }
+  // Surfaces moving into view say nothing about a cut
+  let previous = reproject(current.xyz);
+  if (previous.z <= 0.0 || !in_frame(previous.xy)) {
+    return;
+  }
+  atomicAdd(&cutStats.tested, 1u);
+  if (!history_matches(current, previous)) {
+    atomicAdd(&cutStats.mismatched, 1u);
+  }
+}
+
+@fragment
+fn resolve(@builtin(position) coord: vec4f) -> @location(0) vec4f {
+  let pixel = vec2i(floor(coord.xy));
+  let current = textureLoad(currentColor, pixel, 0);
+  let cut = cutResult.tested > 0u &&
+    f32(cutResult.mismatched) > params.cutThreshold * f32(cutResult.tested);
+  if (params.historyValid == 0u || cut) {
+    return current;
+  }
+
+  let guide = textureLoad(currentGuide, pixel, 0);
+  if (guide.w < 0.0) {
+    return current;
+  }
+  // Disoccluded surfaces have no history
+  let previous = reproject(guide.xyz);
+  if (previous.z <= 0.0 || !in_frame(previous.xy) || !history_matches(guide, previous)) {
+    return current;
+  }
+
+  // Clamping the history to the colors around the pixel keeps lighting
+  // changes from ghosting
+  let maxPixel = vec2i(textureDimensions(currentColor)) - 1;
+  var low = current.rgb;
+  var high = current.rgb;
+  for (var y = -1; y <= 1; y++) {
+    for (var x = -1; x <= 1; x++) {
+      let neighbor = textureLoad(currentColor, clamp(pixel + vec2i(x, y), vec2i(0), maxPixel), 0).rgb;
+      low = min(low, neighbor);
+      high = max(high, neighbor);
+    }
+  }
+  let history = textureSampleLevel(historyColor, historySampler, previous.xy, 0.0).rgb;
+  return vec4f(mix(current.rgb, clamp(history, low, high), params.historyWeight), current.a);
+}
@@ -0,0 +1,789 @@
+/**
+ * Minimal demuxer for the first video track of MP4 (ISO BMFF) and WebM
+ * files, producing the chunks and decoder config WebCodecs needs
+ */
+
+/**
+ * One compressed frame, in decode order
+ */
+export interface VideoSample {
+  timestamp: number; // Presentation time in microseconds
+  duration: number; // Microseconds
+  isKey: boolean;
+  data: Uint8Array;
+}
+
+export interface DemuxedVideo {
+  codec: string; // WebCodecs codec string
+  codedWidth: number;
+  codedHeight: number;
+  description?: Uint8Array; // avcC, hvcC or av1C record
+  frameRate: number;
+  samples: VideoSample[]; // Decode order
+}
+
+function hex(value: number, digits = 2): string {
+  return value.toString(16).toUpperCase().padStart(digits, '0');
+}
+
+function decimal(value: number, digits = 2): string {
+  return value.toString().padStart(digits, '0');
+}
+
+/**
+ * avc1.PPCCLL from an AVCDecoderConfigurationRecord
+ */
+function avcCodecString(avcC: Uint8Array): string {
+  return `avc1.${hex(avcC[1])}${hex(avcC[2])}${hex(avcC[3])}`;
+}
+
+/**
+ * hvc1.* from an HEVCDecoderConfigurationRecord (ISO/IEC 14496-15 E.3)
+ */
+function hevcCodecString(type: string, hvcC: Uint8Array): string {
+  const view = new DataView(hvcC.buffer, hvcC.byteOffset, hvcC.byteLength);
+  const profileSpace = ['', 'A', 'B', 'C'][hvcC[1] >> 6];
+  const tier = hvcC[1] & 0x20 ? 'H' : 'L';
+  const profile = hvcC[1] & 0x1f;
+
+  // Compatibility flags are written bit-reversed
+  let compatibility = view.getUint32(2);
+  let reversed = 0;
+  for (let i = 0; i < 32; i++) {
+    reversed = (reversed << 1) | (compatibility & 1);
+    compatibility >>>= 1;
+  }
+
+  const constraints: string[] = [];
+  for (let i = 6; i < 12; i++) {
+    constraints.push(hex(hvcC[i]));
+  }
+  while (
+    constraints.length > 0 &&
+    constraints[constraints.length - 1] === '00'
+  ) {
+    constraints.pop();
+  }
+
+  return [
+    type,
+    `${profileSpace}${profile}`,
+    (reversed >>> 0).toString(16).toUpperCase(),
+    `${tier}${hvcC[12]}`,
+    ...constraints,
+  ].join('.');
+}
+
+/**
+ * av01.P.LLT.DD from an AV1CodecConfigurationRecord
+ */
+function av1CodecString(av1C: Uint8Array): string {
+  const profile = av1C[1] >> 5;
+  const level = av1C[1] & 0x1f;
+  const tier = av1C[2] & 0x80 ? 'H' : 'M';
+  const highBitDepth = (av1C[2] & 0x40) !== 0;
+  const twelveBit = (av1C[2] & 0x20) !== 0;
+  const bitDepth = highBitDepth ? (twelveBit ? 12 : 10) : 8;
+  return `av01.${profile}.${decimal(level)}${tier}.${decimal(bitDepth)}`;
+}
+
+function vp9CodecString(profile: number, level: number, bitDepth: number) {
+  return `vp09.${decimal(profile)}.${decimal(level)}.${decimal(bitDepth)}`;
+}
+
+/**
+ * Presentation-order frame rate from the sample durations
+ */
+function estimateFrameRate(samples: VideoSample[]): number {
+  if (samples.length === 0) {
+    return 30;
+  }
+  const total = samples.reduce((sum, sample) => sum + sample.duration, 0);
+  return total > 0 ? (samples.length * 1e6) / total : 30;
+}
+
+//
+// MP4
+//
+
+interface Box {
+  type: string;
+  start: number; // Payload start
+  end: number;
+}
+
+function readBoxes(view: DataView, start: number, end: number): Box[] {
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    const type = String.fromCharCode(
+      view.getUint8(offset + 4),
+      view.getUint8(offset + 5),
+      view.getUint8(offset + 6),
+      view.getUint8(offset + 7)
+    );
+    let headerSize = 8;
+    if (size === 1) {
+      size =
+        view.getUint32(offset + 8) * 0x100000000 + view.getUint32(offset + 12);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) {
+      throw new Error(`Invalid MP4 box "${type}" at ${offset}`);
+    }
+    boxes.push({ type, start: offset + headerSize, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+}
+
+function findBox(view: DataView, parent: Box, path: string[]): Box | undefined {
+  let box: Box | undefined = parent;
+  for (const type of path) {
+    box = readBoxes(view, box.start, box.end).find((b) => b.type === type);
+    if (!box) {
+      return undefined;
+    }
+  }
+  return box;
+}
+
+function requireBox(view: DataView, parent: Box, path: string[]): Box {
+  const box = findBox(view, parent, path);
+  if (!box) {
+    throw new Error(`MP4 is missing the ${path.join('/')} box`);
+  }
+  return box;
+}
+
+function readHandlerType(view: DataView, trak: Box): string | undefined {
+  const hdlr = findBox(view, trak, ['mdia', 'hdlr']);
+  if (!hdlr) {
+    return undefined;
+  }
+  // Version/flags and pre_defined precede the handler type
+  const offset = hdlr.start + 8;
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+}
+
+function readTimescale(view: DataView, trak: Box): number {
+  const mdhd = requireBox(view, trak, ['mdia', 'mdhd']);
+  const version = view.getUint8(mdhd.start);
+  // Creation and modification times are 32 or 64-bit
+  return view.getUint32(mdhd.start + (version === 1 ? 20 : 12));
+}
+
+function readSampleEntry(
+  bytes: Uint8Array,
+  view: DataView,
+  stsd: Box
+): Pick<DemuxedVideo, 'codec' | 'codedWidth' | 'codedHeight' | 'description'> {
+  // Version/flags and entry count, then the first sample entry
+  const [entry] = readBoxes(view, stsd.start + 8, stsd.end);
+  if (!entry) {
+    throw new Error('MP4 video track has no sample description');
+  }
+  const codedWidth = view.getUint16(entry.start + 24);
+  const codedHeight = view.getUint16(entry.start + 26);
+  // Child boxes follow the 78 bytes of the VisualSampleEntry
+  const children = readBoxes(view, entry.start + 78, entry.end);
+  const child = (type: string) => {
+    const box = children.find((b) => b.type === type);
+    return box && bytes.subarray(box.start, box.end);
+  };
+
+  let codec: string;
+  let description: Uint8Array | undefined;
+  switch (entry.type) {
+    case 'avc1':
+    case 'avc3': {
+      description = child('avcC');
+      if (!description) {
+        throw new Error('MP4 H.264 track has no avcC box');
+      }
+      codec = avcCodecString(description);
+      break;
+    }
+    case 'hvc1':
+    case 'hev1': {
+      description = child('hvcC');
+      if (!description) {
+        throw new Error('MP4 HEVC track has no hvcC box');
+      }
+      codec = hevcCodecString(entry.type, description);
+      break;
+    }
+    case 'av01': {
+      description = child('av1C');
+      if (!description) {
+        throw new Error('MP4 AV1 track has no av1C box');
+      }
+      codec = av1CodecString(description);
+      break;
+    }
+    case 'vp09': {
+      const vpcC = child('vpcC');
+      // Version/flags, then profile, level and bit depth
+      codec = vpcC
+        ? vp9CodecString(vpcC[4], vpcC[5], vpcC[6] >> 4)
+        : vp9CodecString(0, 10, 8);
+      break;
+    }
+    case 'vp08':
+      codec = 'vp8';
+      break;
+    default:
+      throw new Error(`Unsupported MP4 video codec "${entry.type}"`);
+  }
+  return { codec, codedWidth, codedHeight, description };
+}
+
+/**
+ * Expand a run-length table of (count, value) pairs
+ */
+function readRuns(
+  view: DataView,
+  box: Box | undefined,
+  sampleCount: number,
+  signed = false
+): number[] {
+  const values = new Array<number>(sampleCount).fill(0);
+  if (!box) {
+    return values;
+  }
+  const entryCount = view.getUint32(box.start + 4);
+  let sample = 0;
+  for (let i = 0; i < entryCount && sample < sampleCount; i++) {
+    const offset = box.start + 8 + i * 8;
+    const count = view.getUint32(offset);
+    const value = signed
+      ? view.getInt32(offset + 4)
+      : view.getUint32(offset + 4);
+    for (let j = 0; j < count && sample < sampleCount; j++) {
+      values[sample++] = value;
+    }
+  }
+  return values;
+}
+
+function demuxMP4(buffer: ArrayBuffer): DemuxedVideo {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  const file: Box = { type: 'file', start: 0, end: buffer.byteLength };
+  const moov = requireBox(view, file, ['moov']);
+
+  const trak = readBoxes(view, moov.start, moov.end).find(
+    (box) => box.type === 'trak' && readHandlerType(view, box) === 'vide'
+  );
+  if (!trak) {
+    throw new Error('MP4 has no video track');
+  }
+  const timescale = readTimescale(view, trak);
+  const stbl = requireBox(view, trak, ['mdia', 'minf', 'stbl']);
+  const stblBox = (type: string) => findBox(view, stbl, [type]);
+
+  const entry = readSampleEntry(bytes, view, requireBox(view, stbl, ['stsd']));
+
+  // Sample sizes
+  const stsz = stblBox('stsz');
+  if (!stsz) {
+    throw new Error('MP4 video track has no stsz box (stz2 is not supported)');
+  }
+  const fixedSize = view.getUint32(stsz.start + 4);
+  const sampleCount = view.getUint32(stsz.start + 8);
+  const sizes = new Array<number>(sampleCount);
+  for (let i = 0; i < sampleCount; i++) {
+    sizes[i] = fixedSize || view.getUint32(stsz.start + 12 + i * 4);
+  }
+
+  // Chunk offsets
+  const stco = stblBox('stco');
+  const co64 = stblBox('co64');
+  const chunkOffsets: number[] = [];
+  if (stco) {
+    const count = view.getUint32(stco.start + 4);
+    for (let i = 0; i < count; i++) {
+      chunkOffsets.push(view.getUint32(stco.start + 8 + i * 4));
+    }
+  } else if (co64) {
+    const count = view.getUint32(co64.start + 4);
+    for (let i = 0; i < count; i++) {
+      const offset = co64.start + 8 + i * 8;
+      chunkOffsets.push(
+        view.getUint32(offset) * 0x100000000 + view.getUint32(offset + 4)
+      );
+    }
+  } else {
+    throw new Error('MP4 video track has no chunk offsets');
+  }
+
+  // Samples per chunk, as runs starting at 1-based chunk numbers
+  const stsc = requireBox(view, stbl, ['stsc']);
+  const stscCount = view.getUint32(stsc.start + 4);
+  const samplesPerChunk = new Array<number>(chunkOffsets.length).fill(0);
+  for (let i = 0; i < stscCount; i++) {
+    const offset = stsc.start + 8 + i * 12;
+    const firstChunk = view.getUint32(offset) - 1;
+    const perChunk = view.getUint32(offset + 4);
+    const nextFirstChunk =
+      i + 1 < stscCount ? view.getUint32(offset + 12) - 1 : chunkOffsets.length;
+    for (let chunk = firstChunk; chunk < nextFirstChunk; chunk++) {
+      samplesPerChunk[chunk] = perChunk;
+    }
+  }
+
+  const durations = readRuns(view, stblBox('stts'), sampleCount);
+  const ctts = stblBox('ctts');
+  const compositionOffsets = readRuns(
+    view,
+    ctts,
+    sampleCount,
+    ctts !== undefined && view.getUint8(ctts.start) === 1
+  );
+
+  // Without a sync sample table every sample is a keyframe
+  const stss = stblBox('stss');
+  let isKey: (sample: number) => boolean = () => true;
+  if (stss) {
+    const keys = new Set<number>();
+    const count = view.getUint32(stss.start + 4);
+    for (let i = 0; i < count; i++) {
+      keys.add(view.getUint32(stss.start + 8 + i * 4) - 1);
+    }
+    isKey = (sample) => keys.has(sample);
+  }
+
+  const toMicroseconds = (value: number) =>
+    Math.round((value * 1e6) / timescale);
+  const samples: VideoSample[] = [];
+  let decodeTime = 0;
+  let sample = 0;
+  for (let chunk = 0; chunk < chunkOffsets.length; chunk++) {
+    let offset = chunkOffsets[chunk];
+    for (let i = 0; i < samplesPerChunk[chunk] && sample < sampleCount; i++) {
+      samples.push({
+        timestamp: toMicroseconds(decodeTime + compositionOffsets[sample]),
+        duration: toMicroseconds(durations[sample]),
+        isKey: isKey(sample),
+        data: bytes.subarray(offset, offset + sizes[sample]),
+      });
+      offset += sizes[sample];
+      decodeTime += durations[sample];
+      sample++;
+    }
+  }
+
+  // Exact rate from the track timescale, before rounding to microseconds
+  const totalDuration = durations.reduce((sum, d) => sum + d, 0);
+  const frameRate =
+    totalDuration > 0
+      ? (sampleCount * timescale) / totalDuration
+      : estimateFrameRate(samples);
+  return { ...entry, frameRate, samples };
+}
+
+//
+// WebM / Matroska
+//
+
+const kEBML = 0x1a45dfa3;
+const kSegment = 0x18538067;
+const kInfo = 0x1549a966;
+const kTimecodeScale = 0x2ad7b1;
+const kTracks = 0x1654ae6b;
+const kTrackEntry = 0xae;
+const kTrackNumber = 0xd7;
+const kTrackType = 0x83;
+const kCodecID = 0x86;
+const kCodecPrivate = 0x63a2;
+const kDefaultDuration = 0x23e383;
+const kVideo = 0xe0;
+const kPixelWidth = 0xb0;
+const kPixelHeight = 0xba;
+const kCluster = 0x1f43b675;
+const kTimecode = 0xe7;
+const kSimpleBlock = 0xa3;
+const kBlockGroup = 0xa0;
+const kBlock = 0xa1;
+const kReferenceBlock = 0xfb;
+// Segment children that end a cluster of unknown size
+const kSegmentChildren = new Set([
+  kCluster,
+  kInfo,
+  kTracks,
+  0x1c53bb6b, // Cues
+  0x1254c367, // Tags
+  0x1941a469, // Attachments
+  0x1043a770, // Chapters
+  0x114d9b74, // SeekHead
+]);
+
+const kTrackTypeVideo = 1;
+
+interface EBMLElement {
+  id: number;
+  start: number; // Data start
+  end: number; // Data end, the parent's end for unknown sizes
+  unknownSize: boolean;
+}
+
+class EBMLReader {
+  bytes: Uint8Array;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+  }
+
+  // Variable length integer: the ID keeps its marker bit, sizes drop it
+  private readVint(offset: number, keepMarker: boolean) {
+    const first = this.bytes[offset];
+    let length = 1;
+    while (length <= 8 && !(first & (0x80 >> (length - 1)))) {
+      length++;
+    }
+    if (length > 8) {
+      throw new Error(`Invalid EBML variable length integer at ${offset}`);
+    }
+    let value = keepMarker ? first : first & (0xff >> length);
+    let allOnes = value === 0xff >> length;
+    for (let i = 1; i < length; i++) {
+      const byte = this.bytes[offset + i];
+      value = value * 256 + byte;
+      allOnes = allOnes && byte === 0xff;
+    }
+    return { value, length, allOnes };
+  }
+
+  readElement(offset: number, parentEnd: number): EBMLElement {
+    const id = this.readVint(offset, true);
+    const size = this.readVint(offset + id.length, false);
+    const start = offset + id.length + size.length;
+    return {
+      id: id.value,
+      start,
+      end: size.allOnes ? parentEnd : Math.min(start + size.value, parentEnd),
+      unknownSize: size.allOnes,
+    };
+  }
+
+  *children(parent: { start: number; end: number }) {
+    let offset = parent.start;
+    while (offset < parent.end) {
+      const element = this.readElement(offset, parent.end);
+      yield element;
+      offset = element.end;
+    }
+  }
+
+  uint(element: EBMLElement): number {
+    let value = 0;
+    for (let i = element.start; i < element.end; i++) {
+      value = value * 256 + this.bytes[i];
+    }
+    return value;
+  }
+
+  string(element: EBMLElement): string {
+    let value = '';
+    for (let i = element.start; i < element.end && this.bytes[i] !== 0; i++) {
+      value += String.fromCharCode(this.bytes[i]);
+    }
+    return value;
+  }
+
+  data(element: EBMLElement): Uint8Array {
+    return this.bytes.subarray(element.start, element.end);
+  }
+}
+
+interface WebMTrack {
+  number: number;
+  codecID: string;
+  codecPrivate?: Uint8Array;
+  defaultDuration?: number; // Nanoseconds
+  width: number;
+  height: number;
+}
+
+function readWebMTrack(
+  reader: EBMLReader,
+  entry: EBMLElement
+): WebMTrack | undefined {
+  const track: WebMTrack = { number: 0, codecID: '', width: 0, height: 0 };
+  let type = 0;
+  for (const child of reader.children(entry)) {
+    switch (child.id) {
+      case kTrackNumber:
+        track.number = reader.uint(child);
+        break;
+      case kTrackType:
+        type = reader.uint(child);
+        break;
+      case kCodecID:
+        track.codecID = reader.string(child);
+        break;
+      case kCodecPrivate:
+        track.codecPrivate = reader.data(child);
+        break;
+      case kDefaultDuration:
+        track.defaultDuration = reader.uint(child);
+        break;
+      case kVideo:
+        for (const video of reader.children(child)) {
+          if (video.id === kPixelWidth) {
+            track.width = reader.uint(video);
+          } else if (video.id === kPixelHeight) {
+            track.height = reader.uint(video);
+          }
+        }
+        break;
+    }
+  }
+  return type === kTrackTypeVideo ? track : undefined;
+}
+
+function webmCodec(
+  track: WebMTrack
+): Pick<DemuxedVideo, 'codec' | 'description'> {
+  switch (track.codecID) {
+    case 'V_VP8':
+      return { codec: 'vp8' };
+    case 'V_VP9': {
+      // Optional codec features: profile (1), level (2), bit depth (3)
+      const features: { [id: number]: number } = {};
+      const data = track.codecPrivate ?? new Uint8Array(0);
+      for (let i = 0; i + 2 < data.length; i += 2 + data[i + 1]) {
+        features[data[i]] = data[i + 2];
+      }
+      return {
+        codec: vp9CodecString(
+          features[1] ?? 0,
+          features[2] ?? 10,
+          features[3] ?? 8
+        ),
+      };
+    }
+    case 'V_AV1':
+      if (!track.codecPrivate) {
+        throw new Error('WebM AV1 track has no CodecPrivate');
+      }
+      return {
+        codec: av1CodecString(track.codecPrivate),
+        description: track.codecPrivate,
+      };
+    case 'V_MPEG4/ISO/AVC':
+      if (!track.codecPrivate) {
+        throw new Error('Matroska H.264 track has no CodecPrivate');
+      }
+      return {
+        codec: avcCodecString(track.codecPrivate),
+        description: track.codecPrivate,
+      };
+    default:
+      throw new Error(`Unsupported WebM video codec "${track.codecID}"`);
+  }
+}
+
+/**
+ * Parse a Block or SimpleBlock of the video track
+ */
+function readBlock(
+  reader: EBMLReader,
+  block: EBMLElement,
+  trackNumber: number,
+  clusterTimecode: number,
+  isKey: boolean | undefined
+): { timecode: number; isKey: boolean; data: Uint8Array } | undefined {
+  const bytes = reader.bytes;
+  // The track number is a size-style vint
+  const first = bytes[block.start];
+  let length = 1;
+  while (length <= 8 && !(first & (0x80 >> (length - 1)))) {
+    length++;
+  }
+  let track = first & (0xff >> length);
+  for (let i = 1; i < length; i++) {
+    track = track * 256 + bytes[block.start + i];
+  }
+  if (track !== trackNumber) {
+    return undefined;
+  }
+
+  const offset = block.start + length;
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  const relativeTimecode = view.getInt16(offset);
+  const flags = bytes[offset + 2];
+  if (flags & 0x06) {
+    throw new Error('Laced WebM video blocks are not supported');
+  }
+  return {
+    timecode: clusterTimecode + relativeTimecode,
+    // SimpleBlocks carry a keyframe flag, Blocks are keyframes unless they
+    // reference another block
+    isKey: isKey ?? (flags & 0x80) !== 0,
+    data: bytes.subarray(offset + 3, block.end),
+  };
+}
+
+function demuxWebM(buffer: ArrayBuffer): DemuxedVideo {
+  const reader = new EBMLReader(new Uint8Array(buffer));
+  const file = { start: 0, end: buffer.byteLength };
+
+  let segment: EBMLElement | undefined;
+  for (const element of reader.children(file)) {
+    if (element.id === kSegment) {
+      segment = element;
+      break;
+    }
+  }
+  if (!segment) {
+    throw new Error('WebM has no Segment');
+  }
+
+  let timecodeScale = 1000000; // Nanoseconds per timecode unit
+  let track: WebMTrack | undefined;
+  const blocks: { timecode: number; isKey: boolean; data: Uint8Array }[] = [];
+
+  let offset = segment.start;
+  while (offset < segment.end) {
+    const element = reader.readElement(offset, segment.end);
+    offset = element.end;
+
+    if (element.id === kInfo) {
+      for (const child of reader.children(element)) {
+        if (child.id === kTimecodeScale) {
+          timecodeScale = reader.uint(child);
+        }
+      }
+    } else if (element.id === kTracks) {
+      for (const entry of reader.children(element)) {
+        if (entry.id === kTrackEntry && !track) {
+          track = readWebMTrack(reader, entry);
+        }
+      }
+    } else if (element.id === kCluster) {
+      if (!track) {
+        throw new Error('WebM cluster before the Tracks element');
+      }
+      // Clusters of unknown size, as written by live encoders, end at the
+      // next segment child
+      let clusterTimecode = 0;
+      let childOffset = element.start;
+      while (childOffset < element.end) {
+        const child = reader.readElement(childOffset, element.end);
+        if (element.unknownSize && kSegmentChildren.has(child.id)) {
+          break;
+        }
+        childOffset = child.end;
+
+        let block;
+        if (child.id === kTimecode) {
+          clusterTimecode = reader.uint(child);
+        } else if (child.id === kSimpleBlock) {
+          block = readBlock(
+            reader,
+            child,
+            track.number,
+            clusterTimecode,
+            undefined
+          );
+        } else if (child.id === kBlockGroup) {
+          const groupChildren = [...reader.children(child)];
+          const blockElement = groupChildren.find((c) => c.id === kBlock);
+          const isKey = !groupChildren.some((c) => c.id === kReferenceBlock);
+          if (blockElement) {
+            block = readBlock(
+              reader,
+              blockElement,
+              track.number,
+              clusterTimecode,
+              isKey
+            );
+          }
+        }
+        if (block) {
+          blocks.push(block);
+        }
+      }
+      if (element.unknownSize) {
+        offset = childOffset;
+      }
+    }
+  }
+
+  if (!track) {
+    throw new Error('WebM has no video track');
+  }
+
+  const toMicroseconds = (timecode: number) =>
+    Math.round((timecode * timecodeScale) / 1000);
+  const defaultDuration = track.defaultDuration
+    ? Math.round(track.defaultDuration / 1000)
+    : undefined;
+
+  // Durations from the next frame in presentation order
+  const presentationOrder = blocks
+    .map((block, i) => i)
+    .sort((a, b) => blocks[a].timecode - blocks[b].timecode);
+  const durations = new Array<number>(blocks.length).fill(0);
+  for (let i = 0; i < presentationOrder.length; i++) {
+    const current = presentationOrder[i];
+    const next = presentationOrder[i + 1];
+    durations[current] =
+      defaultDuration ??
+      (next !== undefined
+        ? toMicroseconds(blocks[next].timecode - blocks[current].timecode)
+        : 0);
+  }
+  // The last frame lasts as long as the one before it
+  if (!defaultDuration && presentationOrder.length > 1) {
+    const last = presentationOrder[presentationOrder.length - 1];
+    durations[last] =
+      durations[presentationOrder[presentationOrder.length - 2]];
+  }
+
+  const samples = blocks.map((block, i) => ({
+    timestamp: toMicroseconds(block.timecode),
+    duration: durations[i],
+    isKey: block.isKey,
+    data: block.data,
+  }));
+
+  return {
+    ...webmCodec(track),
+    codedWidth: track.width,
+    codedHeight: track.height,
+    frameRate: estimateFrameRate(samples),
+    samples,
+  };
+}
+
+/**
+ * Demux the first video track of an MP4 or WebM file
+ */
+export function demuxVideo(buffer: ArrayBuffer): DemuxedVideo {
+  const view = new DataView(buffer);
+  if (buffer.byteLength >= 4 && view.getUint32(0) === kEBML) {
+    return demuxWebM(buffer);
+  }
+  if (buffer.byteLength >= 8) {
+    const type = String.fromCharCode(
+      view.getUint8(4),
+      view.getUint8(5),
+      view.getUint8(6),
+      view.getUint8(7)
+    );
+    if (['ftyp', 'moov', 'mdat', 'free', 'skip', 'wide'].includes(type)) {
+      return demuxMP4(buffer);
+    }
+  }
+  throw new Error('Unrecognized video container, expected MP4 or WebM');
+}
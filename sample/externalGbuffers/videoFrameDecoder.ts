@@ -0,0 +1,253 @@
+/**
+ * Frame-accurate decoding of one demuxed video stream with WebCodecs.
+ * Frames are addressed by their index in presentation order, so separately
+ * encoded G-buffer streams can be decoded to exactly the same frame.
+ */
+import { DemuxedVideo } from './videoDemuxer';
+
+// Decoded frames kept per stream, enough for stepping back and forth
+const kFrameCacheSize = 8;
+// Chunks fed past the requested frame, so decoders that reorder or buffer
+// frames output it without a flush
+const kDecodeAhead = 4;
+// How long to wait for the requested frame before flushing the decoder
+const kOutputTimeout = 100; // Milliseconds
+
+interface FrameRequest {
+  resolve: (frame: VideoFrame) => void;
+  reject: (error: Error) => void;
+}
+
+export class VideoFrameDecoder {
+  private video: DemuxedVideo;
+  private config: VideoDecoderConfig;
+  private decoder: VideoDecoder;
+  // Decode index of each frame in presentation order
+  private decodeIndices: number[];
+  private frameIndices = new Map<number, number>(); // Timestamp to frame
+  // Keyframe each chunk has to be decoded from
+  private keyframes: number[];
+
+  private nextChunk = 0;
+  private needsKeyframe = true;
+  // Frames output since the decoder was last reset
+  private outputFrames = new Set<number>();
+  private frames = new Map<number, VideoFrame>(); // Oldest first
+  private requests = new Map<number, FrameRequest[]>();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private constructor(video: DemuxedVideo, config: VideoDecoderConfig) {
+    this.video = video;
+    this.config = config;
+
+    const samples = video.samples;
+    this.decodeIndices = samples
+      .map((sample, i) => i)
+      .sort((a, b) => samples[a].timestamp - samples[b].timestamp);
+    this.decodeIndices.forEach((decodeIndex, frame) => {
+      this.frameIndices.set(samples[decodeIndex].timestamp, frame);
+    });
+
+    let keyframe = 0;
+    this.keyframes = samples.map((sample, i) => {
+      if (sample.isKey) {
+        keyframe = i;
+      }
+      return keyframe;
+    });
+
+    this.decoder = this.createDecoder();
+  }
+
+  /**
+   * Create a decoder for a demuxed stream, checking its codec is supported
+   */
+  static async create(video: DemuxedVideo): Promise<VideoFrameDecoder> {
+    if (typeof VideoDecoder === 'undefined') {
+      throw new Error(
+        'WebCodecs VideoDecoder is not supported by this browser'
+      );
+    }
+    if (video.samples.length === 0) {
+      throw new Error('Video has no frames');
+    }
+    if (!video.samples[0].isKey) {
+      throw new Error('Video does not start with a keyframe');
+    }
+
+    const config: VideoDecoderConfig = {
+      codec: video.codec,
+      codedWidth: video.codedWidth,
+      codedHeight: video.codedHeight,
+      description: video.description,
+      optimizeForLatency: true,
+    };
+    const { supported } = await VideoDecoder.isConfigSupported(config);
+    if (!supported) {
+      throw new Error(`Video codec "${video.codec}" is not supported`);
+    }
+    return new VideoFrameDecoder(video, config);
+  }
+
+  getFrameCount(): number {
+    return this.video.samples.length;
+  }
+
+  getFrameRate(): number {
+    return this.video.frameRate;
+  }
+
+  getSize(): [number, number] {
+    return [this.video.codedWidth, this.video.codedHeight];
+  }
+
+  /**
+   * Decode a frame by its index in presentation order. The caller owns the
+   * returned frame and must close it.
+   */
+  decodeFrame(frame: number): Promise<VideoFrame> {
+    if (
+      !Number.isInteger(frame) ||
+      frame < 0 ||
+      frame >= this.getFrameCount()
+    ) {
+      return Promise.reject(
+        new Error(
+          `Frame ${frame} is out of range 0-${this.getFrameCount() - 1}`
+        )
+      );
+    }
+    // Requests run one at a time, since a seek resets the decoder
+    const result = this.queue.then(() => this.decodeFrameNow(frame));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Close the decoder and every cached frame
+   */
+  close(): void {
+    if (this.decoder.state !== 'closed') {
+      this.decoder.close();
+    }
+    this.rejectRequests(new Error('Video decoder closed'));
+    this.frames.forEach((frame) => frame.close());
+    this.frames.clear();
+  }
+
+  private createDecoder(): VideoDecoder {
+    const decoder = new VideoDecoder({
+      output: (frame) => this.onOutput(frame),
+      error: (error) => {
+        this.needsKeyframe = true;
+        this.rejectRequests(error);
+      },
+    });
+    decoder.configure(this.config);
+    return decoder;
+  }
+
+  private onOutput(videoFrame: VideoFrame) {
+    const frame = this.frameIndices.get(videoFrame.timestamp);
+    if (frame === undefined) {
+      videoFrame.close();
+      return;
+    }
+    this.outputFrames.add(frame);
+
+    this.frames.get(frame)?.close();
+    this.frames.delete(frame);
+    this.frames.set(frame, videoFrame);
+    for (const [cached, oldest] of this.frames) {
+      if (this.frames.size <= kFrameCacheSize) {
+        break;
+      }
+      oldest.close();
+      this.frames.delete(cached);
+    }
+
+    const requests = this.requests.get(frame) ?? [];
+    this.requests.delete(frame);
+    requests.forEach((request) => request.resolve(videoFrame.clone()));
+  }
+
+  private rejectRequests(error: Error) {
+    this.requests.forEach((requests) =>
+      requests.forEach((request) => request.reject(error))
+    );
+    this.requests.clear();
+  }
+
+  /**
+   * Reset the decoder so the next chunk fed is the given keyframe
+   */
+  private seek(keyframe: number) {
+    if (this.decoder.state === 'closed') {
+      this.decoder = this.createDecoder();
+    } else {
+      this.decoder.reset();
+      this.decoder.configure(this.config);
+    }
+    this.nextChunk = keyframe;
+    this.needsKeyframe = false;
+    this.outputFrames.clear();
+  }
+
+  private async decodeFrameNow(frame: number): Promise<VideoFrame> {
+    const cached = this.frames.get(frame);
+    if (cached) {
+      return cached.clone();
+    }
+
+    const decodeIndex = this.decodeIndices[frame];
+    const keyframe = this.keyframes[decodeIndex];
+    // Seek unless the frame is ahead of the decoder within reach of its
+    // current position, or already fed and still pending
+    const passed = decodeIndex < this.nextChunk;
+    if (
+      this.needsKeyframe ||
+      (passed && this.outputFrames.has(frame)) ||
+      keyframe > this.nextChunk
+    ) {
+      this.seek(keyframe);
+    }
+
+    const result = new Promise<VideoFrame>((resolve, reject) => {
+      const requests = this.requests.get(frame) ?? [];
+      requests.push({ resolve, reject });
+      this.requests.set(frame, requests);
+    });
+
+    const samples = this.video.samples;
+    const end = Math.min(samples.length, decodeIndex + 1 + kDecodeAhead);
+    for (; this.nextChunk < end; this.nextChunk++) {
+      const sample = samples[this.nextChunk];
+      this.decoder.decode(
+        new EncodedVideoChunk({
+          type: sample.isKey ? 'key' : 'delta',
+          timestamp: sample.timestamp,
+          duration: sample.duration,
+          data: sample.data,
+        })
+      );
+    }
+
+    // Flushing outputs every pending frame, after which decoding has to
+    // restart from a keyframe
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    const outputTimeout = new Promise<void>((resolve) => {
+      timeout = setTimeout(resolve, kOutputTimeout);
+    });
+    await Promise.race([result, outputTimeout]);
+    clearTimeout(timeout);
+    if (!this.outputFrames.has(frame)) {
+      await this.decoder.flush();
+      this.needsKeyframe = true;
+      if (!this.outputFrames.has(frame)) {
+        this.requests.delete(frame);
+        throw new Error(`Frame ${frame} was not output by the decoder`);
+      }
+    }
+    return result;
+  }
+}
@@ -1,367 +1,352 @@
 /**
- * Utility functions for loading video G-Buffer textures from external video files
+ * Utility functions for loading video G-Buffer textures from external video
+ * files. Each stream is demuxed and decoded with WebCodecs by frame index, so
+ * the frames imported together always come from the same sequence frame.
  */
-
-export interface VideoGBufferTextures {
-  albedo: GPUExternalTexture;
-  normal: GPUExternalTexture;
-  depth: GPUExternalTexture;
-  metallic: GPUExternalTexture;
-  roughness: GPUExternalTexture;
-}
-
-export interface VideoGBufferElements {
-  albedo?: HTMLVideoElement;
-  normal?: HTMLVideoElement;
-  depth?: HTMLVideoElement;
-  metallic?: HTMLVideoElement;
-  roughness?: HTMLVideoElement;
-  synchronizer: VideoSynchronizer;
-}
+import { demuxVideo } from './videoDemuxer';
+import { VideoFrameDecoder } from './videoFrameDecoder';
 
 /**
  * Configuration for video G-Buffer inputs
  */
 export interface VideoGBufferConfig {
-  albedo?: string;    // Base color video path
-  depth?: string;     // Depth video path  
-  metallic?: string;  // Metallic video path
-  normal?: string;    // Normal map video path
+  albedo?: string; // Base color video path
+  depth?: string; // Depth video path
+  metallic?: string; // Metallic video path
+  normal?: string; // Normal map video path
   roughness?: string; // Roughness video path
+  ao?: string; // Optional ambient occlusion video path
+  emissive?: string; // Optional emissive video path
+  specular?: string; // Optional specular level video path
 }
 
-/**
- * Individual video element configuration
- */
-interface VideoElement {
-  element: HTMLVideoElement;
-  loaded: boolean;
-  width: number;
-  height: number;
-}
+export type VideoGBufferChannel = keyof VideoGBufferConfig;
+
+export type VideoGBufferTextures = {
+  [K in VideoGBufferChannel]?: GPUExternalTexture;
+};
+
+const kChannels: VideoGBufferChannel[] = [
+  'albedo',
+  'depth',
+  'metallic',
+  'normal',
+  'roughness',
+  'ao',
+  'emissive',
+  'specular',
+];
+
+// Channels imported in the sRGB color space, the others as display-p3
+const kSRGBChannels: VideoGBufferChannel[] = [
+  'albedo',
+  'metallic',
+  'roughness',
+  'ao',
+  'emissive',
+  'specular',
+];
 
 /**
- * Video synchronizer to ensure all G-Buffer videos are in sync
+ * Video sequence controller. Playback advances by whole frames, and a frame
+ * is only shown once every channel has decoded it.
  */
-export class VideoSynchronizer {
-  private videos: Map<string, VideoElement> = new Map();
-  private currentTime: number = 0;
+export class VideoSequenceController {
+  private decoders: Map<VideoGBufferChannel, VideoFrameDecoder>;
+  private frames = new Map<VideoGBufferChannel, VideoFrame>();
+  private currentFrame: number = 0;
+  private totalFrames: number;
+  private baseFps: number;
+  // Multiplier of the speed playback advances at
+  private playbackRate: number = 1;
   private isPlaying: boolean = false;
+  private lastUpdateTime: number = 0;
+  private loadingFrame: number = -1;
+  private seekRequest: number = 0;
+  private frameShown: boolean = false;
+
+  constructor(decoders: Map<VideoGBufferChannel, VideoFrameDecoder>) {
+    this.decoders = decoders;
+    const streams = [...decoders.values()];
+    this.totalFrames = Math.min(...streams.map((d) => d.getFrameCount()));
+    this.baseFps = streams[0].getFrameRate();
+
+    if (streams.some((d) => d.getFrameCount() !== this.totalFrames)) {
+      console.warn(
+        `G-Buffer videos have different frame counts, using the first ${this.totalFrames}`
+      );
+    }
+  }
 
   /**
-   * Add a video to be synchronized
+   * Decode a specific frame for all channels and display it
    */
-  addVideo(name: string, videoElement: HTMLVideoElement): void {
-    this.videos.set(name, {
-      element: videoElement,
-      loaded: false,
-      width: videoElement.videoWidth || 0,
-      height: videoElement.videoHeight || 0
-    });
+  async loadFrame(frameNumber: number): Promise<void> {
+    if (frameNumber < 0 || frameNumber >= this.totalFrames) {
+      console.warn(
+        `Frame ${frameNumber} out of range [0, ${this.totalFrames - 1}]`
+      );
+      return;
+    }
 
-    videoElement.addEventListener('loadedmetadata', () => {
-      const video = this.videos.get(name);
-      if (video) {
-        video.loaded = true;
-        video.width = videoElement.videoWidth;
-        video.height = videoElement.videoHeight;
+    const request = ++this.seekRequest;
+    this.loadingFrame = frameNumber;
+    const decoded = await Promise.allSettled(
+      [...this.decoders].map(async ([channel, decoder]) => {
+        const frame = await decoder.decodeFrame(frameNumber);
+        return [channel, frame] as const;
+      })
+    );
+    const frames = new Map<VideoGBufferChannel, VideoFrame>();
+    let error: unknown;
+    for (const result of decoded) {
+      if (result.status === 'fulfilled') {
+        frames.set(...result.value);
+      } else {
+        error = result.reason;
       }
-    });
+    }
 
-    videoElement.addEventListener('timeupdate', () => {
-      if (this.isPlaying) {
-        this.currentTime = videoElement.currentTime;
+    // A later seek superseded this one while it decoded
+    if (error !== undefined || request !== this.seekRequest) {
+      frames.forEach((frame) => frame.close());
+      if (request === this.seekRequest) {
+        this.loadingFrame = -1;
       }
+      if (error !== undefined) {
+        throw error;
+      }
+      return;
+    }
+
+    this.frames.forEach((frame) => frame.close());
+    this.frames = frames;
+    this.currentFrame = frameNumber;
+    this.loadingFrame = -1;
+    this.frameShown = true;
+  }
+
+  /**
+   * Import the displayed frame of every channel. External textures expire,
+   * so this should be called every frame right before use. Returns undefined
+   * until the first frame has been decoded.
+   */
+  importTextures(device: GPUDevice): VideoGBufferTextures | undefined {
+    if (this.frames.size === 0) {
+      return undefined;
+    }
+    const textures: VideoGBufferTextures = {};
+    this.frames.forEach((frame, channel) => {
+      textures[channel] = device.importExternalTexture({
+        source: frame,
+        colorSpace: kSRGBChannels.includes(channel) ? 'srgb' : 'display-p3',
+      });
     });
+    return textures;
   }
 
   /**
-   * Play all synchronized videos
+   * Play the sequence
    */
-  async play(): Promise<void> {
+  play(): void {
     this.isPlaying = true;
-    const playPromises = Array.from(this.videos.values()).map(video => video.element.play());
-    await Promise.all(playPromises);
+    this.lastUpdateTime = performance.now();
   }
 
   /**
-   * Pause all synchronized videos
+   * Pause the sequence
    */
   pause(): void {
     this.isPlaying = false;
-    this.videos.forEach(video => video.element.pause());
   }
 
   /**
-   * Seek all videos to the same time
+   * Seek to a specific time in seconds
    */
-  seek(time: number): void {
-    this.currentTime = time;
-    this.videos.forEach(video => {
-      video.element.currentTime = time;
-    });
+  async seek(time: number): Promise<void> {
+    const frameNumber = Math.floor(time * this.baseFps);
+    await this.loadFrame(Math.min(frameNumber, this.totalFrames - 1));
   }
 
   /**
-   * Check if all videos are loaded and ready
+   * Seek to a specific frame
    */
-  allLoaded(): boolean {
-    return Array.from(this.videos.values()).every(video => video.loaded);
+  async seekToFrame(frameNumber: number): Promise<void> {
+    await this.loadFrame(frameNumber);
   }
 
   /**
-   * Get duration (assuming all videos have same duration)
+   * Pause and step forward or back by a number of frames, wrapping around
+   * the ends of the sequence
    */
-  getDuration(): number {
-    const firstVideo = Array.from(this.videos.values())[0];
-    return firstVideo ? firstVideo.element.duration : 0;
+  async stepFrame(delta: number = 1): Promise<void> {
+    this.pause();
+    const from = this.loadingFrame >= 0 ? this.loadingFrame : this.currentFrame;
+    const frameNumber =
+      (((from + delta) % this.totalFrames) + this.totalFrames) %
+      this.totalFrames;
+    await this.loadFrame(frameNumber);
   }
 
   /**
-   * Get current playback time
+   * Update - should be called every frame to advance the sequence if playing.
+   * Never waits for decoding: the current frame stays up until every channel
+   * has decoded the next one. Returns whether a new frame was shown since the
+   * last update.
    */
-  getCurrentTime(): number {
-    return this.currentTime;
+  update(currentTime: number): boolean {
+    const frameShown = this.frameShown;
+    this.frameShown = false;
+    if (!this.isPlaying || this.loadingFrame >= 0) {
+      return frameShown;
+    }
+
+    const deltaTime = (currentTime - this.lastUpdateTime) / 1000;
+    const playbackFps = this.baseFps * this.playbackRate;
+    const frameStep = Math.floor(deltaTime * playbackFps);
+    if (frameStep < 1) {
+      return frameShown;
+    }
+
+    const targetFrame = (this.currentFrame + frameStep) % this.totalFrames;
+    this.lastUpdateTime += (frameStep / playbackFps) * 1000;
+    this.loadFrame(targetFrame).catch((error) => {
+      console.error(`Failed to decode video frame ${targetFrame}:`, error);
+      this.pause();
+    });
+    return frameShown;
   }
 
   /**
-   * Set playback rate for all videos
+   * Get current frame number
    */
-  setPlaybackRate(rate: number): void {
-    this.videos.forEach(video => {
-      video.element.playbackRate = rate;
-    });
+  getCurrentFrame(): number {
+    return this.currentFrame;
   }
-}
 
-/**
- * Create video element for G-Buffer input
- */
-function createVideoElement(videoSrc: string): HTMLVideoElement {
-  const video = document.createElement('video');
-  video.crossOrigin = 'anonymous';
-  video.loop = true;
-  video.playsInline = true;
-  video.muted = true;
-  video.src = videoSrc;
-  
-  // Preload metadata to ensure dimensions are available
-  video.preload = 'metadata';
-  
-  return video;
-}
-
-/**
- * Load all required G-Buffer videos and create WebGPU external textures
- */
-export async function loadGBufferVideos(
-  device: GPUDevice,
-  config: VideoGBufferConfig,
-  basePath: string = './assets/gbuffers/'
-): Promise<VideoGBufferTextures> {
-  const synchronizer = new VideoSynchronizer();
-  const videos: Partial<VideoGBufferTextures> = {};
-
-  // Create video elements for each G-Buffer type
-  const videoElements: { [K in keyof VideoGBufferConfig]?: HTMLVideoElement } = {};
-  
-  if (config.albedo) {
-    videoElements.albedo = createVideoElement(`${basePath}${config.albedo}`);
-    synchronizer.addVideo('albedo', videoElements.albedo);
-  }
-  
-  if (config.depth) {
-    videoElements.depth = createVideoElement(`${basePath}${config.depth}`);
-    synchronizer.addVideo('depth', videoElements.depth);
-  }
-  
-  if (config.metallic) {
-    videoElements.metallic = createVideoElement(`${basePath}${config.metallic}`);
-    synchronizer.addVideo('metallic', videoElements.metallic);
-  }
-  
-  if (config.normal) {
-    videoElements.normal = createVideoElement(`${basePath}${config.normal}`);
-    synchronizer.addVideo('normal', videoElements.normal);
-  }
-  
-  if (config.roughness) {
-    videoElements.roughness = createVideoElement(`${basePath}${config.roughness}`);
-    synchronizer.addVideo('roughness', videoElements.roughness);
+  /**
+   * Get total number of frames
+   */
+  getTotalFrames(): number {
+    return this.totalFrames;
   }
 
-  // Wait for all videos to load and have frames ready
-  await new Promise<void>((resolve, reject) => {
-    const videoStates: Map<HTMLVideoElement, { metadataLoaded: boolean; framesReady: boolean }> = new Map();
-    const totalVideos = Object.keys(videoElements).length;
-    
-    if (totalVideos === 0) {
-      reject(new Error('No video configuration provided'));
-      return;
-    }
-
-    // Initialize video states
-    Object.values(videoElements).forEach(video => {
-      videoStates.set(video, { metadataLoaded: false, framesReady: false });
-    });
-
-    const checkAllReady = () => {
-      const allReady = Array.from(videoStates.values()).every(state => 
-        state.metadataLoaded && state.framesReady
-      );
-      
-      if (allReady) {
-        // Start playing all videos to ensure first frame is available
-        synchronizer.play().then(() => {
-          // Wait a bit more to ensure frames are rendered
-          setTimeout(resolve, 100);
-        }).catch(reject);
-      }
-    };
-
-    Object.values(videoElements).forEach(video => {
-      const state = videoStates.get(video)!;
-      
-      video.addEventListener('loadedmetadata', () => {
-        state.metadataLoaded = true;
-        checkAllReady();
-      });
-      
-      video.addEventListener('canplay', () => {
-        state.framesReady = true;
-        checkAllReady();
-      });
-      
-      video.addEventListener('error', () => {
-        reject(new Error(`Failed to load video: ${video.src}`));
-      });
-    });
-  });
-
-  // Create GPUExternalTexture for each video
-  const createExternalTexture = (name: string, element: HTMLVideoElement) => {
-    // Ensure video has dimensions and is ready to play
-    if (element.videoWidth === 0 || element.videoHeight === 0) {
-      throw new Error(`Video "${name}" does not have valid dimensions`);
-    }
-    
-    if (element.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) {
-      throw new Error(`Video "${name}" is not ready for texture import. ReadyState: ${element.readyState}`);
-    }
-    
-    try {
-      return device.importExternalTexture({
-        source: element,
-        colorSpace: name === 'albedo' || name === 'metallic' || name === 'roughness' 
-          ? 'srgb' 
-          : 'display-p3', // Linear for normal/depth
-      });
-    } catch (error) {
-      console.error(`Failed to import external texture for "${name}":`, error);
-      throw new Error(`Failed to import external texture for "${name}": ${error}`);
-    }
-  };
-
-  // Create external textures
-  if (videoElements.albedo) {
-    videos.albedo = createExternalTexture('albedo', videoElements.albedo);
-  }
-  if (videoElements.depth) {
-    videos.depth = createExternalTexture('depth', videoElements.depth);
+  /**
+   * Get duration in seconds
+   */
+  getDuration(): number {
+    return this.totalFrames / this.baseFps;
   }
-  if (videoElements.metallic) {
-    videos.metallic = createExternalTexture('metallic', videoElements.metallic);
+
+  /**
+   * Get current time in seconds
+   */
+  getCurrentTime(): number {
+    return this.currentFrame / this.baseFps;
   }
-  if (videoElements.normal) {
-    videos.normal = createExternalTexture('normal', videoElements.normal);
+
+  /**
+   * Set playback rate (FPS multiplier). Only the playback speed changes, times
+   * keep converting to frames at the sequence's frame rate.
+   */
+  setPlaybackRate(rate: number): void {
+    this.playbackRate = rate;
   }
-  if (videoElements.roughness) {
-    videos.roughness = createExternalTexture('roughness', videoElements.roughness);
+
+  /**
+   * Check if playing
+   */
+  isPlayingNow(): boolean {
+    return this.isPlaying;
   }
 
-  // Store synchronizer and video elements for external control
-  (videos as any).synchronizer = synchronizer;
-  (videos as any).videoElements = videoElements;
+  /**
+   * Get the sequence's frame rate, whatever the playback rate
+   */
+  getFPS(): number {
+    return this.baseFps;
+  }
 
-  console.log('Successfully loaded G-Buffer video textures');
-  return videos as VideoGBufferTextures;
+  /**
+   * Close the decoders and release the displayed frames
+   */
+  close(): void {
+    this.seekRequest++;
+    this.frames.forEach((frame) => frame.close());
+    this.frames.clear();
+    this.decoders.forEach((decoder) => decoder.close());
+  }
 }
 
 /**
- * Create external textures from video elements
- * This should be called every frame as external textures expire quickly
+ * Load the configured G-Buffer videos and decode their first frame
  */
-export function createExternalTexturesFromVideos(
-  device: GPUDevice,
-  videoElements: any
-): GPUExternalTexture[] {
-  // Validate all required videos are present
-  if (!videoElements.albedo || !videoElements.normal || !videoElements.depth || !videoElements.metallic) {
-    throw new Error('Missing required video elements for G-Buffer textures');
-  }
-  
-  // Check if videos are ready for texture import
-  const videos = [videoElements.albedo, videoElements.normal, videoElements.depth, videoElements.metallic];
-  for (const video of videos) {
-    // Ensure video has valid dimensions and current frame data
-    if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || 
-        video.videoWidth === 0 || 
-        video.videoHeight === 0 ||
-        video.paused ||
-        video.ended) {
-      // Video not ready yet or not playing, skip this frame
-      return [];
-    }
+export async function loadGBufferVideos(
+  config: VideoGBufferConfig,
+  basePath: string = './assets/gbuffers/'
+): Promise<VideoSequenceController> {
+  const channels = kChannels.filter((channel) => config[channel]);
+  if (channels.length === 0) {
+    throw new Error('No video configuration provided');
   }
-  
-  // Create external textures - must be done right before use as they expire quickly
+
+  const decoders = new Map<VideoGBufferChannel, VideoFrameDecoder>();
   try {
-    const textures: GPUExternalTexture[] = [
-      device.importExternalTexture({
-        source: videoElements.albedo,
-      }),
-      device.importExternalTexture({
-        source: videoElements.normal,
-      }),
-      device.importExternalTexture({
-        source: videoElements.depth,
-      }),
-      device.importExternalTexture({
-        source: videoElements.metallic,
-      }),
-    ];
-    
-    return textures;
+    await Promise.all(
+      channels.map(async (channel) => {
+        const url = `${basePath}${config[channel]}`;
+        const response = await fetch(url);
+        if (!response.ok) {
+          throw new Error(`Failed to load video: ${url} (${response.status})`);
+        }
+        const video = demuxVideo(await response.arrayBuffer());
+        decoders.set(channel, await VideoFrameDecoder.create(video));
+      })
+    );
   } catch (error) {
-    console.error('Failed to create external textures:', error);
-    return [];
+    decoders.forEach((decoder) => decoder.close());
+    throw error;
+  }
+
+  const sizes = [...decoders.values()].map((d) => d.getSize().join('x'));
+  if (new Set(sizes).size > 1) {
+    console.warn(`G-Buffer videos have different sizes: ${sizes.join(', ')}`);
   }
+
+  const controller = new VideoSequenceController(decoders);
+  await controller.loadFrame(0);
+  console.log('Successfully loaded G-Buffer videos');
+  return controller;
 }
 
 /**
  * Convert depth buffer from view space to world space if needed
  * (Same utility as PNG loader)
  */
-export function computeDepthLinearizationConstant(near: number, far: number, projection: Float32Array): number {
+export function computeDepthLinearizationConstant(
+  near: number,
+  far: number,
+  projection: Float32Array
+): number {
   // For perspective projection matrices, extract the linearization constant
   // This assumes a standard perspective projection matrix format
   const projEntry11 = projection[11];
   const projEntry15 = projection[15];
-  
+
   return (-projEntry15 - projEntry11) / (projEntry15 - projEntry11);
 }
 
 /**
  * Video format recommendations for G-Buffer videos:
- * 
+ *
  * For Base Color (Albedo):
  * - Format: MP4 (H.264) or WebM (VP9)
  * - Color Space: sRGB
  * - Channels: RGB or RGBA
  * - Resolution: Match target resolution
- * 
+ *
  * For Normal Maps:
- * - Format: MP4 (H.264) or WebM (VP9)  
+ * - Format: MP4 (H.264) or WebM (VP9)
  * - Color Space: Linear (no gamma correction)
  * - Channels: RGB (encoded as (x+1)/2, (y+1)/2, (z+1)/2)
  * - Should encode unit normals properly
@@ -381,13 +366,16 @@ export function computeDepthLinearizationConstant(near: number, far: number, pro
  * For Roughness:
  * - Format: MP4 (H.264) or WebM (VP9)
  * - Color Space: Linear
- * - Channels: Single channel (Red) or Grayscale  
+ * - Channels: Single channel (Red) or Grayscale
  * - Range: [0-1], where 0 = smooth, 1 = rough
  *
  * Video Requirements:
- * - All videos should have same duration
- * - All videos should have same frame rate
- * - All videos should start at t=0 for synchronization
+ * - All videos should have the same frame count and frame rate; frames are
+ *   matched by index, not by timestamp
+ * - MP4 with H.264, HEVC, VP9 or AV1, or WebM with VP8, VP9 or AV1, decodable
+ *   by the browser's WebCodecs VideoDecoder
+ * - Unlaced WebM blocks and stsz sample tables in MP4
+ * - Frequent keyframes make seeking and stepping backwards faster
  * - Consider using lossless compression for normal/depth maps
  * - For better compression, encode metallic and roughness as grayscale
  */
@@ -0,0 +1,230 @@
+/**
+ * Minimal WebM muxer for a single video track of WebCodecs chunks.
+ * The file is assembled when the export finishes, so every element size is
+ * known and no seeking back is needed.
+ */
+
+// Matroska element IDs, written with their length marker bits
+const kEBML = 0x1a45dfa3;
+const kEBMLVersion = 0x4286;
+const kEBMLReadVersion = 0x42f7;
+const kEBMLMaxIDLength = 0x42f2;
+const kEBMLMaxSizeLength = 0x42f3;
+const kDocType = 0x4282;
+const kDocTypeVersion = 0x4287;
+const kDocTypeReadVersion = 0x4285;
+const kSegment = 0x18538067;
+const kInfo = 0x1549a966;
+const kTimecodeScale = 0x2ad7b1;
+const kMuxingApp = 0x4d80;
+const kWritingApp = 0x5741;
+const kDuration = 0x4489;
+const kTracks = 0x1654ae6b;
+const kTrackEntry = 0xae;
+const kTrackNumber = 0xd7;
+const kTrackUID = 0x73c5;
+const kTrackType = 0x83;
+const kCodecID = 0x86;
+const kDefaultDuration = 0x23e383;
+const kVideo = 0xe0;
+const kPixelWidth = 0xb0;
+const kPixelHeight = 0xba;
+const kCluster = 0x1f43b675;
+const kTimecode = 0xe7;
+const kSimpleBlock = 0xa3;
+const kCues = 0x1c53bb6b;
+const kCuePoint = 0xbb;
+const kCueTime = 0xb3;
+const kCueTrackPositions = 0xb7;
+const kCueTrack = 0xf7;
+const kCueClusterPosition = 0xf1;
+
+const kTrackVideo = 1;
+const kKeyframeFlag = 0x80;
+// Block timecodes are int16 milliseconds relative to their cluster
+const kMaxClusterDuration = 30000;
+
+type Element = Uint8Array[];
+
+function byteLength(parts: Uint8Array[]): number {
+  return parts.reduce((size, part) => size + part.length, 0);
+}
+
+function encodeID(id: number): Uint8Array {
+  const bytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 256)) {
+    bytes.unshift(value & 0xff);
+  }
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Variable length size, using the shortest encoding
+ */
+function encodeSize(size: number): Uint8Array {
+  let length = 1;
+  while (size >= Math.pow(2, 7 * length) - 1) {
+    length++;
+  }
+  const bytes = new Uint8Array(length);
+  let value = size;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = value & 0xff;
+    value = Math.floor(value / 256);
+  }
+  bytes[0] |= 0x80 >> (length - 1);
+  return bytes;
+}
+
+function element(id: number, children: Uint8Array[]): Element {
+  return [encodeID(id), encodeSize(byteLength(children)), ...children];
+}
+
+function uintElement(id: number, value: number): Element {
+  const bytes: number[] = [];
+  do {
+    bytes.unshift(value & 0xff);
+    value = Math.floor(value / 256);
+  } while (value > 0);
+  return element(id, [new Uint8Array(bytes)]);
+}
+
+function floatElement(id: number, value: number): Element {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return element(id, [bytes]);
+}
+
+function stringElement(id: number, value: string): Element {
+  return element(id, [new TextEncoder().encode(value)]);
+}
+
+interface Cluster {
+  timecode: number; // Milliseconds
+  blocks: Uint8Array[];
+}
+
+export interface WebMVideoTrack {
+  codec: 'V_VP8' | 'V_VP9';
+  width: number;
+  height: number;
+  frameRate: number;
+}
+
+/**
+ * Collects encoded video chunks and writes them as a WebM file
+ */
+export class WebMMuxer {
+  private track: WebMVideoTrack;
+  private clusters: Cluster[] = [];
+  private chunkCount = 0;
+  private duration = 0; // Milliseconds
+
+  constructor(track: WebMVideoTrack) {
+    this.track = track;
+  }
+
+  /**
+   * Add a chunk from a VideoEncoder output callback. Chunks must arrive in
+   * presentation order, which holds for encoders without B-frames.
+   */
+  addChunk(chunk: EncodedVideoChunk): void {
+    const timecode = Math.round(chunk.timestamp / 1000);
+    let cluster = this.clusters[this.clusters.length - 1];
+    // Start clusters on keyframes so players can seek to them
+    if (
+      !cluster ||
+      chunk.type === 'key' ||
+      timecode - cluster.timecode >= kMaxClusterDuration
+    ) {
+      cluster = { timecode, blocks: [] };
+      this.clusters.push(cluster);
+    }
+
+    const block = new Uint8Array(4 + chunk.byteLength);
+    block[0] = 0x80 | 1; // Track number 1 as a size-encoded integer
+    new DataView(block.buffer).setInt16(1, timecode - cluster.timecode);
+    block[3] = chunk.type === 'key' ? kKeyframeFlag : 0;
+    chunk.copyTo(block.subarray(4));
+    cluster.blocks.push(...element(kSimpleBlock, [block]));
+    this.chunkCount++;
+
+    const frameDuration = 1000 / this.track.frameRate;
+    this.duration = Math.max(this.duration, timecode + frameDuration);
+  }
+
+  /**
+   * Number of chunks added so far
+   */
+  getChunkCount(): number {
+    return this.chunkCount;
+  }
+
+  /**
+   * Assemble the WebM file
+   */
+  finish(): Blob {
+    const header = element(kEBML, [
+      ...uintElement(kEBMLVersion, 1),
+      ...uintElement(kEBMLReadVersion, 1),
+      ...uintElement(kEBMLMaxIDLength, 4),
+      ...uintElement(kEBMLMaxSizeLength, 8),
+      ...stringElement(kDocType, 'webm'),
+      ...uintElement(kDocTypeVersion, 2),
+      ...uintElement(kDocTypeReadVersion, 2),
+    ]);
+
+    const info = element(kInfo, [
+      ...uintElement(kTimecodeScale, 1000000), // Milliseconds
+      ...stringElement(kMuxingApp, 'webgpu-samples'),
+      ...stringElement(kWritingApp, 'webgpu-samples'),
+      ...floatElement(kDuration, this.duration),
+    ]);
+
+    const { codec, width, height, frameRate } = this.track;
+    const tracks = element(kTracks, [
+      ...element(kTrackEntry, [
+        ...uintElement(kTrackNumber, 1),
+        ...uintElement(kTrackUID, 1),
+        ...uintElement(kTrackType, kTrackVideo),
+        ...stringElement(kCodecID, codec),
+        ...uintElement(kDefaultDuration, Math.round(1e9 / frameRate)),
+        ...element(kVideo, [
+          ...uintElement(kPixelWidth, width),
+          ...uintElement(kPixelHeight, height),
+        ]),
+      ]),
+    ]);
+
+    // Cue positions are relative to the start of the segment's data
+    const clusters: Element[] = [];
+    const cuePoints: Uint8Array[] = [];
+    let position = byteLength(info) + byteLength(tracks);
+    for (const cluster of this.clusters) {
+      const clusterElement = element(kCluster, [
+        ...uintElement(kTimecode, cluster.timecode),
+        ...cluster.blocks,
+      ]);
+      cuePoints.push(
+        ...element(kCuePoint, [
+          ...uintElement(kCueTime, cluster.timecode),
+          ...element(kCueTrackPositions, [
+            ...uintElement(kCueTrack, 1),
+            ...uintElement(kCueClusterPosition, position),
+          ]),
+        ])
+      );
+      clusters.push(clusterElement);
+      position += byteLength(clusterElement);
+    }
+    const cues = cuePoints.length > 0 ? element(kCues, cuePoints) : [];
+
+    const segment = element(kSegment, [
+      ...info,
+      ...tracks,
+      ...clusters.flat(),
+      ...cues,
+    ]);
+    return new Blob([...header, ...segment], { type: 'video/webm' });
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Minimal zip writer for bundling exported frames into one download. Files
+ * are stored uncompressed, as PNG and JPEG data is already compressed.
+ */
+
+const kLocalFileHeaderSignature = 0x04034b50;
+const kCentralDirectorySignature = 0x02014b50;
+const kEndOfCentralDirectorySignature = 0x06054b50;
+const kZipVersion = 20; // 2.0, the lowest version with directories
+const kUTF8Flag = 0x0800;
+// Without zip64, sizes and offsets are 32-bit
+const kMaxZipSize = 0xffffffff;
+
+let crcTable: Uint32Array | undefined;
+
+function getCRCTable(): Uint32Array {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+}
+
+/**
+ * CRC-32 as used by zip and PNG. Pass the previous result as `crc` to
+ * continue a checksum over several buffers.
+ */
+export function crc32(data: Uint8Array, crc = 0): number {
+  const table = getCRCTable();
+  let c = crc ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    c = table[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+interface ZipEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+}
+
+/**
+ * Builds a zip archive in memory. Add files in order, then call finish().
+ */
+export class ZipWriter {
+  private parts: BlobPart[] = [];
+  private entries: ZipEntry[] = [];
+  private offset = 0;
+  private time: number;
+  private date: number;
+
+  constructor() {
+    // MS-DOS time and date of all entries
+    const now = new Date();
+    this.time =
+      (now.getHours() << 11) |
+      (now.getMinutes() << 5) |
+      (now.getSeconds() >> 1);
+    this.date =
+      ((now.getFullYear() - 1980) << 9) |
+      ((now.getMonth() + 1) << 5) |
+      now.getDate();
+  }
+
+  /**
+   * Add a file. The data is referenced, not copied, until finish().
+   */
+  addFile(filename: string, data: Uint8Array): void {
+    const name = new TextEncoder().encode(filename);
+    const entry: ZipEntry = {
+      name,
+      crc: crc32(data),
+      size: data.length,
+      offset: this.offset,
+    };
+
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, kLocalFileHeaderSignature, true);
+    header.setUint16(4, kZipVersion, true);
+    header.setUint16(6, kUTF8Flag, true);
+    header.setUint16(8, 0, true); // Stored
+    header.setUint16(10, this.time, true);
+    header.setUint16(12, this.date, true);
+    header.setUint32(14, entry.crc, true);
+    header.setUint32(18, entry.size, true); // Compressed size
+    header.setUint32(22, entry.size, true);
+    header.setUint16(26, name.length, true);
+    header.setUint16(28, 0, true); // Extra field length
+
+    const entrySize = header.byteLength + name.length + data.length;
+    if (this.offset + entrySize > kMaxZipSize) {
+      throw new Error('Zip archive would exceed 4 GB');
+    }
+    this.parts.push(header.buffer, name, data);
+    this.entries.push(entry);
+    this.offset += entrySize;
+  }
+
+  /**
+   * Number of files added so far
+   */
+  getFileCount(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Write the central directory and return the archive
+   */
+  finish(): Blob {
+    const centralDirectoryOffset = this.offset;
+    let centralDirectorySize = 0;
+
+    for (const entry of this.entries) {
+      const header = new DataView(new ArrayBuffer(46));
+      header.setUint32(0, kCentralDirectorySignature, true);
+      header.setUint16(4, kZipVersion, true); // Version made by
+      header.setUint16(6, kZipVersion, true); // Version needed
+      header.setUint16(8, kUTF8Flag, true);
+      header.setUint16(10, 0, true); // Stored
+      header.setUint16(12, this.time, true);
+      header.setUint16(14, this.date, true);
+      header.setUint32(16, entry.crc, true);
+      header.setUint32(20, entry.size, true);
+      header.setUint32(24, entry.size, true);
+      header.setUint16(28, entry.name.length, true);
+      // Extra field, comment, disk number and attributes stay 0
+      header.setUint32(42, entry.offset, true);
+
+      this.parts.push(header.buffer, entry.name);
+      centralDirectorySize += header.byteLength + entry.name.length;
+    }
+
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, kEndOfCentralDirectorySignature, true);
+    end.setUint16(8, this.entries.length, true); // Entries on this disk
+    end.setUint16(10, this.entries.length, true);
+    end.setUint32(12, centralDirectorySize, true);
+    end.setUint32(16, centralDirectoryOffset, true);
+    this.parts.push(end.buffer);
+
+    return new Blob(this.parts, { type: 'application/zip' });
+  }
+}
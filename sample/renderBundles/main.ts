@@ -1,6 +1,14 @@
-import { mat4, vec3 } from 'wgpu-matrix';
+import { mat4, vec3, Vec3 } from 'wgpu-matrix';
 import { GUI } from 'dat.gui';
 import { createSphereMesh, SphereLayout } from '../../meshes/sphere';
+import {
+  computeLODScale,
+  createLODMesh,
+  kDrawIndexedIndirectSize,
+  LODMesh,
+  selectLOD,
+  setLODDrawArgs,
+} from '../../meshes/lod';
 import Stats from 'stats.js';
 
 import meshWGSL from './mesh.wgsl';
@@ -9,7 +17,10 @@ import { quitIfWebGPUNotAvailable } from '../util';
 interface Renderable {
   vertices: GPUBuffer;
   indices: GPUBuffer;
-  indexCount: number;
+  // Levels of detail, whose indices all live in the indices buffer
+  lodMesh: LODMesh;
+  radius: number;
+  center?: Vec3;
   bindGroup?: GPUBindGroup;
 }
 
@@ -20,17 +31,28 @@ const adapter = await navigator.gpu?.requestAdapter({
 const device = await adapter?.requestDevice();
 quitIfWebGPUNotAvailable(adapter, device);
 
+const kMaxAsteroidCount = 10000;
+
 const settings = {
   useRenderBundles: true,
   asteroidCount: 5000,
+  levelOfDetail: true,
+  lodPixelError: 1,
 };
 const gui = new GUI();
 gui.add(settings, 'useRenderBundles');
-gui.add(settings, 'asteroidCount', 1000, 10000, 1000).onChange(() => {
-  // If the content of the scene changes the render bundle must be recreated.
-  ensureEnoughAsteroids();
-  updateRenderBundle();
-});
+gui
+  .add(settings, 'asteroidCount', 1000, kMaxAsteroidCount, 1000)
+  .onChange(() => {
+    // If the content of the scene changes the render bundle must be recreated.
+    ensureEnoughAsteroids();
+    updateRenderBundle();
+  });
+// Levels of detail are drawn indirectly, so the render bundle is recreated
+// when they're toggled. Switching levels only changes the arguments of the
+// indirect draws, which doesn't need a new bundle.
+gui.add(settings, 'levelOfDetail').onChange(updateRenderBundle);
+gui.add(settings, 'lodPixelError', 0.25, 8, 0.25);
 
 const context = canvas.getContext('webgpu') as GPUCanvasContext;
 
@@ -175,6 +197,11 @@ function createSphereRenderable(
     heightSegments,
     randomness
   );
+  // Simplified versions of the sphere to draw when it's small on screen.
+  const lodMesh = createLODMesh({
+    ...sphereMesh,
+    vertexStride: SphereLayout.vertexStride,
+  });
 
   // Create a vertex buffer from the sphere data.
   const vertices = device.createBuffer({
@@ -186,17 +213,19 @@ function createSphereRenderable(
   vertices.unmap();
 
   const indices = device.createBuffer({
-    size: sphereMesh.indices.byteLength,
+    // Buffers mapped at creation need a size that's a multiple of 4
+    size: Math.ceil(lodMesh.indices.byteLength / 4) * 4,
     usage: GPUBufferUsage.INDEX,
     mappedAtCreation: true,
   });
-  new Uint16Array(indices.getMappedRange()).set(sphereMesh.indices);
+  new Uint16Array(indices.getMappedRange()).set(lodMesh.indices);
   indices.unmap();
 
   return {
     vertices,
     indices,
-    indexCount: sphereMesh.indices.length,
+    lodMesh,
+    radius: radius * (1 + randomness),
   };
 }
 
@@ -241,6 +270,7 @@ mat4.identity(transform);
 
 // Create one large central planet surrounded by a large ring of asteroids
 const planet = createSphereRenderable(1.0);
+planet.center = vec3.create(0, 0, 0);
 planet.bindGroup = createSphereBindGroup(planetTexture, transform);
 
 const asteroids = [
@@ -268,12 +298,46 @@ function ensureEnoughAsteroids() {
     mat4.rotateY(transform, Math.random() * Math.PI, transform);
     renderables.push({
       ...asteroids[i % asteroids.length],
+      center: vec3.create(x, y, z),
       bindGroup: createSphereBindGroup(moonTexture, transform),
     });
   }
 }
 ensureEnoughAsteroids();
 
+// With levels of detail, each renderable is drawn with the arguments of an
+// indirect draw, which select its level every frame.
+const drawArgs = new Uint32Array(
+  ((kMaxAsteroidCount + 1) * kDrawIndexedIndirectSize) / 4
+);
+const drawArgsBuffer = device.createBuffer({
+  size: drawArgs.byteLength,
+  usage: GPUBufferUsage.INDIRECT | GPUBufferUsage.COPY_DST,
+});
+const cameraPosition = vec3.create();
+
+function updateLevelsOfDetail() {
+  const count = Math.min(renderables.length, settings.asteroidCount + 1);
+  for (let i = 0; i < count; ++i) {
+    const { lodMesh, center, radius } = renderables[i];
+    const distance = vec3.distance(cameraPosition, center) - radius;
+    const level = selectLOD(
+      lodMesh,
+      distance,
+      lodScale,
+      settings.lodPixelError
+    );
+    setLODDrawArgs(drawArgs, i, lodMesh, level);
+  }
+  device.queue.writeBuffer(
+    drawArgsBuffer,
+    0,
+    drawArgs.buffer,
+    0,
+    count * kDrawIndexedIndirectSize
+  );
+}
+
 const renderPassDescriptor: GPURenderPassDescriptor = {
   colorAttachments: [
     {
@@ -294,7 +358,10 @@ const renderPassDescriptor: GPURenderPassDescriptor = {
 };
 
 const aspect = canvas.width / canvas.height;
-const projectionMatrix = mat4.perspective((2 * Math.PI) / 5, aspect, 1, 100.0);
+const fieldOfView = (2 * Math.PI) / 5;
+const projectionMatrix = mat4.perspective(fieldOfView, aspect, 1, 100.0);
+// Pixels per unit of the errors of the levels of detail, at a distance of 1
+const lodScale = computeLODScale(fieldOfView, canvas.height);
 const modelViewProjectionMatrix = mat4.create();
 
 const frameBindGroup = device.createBindGroup({
@@ -320,6 +387,7 @@ function getTransformationMatrix() {
   mat4.rotateY(viewMatrix, now * 0.05, viewMatrix);
 
   mat4.multiply(projectionMatrix, viewMatrix, modelViewProjectionMatrix);
+  mat4.getTranslation(mat4.inverse(viewMatrix), cameraPosition);
 
   return modelViewProjectionMatrix;
 }
@@ -343,7 +411,15 @@ function renderScene(
     passEncoder.setBindGroup(1, renderable.bindGroup);
     passEncoder.setVertexBuffer(0, renderable.vertices);
     passEncoder.setIndexBuffer(renderable.indices, 'uint16');
-    passEncoder.drawIndexed(renderable.indexCount);
+    if (settings.levelOfDetail) {
+      passEncoder.drawIndexedIndirect(
+        drawArgsBuffer,
+        count * kDrawIndexedIndirectSize
+      );
+    } else {
+      const { indexCount, firstIndex } = renderable.lodMesh.levels[0];
+      passEncoder.drawIndexed(indexCount, 1, firstIndex);
+    }
 
     if (++count > settings.asteroidCount) {
       break;
@@ -388,6 +464,9 @@ function frame() {
     transformationMatrix.byteOffset,
     transformationMatrix.byteLength
   );
+  if (settings.levelOfDetail) {
+    updateLevelsOfDetail();
+  }
   renderPassDescriptor.colorAttachments[0].view = context
     .getCurrentTexture()
     .createView();
@@ -3,11 +3,15 @@ export default {
   description: `This example shows how to use render bundles. It renders a large number of
     meshes individually as a proxy for a more complex scene in order to demonstrate the reduction
     in JavaScript time spent to issue render commands. (Typically a scene like this would make use
-    of instancing to reduce draw overhead.)`,
+    of instancing to reduce draw overhead.) Each mesh also has simplified levels of detail, picked every
+    frame by how large their error would be on screen. The level only changes the arguments of indirect
+    draws, so the render bundle doesn't need to be recorded again.`,
   filename: __DIRNAME__,
   sources: [
     { path: 'main.ts' },
     { path: 'mesh.wgsl' },
     { path: '../../meshes/sphere.ts' },
+    { path: '../../meshes/lod.ts' },
+    { path: '../../meshes/simplify.ts' },
   ],
 };
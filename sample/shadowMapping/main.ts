@@ -1,5 +1,8 @@
 import { mat4, vec3 } from 'wgpu-matrix';
+import { GUI } from 'dat.gui';
 import { mesh } from '../../meshes/stanfordDragon';
+import { Mesh, createIndexArray } from '../../meshes/mesh';
+import { kMeshFileExtensions, loadMesh } from '../../meshes/loadMesh';
 
 import vertexShadowWGSL from './vertexShadow.wgsl';
 import vertexWGSL from './vertex.wgsl';
@@ -27,36 +30,137 @@ context.configure({
   format: presentationFormat,
 });
 
-// Create the model vertex buffer.
-const vertexBuffer = device.createBuffer({
-  size: mesh.positions.length * 3 * 2 * Float32Array.BYTES_PER_ELEMENT,
-  usage: GPUBufferUsage.VERTEX,
-  mappedAtCreation: true,
-});
-{
-  const mapping = new Float32Array(vertexBuffer.getMappedRange());
-  for (let i = 0; i < mesh.positions.length; ++i) {
-    mapping.set(mesh.positions[i], 6 * i);
-    mapping.set(mesh.normals[i], 6 * i + 3);
-  }
+interface Model {
+  vertexBuffer: GPUBuffer;
+  indexBuffer: GPUBuffer;
+  indexFormat: GPUIndexFormat;
+  indexCount: number;
+}
+
+// Create the model's vertex and index buffers, from vertices with a position
+// and a normal each.
+function createModel(
+  vertices: Float32Array,
+  indices: Uint16Array | Uint32Array
+): Model {
+  const vertexBuffer = device.createBuffer({
+    size: vertices.byteLength,
+    usage: GPUBufferUsage.VERTEX,
+    mappedAtCreation: true,
+  });
+  new Float32Array(vertexBuffer.getMappedRange()).set(vertices);
   vertexBuffer.unmap();
+
+  // Mapped buffers need a size that's a multiple of 4 bytes
+  const indexBuffer = device.createBuffer({
+    size: Math.ceil(indices.byteLength / 4) * 4,
+    usage: GPUBufferUsage.INDEX,
+    mappedAtCreation: true,
+  });
+  new Uint8Array(indexBuffer.getMappedRange()).set(
+    new Uint8Array(indices.buffer, indices.byteOffset, indices.byteLength)
+  );
+  indexBuffer.unmap();
+
+  return {
+    vertexBuffer,
+    indexBuffer,
+    indexFormat: indices instanceof Uint16Array ? 'uint16' : 'uint32',
+    indexCount: indices.length,
+  };
 }
 
-// Create the model index buffer.
-const indexCount = mesh.triangles.length * 3;
-const indexBuffer = device.createBuffer({
-  size: indexCount * Uint16Array.BYTES_PER_ELEMENT,
-  usage: GPUBufferUsage.INDEX,
-  mappedAtCreation: true,
-});
-{
-  const mapping = new Uint16Array(indexBuffer.getMappedRange());
-  for (let i = 0; i < mesh.triangles.length; ++i) {
-    mapping.set(mesh.triangles[i], 3 * i);
+const dragonModel = createModel(
+  new Float32Array(
+    mesh.positions.flatMap((position, i) => [...position, ...mesh.normals[i]])
+  ),
+  new Uint16Array(mesh.triangles.flat())
+);
+let model = dragonModel;
+
+// Loaded models are scaled to about the size of the dragon and stand on a
+// ground plane like the dragon's
+const kLoadedModelSize = 100;
+const kGroundHeight = 20;
+const kGroundHalfSize = 100;
+
+function createModelFromMesh(loaded: Mesh): Model {
+  const floatsPerVertex = loaded.vertexStride / 4;
+  const vertexCount = loaded.vertices.length / floatsPerVertex;
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < vertexCount; ++i) {
+    for (let c = 0; c < 3; ++c) {
+      min[c] = Math.min(min[c], loaded.vertices[i * floatsPerVertex + c]);
+      max[c] = Math.max(max[c], loaded.vertices[i * floatsPerVertex + c]);
+    }
   }
-  indexBuffer.unmap();
+  const scale =
+    kLoadedModelSize /
+    Math.max(max[0] - min[0], max[1] - min[1], max[2] - min[2], 1e-6);
+  // Centered above the origin, with its lowest point on the ground
+  const offset = [
+    -scale * (min[0] + max[0]) * 0.5,
+    kGroundHeight - scale * min[1],
+    -scale * (min[2] + max[2]) * 0.5,
+  ];
+
+  const vertices = new Float32Array((vertexCount + 4) * 6);
+  for (let i = 0; i < vertexCount; ++i) {
+    for (let c = 0; c < 3; ++c) {
+      const value = loaded.vertices[i * floatsPerVertex + c];
+      vertices[6 * i + c] = value * scale + offset[c];
+      vertices[6 * i + 3 + c] = loaded.vertices[i * floatsPerVertex + 3 + c];
+    }
+  }
+  // prettier-ignore
+  vertices.set([
+    -kGroundHalfSize, kGroundHeight, -kGroundHalfSize, 0, 1, 0,
+     kGroundHalfSize, kGroundHeight,  kGroundHalfSize, 0, 1, 0,
+    -kGroundHalfSize, kGroundHeight,  kGroundHalfSize, 0, 1, 0,
+     kGroundHalfSize, kGroundHeight, -kGroundHalfSize, 0, 1, 0,
+  ], 6 * vertexCount);
+
+  const indices = Array.from(loaded.indices);
+  indices.push(...[0, 2, 1, 0, 1, 3].map((corner) => vertexCount + corner));
+  return createModel(vertices, createIndexArray(indices, vertexCount + 4));
+}
+
+// Models loaded from .obj, .ply or .stl files replace the dragon until it's
+// picked again
+function setModel(newModel: Model) {
+  if (model !== dragonModel) {
+    model.vertexBuffer.destroy();
+    model.indexBuffer.destroy();
+  }
+  model = newModel;
 }
 
+const modelFileInput = document.createElement('input');
+modelFileInput.type = 'file';
+modelFileInput.accept = kMeshFileExtensions.join(',');
+modelFileInput.addEventListener('change', async () => {
+  const file = modelFileInput.files?.[0];
+  modelFileInput.value = '';
+  if (!file) {
+    return;
+  }
+  try {
+    setModel(createModelFromMesh(await loadMesh(file)));
+  } catch (error) {
+    console.error('Failed to load the model:', error);
+    alert(`Failed to load ${file.name}: ${error}`);
+  }
+});
+
+const gui = new GUI();
+gui
+  .add({ loadModel: () => modelFileInput.click() }, 'loadModel')
+  .name(`Load model (${kMeshFileExtensions.join(', ')})`);
+gui
+  .add({ useDragon: () => setModel(dragonModel) }, 'useDragon')
+  .name('Stanford dragon');
+
 // Create the depth texture for rendering/sampling the shadow map.
 const shadowDepthTexture = device.createTexture({
   size: [shadowDepthTextureSize, shadowDepthTextureSize, 1],
@@ -357,9 +461,9 @@ function frame() {
     shadowPass.setPipeline(shadowPipeline);
     shadowPass.setBindGroup(0, sceneBindGroupForShadow);
     shadowPass.setBindGroup(1, modelBindGroup);
-    shadowPass.setVertexBuffer(0, vertexBuffer);
-    shadowPass.setIndexBuffer(indexBuffer, 'uint16');
-    shadowPass.drawIndexed(indexCount);
+    shadowPass.setVertexBuffer(0, model.vertexBuffer);
+    shadowPass.setIndexBuffer(model.indexBuffer, model.indexFormat);
+    shadowPass.drawIndexed(model.indexCount);
 
     shadowPass.end();
   }
@@ -368,9 +472,9 @@ function frame() {
     renderPass.setPipeline(pipeline);
     renderPass.setBindGroup(0, sceneBindGroupForRender);
     renderPass.setBindGroup(1, modelBindGroup);
-    renderPass.setVertexBuffer(0, vertexBuffer);
-    renderPass.setIndexBuffer(indexBuffer, 'uint16');
-    renderPass.drawIndexed(indexCount);
+    renderPass.setVertexBuffer(0, model.vertexBuffer);
+    renderPass.setIndexBuffer(model.indexBuffer, model.indexFormat);
+    renderPass.drawIndexed(model.indexCount);
 
     renderPass.end();
   }
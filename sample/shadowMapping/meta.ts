@@ -1,7 +1,7 @@
 export default {
   name: 'Shadow Mapping',
   description:
-    'This example shows how to sample from a depth texture to render shadows.',
+    'This example shows how to sample from a depth texture to render shadows. The Stanford dragon can be replaced with a .obj, .ply or .stl model loaded from a file.',
   filename: __DIRNAME__,
   sources: [
     { path: 'main.ts' },
@@ -1,8 +1,28 @@
 import { Quatn } from 'wgpu-matrix';
-import { Accessor, BufferView, GlTf, Scene } from './gltf';
-import { Mat4, Vec3n, mat4 } from 'wgpu-matrix';
+import {
+  Accessor,
+  AccessorSparse,
+  BufferView,
+  Camera,
+  GlTf,
+  Image,
+  Scene,
+} from './gltf';
+import { Mat4, Vec3n, mat4, quat } from 'wgpu-matrix';
+import { GLTFMaterial, createGLTFImageTexture } from './gltfMaterial';
+import {
+  GLTFAnimationChannel,
+  GLTFAnimationClip,
+  GLTFAnimationPath,
+  GLTFAnimationSampler,
+} from './gltfAnimation';
+import {
+  GLTFMorphTargets,
+  GLTFMorphedAttribute,
+  createGLTFMorphLayout,
+  kMorphedAttributes,
+} from './gltfMorph';
 
-//NOTE: GLTF code is not generally extensible to all gltf models
 // Modified from Will Usher code found at this link https://www.willusher.io/graphics/2023/05/16/0-to-gltf-first-mesh
 
 // Associates the mode paramete of a gltf primitive object with the primitive's intended render mode
@@ -84,28 +104,29 @@ const gltfDataStructureTypeNumComponents = (type: GLTFDataStructureType) => {
   }
 };
 
-// Note: only returns non-normalized type names,
-// so byte/ubyte = sint8/uint8, not snorm8/unorm8, same for ushort
+// Normalized byte/ubyte accessors are snorm8/unorm8, otherwise sint8/uint8,
+// same for short/ushort
 const gltfVertexType = (
   componentType: GLTFDataComponentType,
-  type: GLTFDataStructureType
+  type: GLTFDataStructureType,
+  normalized = false
 ) => {
   let typeStr = null;
   switch (componentType) {
     case GLTFDataComponentType.BYTE:
-      typeStr = 'sint8';
+      typeStr = normalized ? 'snorm8' : 'sint8';
       break;
     case GLTFDataComponentType.UNSIGNED_BYTE:
-      typeStr = 'uint8';
+      typeStr = normalized ? 'unorm8' : 'uint8';
       break;
     case GLTFDataComponentType.SHORT:
-      typeStr = 'sint16';
+      typeStr = normalized ? 'snorm16' : 'sint16';
       break;
     case GLTFDataComponentType.UNSIGNED_SHORT:
-      typeStr = 'uint16';
+      typeStr = normalized ? 'unorm16' : 'uint16';
       break;
     case GLTFDataComponentType.INT:
-      typeStr = 'int32';
+      typeStr = 'sint32';
       break;
     case GLTFDataComponentType.UNSIGNED_INT:
       typeStr = 'uint32';
@@ -133,10 +154,21 @@ const gltfVertexType = (
   }
 };
 
-const gltfElementSize = (
-  componentType: GLTFDataComponentType,
-  type: GLTFDataStructureType
-) => {
+// Rows of each column of a matrix type, or the components of a vector
+const gltfDataStructureTypeNumRows = (type: GLTFDataStructureType) => {
+  switch (type) {
+    case GLTFDataStructureType.MAT2:
+      return 2;
+    case GLTFDataStructureType.MAT3:
+      return 3;
+    case GLTFDataStructureType.MAT4:
+      return 4;
+    default:
+      return gltfDataStructureTypeNumComponents(type);
+  }
+};
+
+const gltfComponentSize = (componentType: GLTFDataComponentType) => {
   let componentSize = 0;
   switch (componentType) {
     case GLTFDataComponentType.BYTE:
@@ -166,52 +198,113 @@ const gltfElementSize = (
     default:
       throw Error('Unrecognized GLTF Component Type?');
   }
-  return gltfDataStructureTypeNumComponents(type) * componentSize;
+  return componentSize;
+};
+
+// Matrix columns start on 4 byte boundaries, which pads the columns of 1 and
+// 2 byte MAT2 and MAT3 elements
+const gltfColumnSize = (
+  componentType: GLTFDataComponentType,
+  type: GLTFDataStructureType
+) => {
+  const columnSize =
+    gltfDataStructureTypeNumRows(type) * gltfComponentSize(componentType);
+  return type >= GLTFDataStructureType.MAT2
+    ? alignTo(columnSize, 4)
+    : columnSize;
+};
+
+const gltfElementSize = (
+  componentType: GLTFDataComponentType,
+  type: GLTFDataStructureType
+) => {
+  const numColumns =
+    gltfDataStructureTypeNumComponents(type) /
+    gltfDataStructureTypeNumRows(type);
+  return numColumns * gltfColumnSize(componentType, type);
+};
+
+export type GLTFTypedArray =
+  | Int8Array
+  | Uint8Array
+  | Int16Array
+  | Uint16Array
+  | Int32Array
+  | Uint32Array
+  | Float32Array;
+
+const gltfComponentArrayType = (componentType: GLTFDataComponentType) => {
+  switch (componentType) {
+    case GLTFDataComponentType.BYTE:
+      return Int8Array;
+    case GLTFDataComponentType.UNSIGNED_BYTE:
+      return Uint8Array;
+    case GLTFDataComponentType.SHORT:
+      return Int16Array;
+    case GLTFDataComponentType.UNSIGNED_SHORT:
+      return Uint16Array;
+    case GLTFDataComponentType.INT:
+      return Int32Array;
+    case GLTFDataComponentType.UNSIGNED_INT:
+      return Uint32Array;
+    case GLTFDataComponentType.FLOAT:
+      return Float32Array;
+    default:
+      throw Error(`Unsupported glTF accessor component type ${componentType}`);
+  }
+};
+
+const readGltfComponent = (
+  data: DataView,
+  offset: number,
+  componentType: GLTFDataComponentType
+) => {
+  switch (componentType) {
+    case GLTFDataComponentType.BYTE:
+      return data.getInt8(offset);
+    case GLTFDataComponentType.UNSIGNED_BYTE:
+      return data.getUint8(offset);
+    case GLTFDataComponentType.SHORT:
+      return data.getInt16(offset, true);
+    case GLTFDataComponentType.UNSIGNED_SHORT:
+      return data.getUint16(offset, true);
+    case GLTFDataComponentType.INT:
+      return data.getInt32(offset, true);
+    case GLTFDataComponentType.UNSIGNED_INT:
+      return data.getUint32(offset, true);
+    case GLTFDataComponentType.FLOAT:
+      return data.getFloat32(offset, true);
+    default:
+      throw Error(`Unsupported glTF accessor component type ${componentType}`);
+  }
 };
 
-// Convert differently depending on if the shader is a vertex or compute shader
+// WebGPU has no 1 or 3 component 8 and 16-bit vertex formats
+const isSupportedVertexFormat = (
+  componentType: GLTFDataComponentType,
+  type: GLTFDataStructureType
+) => {
+  const numComponents = gltfDataStructureTypeNumComponents(type);
+  return (
+    gltfComponentSize(componentType) === 4 ||
+    numComponents === 2 ||
+    numComponents === 4
+  );
+};
+
+// Normalized and float formats are read as floats in the shader, the others
+// as signed or unsigned integers
 const convertGPUVertexFormatToWGSLFormat = (vertexFormat: GPUVertexFormat) => {
-  switch (vertexFormat) {
-    case 'float32': {
-      return 'f32';
-    }
-    case 'float32x2': {
-      return 'vec2f';
-    }
-    case 'float32x3': {
-      return 'vec3f';
-    }
-    case 'float32x4': {
-      return 'vec4f';
-    }
-    case 'uint32': {
-      return 'u32';
-    }
-    case 'uint32x2': {
-      return 'vec2u';
-    }
-    case 'uint32x3': {
-      return 'vec3u';
-    }
-    case 'uint32x4': {
-      return 'vec4u';
-    }
-    case 'uint8x2': {
-      return 'vec2u';
-    }
-    case 'uint8x4': {
-      return 'vec4u';
-    }
-    case 'uint16x4': {
-      return 'vec4u';
-    }
-    case 'uint16x2': {
-      return 'vec2u';
-    }
-    default: {
-      return 'f32';
-    }
+  const numComponents = Number(vertexFormat.match(/x(\d)$/)?.[1] ?? 1);
+  let scalarType = 'f32';
+  if (vertexFormat.startsWith('uint')) {
+    scalarType = 'u32';
+  } else if (vertexFormat.startsWith('sint')) {
+    scalarType = 'i32';
   }
+  return numComponents === 1
+    ? scalarType
+    : `vec${numComponents}${scalarType[0]}`;
 };
 
 export class GLTFBuffer {
@@ -273,16 +366,32 @@ export class GLTFBufferView {
   }
 }
 
+// Wrap data created on the CPU, like converted or sparse accessors, in a
+// buffer view
+export const createGLTFBufferView = (data: GLTFTypedArray) => {
+  return new GLTFBufferView(
+    new GLTFBuffer(
+      data.buffer as ArrayBuffer,
+      data.byteOffset,
+      data.byteLength
+    ),
+    { buffer: 0, byteLength: data.byteLength }
+  );
+};
+
 export class GLTFAccessor {
   count: number;
   componentType: GLTFDataComponentType;
   structureType: GLTFDataStructureType;
-  view: GLTFBufferView;
+  normalized: boolean;
+  // Accessors without a buffer view are all zeros
+  view?: GLTFBufferView;
   byteOffset: number;
-  constructor(view: GLTFBufferView, accessor: Accessor) {
+  constructor(view: GLTFBufferView | undefined, accessor: Accessor) {
     this.count = accessor['count'];
     this.componentType = accessor['componentType'];
     this.structureType = parseGltfDataStructureType(accessor['type']);
+    this.normalized = accessor['normalized'] ?? false;
     this.view = view;
     this.byteOffset = 0;
     if (accessor['byteOffset'] !== undefined) {
@@ -292,16 +401,114 @@ export class GLTFAccessor {
 
   get byteStride() {
     const elementSize = gltfElementSize(this.componentType, this.structureType);
-    return Math.max(elementSize, this.view.byteStride);
+    return Math.max(elementSize, this.view?.byteStride ?? 0);
   }
 
   get byteLength() {
     return this.count * this.byteStride;
   }
 
+  get numComponents() {
+    return gltfDataStructureTypeNumComponents(this.structureType);
+  }
+
   // Get the vertex attribute type for accessors that are used as vertex attributes
   get vertexType() {
-    return gltfVertexType(this.componentType, this.structureType);
+    return gltfVertexType(
+      this.componentType,
+      this.structureType,
+      this.normalized
+    );
+  }
+
+  // Vertex buffers are bound at the start of the element holding the
+  // attribute, since attribute offsets have to lie within the stride
+  get vertexBufferOffset() {
+    return this.byteOffset - this.vertexAttributeOffset;
+  }
+
+  // Attributes that would cross the end of the stride, like a tightly packed
+  // one starting partway into an element, are bound at their own offset
+  get vertexAttributeOffset() {
+    const offset = this.byteOffset % this.byteStride;
+    const elementSize = gltfElementSize(this.componentType, this.structureType);
+    return offset + elementSize > this.byteStride ? 0 : offset;
+  }
+
+  // Whether the accessor can be bound as a vertex buffer as is
+  get isVertexBufferCompatible() {
+    return (
+      this.view !== undefined &&
+      this.byteStride % 4 === 0 &&
+      this.vertexBufferOffset % 4 === 0 &&
+      isSupportedVertexFormat(this.componentType, this.structureType)
+    );
+  }
+
+  // Read the components of all elements into a tightly packed array of the
+  // component type, without normalizing them
+  getElements(): GLTFTypedArray {
+    const numComponents = this.numComponents;
+    const elements = new (gltfComponentArrayType(this.componentType))(
+      this.count * numComponents
+    );
+    if (!this.view) {
+      return elements;
+    }
+    const data = new DataView(
+      this.view.view.buffer,
+      this.view.view.byteOffset,
+      this.view.view.byteLength
+    );
+    const numRows = gltfDataStructureTypeNumRows(this.structureType);
+    const componentSize = gltfComponentSize(this.componentType);
+    const columnSize = gltfColumnSize(this.componentType, this.structureType);
+    for (let i = 0; i < this.count; ++i) {
+      const elementOffset = this.byteOffset + i * this.byteStride;
+      for (let c = 0; c < numComponents; ++c) {
+        const offset =
+          elementOffset +
+          Math.floor(c / numRows) * columnSize +
+          (c % numRows) * componentSize;
+        elements[i * numComponents + c] = readGltfComponent(
+          data,
+          offset,
+          this.componentType
+        );
+      }
+    }
+    return elements;
+  }
+
+  // Read the elements as floats, mapping normalized integers to [0, 1] or
+  // [-1, 1]
+  getFloatElements(): Float32Array {
+    const elements = this.getElements();
+    if (elements instanceof Float32Array) {
+      return elements;
+    }
+    const floats = Float32Array.from(elements);
+    if (this.normalized) {
+      let scale = 1;
+      switch (this.componentType) {
+        case GLTFDataComponentType.BYTE:
+          scale = 127;
+          break;
+        case GLTFDataComponentType.UNSIGNED_BYTE:
+          scale = 255;
+          break;
+        case GLTFDataComponentType.SHORT:
+          scale = 32767;
+          break;
+        case GLTFDataComponentType.UNSIGNED_SHORT:
+          scale = 65535;
+          break;
+      }
+      for (let i = 0; i < floats.length; ++i) {
+        floats[i] = Math.max(floats[i] / scale, -1);
+      }
+    }
+    return floats;
   }
 }
 
@@ -309,21 +516,66 @@ interface AttributeMapInterface {
   [key: string]: GLTFAccessor;
 }
 
+// Primitive topology for each render mode. Line loops and triangle fans have
+// none, the loader converts them to lists.
+const gltfPrimitiveTopology = (mode: GLTFRenderMode): GPUPrimitiveTopology => {
+  switch (mode) {
+    case GLTFRenderMode.POINTS:
+      return 'point-list';
+    case GLTFRenderMode.LINE:
+      return 'line-list';
+    case GLTFRenderMode.LINE_STRIP:
+      return 'line-strip';
+    case GLTFRenderMode.TRIANGLES:
+      return 'triangle-list';
+    case GLTFRenderMode.TRIANGLE_STRIP:
+      return 'triangle-strip';
+    default:
+      throw Error(`Unsupported primitive mode ${mode}`);
+  }
+};
+
+// Name of an attribute in the VertexInput struct, e.g. texcoord for
+// TEXCOORD_0 and texcoord_1 for TEXCOORD_1
+const gltfAttributeName = (attr: string) =>
+  attr.toLowerCase().replace(/_0$/, '');
+
+// Attributes read by gltfPBR.wgsl, other attributes aren't bound
+const kPBRAttributes = [
+  'POSITION',
+  'NORMAL',
+  'TANGENT',
+  'TEXCOORD_0',
+  'TEXCOORD_1',
+  'COLOR_0',
+  'JOINTS_0',
+  'WEIGHTS_0',
+];
+
 export class GLTFPrimitive {
   topology: GLTFRenderMode;
   renderPipeline: GPURenderPipeline;
+  material: GLTFMaterial;
+  // Group the material's bind group is set at, for PBR pipelines
+  materialGroup?: number;
+  // Blends the morphed attributes of primitives with morph targets
+  morphTargets?: GLTFMorphTargets;
   private attributeMap: AttributeMapInterface;
   private attributes: string[] = [];
+  // Attributes bound to the vertex buffer slots of the current pipeline
+  private pipelineAttributes: string[] = [];
   constructor(
     topology: GLTFRenderMode,
     attributeMap: AttributeMapInterface,
-    attributes: string[]
+    attributes: string[],
+    material: GLTFMaterial
   ) {
     this.topology = topology;
     this.renderPipeline = null;
     // Maps attribute names to accessors
     this.attributeMap = attributeMap;
     this.attributes = attributes;
+    this.material = material;
 
     for (const key in this.attributeMap) {
       this.attributeMap[key].view.needsUpload = true;
@@ -335,40 +587,64 @@ export class GLTFPrimitive {
     }
   }
 
-  buildRenderPipeline(
-    device: GPUDevice,
-    vertexShader: string,
-    fragmentShader: string,
-    colorFormat: GPUTextureFormat,
-    depthFormat: GPUTextureFormat,
-    bgLayouts: GPUBindGroupLayout[],
-    label: string
-  ) {
-    // For now, just check if the attributeMap contains a given attribute using map.has(), and add it if it does
-    // POSITION, NORMAL, TEXCOORD_0, JOINTS_0, WEIGHTS_0 for order
-    // Vertex attribute state and shader stage
+  // Vertex attribute state and the matching VertexInput struct, with one
+  // buffer per attribute
+  private createVertexInput(attributes: string[]) {
     let VertexInputShaderString = `struct VertexInput {\n`;
-    const vertexBuffers: GPUVertexBufferLayout[] = this.attributes.map(
+    const vertexBuffers: GPUVertexBufferLayout[] = attributes.map(
       (attr, idx) => {
         const vertexFormat: GPUVertexFormat =
           this.attributeMap[attr].vertexType;
-        const attrString = attr.toLowerCase().replace(/_0$/, '');
-        VertexInputShaderString += `\t@location(${idx}) ${attrString}: ${convertGPUVertexFormatToWGSLFormat(
-          vertexFormat
-        )},\n`;
+        VertexInputShaderString += `\t@location(${idx}) ${gltfAttributeName(
+          attr
+        )}: ${convertGPUVertexFormatToWGSLFormat(vertexFormat)},\n`;
         return {
           arrayStride: this.attributeMap[attr].byteStride,
           attributes: [
             {
               format: this.attributeMap[attr].vertexType,
-              offset: this.attributeMap[attr].byteOffset,
+              offset: this.attributeMap[attr].vertexAttributeOffset,
               shaderLocation: idx,
             },
           ],
         } as GPUVertexBufferLayout;
       }
     );
-    VertexInputShaderString += '}';
+    VertexInputShaderString += '}\n';
+    this.pipelineAttributes = attributes;
+    return { VertexInputShaderString, vertexBuffers };
+  }
+
+  private createPrimitiveState(cullMode: GPUCullMode = 'none') {
+    const primitive: GPUPrimitiveState = {
+      topology: gltfPrimitiveTopology(this.topology),
+      cullMode,
+    };
+    if (
+      (this.topology == GLTFRenderMode.TRIANGLE_STRIP ||
+        this.topology == GLTFRenderMode.LINE_STRIP) &&
+      this.attributeMap['INDICES']
+    ) {
+      primitive.stripIndexFormat = this.attributeMap['INDICES'].vertexType;
+    }
+    return primitive;
+  }
+
+  buildRenderPipeline(
+    device: GPUDevice,
+    vertexShader: string,
+    fragmentShader: string,
+    colorFormat: GPUTextureFormat,
+    depthFormat: GPUTextureFormat,
+    bgLayouts: GPUBindGroupLayout[],
+    label: string
+  ) {
+    // For now, just check if the attributeMap contains a given attribute using map.has(), and add it if it does
+    // POSITION, NORMAL, TEXCOORD_0, JOINTS_0, WEIGHTS_0 for order
+    // Vertex attribute state and shader stage
+    const { VertexInputShaderString, vertexBuffers } = this.createVertexInput(
+      this.attributes
+    );
 
     const vertexState: GPUVertexState = {
       // Shader stage info
@@ -387,14 +663,6 @@ export class GLTFPrimitive {
       targets: [{ format: colorFormat }],
     };
 
-    // Our loader only supports triangle lists and strips, so by default we set
-    // the primitive topology to triangle list, and check if it's instead a triangle strip
-    const primitive: GPUPrimitiveState = { topology: 'triangle-list' };
-    if (this.topology == GLTFRenderMode.TRIANGLE_STRIP) {
-      primitive.topology = 'triangle-strip';
-      primitive.stripIndexFormat = this.attributeMap['INDICES'].vertexType;
-    }
-
     const layout: GPUPipelineLayout = device.createPipelineLayout({
       bindGroupLayouts: bgLayouts,
       label: `${label}.pipelineLayout`,
@@ -405,7 +673,7 @@ export class GLTFPrimitive {
       label: `${label}.pipeline`,
       vertex: vertexState,
       fragment: fragmentState,
-      primitive: primitive,
+      primitive: this.createPrimitiveState(),
       depthStencil: {
         format: depthFormat,
         depthWriteEnabled: true,
@@ -414,6 +682,137 @@ export class GLTFPrimitive {
     };
 
     this.renderPipeline = device.createRenderPipeline(rpDescript);
+    this.materialGroup = undefined;
+  }
+
+  // Build a pipeline shading the primitive with its material. The shader
+  // is gltfPBR.wgsl, bgLayouts hold its frame and node uniforms and, last at
+  // skinGroup, the skin of skinned primitives. The material's bind group
+  // follows them, taking the skin's place for unskinned primitives, whose
+  // nodes don't bind a skin.
+  buildPBRRenderPipeline(
+    device: GPUDevice,
+    shader: string,
+    colorFormat: GPUTextureFormat,
+    depthFormat: GPUTextureFormat,
+    bgLayouts: GPUBindGroupLayout[],
+    skinGroup: number | undefined,
+    label: string
+  ) {
+    const { VertexInputShaderString, vertexBuffers } = this.createVertexInput(
+      kPBRAttributes.filter((attr) => this.attributeMap[attr])
+    );
+
+    // Read an attribute as a vector of type, or use fallback when the
+    // primitive doesn't have it
+    const read = (
+      attr: string,
+      type: string,
+      swizzle: string,
+      fallback: string
+    ) =>
+      this.attributeMap[attr]
+        ? `${type}(input.${gltfAttributeName(attr)}.${swizzle})`
+        : fallback;
+    const color =
+      this.attributeMap['COLOR_0']?.numComponents === 3
+        ? `vec4f(${read('COLOR_0', 'vec3f', 'xyz', '')}, 1.0)`
+        : read('COLOR_0', 'vec4f', 'xyzw', 'vec4f(1.0)');
+    const skinned =
+      skinGroup !== undefined &&
+      this.attributeMap['JOINTS_0'] !== undefined &&
+      this.attributeMap['WEIGHTS_0'] !== undefined;
+    const layouts = skinned ? bgLayouts : bgLayouts.slice(0, skinGroup);
+    const materialGroup = layouts.length;
+
+    const glueShaderString = `
+const material_group = ${materialGroup};
+
+fn get_vertex(input: VertexInput) -> Vertex {
+  var vertex: Vertex;
+  vertex.position = ${read('POSITION', 'vec3f', 'xyz', '')};
+  vertex.normal = ${read('NORMAL', 'vec3f', 'xyz', 'vec3f(0.0)')};
+  vertex.tangent = ${read('TANGENT', 'vec4f', 'xyzw', 'vec4f(0.0)')};
+  vertex.texcoord0 = ${read('TEXCOORD_0', 'vec2f', 'xy', 'vec2f(0.0)')};
+  vertex.texcoord1 = ${read('TEXCOORD_1', 'vec2f', 'xy', 'vec2f(0.0)')};
+  vertex.color = ${color};
+  vertex.joints = ${read('JOINTS_0', 'vec4u', 'xyzw', 'vec4u(0u)')};
+  vertex.weights = ${read('WEIGHTS_0', 'vec4f', 'xyzw', 'vec4f(0.0)')};
+  return vertex;
+}
+${
+  skinned
+    ? `
+@group(${skinGroup}) @binding(0) var<storage, read> joint_matrices: array<mat4x4f>;
+@group(${skinGroup}) @binding(1) var<storage, read> inverse_bind_matrices: array<mat4x4f>;
+
+fn get_skin_matrix(vertex: Vertex) -> mat4x4f {
+  var skin_matrix = mat4x4f();
+  for (var i = 0u; i < 4u; i++) {
+    let joint = vertex.joints[i];
+    skin_matrix += joint_matrices[joint] * inverse_bind_matrices[joint] * vertex.weights[i];
+  }
+  return skin_matrix;
+}
+`
+    : `
+fn get_skin_matrix(vertex: Vertex) -> mat4x4f {
+  return mat4x4f(1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1);
+}
+`
+}`;
+    const module = device.createShaderModule({
+      label: `${label}.shader`,
+      code: VertexInputShaderString + glueShaderString + shader,
+    });
+
+    const layout: GPUPipelineLayout = device.createPipelineLayout({
+      bindGroupLayouts: [...layouts, GLTFMaterial.bindGroupLayout],
+      label: `${label}.pipelineLayout`,
+    });
+
+    // Blended primitives are drawn over the opaque ones without hiding what's
+    // behind them
+    const blended = this.material.alphaMode === 'BLEND';
+    const fragmentState: GPUFragmentState = {
+      module,
+      targets: [
+        {
+          format: colorFormat,
+          blend: blended
+            ? {
+                color: {
+                  srcFactor: 'src-alpha',
+                  dstFactor: 'one-minus-src-alpha',
+                },
+                alpha: {
+                  srcFactor: 'one',
+                  dstFactor: 'one-minus-src-alpha',
+                },
+              }
+            : undefined,
+        },
+      ],
+    };
+
+    this.renderPipeline = device.createRenderPipeline({
+      layout,
+      label: `${label}.pipeline`,
+      vertex: {
+        module,
+        buffers: vertexBuffers,
+      },
+      fragment: fragmentState,
+      primitive: this.createPrimitiveState(
+        this.material.doubleSided ? 'none' : 'back'
+      ),
+      depthStencil: {
+        format: depthFormat,
+        depthWriteEnabled: !blended,
+        depthCompare: 'less',
+      },
+    });
+    this.materialGroup = materialGroup;
   }
 
   render(renderPassEncoder: GPURenderPassEncoder, bindGroups: GPUBindGroup[]) {
@@ -421,14 +820,21 @@ export class GLTFPrimitive {
     bindGroups.forEach((bg, idx) => {
       renderPassEncoder.setBindGroup(idx, bg);
     });
+    if (this.materialGroup !== undefined) {
+      renderPassEncoder.setBindGroup(
+        this.materialGroup,
+        this.material.bindGroup
+      );
+    }
 
     //if skin do something with bone bind group
-    this.attributes.map((attr, idx) => {
+    this.pipelineAttributes.map((attr, idx) => {
+      // The rest of the buffer is bound, the last element of an interleaved
+      // attribute can end before a full stride
       renderPassEncoder.setVertexBuffer(
         idx,
         this.attributeMap[attr].view.gpuBuffer,
-        this.attributeMap[attr].byteOffset,
-        this.attributeMap[attr].byteLength
+        this.attributeMap[attr].vertexBufferOffset
       );
     });
 
@@ -449,9 +855,16 @@ export class GLTFPrimitive {
 export class GLTFMesh {
   name: string;
   primitives: GLTFPrimitive[];
-  constructor(name: string, primitives: GLTFPrimitive[]) {
+  // Names of the morph targets, from the mesh's extras
+  targetNames: string[];
+  constructor(
+    name: string,
+    primitives: GLTFPrimitive[],
+    targetNames: string[] = []
+  ) {
     this.name = name;
     this.primitives = primitives;
+    this.targetNames = targetNames;
   }
 
   buildRenderPipeline(
@@ -477,10 +890,43 @@ export class GLTFMesh {
     }
   }
 
-  render(renderPassEncoder: GPURenderPassEncoder, bindGroups: GPUBindGroup[]) {
+  buildPBRRenderPipeline(
+    device: GPUDevice,
+    shader: string,
+    colorFormat: GPUTextureFormat,
+    depthFormat: GPUTextureFormat,
+    bgLayouts: GPUBindGroupLayout[],
+    skinGroup?: number
+  ) {
+    for (let i = 0; i < this.primitives.length; ++i) {
+      this.primitives[i].buildPBRRenderPipeline(
+        device,
+        shader,
+        colorFormat,
+        depthFormat,
+        bgLayouts,
+        skinGroup,
+        `PrimitivePBRPipeline${i}`
+      );
+    }
+  }
+
+  // Draw the primitives, or only those with or without a blended material.
+  // Blended primitives should be drawn after all the others.
+  render(
+    renderPassEncoder: GPURenderPassEncoder,
+    bindGroups: GPUBindGroup[],
+    blended?: boolean
+  ) {
     // We take a pretty simple approach to start. Just loop through all the primitives and
     // call their individual draw methods
     for (let i = 0; i < this.primitives.length; ++i) {
+      if (
+        blended !== undefined &&
+        (this.primitives[i].material.alphaMode === 'BLEND') !== blended
+      ) {
+        continue;
+      }
       this.primitives[i].render(renderPassEncoder, bindGroups);
     }
   }
@@ -503,11 +949,17 @@ export const validateBinaryHeader = (header: Uint32Array) => {
   }
 };
 
-type TempReturn = {
+export type GLTFLoadResult = {
   meshes: GLTFMesh[];
   nodes: GLTFNode[];
   scenes: GLTFScene[];
+  // The scene to show at load time
+  scene?: GLTFScene;
   skins: GLTFSkin[];
+  materials: GLTFMaterial[];
+  cameras: GLTFCamera[];
+  textures: GPUTexture[];
+  animations: GLTFAnimationClip[];
 };
 
 export class BaseTransformation {
@@ -528,17 +980,73 @@ export class BaseTransformation {
   }
   getMatrix(): Mat4 {
     // Analagous to let transformationMatrix: mat4x4f = translation * rotation * scale;
-    const dst = mat4.identity();
-    // Scale the transformation Matrix
-    mat4.scale(dst, this.scale, dst);
+    const dst = mat4.translation(this.position);
     // Calculate the rotationMatrix from the quaternion
     const rotationMatrix = mat4.fromQuat(this.rotation);
-    // Apply the rotation Matrix to the scaleMatrix (rotMat * scaleMat)
-    mat4.multiply(rotationMatrix, dst, dst);
-    // Translate the transformationMatrix
-    mat4.translate(dst, this.position, dst);
+    // Apply the rotation Matrix to the translationMatrix (transMat * rotMat)
+    mat4.multiply(dst, rotationMatrix, dst);
+    // Scale the transformation Matrix (transMat * rotMat * scaleMat)
+    mat4.scale(dst, this.scale, dst);
     return dst;
   }
+
+  // Split a node's matrix into the translation, rotation and scale that
+  // animations target
+  static fromMatrix(matrix: number[]): BaseTransformation {
+    const m = mat4.create(...matrix);
+    const position = mat4.getTranslation(m);
+    const scale = mat4.getScaling(m);
+    // A mirroring matrix gets a negative scale
+    if (mat4.determinant(m) < 0) {
+      scale[0] = -scale[0];
+    }
+    for (let column = 0; column < 3; ++column) {
+      for (let row = 0; row < 3; ++row) {
+        m[column * 4 + row] /= scale[column] || 1;
+      }
+    }
+    const rotation = quat.fromMat(m);
+    return new BaseTransformation(
+      Array.from(position),
+      Array.from(rotation),
+      Array.from(scale)
+    );
+  }
+}
+
+export class GLTFCamera {
+  name?: string;
+  type: 'perspective' | 'orthographic';
+  private camera: Camera;
+
+  constructor(camera: Camera) {
+    if (camera.type !== 'perspective' && camera.type !== 'orthographic') {
+      throw Error(`Unknown glTF camera type ${camera.type}`);
+    }
+    if (!camera[camera.type]) {
+      throw Error(`glTF ${camera.type} camera has no ${camera.type} settings`);
+    }
+    this.name = camera.name;
+    this.type = camera.type;
+    this.camera = camera;
+  }
+
+  // Perspective cameras without an aspect ratio use the viewport's. Cameras
+  // look down -Z of their node, so the node's inverse world matrix is the view
+  // matrix.
+  getProjectionMatrix(viewportAspectRatio: number): Mat4 {
+    if (this.type === 'perspective') {
+      const { yfov, aspectRatio, znear, zfar } = this.camera.perspective;
+      return mat4.perspective(
+        yfov,
+        aspectRatio ?? viewportAspectRatio,
+        znear,
+        zfar ?? Infinity
+      );
+    }
+    const { xmag, ymag, znear, zfar } = this.camera.orthographic;
+    return mat4.ortho(-xmag, xmag, -ymag, ymag, znear, zfar);
+  }
 }
 
 export class GLTFNode {
@@ -553,6 +1061,9 @@ export class GLTFNode {
   drawables: GLTFMesh[];
   test = 0;
   skin?: GLTFSkin;
+  camera?: GLTFCamera;
+  // Morph target weights of the node's mesh
+  weights: number[] = [];
   private nodeTransformGPUBuffer: GPUBuffer;
   private nodeTransformBindGroup: GPUBindGroup;
 
@@ -628,29 +1139,49 @@ export class GLTFNode {
     }
   }
 
+  // Blend the morph targets of the node's meshes, and its children's, with
+  // their weights
+  encodeMorphTargets(device: GPUDevice, passEncoder: GPUComputePassEncoder) {
+    for (const drawable of this.drawables) {
+      for (const primitive of drawable.primitives) {
+        primitive.morphTargets?.encode(device, passEncoder, this.weights);
+      }
+    }
+    for (const child of this.children) {
+      child.encodeMorphTargets(device, passEncoder);
+    }
+  }
+
+  // See GLTFMesh.render() for blended
   renderDrawables(
     passEncoder: GPURenderPassEncoder,
-    bindGroups: GPUBindGroup[]
+    bindGroups: GPUBindGroup[],
+    blended?: boolean
   ) {
     if (this.drawables !== undefined) {
       for (const drawable of this.drawables) {
         if (this.skin) {
-          drawable.render(passEncoder, [
-            ...bindGroups,
-            this.nodeTransformBindGroup,
-            this.skin.skinBindGroup,
-          ]);
+          drawable.render(
+            passEncoder,
+            [
+              ...bindGroups,
+              this.nodeTransformBindGroup,
+              this.skin.skinBindGroup,
+            ],
+            blended
+          );
         } else {
-          drawable.render(passEncoder, [
-            ...bindGroups,
-            this.nodeTransformBindGroup,
-          ]);
+          drawable.render(
+            passEncoder,
+            [...bindGroups, this.nodeTransformBindGroup],
+            blended
+          );
         }
       }
     }
     // Render any of its children
     for (const child of this.children) {
-      child.renderDrawables(passEncoder, bindGroups);
+      child.renderDrawables(passEncoder, bindGroups, blended);
     }
   }
 
@@ -674,7 +1205,7 @@ export class GLTFScene {
     nodeTransformBGL: GPUBindGroupLayout,
     baseScene: Scene
   ) {
-    this.nodes = baseScene.nodes;
+    this.nodes = baseScene.nodes ?? [];
     this.name = baseScene.name;
     this.root = new GLTFNode(
       device,
@@ -736,18 +1267,14 @@ export class GLTFSkin {
     if (
       inverseBindMatricesAccessor.componentType !==
         GLTFDataComponentType.FLOAT ||
-      inverseBindMatricesAccessor.byteStride !== 64
+      inverseBindMatricesAccessor.structureType !== GLTFDataStructureType.MAT4
     ) {
       throw Error(
         `This skin's provided accessor does not access a mat4x4f matrix, or does not access the provided mat4x4f data correctly`
       );
     }
-    // NOTE: Come back to this uint8array to float32array conversion in case it is incorrect
-    this.inverseBindMatrices = new Float32Array(
-      inverseBindMatricesAccessor.view.view.buffer,
-      inverseBindMatricesAccessor.view.view.byteOffset,
-      inverseBindMatricesAccessor.view.view.byteLength / 4
-    );
+    this.inverseBindMatrices =
+      inverseBindMatricesAccessor.getElements() as Float32Array;
     this.joints = joints;
     const skinGPUBufferUsage: GPUBufferDescriptor = {
       size: Float32Array.BYTES_PER_ELEMENT * 16 * joints.length,
@@ -801,134 +1328,423 @@ export class GLTFSkin {
   }
 }
 
-// Upload a GLB model, parse its JSON and Binary components, and create the requisite GPU resources
-// to render them. NOTE: Not extensible to all GLTF contexts at this point in time
-export const convertGLBToJSONAndBinary = async (
-  buffer: ArrayBuffer,
-  device: GPUDevice
-): Promise<TempReturn> => {
-  // Binary GLTF layout: https://cdn.willusher.io/webgpu-0-to-gltf/glb-layout.svg
-  const jsonHeader = new DataView(buffer, 0, 20);
-  validateGLBHeader(jsonHeader);
+// Extensions the loader handles, files requiring any other are rejected
+const kSupportedGLTFExtensions = ['KHR_mesh_quantization'];
 
-  // Length of the jsonChunk found at jsonHeader[12 - 15]
-  const jsonChunkLength = jsonHeader.getUint32(12, true);
+// Fetch a buffer or image uri, which is relative to the glTF file or a data: uri
+const fetchGLTFUri = async (uri: string, baseURL: string) => {
+  const response = await fetch(new URL(uri, baseURL));
+  if (!response.ok) {
+    throw Error(`Failed to load glTF resource ${uri} (${response.status})`);
+  }
+  return response;
+};
 
-  // Parse the JSON chunk of the glB file to a JSON object
-  const jsonChunk: GlTf = JSON.parse(
-    new TextDecoder('utf-8').decode(new Uint8Array(buffer, 20, jsonChunkLength))
+// Load the data of each buffer. A GLB's binary chunk is the first buffer,
+// which has no uri.
+const loadGLTFBuffers = (
+  json: GlTf,
+  baseURL: string,
+  binaryChunk?: GLTFBuffer
+): Promise<GLTFBuffer[]> => {
+  return Promise.all(
+    (json.buffers ?? []).map(async (buffer, idx) => {
+      if (buffer.uri === undefined) {
+        if (idx !== 0 || !binaryChunk) {
+          throw Error(`glTF buffer ${idx} has no uri`);
+        }
+        return binaryChunk;
+      }
+      const response = await fetchGLTFUri(buffer.uri, baseURL);
+      const data = await response.arrayBuffer();
+      if (data.byteLength < buffer.byteLength) {
+        throw Error(
+          `glTF buffer ${idx} has ${data.byteLength} bytes, expected ${buffer.byteLength}`
+        );
+      }
+      return new GLTFBuffer(data, 0, buffer.byteLength);
+    })
   );
+};
 
-  // Binary data located after jsonChunk
-  const binaryHeader = new Uint32Array(buffer, 20 + jsonChunkLength, 2);
-  validateBinaryHeader(binaryHeader);
+// Decode an image stored in a buffer view or at a uri
+const loadGLTFImage = async (
+  image: Image,
+  bufferViews: GLTFBufferView[],
+  baseURL: string
+): Promise<ImageBitmap> => {
+  let blob: Blob;
+  if (image.bufferView !== undefined) {
+    blob = new Blob([bufferViews[image.bufferView].view], {
+      type: image.mimeType,
+    });
+  } else if (image.uri !== undefined) {
+    blob = await (await fetchGLTFUri(image.uri, baseURL)).blob();
+  } else {
+    throw Error(`glTF image ${image.name ?? ''} has no data`);
+  }
+  return createImageBitmap(blob, {
+    colorSpaceConversion: 'none',
+    premultiplyAlpha: 'none',
+  });
+};
 
-  const binaryChunk = new GLTFBuffer(
-    buffer,
-    28 + jsonChunkLength,
-    binaryHeader[0]
-  );
+// Overwrite the elements a sparse accessor lists with its values
+const applySparseValues = (
+  accessor: GLTFAccessor,
+  sparse: AccessorSparse,
+  bufferViews: GLTFBufferView[]
+): GLTFTypedArray => {
+  const elements = accessor.getElements();
+  const numComponents = accessor.numComponents;
+  const indices = new GLTFAccessor(bufferViews[sparse.indices.bufferView], {
+    count: sparse.count,
+    componentType: sparse.indices.componentType,
+    type: 'SCALAR',
+    byteOffset: sparse.indices.byteOffset,
+  }).getElements();
+  const values = new GLTFAccessor(bufferViews[sparse.values.bufferView], {
+    count: sparse.count,
+    componentType: accessor.componentType,
+    type: GLTFDataStructureType[accessor.structureType],
+    byteOffset: sparse.values.byteOffset,
+  }).getElements();
+  for (let i = 0; i < sparse.count; ++i) {
+    elements.set(
+      values.subarray(i * numComponents, (i + 1) * numComponents),
+      indices[i] * numComponents
+    );
+  }
+  return elements;
+};
+
+// WebGPU has no line loop or triangle fan topology, so they are drawn as line
+// and triangle lists
+const convertLineLoop = (indices: ArrayLike<number>) => {
+  const lines: number[] = [];
+  for (let i = 0; i < indices.length && indices.length > 1; ++i) {
+    lines.push(indices[i], indices[(i + 1) % indices.length]);
+  }
+  return lines;
+};
+
+const convertTriangleFan = (indices: ArrayLike<number>) => {
+  const triangles: number[] = [];
+  for (let i = 1; i + 1 < indices.length; ++i) {
+    triangles.push(indices[0], indices[i], indices[i + 1]);
+  }
+  return triangles;
+};
+
+// Create the GPU resources of a glTF file, given the data of its buffers
+const createGLTFResources = async (
+  json: GlTf,
+  buffers: GLTFBuffer[],
+  device: GPUDevice,
+  baseURL: string
+): Promise<GLTFLoadResult> => {
+  if (!json.asset?.version?.startsWith('2.')) {
+    throw Error(`Unsupported glTF version ${json.asset?.version}`);
+  }
+  for (const extension of json.extensionsRequired ?? []) {
+    if (!kSupportedGLTFExtensions.includes(extension)) {
+      throw Error(`Unsupported required glTF extension ${extension}`);
+    }
+  }
 
   //Const populate missing properties of jsonChunk
-  for (const accessor of jsonChunk.accessors) {
+  for (const accessor of json.accessors ?? []) {
     accessor.byteOffset = accessor.byteOffset ?? 0;
     accessor.normalized = accessor.normalized ?? false;
   }
 
-  for (const bufferView of jsonChunk.bufferViews) {
+  for (const bufferView of json.bufferViews ?? []) {
     bufferView.byteOffset = bufferView.byteOffset ?? 0;
   }
 
-  if (jsonChunk.samplers) {
-    for (const sampler of jsonChunk.samplers) {
+  if (json.samplers) {
+    for (const sampler of json.samplers) {
       sampler.wrapS = sampler.wrapS ?? 10497; //GL.REPEAT
-      sampler.wrapT = sampler.wrapT ?? 10947; //GL.REPEAT
-    }
-  }
-
-  //Mark each accessor with its intended usage within the vertexShader.
-  //Often necessary due to infrequencey with which the BufferView target field is populated.
-  for (const mesh of jsonChunk.meshes) {
-    for (const primitive of mesh.primitives) {
-      if ('indices' in primitive) {
-        const accessor = jsonChunk.accessors[primitive.indices];
-        jsonChunk.accessors[primitive.indices].bufferViewUsage |=
-          GPUBufferUsage.INDEX;
-        jsonChunk.bufferViews[accessor.bufferView].usage |=
-          GPUBufferUsage.INDEX;
-      }
-      for (const attribute of Object.values(primitive.attributes)) {
-        const accessor = jsonChunk.accessors[attribute];
-        jsonChunk.accessors[attribute].bufferViewUsage |= GPUBufferUsage.VERTEX;
-        jsonChunk.bufferViews[accessor.bufferView].usage |=
-          GPUBufferUsage.VERTEX;
-      }
+      sampler.wrapT = sampler.wrapT ?? 10497; //GL.REPEAT
     }
   }
 
   // Create GLTFBufferView objects for all the buffer views in the glTF file
   const bufferViews: GLTFBufferView[] = [];
-  for (let i = 0; i < jsonChunk.bufferViews.length; ++i) {
-    bufferViews.push(new GLTFBufferView(binaryChunk, jsonChunk.bufferViews[i]));
+  for (const bufferView of json.bufferViews ?? []) {
+    bufferViews.push(
+      new GLTFBufferView(buffers[bufferView.buffer], bufferView)
+    );
   }
+  // Views of data converted on load, uploaded along with the file's views
+  const addBufferView = (data: GLTFTypedArray) => {
+    const view = createGLTFBufferView(data);
+    bufferViews.push(view);
+    return view;
+  };
 
   const accessors: GLTFAccessor[] = [];
-  for (let i = 0; i < jsonChunk.accessors.length; ++i) {
-    const accessorInfo = jsonChunk.accessors[i];
+  for (const accessorInfo of json.accessors ?? []) {
     const viewID = accessorInfo['bufferView'];
-    accessors.push(new GLTFAccessor(bufferViews[viewID], accessorInfo));
+    let accessor = new GLTFAccessor(bufferViews[viewID], accessorInfo);
+    if (accessorInfo.sparse) {
+      const elements = applySparseValues(
+        accessor,
+        accessorInfo.sparse,
+        bufferViews
+      );
+      accessor = new GLTFAccessor(addBufferView(elements), {
+        ...accessorInfo,
+        byteOffset: 0,
+      });
+    }
+    accessors.push(accessor);
   }
-  // Load the first mesh
+
+  // Vertex buffers need strides aligned to 4 bytes and formats WebGPU has,
+  // other attributes are widened to 32-bit components
+  const vertexAccessors = new Map<GLTFAccessor, GLTFAccessor>();
+  const toVertexAccessor = (accessor: GLTFAccessor) => {
+    if (accessor.isVertexBufferCompatible) {
+      return accessor;
+    }
+    let converted = vertexAccessors.get(accessor);
+    if (!converted) {
+      let elements: GLTFTypedArray;
+      let componentType = GLTFDataComponentType.FLOAT;
+      if (
+        accessor.normalized ||
+        accessor.componentType === GLTFDataComponentType.FLOAT
+      ) {
+        elements = accessor.getFloatElements();
+      } else if (
+        accessor.componentType === GLTFDataComponentType.BYTE ||
+        accessor.componentType === GLTFDataComponentType.SHORT
+      ) {
+        elements = Int32Array.from(accessor.getElements());
+        componentType = GLTFDataComponentType.INT;
+      } else {
+        elements = Uint32Array.from(accessor.getElements());
+        componentType = GLTFDataComponentType.UNSIGNED_INT;
+      }
+      converted = new GLTFAccessor(addBufferView(elements), {
+        count: accessor.count,
+        componentType,
+        type: GLTFDataStructureType[accessor.structureType],
+      });
+      vertexAccessors.set(accessor, converted);
+    }
+    return converted;
+  };
+
+  // Index buffers are 16 or 32-bit
+  const createIndexAccessor = (indices: ArrayLike<number>) => {
+    let maxIndex = 0;
+    for (let i = 0; i < indices.length; ++i) {
+      maxIndex = Math.max(maxIndex, indices[i]);
+    }
+    const data =
+      maxIndex < 0xffff ? Uint16Array.from(indices) : Uint32Array.from(indices);
+    return new GLTFAccessor(addBufferView(data), {
+      count: data.length,
+      componentType:
+        data instanceof Uint16Array
+          ? GLTFDataComponentType.UNSIGNED_SHORT
+          : GLTFDataComponentType.UNSIGNED_INT,
+      type: 'SCALAR',
+    });
+  };
+
+  // Decode the images and create the materials' textures, sRGB or linear
+  // depending on which material slots use them
+  const images = await Promise.all(
+    (json.images ?? []).map((image) =>
+      loadGLTFImage(image, bufferViews, baseURL)
+    )
+  );
+  const imageTextures = new Map<string, GPUTexture>();
+  const getTexture = (index: number, srgb: boolean) => {
+    const texture = json.textures[index];
+    if (texture.source === undefined) {
+      throw Error(`glTF texture ${index} has no image`);
+    }
+    const key = `${texture.source}.${srgb}`;
+    let gpuTexture = imageTextures.get(key);
+    if (!gpuTexture) {
+      gpuTexture = createGLTFImageTexture(
+        device,
+        images[texture.source],
+        srgb,
+        json.images[texture.source].name ?? `image${texture.source}`
+      );
+      imageTextures.set(key, gpuTexture);
+    }
+    const sampler =
+      texture.sampler !== undefined
+        ? json.samplers[texture.sampler]
+        : { wrapS: 10497, wrapT: 10497 };
+    return { texture: gpuTexture, sampler };
+  };
+  GLTFMaterial.createSharedBindGroupLayout(device);
+  const materials = (json.materials ?? []).map(
+    (material) => new GLTFMaterial(device, material, getTexture)
+  );
+  for (const image of images) {
+    image.close();
+  }
+  let defaultMaterial: GLTFMaterial | undefined;
+  const getMaterial = (index?: number) => {
+    if (index !== undefined) {
+      return materials[index];
+    }
+    defaultMaterial = defaultMaterial ?? new GLTFMaterial(device);
+    return defaultMaterial;
+  };
+
+  // Morph targets of primitives, created once their morphed values are
+  // uploaded
+  const morphedPrimitives: {
+    primitive: GLTFPrimitive;
+    view: GLTFBufferView;
+    targets: Float32Array;
+    count: number;
+  }[] = [];
+
   const meshes: GLTFMesh[] = [];
-  for (let i = 0; i < jsonChunk.meshes.length; i++) {
-    const mesh = jsonChunk.meshes[i];
+  for (let i = 0; i < (json.meshes ?? []).length; i++) {
+    const mesh = json.meshes[i];
     const meshPrimitives: GLTFPrimitive[] = [];
     for (let j = 0; j < mesh.primitives.length; ++j) {
       const prim = mesh.primitives[j];
-      let topology = prim['mode'];
-      // Default is triangles if mode specified
-      if (topology === undefined) {
-        topology = GLTFRenderMode.TRIANGLES;
-      }
-      if (
-        topology != GLTFRenderMode.TRIANGLES &&
-        topology != GLTFRenderMode.TRIANGLE_STRIP
-      ) {
-        throw Error(`Unsupported primitive mode ${prim['mode']}`);
+      // Default is triangles if mode is not specified
+      let topology: GLTFRenderMode = prim['mode'] ?? GLTFRenderMode.TRIANGLES;
+      if (prim['attributes']['POSITION'] === undefined) {
+        throw Error(`Primitive ${j} of mesh ${mesh.name ?? i} has no POSITION`);
       }
+      const vertexCount = accessors[prim['attributes']['POSITION']].count;
 
       const primitiveAttributeMap = {};
       const attributes = [];
-      if (jsonChunk['accessors'][prim['indices']] !== undefined) {
-        const indices = accessors[prim['indices']];
+      let indices =
+        prim['indices'] !== undefined ? accessors[prim['indices']] : undefined;
+      if (
+        topology === GLTFRenderMode.LINE_LOOP ||
+        topology === GLTFRenderMode.TRIANGLE_FAN
+      ) {
+        const vertices = indices
+          ? indices.getElements()
+          : Array.from({ length: vertexCount }, (_, idx) => idx);
+        if (topology === GLTFRenderMode.LINE_LOOP) {
+          indices = createIndexAccessor(convertLineLoop(vertices));
+          topology = GLTFRenderMode.LINE;
+        } else {
+          indices = createIndexAccessor(convertTriangleFan(vertices));
+          topology = GLTFRenderMode.TRIANGLES;
+        }
+      } else if (
+        indices &&
+        (indices.componentType === GLTFDataComponentType.UNSIGNED_BYTE ||
+          !indices.view)
+      ) {
+        indices = createIndexAccessor(indices.getElements());
+      }
+      if (indices) {
         primitiveAttributeMap['INDICES'] = indices;
       }
 
       // Loop through all the attributes and store within our attributeMap
       for (const attr in prim['attributes']) {
         const accessor = accessors[prim['attributes'][attr]];
-        primitiveAttributeMap[attr] = accessor;
         if (accessor.structureType > 3) {
           throw Error(
             'Vertex attribute accessor accessed an unsupported data type for vertex attribute'
           );
         }
+        primitiveAttributeMap[attr] = toVertexAccessor(accessor);
         attributes.push(attr);
       }
-      meshPrimitives.push(
-        new GLTFPrimitive(topology, primitiveAttributeMap, attributes)
+
+      // Attributes displaced by morph targets are drawn from the values the
+      // targets are blended into, which start out as the base values
+      const targets = prim.targets ?? [];
+      const morphedAttributes = (
+        Object.keys(kMorphedAttributes) as GLTFMorphedAttribute[]
+      ).filter(
+        (attr) =>
+          prim.attributes[attr] !== undefined &&
+          targets.some((target) => target[attr] !== undefined)
       );
-    }
-    meshes.push(new GLTFMesh(mesh.name, meshPrimitives));
-  }
+      let morphedView: GLTFBufferView | undefined;
+      let morphTargets: Float32Array | undefined;
+      if (morphedAttributes.length > 0) {
+        const layout = createGLTFMorphLayout(morphedAttributes, vertexCount);
+        morphTargets = new Float32Array(layout.size * (targets.length + 1));
+        const readValues = (
+          accessor: GLTFAccessor,
+          offset: number,
+          numComponents: number
+        ) => {
+          if (accessor.count !== vertexCount) {
+            throw Error(
+              `Morph target of mesh ${mesh.name ?? i} has ${
+                accessor.count
+              } values for ${vertexCount} vertices`
+            );
+          }
+          const elements = accessor.getFloatElements();
+          const n = accessor.numComponents;
+          for (let v = 0; v < vertexCount; ++v) {
+            for (let c = 0; c < Math.min(n, numComponents); ++c) {
+              morphTargets[offset + v * numComponents + c] =
+                elements[v * n + c];
+            }
+          }
+        };
+        for (const attr of morphedAttributes) {
+          const numComponents = kMorphedAttributes[attr];
+          const offset = layout.offsets[attr];
+          readValues(accessors[prim.attributes[attr]], offset, numComponents);
+          targets.forEach((target, t) => {
+            if (target[attr] !== undefined) {
+              readValues(
+                accessors[target[attr]],
+                (t + 1) * layout.size + offset,
+                numComponents
+              );
+            }
+          });
+        }
+        morphedView = addBufferView(morphTargets.slice(0, layout.size));
+        morphedView.addUsage(GPUBufferUsage.STORAGE);
+        for (const attr of morphedAttributes) {
+          primitiveAttributeMap[attr] = new GLTFAccessor(morphedView, {
+            count: vertexCount,
+            componentType: GLTFDataComponentType.FLOAT,
+            type: kMorphedAttributes[attr] === 3 ? 'VEC3' : 'VEC4',
+            byteOffset: layout.offsets[attr] * Float32Array.BYTES_PER_ELEMENT,
+          });
+        }
+      }
 
-  const skins: GLTFSkin[] = [];
-  for (const skin of jsonChunk.skins) {
-    const inverseBindMatrixAccessor = accessors[skin.inverseBindMatrices];
-    inverseBindMatrixAccessor.view.addUsage(
-      GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST
+      const primitive = new GLTFPrimitive(
+        topology,
+        primitiveAttributeMap,
+        attributes,
+        getMaterial(prim['material'])
+      );
+      if (morphedView) {
+        morphedPrimitives.push({
+          primitive,
+          view: morphedView,
+          targets: morphTargets,
+          count: targets.length,
+        });
+      }
+      meshPrimitives.push(primitive);
+    }
+    meshes.push(
+      new GLTFMesh(mesh.name, meshPrimitives, mesh.extras?.targetNames)
     );
-    inverseBindMatrixAccessor.view.needsUpload = true;
   }
 
   // Upload the buffer views used by mesh
@@ -938,13 +1754,44 @@ export const convertGLBToJSONAndBinary = async (
     }
   }
 
+  if (morphedPrimitives.length > 0) {
+    GLTFMorphTargets.createSharedPipeline(device);
+  }
+  morphedPrimitives.forEach(({ primitive, view, targets, count }, idx) => {
+    primitive.morphTargets = new GLTFMorphTargets(
+      device,
+      targets,
+      count,
+      view.gpuBuffer,
+      `MorphTargets${idx}`
+    );
+  });
+
+  const skins: GLTFSkin[] = [];
   GLTFSkin.createSharedBindGroupLayout(device);
-  for (const skin of jsonChunk.skins) {
-    const inverseBindMatrixAccessor = accessors[skin.inverseBindMatrices];
+  for (const skin of json.skins ?? []) {
     const joints = skin.joints;
+    // Without inverse bind matrices, they are identity matrices
+    let inverseBindMatrixAccessor = accessors[skin.inverseBindMatrices];
+    if (skin.inverseBindMatrices === undefined) {
+      const identityMatrices = new Float32Array(16 * joints.length);
+      for (let j = 0; j < joints.length; ++j) {
+        identityMatrices.set(mat4.identity(), 16 * j);
+      }
+      inverseBindMatrixAccessor = new GLTFAccessor(
+        createGLTFBufferView(identityMatrices),
+        {
+          count: joints.length,
+          componentType: GLTFDataComponentType.FLOAT,
+          type: 'MAT4',
+        }
+      );
+    }
     skins.push(new GLTFSkin(device, inverseBindMatrixAccessor, joints));
   }
 
+  const cameras = (json.cameras ?? []).map((camera) => new GLTFCamera(camera));
+
   const nodes: GLTFNode[] = [];
 
   // Access each node. If node references a mesh, add mesh to that node
@@ -960,12 +1807,14 @@ export const convertGLBToJSONAndBinary = async (
       },
     ],
   });
-  for (const currNode of jsonChunk.nodes) {
-    const baseTransformation = new BaseTransformation(
-      currNode.translation,
-      currNode.rotation,
-      currNode.scale
-    );
+  for (const currNode of json.nodes ?? []) {
+    const baseTransformation = currNode.matrix
+      ? BaseTransformation.fromMatrix(currNode.matrix)
+      : new BaseTransformation(
+          currNode.translation,
+          currNode.rotation,
+          currNode.scale
+        );
     const nodeToCreate = new GLTFNode(
       device,
       nodeUniformsBindGroupLayout,
@@ -977,12 +1826,20 @@ export const convertGLBToJSONAndBinary = async (
     if (meshToAdd) {
       nodeToCreate.drawables.push(meshToAdd);
     }
+    nodeToCreate.camera = cameras[currNode.camera];
+    // Weights default to the mesh's, or zero for each morph target. They are
+    // copied since animations update them in place.
+    const jsonMesh = json.meshes?.[currNode.mesh];
+    const weights = currNode.weights ?? jsonMesh?.weights;
+    nodeToCreate.weights = weights
+      ? [...weights]
+      : new Array(jsonMesh?.primitives[0].targets?.length ?? 0).fill(0);
     nodes.push(nodeToCreate);
   }
 
   // Assign each node its children
   nodes.forEach((node, idx) => {
-    const children = jsonChunk.nodes[idx].children;
+    const children = json.nodes[idx].children;
     if (children) {
       children.forEach((childIdx) => {
         const child = nodes[childIdx];
@@ -993,7 +1850,7 @@ export const convertGLBToJSONAndBinary = async (
 
   const scenes: GLTFScene[] = [];
 
-  for (const jsonScene of jsonChunk.scenes) {
+  for (const jsonScene of json.scenes ?? []) {
     const scene = new GLTFScene(device, nodeUniformsBindGroupLayout, jsonScene);
     const sceneChildren = scene.nodes;
     sceneChildren.forEach((childIdx) => {
@@ -1002,10 +1859,90 @@ export const convertGLBToJSONAndBinary = async (
     });
     scenes.push(scene);
   }
+
+  const animations = (json.animations ?? []).map((animation, idx) => {
+    const samplers = animation.samplers.map(
+      (sampler) =>
+        new GLTFAnimationSampler(
+          accessors[sampler.input].getFloatElements(),
+          accessors[sampler.output].getFloatElements(),
+          sampler.interpolation ?? 'LINEAR'
+        )
+    );
+    // Channels without a node target properties of extensions
+    const channels: GLTFAnimationChannel[] = animation.channels
+      .filter((channel) => channel.target.node !== undefined)
+      .map((channel) => ({
+        node: nodes[channel.target.node],
+        path: channel.target.path as GLTFAnimationPath,
+        sampler: samplers[channel.sampler],
+      }));
+    return new GLTFAnimationClip(animation.name ?? `animation${idx}`, channels);
+  });
+
   return {
     meshes,
     nodes,
     scenes,
+    scene: scenes[json.scene ?? 0],
     skins,
+    materials: defaultMaterial ? [...materials, defaultMaterial] : materials,
+    cameras,
+    textures: Array.from(imageTextures.values()),
+    animations,
   };
 };
+
+// Upload a GLB model, parse its JSON and Binary components, and create the requisite GPU resources
+// to render them. Buffers and images outside the GLB are loaded relative to baseURL.
+export const convertGLBToJSONAndBinary = async (
+  buffer: ArrayBuffer,
+  device: GPUDevice,
+  baseURL = location.href
+): Promise<GLTFLoadResult> => {
+  // Binary GLTF layout: https://cdn.willusher.io/webgpu-0-to-gltf/glb-layout.svg
+  const jsonHeader = new DataView(buffer, 0, 20);
+  validateGLBHeader(jsonHeader);
+
+  // Length of the jsonChunk found at jsonHeader[12 - 15]
+  const jsonChunkLength = jsonHeader.getUint32(12, true);
+
+  // Parse the JSON chunk of the glB file to a JSON object
+  const jsonChunk: GlTf = JSON.parse(
+    new TextDecoder('utf-8').decode(new Uint8Array(buffer, 20, jsonChunkLength))
+  );
+
+  // Binary data located after jsonChunk, GLBs whose buffers are all
+  // external have none
+  let binaryChunk: GLTFBuffer | undefined;
+  if (20 + jsonChunkLength < buffer.byteLength) {
+    const binaryHeader = new Uint32Array(buffer, 20 + jsonChunkLength, 2);
+    validateBinaryHeader(binaryHeader);
+
+    binaryChunk = new GLTFBuffer(buffer, 28 + jsonChunkLength, binaryHeader[0]);
+  }
+
+  const buffers = await loadGLTFBuffers(jsonChunk, baseURL, binaryChunk);
+  return createGLTFResources(jsonChunk, buffers, device, baseURL);
+};
+
+// Load a .gltf, with its buffers and images embedded as data: uris or next to
+// it, or a .glb file
+export const loadGLTF = async (
+  url: string,
+  device: GPUDevice
+): Promise<GLTFLoadResult> => {
+  const baseURL = new URL(url, location.href).href;
+  const response = await fetchGLTFUri(url, location.href);
+  const buffer = await response.arrayBuffer();
+  // GLBs start with the magic 'glTF'
+  if (
+    buffer.byteLength >= 4 &&
+    new DataView(buffer).getUint32(0, true) === 0x46546c67
+  ) {
+    return convertGLBToJSONAndBinary(buffer, device, baseURL);
+  }
+  const json: GlTf = JSON.parse(new TextDecoder('utf-8').decode(buffer));
+  const buffers = await loadGLTFBuffers(json, baseURL);
+  return createGLTFResources(json, buffers, device, baseURL);
+};
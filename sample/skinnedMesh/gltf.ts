@@ -163,6 +163,9 @@ export interface Mesh {
   primitives: MeshPrimitive[];
   weights?: number[];
   name?: string;
+  extras?: {
+    targetNames?: string[];
+  };
 }
 
 export interface Node {
@@ -0,0 +1,367 @@
+import { quat } from 'wgpu-matrix';
+import { GLTFNode } from './glbUtils';
+
+export type GLTFAnimationPath =
+  | 'translation'
+  | 'rotation'
+  | 'scale'
+  | 'weights';
+export type GLTFInterpolation = 'STEP' | 'LINEAR' | 'CUBICSPLINE';
+
+// Keyframes of one animated property. Each keyframe's value has numComponents
+// components, CUBICSPLINE keyframes store an in-tangent, the value and an
+// out-tangent.
+export class GLTFAnimationSampler {
+  input: Float32Array;
+  output: Float32Array;
+  interpolation: GLTFInterpolation;
+  numComponents: number;
+
+  constructor(
+    input: Float32Array,
+    output: Float32Array,
+    interpolation: string
+  ) {
+    if (
+      interpolation !== 'STEP' &&
+      interpolation !== 'LINEAR' &&
+      interpolation !== 'CUBICSPLINE'
+    ) {
+      throw Error(`Unsupported animation interpolation ${interpolation}`);
+    }
+    if (input.length === 0) {
+      throw Error('Animation sampler has no keyframes');
+    }
+    const valuesPerKeyframe = interpolation === 'CUBICSPLINE' ? 3 : 1;
+    this.numComponents = output.length / (input.length * valuesPerKeyframe);
+    if (!Number.isInteger(this.numComponents)) {
+      throw Error(
+        `Animation sampler has ${output.length} output values for ${input.length} keyframes`
+      );
+    }
+    this.input = input;
+    this.output = output;
+    this.interpolation = interpolation;
+  }
+
+  get duration() {
+    return this.input[this.input.length - 1];
+  }
+
+  // Write the value at time into dst. Times before the first or after the
+  // last keyframe hold that keyframe's value. Rotations are interpolated
+  // spherically.
+  sample(time: number, dst: Float32Array, rotation = false) {
+    const input = this.input;
+    const n = this.numComponents;
+    // Last keyframe at or before time
+    let low = 0;
+    let high = input.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (input[mid] <= time) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    const key = low;
+    const last = key === input.length - 1 || time <= input[0];
+    const cubic = this.interpolation === 'CUBICSPLINE';
+    // Offset of a keyframe's value, past the in-tangent of cubic keyframes
+    const valueOffset = (k: number) => (cubic ? (3 * k + 1) * n : k * n);
+
+    if (last || this.interpolation === 'STEP') {
+      const k = time <= input[0] ? 0 : key;
+      dst.set(this.output.subarray(valueOffset(k), valueOffset(k) + n));
+      return;
+    }
+
+    const deltaTime = input[key + 1] - input[key];
+    const t = (time - input[key]) / deltaTime;
+    const v0 = this.output.subarray(valueOffset(key), valueOffset(key) + n);
+    const v1 = this.output.subarray(
+      valueOffset(key + 1),
+      valueOffset(key + 1) + n
+    );
+    if (!cubic) {
+      if (rotation) {
+        quat.slerp(v0, v1, t, dst);
+      } else {
+        for (let c = 0; c < n; ++c) {
+          dst[c] = v0[c] + (v1[c] - v0[c]) * t;
+        }
+      }
+      return;
+    }
+
+    // Hermite spline through the two values, with the out-tangent of the
+    // first and the in-tangent of the second keyframe
+    const outTangent = valueOffset(key) + n;
+    const inTangent = valueOffset(key + 1) - n;
+    const t2 = t * t;
+    const t3 = t2 * t;
+    const h00 = 2 * t3 - 3 * t2 + 1;
+    const h10 = (t3 - 2 * t2 + t) * deltaTime;
+    const h01 = -2 * t3 + 3 * t2;
+    const h11 = (t3 - t2) * deltaTime;
+    for (let c = 0; c < n; ++c) {
+      dst[c] =
+        h00 * v0[c] +
+        h10 * this.output[outTangent + c] +
+        h01 * v1[c] +
+        h11 * this.output[inTangent + c];
+    }
+    if (rotation) {
+      quat.normalize(dst, dst);
+    }
+  }
+}
+
+export interface GLTFAnimationChannel {
+  node: GLTFNode;
+  path: GLTFAnimationPath;
+  sampler: GLTFAnimationSampler;
+}
+
+export class GLTFAnimationClip {
+  name: string;
+  channels: GLTFAnimationChannel[];
+  // Time of the last keyframe, in seconds
+  duration: number;
+
+  constructor(name: string, channels: GLTFAnimationChannel[]) {
+    for (const channel of channels) {
+      switch (channel.path) {
+        case 'translation':
+        case 'rotation':
+        case 'scale':
+        case 'weights':
+          break;
+        default:
+          throw Error(`Unsupported animation path ${channel.path}`);
+      }
+    }
+    this.name = name;
+    this.channels = channels;
+    this.duration = Math.max(
+      0,
+      ...channels.map((channel) => channel.sampler.duration)
+    );
+  }
+}
+
+// A clip being played, and its time
+interface ClipState {
+  clip: GLTFAnimationClip;
+  time: number;
+}
+
+// Value of a node property before any clip changed it
+const getNodeValue = (node: GLTFNode, path: GLTFAnimationPath) => {
+  switch (path) {
+    case 'translation':
+      return Float32Array.from(node.source.position);
+    case 'rotation':
+      return Float32Array.from(node.source.rotation);
+    case 'scale':
+      return Float32Array.from(node.source.scale);
+    case 'weights':
+      return Float32Array.from(node.weights);
+  }
+};
+
+const setNodeValue = (
+  node: GLTFNode,
+  path: GLTFAnimationPath,
+  value: Float32Array
+) => {
+  switch (path) {
+    case 'translation':
+      node.source.position = Array.from(value);
+      break;
+    case 'rotation':
+      node.source.rotation = Array.from(value);
+      break;
+    case 'scale':
+      node.source.scale = Array.from(value);
+      break;
+    case 'weights':
+      // In place, for anything holding on to the node's weights
+      node.weights.splice(0, node.weights.length, ...value);
+      break;
+  }
+};
+
+/**
+ * Plays glTF animation clips on their nodes, cross-fading when switching
+ * clips. update() sets the nodes' translation, rotation, scale and morph
+ * weights; skins follow once the world matrices are updated and
+ * GLTFSkin.update() is called.
+ */
+export class GLTFAnimationPlayer {
+  playing = true;
+  // Playback rate, 1 plays in real time
+  speed = 1;
+  loop = true;
+  private current?: ClipState;
+  // The clip faded out from while cross-fading
+  private previous?: ClipState;
+  private fadeTime = 0;
+  private fadeDuration = 0;
+  // Values of the animated properties without animation, for properties only
+  // one of the cross-faded clips animates
+  private restValues = new Map<
+    GLTFNode,
+    Map<GLTFAnimationPath, Float32Array>
+  >();
+
+  constructor(clips: GLTFAnimationClip[]) {
+    for (const clip of clips) {
+      for (const { node, path } of clip.channels) {
+        this.getRestValue(node, path);
+      }
+    }
+  }
+
+  get clip(): GLTFAnimationClip | undefined {
+    return this.current?.clip;
+  }
+
+  get time(): number {
+    return this.current?.time ?? 0;
+  }
+
+  // Start a clip from the beginning, replacing the current one at once
+  play(clip: GLTFAnimationClip) {
+    this.crossFade(clip, 0);
+  }
+
+  // Start a clip from the beginning, blending over from the current clip
+  // during duration seconds
+  crossFade(clip: GLTFAnimationClip, duration: number) {
+    this.previous = duration > 0 ? this.current : undefined;
+    this.current = { clip, time: 0 };
+    this.fadeTime = 0;
+    this.fadeDuration = duration;
+  }
+
+  // Put the animated properties back to their values without animation
+  stop() {
+    this.current = undefined;
+    this.previous = undefined;
+    for (const [node, values] of this.restValues) {
+      for (const [path, value] of values) {
+        setNodeValue(node, path, value);
+      }
+    }
+  }
+
+  // Advance the clips by deltaSeconds of real time and pose their nodes
+  update(deltaSeconds: number) {
+    if (!this.current) {
+      return;
+    }
+    if (this.playing) {
+      const delta = deltaSeconds * this.speed;
+      this.advance(this.current, delta);
+      if (this.previous) {
+        this.advance(this.previous, delta);
+        this.fadeTime += Math.abs(delta);
+        if (this.fadeTime >= this.fadeDuration) {
+          this.previous = undefined;
+        }
+      }
+    }
+    this.apply();
+  }
+
+  private advance(state: ClipState, delta: number) {
+    const duration = state.clip.duration;
+    state.time += delta;
+    if (duration === 0) {
+      state.time = 0;
+    } else if (this.loop) {
+      state.time = ((state.time % duration) + duration) % duration;
+    } else {
+      state.time = Math.min(Math.max(state.time, 0), duration);
+    }
+  }
+
+  private getRestValue(node: GLTFNode, path: GLTFAnimationPath) {
+    let values = this.restValues.get(node);
+    if (!values) {
+      values = new Map();
+      this.restValues.set(node, values);
+    }
+    let value = values.get(path);
+    if (!value) {
+      value = getNodeValue(node, path);
+      values.set(path, value);
+    }
+    return value;
+  }
+
+  // Sample the clip's value of every property either clip animates, falling
+  // back to the rest value
+  private sampleClip(
+    state: ClipState | undefined,
+    targets: Map<GLTFNode, Map<GLTFAnimationPath, Float32Array>>
+  ) {
+    for (const [node, values] of targets) {
+      for (const [path, value] of values) {
+        value.set(this.getRestValue(node, path));
+      }
+    }
+    for (const { node, path, sampler } of state?.clip.channels ?? []) {
+      const value = targets.get(node).get(path);
+      if (value.length === sampler.numComponents) {
+        sampler.sample(state.time, value, path === 'rotation');
+      }
+    }
+  }
+
+  private apply() {
+    // Every property animated by the clips, with room for its value
+    const newTargets = () => {
+      const targets = new Map<GLTFNode, Map<GLTFAnimationPath, Float32Array>>();
+      for (const state of [this.current, this.previous]) {
+        for (const { node, path } of state?.clip.channels ?? []) {
+          if (!targets.has(node)) {
+            targets.set(node, new Map());
+          }
+          const rest = this.getRestValue(node, path);
+          targets.get(node).set(path, new Float32Array(rest.length));
+        }
+      }
+      return targets;
+    };
+    const pose = newTargets();
+    this.sampleClip(this.current, pose);
+
+    if (this.previous) {
+      const previousPose = newTargets();
+      this.sampleClip(this.previous, previousPose);
+      // Weight of the current clip
+      const t = Math.min(this.fadeTime / this.fadeDuration, 1);
+      for (const [node, values] of pose) {
+        for (const [path, value] of values) {
+          const from = previousPose.get(node).get(path);
+          if (path === 'rotation') {
+            quat.slerp(from, value, t, value);
+          } else {
+            for (let c = 0; c < value.length; ++c) {
+              value[c] = from[c] + (value[c] - from[c]) * t;
+            }
+          }
+        }
+      }
+    }
+
+    for (const [node, values] of pose) {
+      for (const [path, value] of values) {
+        setNodeValue(node, path, value);
+      }
+    }
+  }
+}
@@ -0,0 +1,282 @@
+import { Material, Sampler } from './gltf';
+import { generateMips, numMipLevels } from '../generateMipmap/generateMipmap';
+
+// Texture of a material, with the glTF sampler settings it's read with
+export interface GLTFTextureReference {
+  texture: GPUTexture;
+  sampler: Sampler;
+  // Index of the TEXCOORD_n attribute the texture is mapped with
+  texCoord: number;
+}
+
+// Looks up the GPU texture for a glTF texture index. Color textures (base color
+// and emissive) are sRGB encoded, the others hold linear data.
+export type GLTFTextureSource = (
+  index: number,
+  srgb: boolean
+) => { texture: GPUTexture; sampler: Sampler };
+
+// baseColorFactor, emissiveFactor, metallicFactor, roughnessFactor,
+// normalScale, occlusionStrength, alphaCutoff, the texCoord of each texture,
+// alphaMode, whether there is a normal texture and padding
+const kMaterialUniformsSize = Float32Array.BYTES_PER_ELEMENT * 20;
+
+// Alpha modes, by their index in gltfPBR.wgsl
+const kAlphaModes = { OPAQUE: 0, MASK: 1, BLEND: 2 };
+
+// Material textures in binding order, each followed by its sampler five
+// bindings later
+const kMaterialTextures = [
+  'baseColorTexture',
+  'metallicRoughnessTexture',
+  'normalTexture',
+  'occlusionTexture',
+  'emissiveTexture',
+] as const;
+
+const gltfAddressMode = (wrap: number): GPUAddressMode => {
+  switch (wrap) {
+    case 33071: //GL.CLAMP_TO_EDGE
+      return 'clamp-to-edge';
+    case 33648: //GL.MIRRORED_REPEAT
+      return 'mirror-repeat';
+    case 10497: //GL.REPEAT
+    case undefined:
+      return 'repeat';
+    default:
+      throw Error(`Unknown glTF sampler wrap mode ${wrap}`);
+  }
+};
+
+// Translate a glTF sampler to a sampler descriptor. Filters left undefined
+// are linear, and minification filters without a mipmap mode only read the
+// first mip level.
+export const gltfSamplerDescriptor = (
+  sampler: Sampler
+): GPUSamplerDescriptor => {
+  const descriptor: GPUSamplerDescriptor = {
+    addressModeU: gltfAddressMode(sampler.wrapS),
+    addressModeV: gltfAddressMode(sampler.wrapT),
+    magFilter: sampler.magFilter === 9728 ? 'nearest' : 'linear', //GL.NEAREST
+    minFilter: 'linear',
+    mipmapFilter: 'linear',
+  };
+  switch (sampler.minFilter) {
+    case 9728: //GL.NEAREST
+      descriptor.minFilter = 'nearest';
+      descriptor.lodMaxClamp = 0;
+      break;
+    case 9729: //GL.LINEAR
+      descriptor.lodMaxClamp = 0;
+      break;
+    case 9984: //GL.NEAREST_MIPMAP_NEAREST
+      descriptor.minFilter = 'nearest';
+      descriptor.mipmapFilter = 'nearest';
+      break;
+    case 9985: //GL.LINEAR_MIPMAP_NEAREST
+      descriptor.mipmapFilter = 'nearest';
+      break;
+    case 9986: //GL.NEAREST_MIPMAP_LINEAR
+      descriptor.minFilter = 'nearest';
+      break;
+  }
+  return descriptor;
+};
+
+// Upload a decoded image to a texture with a full mip chain
+export const createGLTFImageTexture = (
+  device: GPUDevice,
+  image: ImageBitmap,
+  srgb: boolean,
+  label?: string
+): GPUTexture => {
+  const texture = device.createTexture({
+    label,
+    size: [image.width, image.height],
+    format: srgb ? 'rgba8unorm-srgb' : 'rgba8unorm',
+    mipLevelCount: numMipLevels(image.width, image.height),
+    usage:
+      GPUTextureUsage.TEXTURE_BINDING |
+      GPUTextureUsage.COPY_DST |
+      GPUTextureUsage.RENDER_ATTACHMENT,
+  });
+  device.queue.copyExternalImageToTexture({ source: image }, { texture }, [
+    image.width,
+    image.height,
+  ]);
+  generateMips(device, texture);
+  return texture;
+};
+
+export class GLTFMaterial {
+  name: string;
+  baseColorFactor: number[];
+  metallicFactor: number;
+  roughnessFactor: number;
+  emissiveFactor: number[];
+  normalScale: number;
+  occlusionStrength: number;
+  alphaMode: 'OPAQUE' | 'MASK' | 'BLEND';
+  alphaCutoff: number;
+  doubleSided: boolean;
+  baseColorTexture?: GLTFTextureReference;
+  metallicRoughnessTexture?: GLTFTextureReference;
+  normalTexture?: GLTFTextureReference;
+  occlusionTexture?: GLTFTextureReference;
+  emissiveTexture?: GLTFTextureReference;
+  // Holds the material's factors, see writeUniforms()
+  uniformBuffer: GPUBuffer;
+  // Uniforms, textures and samplers for gltfPBR.wgsl
+  bindGroup: GPUBindGroup;
+  // Shared across all materials, like the samplers and the white texture
+  // standing in for missing textures
+  static bindGroupLayout: GPUBindGroupLayout;
+  private static defaultTexture: GPUTexture;
+  private static samplers = new Map<string, GPUSampler>();
+
+  static createSharedBindGroupLayout(device: GPUDevice) {
+    this.bindGroupLayout = device.createBindGroupLayout({
+      label: 'GLTFMaterial.bindGroupLayout',
+      entries: [
+        {
+          binding: 0,
+          buffer: {
+            type: 'uniform',
+          },
+          visibility: GPUShaderStage.FRAGMENT,
+        },
+        ...kMaterialTextures.map((_, idx) => ({
+          binding: 1 + idx,
+          texture: {},
+          visibility: GPUShaderStage.FRAGMENT,
+        })),
+        ...kMaterialTextures.map((_, idx) => ({
+          binding: 1 + kMaterialTextures.length + idx,
+          sampler: {},
+          visibility: GPUShaderStage.FRAGMENT,
+        })),
+      ],
+    });
+    this.defaultTexture = device.createTexture({
+      label: 'GLTFMaterial.defaultTexture',
+      size: [1, 1],
+      format: 'rgba8unorm',
+      usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_DST,
+    });
+    device.queue.writeTexture(
+      { texture: this.defaultTexture },
+      new Uint8Array([255, 255, 255, 255]),
+      {},
+      [1, 1]
+    );
+    this.samplers.clear();
+  }
+
+  // Samplers are shared by all textures with the same settings
+  static getSampler(device: GPUDevice, sampler: Sampler): GPUSampler {
+    const descriptor = gltfSamplerDescriptor(sampler);
+    const key = JSON.stringify(descriptor);
+    let gpuSampler = this.samplers.get(key);
+    if (!gpuSampler) {
+      gpuSampler = device.createSampler(descriptor);
+      this.samplers.set(key, gpuSampler);
+    }
+    return gpuSampler;
+  }
+
+  // Materials without a material index get the glTF default material: white,
+  // fully metallic and rough
+  constructor(
+    device: GPUDevice,
+    material: Material = {},
+    textures?: GLTFTextureSource
+  ) {
+    const pbr = material.pbrMetallicRoughness ?? {};
+    this.name = material.name ?? 'default';
+    this.baseColorFactor = pbr.baseColorFactor ?? [1, 1, 1, 1];
+    this.metallicFactor = pbr.metallicFactor ?? 1;
+    this.roughnessFactor = pbr.roughnessFactor ?? 1;
+    this.emissiveFactor = material.emissiveFactor ?? [0, 0, 0];
+    this.normalScale = material.normalTexture?.scale ?? 1;
+    this.occlusionStrength = material.occlusionTexture?.strength ?? 1;
+    const alphaMode = material.alphaMode ?? 'OPAQUE';
+    if (
+      alphaMode !== 'OPAQUE' &&
+      alphaMode !== 'MASK' &&
+      alphaMode !== 'BLEND'
+    ) {
+      throw Error(`Unknown glTF alpha mode ${alphaMode}`);
+    }
+    this.alphaMode = alphaMode;
+    this.alphaCutoff = material.alphaCutoff ?? 0.5;
+    this.doubleSided = material.doubleSided ?? false;
+
+    const reference = (
+      info: { index?: number; texCoord?: number } | undefined,
+      srgb: boolean
+    ) => {
+      if (info?.index === undefined || !textures) {
+        return undefined;
+      }
+      return { ...textures(info.index, srgb), texCoord: info.texCoord ?? 0 };
+    };
+    this.baseColorTexture = reference(pbr.baseColorTexture, true);
+    this.metallicRoughnessTexture = reference(
+      pbr.metallicRoughnessTexture,
+      false
+    );
+    this.normalTexture = reference(material.normalTexture, false);
+    this.occlusionTexture = reference(material.occlusionTexture, false);
+    this.emissiveTexture = reference(material.emissiveTexture, true);
+
+    this.uniformBuffer = device.createBuffer({
+      label: `${this.name}.materialUniforms`,
+      size: kMaterialUniformsSize,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+    });
+    this.writeUniforms(device);
+
+    // Missing textures read white, which leaves the factors as they are
+    this.bindGroup = device.createBindGroup({
+      label: `${this.name}.bindGroup`,
+      layout: GLTFMaterial.bindGroupLayout,
+      entries: [
+        {
+          binding: 0,
+          resource: {
+            buffer: this.uniformBuffer,
+          },
+        },
+        ...kMaterialTextures.map((slot, idx) => ({
+          binding: 1 + idx,
+          resource: (
+            this[slot]?.texture ?? GLTFMaterial.defaultTexture
+          ).createView(),
+        })),
+        ...kMaterialTextures.map((slot, idx) => ({
+          binding: 1 + kMaterialTextures.length + idx,
+          resource: GLTFMaterial.getSampler(device, this[slot]?.sampler ?? {}),
+        })),
+      ],
+    });
+  }
+
+  // Upload the factors, after changing them
+  writeUniforms(device: GPUDevice) {
+    const uniforms = new Float32Array(kMaterialUniformsSize / 4);
+    uniforms.set(this.baseColorFactor, 0);
+    uniforms.set(this.emissiveFactor, 4);
+    uniforms[7] = this.metallicFactor;
+    uniforms[8] = this.roughnessFactor;
+    uniforms[9] = this.normalScale;
+    uniforms[10] = this.occlusionStrength;
+    uniforms[11] = this.alphaCutoff;
+    const uints = new Uint32Array(uniforms.buffer);
+    kMaterialTextures.forEach((slot, idx) => {
+      uints[12 + idx] = this[slot]?.texCoord ?? 0;
+    });
+    uints[17] = kAlphaModes[this.alphaMode];
+    uints[18] = this.normalTexture ? 1 : 0;
+    device.queue.writeBuffer(this.uniformBuffer, 0, uniforms);
+  }
+}
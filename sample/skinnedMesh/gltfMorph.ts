@@ -0,0 +1,133 @@
+import gltfMorphWGSL from './gltfMorph.wgsl';
+
+// Attributes morph targets can displace, with the number of components of
+// their morphed values. TANGENT deltas leave the handedness in w alone.
+export const kMorphedAttributes = {
+  POSITION: 3,
+  NORMAL: 3,
+  TANGENT: 4,
+};
+export type GLTFMorphedAttribute = keyof typeof kMorphedAttributes;
+
+// Values of the morphed attributes are laid out one attribute after the
+// other. Each attribute starts at a multiple of 12 floats, so it can be bound
+// as a vertex buffer at an offset that's a multiple of both its stride and 4.
+const kMorphedAttributeAlignment = 12;
+const kWorkgroupSize = 64;
+const kMaxWorkgroupsPerDimension = 65535;
+
+// Where each morphed attribute lies in the morphed values, in floats
+export interface GLTFMorphLayout {
+  offsets: { [attr in GLTFMorphedAttribute]?: number };
+  // Floats of the values of all the morphed attributes
+  size: number;
+}
+
+export const createGLTFMorphLayout = (
+  attributes: GLTFMorphedAttribute[],
+  vertexCount: number
+): GLTFMorphLayout => {
+  const offsets: GLTFMorphLayout['offsets'] = {};
+  let size = 0;
+  for (const attr of attributes) {
+    offsets[attr] = size;
+    size += vertexCount * kMorphedAttributes[attr];
+    size =
+      Math.ceil(size / kMorphedAttributeAlignment) * kMorphedAttributeAlignment;
+  }
+  return { offsets, size };
+};
+
+/**
+ * Blends the morph targets of a primitive with a compute shader. The base
+ * values and the deltas of each target live in a storage buffer, the blended
+ * values are written to the vertex buffer the primitive draws the morphed
+ * attributes from.
+ */
+export class GLTFMorphTargets {
+  // Number of targets, each with a weight
+  count: number;
+  private weights: Float32Array;
+  private weightsBuffer: GPUBuffer;
+  private targetsBuffer: GPUBuffer;
+  private size: number;
+  private bindGroup: GPUBindGroup;
+  // Shared across all morph targets
+  static pipeline: GPUComputePipeline;
+
+  static createSharedPipeline(device: GPUDevice) {
+    this.pipeline = device.createComputePipeline({
+      label: 'GLTFMorphTargets.pipeline',
+      layout: 'auto',
+      compute: {
+        module: device.createShaderModule({
+          label: 'GLTFMorphTargets.shader',
+          code: gltfMorphWGSL,
+        }),
+      },
+    });
+  }
+
+  // targets holds the base values followed by the deltas of each target, all
+  // laid out like the values in morphedBuffer
+  constructor(
+    device: GPUDevice,
+    targets: Float32Array,
+    count: number,
+    morphedBuffer: GPUBuffer,
+    label: string
+  ) {
+    this.count = count;
+    this.size = targets.length / (count + 1);
+    if (!Number.isInteger(this.size) || this.size * 4 > morphedBuffer.size) {
+      throw Error(
+        `${label} has ${targets.length} values for ${count} morph targets`
+      );
+    }
+    this.weights = new Float32Array(count);
+    this.weightsBuffer = device.createBuffer({
+      label: `${label}.weights`,
+      size: this.weights.byteLength,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+    });
+    this.targetsBuffer = device.createBuffer({
+      label: `${label}.targets`,
+      size: targets.byteLength,
+      usage: GPUBufferUsage.STORAGE,
+      mappedAtCreation: true,
+    });
+    new Float32Array(this.targetsBuffer.getMappedRange()).set(targets);
+    this.targetsBuffer.unmap();
+    this.bindGroup = device.createBindGroup({
+      label: `${label}.bindGroup`,
+      layout: GLTFMorphTargets.pipeline.getBindGroupLayout(0),
+      entries: [
+        { binding: 0, resource: { buffer: this.weightsBuffer } },
+        { binding: 1, resource: { buffer: this.targetsBuffer } },
+        {
+          binding: 2,
+          resource: { buffer: morphedBuffer, size: this.size * 4 },
+        },
+      ],
+    });
+  }
+
+  // Blend the targets with weights, missing weights are zero. Primitives of
+  // meshes used by several nodes end up morphed with the weights of the last
+  // node encoded before the commands are submitted.
+  encode(
+    device: GPUDevice,
+    passEncoder: GPUComputePassEncoder,
+    weights: number[]
+  ) {
+    for (let i = 0; i < this.count; ++i) {
+      this.weights[i] = weights[i] ?? 0;
+    }
+    device.queue.writeBuffer(this.weightsBuffer, 0, this.weights);
+    const numWorkgroups = Math.ceil(this.size / kWorkgroupSize);
+    const numRows = Math.ceil(numWorkgroups / kMaxWorkgroupsPerDimension);
+    passEncoder.setPipeline(GLTFMorphTargets.pipeline);
+    passEncoder.setBindGroup(0, this.bindGroup);
+    passEncoder.dispatchWorkgroups(Math.ceil(numWorkgroups / numRows), numRows);
+  }
+}
@@ -0,0 +1,26 @@
+// Blends the morph targets of a primitive. The targets array holds the
+// primitive's base POSITION, NORMAL and TANGENT values followed by each
+// target's deltas, all laid out like morphed_values. Each invocation blends
+// one component.
+
+@group(0) @binding(0) var<storage, read> weights: array<f32>;
+@group(0) @binding(1) var<storage, read> targets: array<f32>;
+@group(0) @binding(2) var<storage, read_write> morphed_values: array<f32>;
+
+@compute @workgroup_size(64)
+fn main(
+  @builtin(global_invocation_id) global_id: vec3u,
+  @builtin(num_workgroups) num_workgroups: vec3u
+) {
+  // Large primitives are dispatched as rows of workgroups
+  let count = arrayLength(&morphed_values);
+  let idx = global_id.y * num_workgroups.x * 64u + global_id.x;
+  if (idx >= count) {
+    return;
+  }
+  var value = targets[idx];
+  for (var t = 0u; t < arrayLength(&weights); t++) {
+    value += weights[t] * targets[(t + 1u) * count + idx];
+  }
+  morphed_values[idx] = value;
+}
@@ -0,0 +1,191 @@
+// Metallic-roughness shading shared by all loaded glTF primitives. Each
+// primitive's pipeline prepends its VertexInput struct, get_vertex() and
+// get_skin_matrix(), which fill in defaults for the attributes it doesn't
+// have, and the group its material is bound to.
+
+struct Vertex {
+  position: vec3f,
+  normal: vec3f,     // Zero without normals
+  tangent: vec4f,    // Zero without tangents
+  texcoord0: vec2f,
+  texcoord1: vec2f,
+  color: vec4f,      // COLOR_0, white without vertex colors
+  joints: vec4u,
+  weights: vec4f,
+}
+
+struct FrameUniforms {
+  view_projection: mat4x4f,
+  // Transform of the whole model, applied after the node transforms
+  model_matrix: mat4x4f,
+  camera_position: vec3f,
+  skinning: u32,           // Skinned primitives follow their joints
+  light_direction: vec3f,  // Direction the light travels in
+  light_intensity: f32,
+  light_color: vec3f,
+  ambient_intensity: f32,
+}
+
+struct NodeUniforms {
+  world_matrix: mat4x4f,
+}
+
+struct MaterialUniforms {
+  base_color_factor: vec4f,
+  emissive_factor: vec3f,
+  metallic_factor: f32,
+  roughness_factor: f32,
+  normal_scale: f32,
+  occlusion_strength: f32,
+  alpha_cutoff: f32,
+  // TEXCOORD_n set each texture is mapped with
+  base_color_tex_coord: u32,
+  metallic_roughness_tex_coord: u32,
+  normal_tex_coord: u32,
+  occlusion_tex_coord: u32,
+  emissive_tex_coord: u32,
+  alpha_mode: u32,
+  has_normal_texture: u32,
+}
+
+const ALPHA_MASK = 1u;
+const ALPHA_BLEND = 2u;
+const PI = 3.14159265359;
+
+@group(0) @binding(0) var<uniform> frame: FrameUniforms;
+@group(1) @binding(0) var<uniform> node: NodeUniforms;
+@group(material_group) @binding(0) var<uniform> material: MaterialUniforms;
+@group(material_group) @binding(1) var base_color_texture: texture_2d<f32>;
+@group(material_group) @binding(2) var metallic_roughness_texture: texture_2d<f32>;
+@group(material_group) @binding(3) var normal_texture: texture_2d<f32>;
+@group(material_group) @binding(4) var occlusion_texture: texture_2d<f32>;
+@group(material_group) @binding(5) var emissive_texture: texture_2d<f32>;
+@group(material_group) @binding(6) var base_color_sampler: sampler;
+@group(material_group) @binding(7) var metallic_roughness_sampler: sampler;
+@group(material_group) @binding(8) var normal_sampler: sampler;
+@group(material_group) @binding(9) var occlusion_sampler: sampler;
+@group(material_group) @binding(10) var emissive_sampler: sampler;
+
+struct VertexOutput {
+  @builtin(position) position: vec4f,
+  @location(0) world_position: vec3f,
+  @location(1) normal: vec3f,
+  @location(2) tangent: vec4f,
+  @location(3) texcoord0: vec2f,
+  @location(4) texcoord1: vec2f,
+  @location(5) color: vec4f,
+}
+
+@vertex
+fn vertexMain(input: VertexInput) -> VertexOutput {
+  let vertex = get_vertex(input);
+  // Joint matrices are relative to the mesh's node
+  var model = frame.model_matrix * node.world_matrix;
+  if (frame.skinning != 0u) {
+    model = model * get_skin_matrix(vertex);
+  }
+  // Normals are transformed without the inverse transpose, which is exact
+  // for uniform scales
+  let normal_matrix = mat3x3f(model[0].xyz, model[1].xyz, model[2].xyz);
+
+  var output: VertexOutput;
+  let world_position = model * vec4f(vertex.position, 1.0);
+  output.position = frame.view_projection * world_position;
+  output.world_position = world_position.xyz;
+  output.normal = normal_matrix * vertex.normal;
+  output.tangent = vec4f(normal_matrix * vertex.tangent.xyz, vertex.tangent.w);
+  output.texcoord0 = vertex.texcoord0;
+  output.texcoord1 = vertex.texcoord1;
+  output.color = vertex.color;
+  return output;
+}
+
+fn select_texcoord(input: VertexOutput, tex_coord: u32) -> vec2f {
+  return select(input.texcoord0, input.texcoord1, tex_coord == 1u);
+}
+
+fn distribution_ggx(n_dot_h: f32, roughness: f32) -> f32 {
+  let a2 = roughness * roughness * roughness * roughness;
+  let d = n_dot_h * n_dot_h * (a2 - 1.0) + 1.0;
+  return a2 / (PI * d * d);
+}
+
+fn visibility_smith(n_dot_v: f32, n_dot_l: f32, roughness: f32) -> f32 {
+  let k = (roughness + 1.0) * (roughness + 1.0) / 8.0;
+  let g = n_dot_v / (n_dot_v * (1.0 - k) + k) * n_dot_l / (n_dot_l * (1.0 - k) + k);
+  return g / max(4.0 * n_dot_v * n_dot_l, 1e-4);
+}
+
+@fragment
+fn fragmentMain(
+  input: VertexOutput,
+  @builtin(front_facing) front_facing: bool
+) -> @location(0) vec4f {
+  // Sample everything up front, derivatives need uniform control flow
+  let base_color_sample = textureSample(base_color_texture, base_color_sampler, select_texcoord(input, material.base_color_tex_coord));
+  let metallic_roughness_sample = textureSample(metallic_roughness_texture, metallic_roughness_sampler, select_texcoord(input, material.metallic_roughness_tex_coord));
+  let normal_uv = select_texcoord(input, material.normal_tex_coord);
+  let normal_sample = textureSample(normal_texture, normal_sampler, normal_uv);
+  let occlusion_sample = textureSample(occlusion_texture, occlusion_sampler, select_texcoord(input, material.occlusion_tex_coord));
+  let emissive_sample = textureSample(emissive_texture, emissive_sampler, select_texcoord(input, material.emissive_tex_coord));
+  let dp_dx = dpdx(input.world_position);
+  let dp_dy = dpdy(input.world_position);
+  let duv_dx = dpdx(normal_uv);
+  let duv_dy = dpdy(normal_uv);
+
+  let base_color = material.base_color_factor * input.color * base_color_sample;
+  if (material.alpha_mode == ALPHA_MASK && base_color.a < material.alpha_cutoff) {
+    discard;
+  }
+
+  // Primitives without normals are flat shaded
+  var n = normalize(cross(dp_dx, dp_dy));
+  if (dot(input.normal, input.normal) > 0.0) {
+    n = normalize(input.normal);
+    // Back faces of double sided materials are lit from their side
+    if (!front_facing) {
+      n = -n;
+    }
+  }
+  if (material.has_normal_texture != 0u) {
+    // Without tangents, the tangent frame comes from the texture coordinate
+    // derivatives
+    var t = input.tangent.xyz - n * dot(n, input.tangent.xyz);
+    var b_sign = input.tangent.w;
+    if (dot(t, t) < 1e-8 || b_sign == 0.0) {
+      let det = duv_dx.x * duv_dy.y - duv_dy.x * duv_dx.y;
+      t = (dp_dx * duv_dy.y - dp_dy * duv_dx.y) * sign(det);
+      t = t - n * dot(n, t);
+      b_sign = 1.0;
+    }
+    if (dot(t, t) > 1e-8) {
+      t = normalize(t);
+      let b = cross(n, t) * b_sign;
+      let tangent_normal = (normal_sample.xyz * 2.0 - 1.0) * vec3f(material.normal_scale, material.normal_scale, 1.0);
+      n = normalize(mat3x3f(t, b, n) * tangent_normal);
+    }
+  }
+
+  let metallic = clamp(material.metallic_factor * metallic_roughness_sample.b, 0.0, 1.0);
+  let roughness = clamp(material.roughness_factor * metallic_roughness_sample.g, 0.04, 1.0);
+  let occlusion = 1.0 + material.occlusion_strength * (occlusion_sample.r - 1.0);
+  let emissive = material.emissive_factor * emissive_sample.rgb;
+
+  // Cook-Torrance GGX for the directional light, ambient for the rest
+  let v = normalize(frame.camera_position - input.world_position);
+  let l = normalize(-frame.light_direction);
+  let h = normalize(v + l);
+  let n_dot_l = max(dot(n, l), 0.0);
+  let n_dot_v = max(dot(n, v), 1e-4);
+  let f0 = mix(vec3f(0.04), base_color.rgb, metallic);
+  let fresnel = f0 + (1.0 - f0) * pow(1.0 - max(dot(h, v), 0.0), 5.0);
+  let specular = fresnel * distribution_ggx(max(dot(n, h), 0.0), roughness) * visibility_smith(n_dot_v, n_dot_l, roughness);
+  let diffuse = (1.0 - fresnel) * (1.0 - metallic) * base_color.rgb / PI;
+  let light = frame.light_color * frame.light_intensity * n_dot_l;
+  let ambient = frame.ambient_intensity * base_color.rgb * occlusion;
+  let color = (diffuse + specular) * light + ambient + emissive;
+
+  // Encode for the non-sRGB canvas
+  let alpha = select(1.0, base_color.a, material.alpha_mode == ALPHA_BLEND);
+  return vec4f(pow(color / (1.0 + color), vec3f(1.0 / 2.2)), alpha);
+}
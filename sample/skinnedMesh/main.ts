@@ -1,6 +1,8 @@
 import { GUI } from 'dat.gui';
-import { convertGLBToJSONAndBinary, GLTFSkin } from './glbUtils';
+import { convertGLBToJSONAndBinary, GLTFSkin, loadGLTF } from './glbUtils';
+import { GLTFAnimationPlayer } from './gltfAnimation';
 import gltfWGSL from './gltf.wgsl';
+import gltfPBRWGSL from './gltfPBR.wgsl';
 import gridWGSL from './grid.wgsl';
 import { Mat4, mat4, quat, vec3 } from 'wgpu-matrix';
 import { createBindGroupCluster } from '../bitonicSort/utils';
@@ -23,6 +25,7 @@ enum RenderMode {
   NORMAL,
   JOINTS,
   WEIGHTS,
+  PBR,
 }
 
 enum SkinMode {
@@ -127,38 +130,56 @@ const settings = {
   object: 'Whale',
   renderMode: 'NORMAL',
   skinMode: 'ON',
+  // Whale animation: generated in this file, or one of the glb's clips
+  clip: 'Procedural',
+  playing: true,
+  playbackSpeed: 1,
+  loop: true,
+  crossFadeDuration: 0.3,
+  // Play the morph cube's clip, which drives its morph target weights
+  animateMorphTargets: true,
 };
 
 const gui = new GUI();
 
-// Determine whether we want to render our whale or our skinned grid
-gui.add(settings, 'object', ['Whale', 'Skinned Grid']).onChange(() => {
-  if (settings.object === 'Skinned Grid') {
-    settings.cameraX = -10;
-    settings.cameraY = 0;
-    settings.objectScale = 1.27;
-  } else {
-    if (settings.skinMode === 'OFF') {
+// Determine whether we want to render our whale, our morph cube or our
+// skinned grid
+gui
+  .add(settings, 'object', ['Whale', 'Morph Cube', 'Skinned Grid'])
+  .onChange(() => {
+    if (settings.object === 'Skinned Grid') {
+      settings.cameraX = -10;
+      settings.cameraY = 0;
+      settings.objectScale = 1.27;
+    } else if (settings.object === 'Morph Cube') {
       settings.cameraX = 0;
       settings.cameraY = 0;
-      settings.cameraZ = -11;
+      settings.cameraZ = -6;
+      settings.objectScale = 1;
     } else {
-      settings.cameraX = 0;
-      settings.cameraY = -5.1;
-      settings.cameraZ = -14.6;
+      if (settings.skinMode === 'OFF') {
+        settings.cameraX = 0;
+        settings.cameraY = 0;
+        settings.cameraZ = -11;
+      } else {
+        settings.cameraX = 0;
+        settings.cameraY = -5.1;
+        settings.cameraZ = -14.6;
+      }
     }
-  }
-});
+  });
 
-// Output the mesh normals, its joints, or the weights that influence the movement of the joints
+// Output the mesh normals, its joints, or the weights that influence the movement of the joints,
+// or shade it with its materials
 gui
-  .add(settings, 'renderMode', ['NORMAL', 'JOINTS', 'WEIGHTS'])
+  .add(settings, 'renderMode', ['NORMAL', 'JOINTS', 'WEIGHTS', 'PBR'])
   .onChange(() => {
     device.queue.writeBuffer(
       generalUniformsBuffer,
       0,
       new Uint32Array([RenderMode[settings.renderMode]])
     );
+    buildWhaleRenderPipeline();
   });
 // Determine whether the mesh is static or whether skinning is activated
 gui.add(settings, 'skinMode', ['ON', 'OFF']).onChange(() => {
@@ -219,6 +240,23 @@ const generalUniformsBGCLuster = createBindGroupCluster(
   device
 );
 
+// View, model transform, camera position, skinning and lights for
+// gltfPBR.wgsl
+const pbrFrameUniformsBuffer = device.createBuffer({
+  size: Float32Array.BYTES_PER_ELEMENT * 44,
+  usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+});
+
+const pbrFrameBGCluster = createBindGroupCluster(
+  [0],
+  [GPUShaderStage.VERTEX | GPUShaderStage.FRAGMENT],
+  ['buffer'],
+  [{ type: 'uniform' }],
+  [[{ buffer: pbrFrameUniformsBuffer }]],
+  'PBRFrame',
+  device
+);
+
 // Same bindGroupLayout as in main file.
 const nodeUniformsBindGroupLayout = device.createBindGroupLayout({
   label: 'NodeUniforms.bindGroupLayout',
@@ -238,24 +276,123 @@ const whaleScene = await fetch('../../assets/gltf/whale.glb')
   .then((res) => res.arrayBuffer())
   .then((buffer) => convertGLBToJSONAndBinary(buffer, device));
 
+// Plays the whale's animation clips in place of the procedural animation
+const whalePlayer = new GLTFAnimationPlayer(whaleScene.animations);
+const clipFolder = gui.addFolder('Animation Clips');
+clipFolder
+  .add(settings, 'clip', [
+    'Procedural',
+    ...whaleScene.animations.map((clip) => clip.name),
+  ])
+  .onChange(() => {
+    const clip = whaleScene.animations.find(
+      (clip) => clip.name === settings.clip
+    );
+    if (!clip) {
+      whalePlayer.stop();
+    } else if (whalePlayer.clip) {
+      whalePlayer.crossFade(clip, settings.crossFadeDuration);
+    } else {
+      whalePlayer.play(clip);
+    }
+  });
+clipFolder.add(settings, 'playing').onChange(() => {
+  whalePlayer.playing = settings.playing;
+});
+clipFolder
+  .add(settings, 'playbackSpeed', -2, 2)
+  .step(0.1)
+  .onChange(() => {
+    whalePlayer.speed = settings.playbackSpeed;
+  });
+clipFolder.add(settings, 'loop').onChange(() => {
+  whalePlayer.loop = settings.loop;
+});
+clipFolder.add(settings, 'crossFadeDuration', 0, 2).step(0.05);
+
+// A cube with morph targets and a clip animating their weights. It's always
+// shaded with the PBR pipeline, as gltf.wgsl only draws skinned meshes.
+const morphCubeScene = await loadGLTF(
+  '../../assets/gltf/morph_cube.gltf',
+  device
+);
+const morphCubePlayer = new GLTFAnimationPlayer(morphCubeScene.animations);
+morphCubePlayer.play(morphCubeScene.animations[0]);
+morphCubeScene.meshes[0].buildPBRRenderPipeline(
+  device,
+  gltfPBRWGSL,
+  presentationFormat,
+  depthTexture.format,
+  [pbrFrameBGCluster.bindGroupLayout, nodeUniformsBindGroupLayout]
+);
+
+// Morph target weights of the nodes with morphed meshes, which clips
+// animating the weights also set
+const morphedNodes = [whaleScene, morphCubeScene].flatMap((scene) =>
+  scene.nodes.filter((node) => node.weights.length)
+);
+if (morphedNodes.length > 0) {
+  const morphFolder = gui.addFolder('Morph Targets');
+  // Stopping the clip leaves the weights to the sliders
+  morphFolder
+    .add(settings, 'animateMorphTargets')
+    .name('animate cube')
+    .onChange(() => {
+      if (settings.animateMorphTargets) {
+        morphCubePlayer.play(morphCubeScene.animations[0]);
+      } else {
+        morphCubePlayer.stop();
+      }
+    });
+  for (const node of morphedNodes) {
+    node.weights.forEach((_, idx) => {
+      const targetName = node.drawables[0]?.targetNames[idx] ?? `target ${idx}`;
+      morphFolder
+        .add(node.weights, idx, 0, 1)
+        .step(0.01)
+        .name(`${node.name ?? 'node'} ${targetName}`)
+        .listen();
+    });
+  }
+}
+
 // Builds a render pipeline for our whale mesh
 // Since we are building a lightweight gltf parser around a gltf scene with a known
 // quantity of meshes, we only build a renderPipeline for the singular mesh present
 // within our scene. A more robust gltf parser would loop through all the meshes,
 // cache replicated pipelines, and perform other optimizations.
-whaleScene.meshes[0].buildRenderPipeline(
-  device,
-  gltfWGSL,
-  gltfWGSL,
-  presentationFormat,
-  depthTexture.format,
-  [
-    cameraBGCluster.bindGroupLayout,
-    generalUniformsBGCLuster.bindGroupLayout,
-    nodeUniformsBindGroupLayout,
-    GLTFSkin.skinBindGroupLayout,
-  ]
-);
+// The PBR render mode uses a pipeline shading the mesh with its materials.
+const buildWhaleRenderPipeline = () => {
+  if (settings.renderMode === 'PBR') {
+    whaleScene.meshes[0].buildPBRRenderPipeline(
+      device,
+      gltfPBRWGSL,
+      presentationFormat,
+      depthTexture.format,
+      [
+        pbrFrameBGCluster.bindGroupLayout,
+        nodeUniformsBindGroupLayout,
+        GLTFSkin.skinBindGroupLayout,
+      ],
+      2
+    );
+  } else {
+    whaleScene.meshes[0].buildRenderPipeline(
+      device,
+      gltfWGSL,
+      gltfWGSL,
+      presentationFormat,
+      depthTexture.format,
+      [
+        cameraBGCluster.bindGroupLayout,
+        generalUniformsBGCLuster.bindGroupLayout,
+        nodeUniformsBindGroupLayout,
+        GLTFSkin.skinBindGroupLayout,
+      ]
+    );
+  }
+};
+buildWhaleRenderPipeline();
 
 // Create skinned grid resources
 const skinnedGridVertexBuffers = createSkinnedGridBuffers(device);
@@ -345,7 +482,7 @@ function getModelMatrix() {
     settings.objectScale
   );
   mat4.scale(modelMatrix, scaleVector, modelMatrix);
-  if (settings.object === 'Whale') {
+  if (settings.object !== 'Skinned Grid') {
     mat4.rotateY(modelMatrix, (Date.now() / 1000) * 0.5, modelMatrix);
   }
   return modelMatrix;
@@ -460,7 +597,12 @@ const animWhaleSkin = (skin: GLTFSkin, angle: number) => {
   }
 };
 
+let lastFrameTime = Date.now();
 function frame() {
+  const now = Date.now();
+  const deltaSeconds = (now - lastFrameTime) / 1000;
+  lastFrameTime = now;
+
   // Calculate camera matrices
   const projectionMatrix = getProjectionMatrix();
   const viewMatrix = getViewMatrix();
@@ -497,6 +639,25 @@ function frame() {
     modelMatrix.byteLength
   );
 
+  if (settings.renderMode === 'PBR' || settings.object === 'Morph Cube') {
+    const pbrFrameUniforms = new Float32Array(44);
+    pbrFrameUniforms.set(mat4.multiply(projectionMatrix, viewMatrix), 0);
+    pbrFrameUniforms.set(modelMatrix, 16);
+    // The view matrix only translates the camera
+    pbrFrameUniforms.set(
+      [-settings.cameraX, -settings.cameraY, -settings.cameraZ],
+      32
+    );
+    new Uint32Array(pbrFrameUniforms.buffer)[35] =
+      settings.skinMode === 'ON' ? 1 : 0;
+    // A white light shining down from the front, and dim ambient light
+    pbrFrameUniforms.set(vec3.normalize([0.3, -1, 0.5]), 36);
+    pbrFrameUniforms[39] = 3;
+    pbrFrameUniforms.set([1, 1, 1], 40);
+    pbrFrameUniforms[43] = 0.3;
+    device.queue.writeBuffer(pbrFrameUniformsBuffer, 0, pbrFrameUniforms);
+  }
+
   // Write to skinned grid bone uniform buffer
   for (let i = 0; i < gridBoneCollection.transforms.length; i++) {
     device.queue.writeBuffer(
@@ -515,26 +676,77 @@ function frame() {
     .getCurrentTexture()
     .createView();
 
+  // Pose the joints with the playing clip, or procedurally
+  if (whalePlayer.clip) {
+    whalePlayer.update(deltaSeconds);
+  } else {
+    animWhaleSkin(whaleScene.skins[0], Math.sin(t) * settings.angle);
+  }
+
   // Update node matrixes
   for (const scene of whaleScene.scenes) {
     scene.root.updateWorldMatrix(device);
   }
 
   // Updates skins (we index into skins in the renderer, which is not the best approach but hey)
-  animWhaleSkin(whaleScene.skins[0], Math.sin(t) * settings.angle);
   // Node 6 should be the only node with a drawable mesh so hopefully this works fine
   whaleScene.skins[0].update(device, 6, whaleScene.nodes);
 
   const commandEncoder = device.createCommandEncoder();
   if (settings.object === 'Whale') {
+    // Blend the morph targets with the current weights before drawing
+    const morphPassEncoder = commandEncoder.beginComputePass();
+    for (const scene of whaleScene.scenes) {
+      scene.root.encodeMorphTargets(device, morphPassEncoder);
+    }
+    morphPassEncoder.end();
+
     const passEncoder = commandEncoder.beginRenderPass(
       gltfRenderPassDescriptor
     );
-    for (const scene of whaleScene.scenes) {
-      scene.root.renderDrawables(passEncoder, [
-        cameraBGCluster.bindGroups[0],
-        generalUniformsBGCLuster.bindGroups[0],
-      ]);
+    if (settings.renderMode === 'PBR') {
+      // Blended primitives go over all the opaque ones
+      for (const blended of [false, true]) {
+        for (const scene of whaleScene.scenes) {
+          scene.root.renderDrawables(
+            passEncoder,
+            [pbrFrameBGCluster.bindGroups[0]],
+            blended
+          );
+        }
+      }
+    } else {
+      for (const scene of whaleScene.scenes) {
+        scene.root.renderDrawables(passEncoder, [
+          cameraBGCluster.bindGroups[0],
+          generalUniformsBGCLuster.bindGroups[0],
+        ]);
+      }
+    }
+    passEncoder.end();
+  } else if (settings.object === 'Morph Cube') {
+    morphCubePlayer.update(deltaSeconds);
+    for (const scene of morphCubeScene.scenes) {
+      scene.root.updateWorldMatrix(device);
+    }
+
+    const morphPassEncoder = commandEncoder.beginComputePass();
+    for (const scene of morphCubeScene.scenes) {
+      scene.root.encodeMorphTargets(device, morphPassEncoder);
+    }
+    morphPassEncoder.end();
+
+    const passEncoder = commandEncoder.beginRenderPass(
+      gltfRenderPassDescriptor
+    );
+    for (const blended of [false, true]) {
+      for (const scene of morphCubeScene.scenes) {
+        scene.root.renderDrawables(
+          passEncoder,
+          [pbrFrameBGCluster.bindGroups[0]],
+          blended
+        );
+      }
     }
     passEncoder.end();
   } else {
@@ -1,7 +1,7 @@
 export default {
   name: 'Skinned Mesh',
   description:
-    'A demonstration of basic gltf loading and mesh skinning, ported from <https://webgl2fundamentals.org/webgl/lessons/webgl-skinning.html>. Mesh data, per vertex attributes, and skin inverseBindMatrices are taken from the json parsed from the binary output of the .glb file. Animations are generated progrmatically, with animated joint matrices updated and passed to shaders per frame via uniform buffers.',
+    'A demonstration of basic gltf loading and mesh skinning, ported from <https://webgl2fundamentals.org/webgl/lessons/webgl-skinning.html>. Mesh data, per vertex attributes, and skin inverseBindMatrices are taken from the json parsed from the binary output of the .glb file. Animations are generated progrmatically or played from keyframed clips in the file, with animated joint matrices updated and passed to shaders per frame via uniform buffers. The PBR render mode shades the mesh with its metallic-roughness materials, and morph targets are blended in a compute pass with weights set from the GUI or animation clips, as on the morph cube.',
   filename: __DIRNAME__,
   sources: [
     { path: 'main.ts' },
@@ -10,6 +10,11 @@ export default {
     { path: 'grid.wgsl' },
     { path: 'gltf.ts' },
     { path: 'glbUtils.ts' },
+    { path: 'gltfMaterial.ts' },
+    { path: 'gltfAnimation.ts' },
+    { path: 'gltfMorph.ts' },
     { path: 'gltf.wgsl' },
+    { path: 'gltfPBR.wgsl' },
+    { path: 'gltfMorph.wgsl' },
   ],
 };
@@ -1,6 +1,8 @@
 import { mat4, mat3 } from 'wgpu-matrix';
 import { GUI } from 'dat.gui';
 import { modelData } from './models';
+import { Mesh } from '../../meshes/mesh';
+import { kMeshFileExtensions, loadMesh } from '../../meshes/loadMesh';
 import { randElement, randColor } from './utils';
 import solidColorLitWGSL from './solidColorLit.wgsl';
 import wireframeWGSL from './wireframe.wgsl';
@@ -87,6 +89,39 @@ const models = Object.values(modelData).map((data) =>
   createVertexAndIndexBuffer(device, data)
 );
 
+// Loaded models are centered and scaled to about the size of the spheres
+const kLoadedModelSize = 40;
+
+function createModelFromMesh(loaded: Mesh): Model {
+  const floatsPerVertex = loaded.vertexStride / 4;
+  const vertexCount = loaded.vertices.length / floatsPerVertex;
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < vertexCount; ++i) {
+    for (let c = 0; c < 3; ++c) {
+      min[c] = Math.min(min[c], loaded.vertices[i * floatsPerVertex + c]);
+      max[c] = Math.max(max[c], loaded.vertices[i * floatsPerVertex + c]);
+    }
+  }
+  const scale =
+    kLoadedModelSize /
+    Math.max(max[0] - min[0], max[1] - min[1], max[2] - min[2], 1e-6);
+
+  const vertices = new Float32Array(vertexCount * 6);
+  for (let i = 0; i < vertexCount; ++i) {
+    for (let c = 0; c < 3; ++c) {
+      const value = loaded.vertices[i * floatsPerVertex + c];
+      vertices[6 * i + c] = (value - (min[c] + max[c]) * 0.5) * scale;
+      vertices[6 * i + 3 + c] = loaded.vertices[i * floatsPerVertex + 3 + c];
+    }
+  }
+  // The wireframe shaders read the indices as u32
+  return createVertexAndIndexBuffer(device, {
+    vertices,
+    indices: Uint32Array.from(loaded.indices),
+  });
+}
+
 const litModule = device.createShaderModule({
   code: solidColorLitWGSL,
 });
@@ -226,8 +261,31 @@ type ObjectInfo = {
   litBindGroup: GPUBindGroup;
   wireframeBindGroups: GPUBindGroup[];
   model: Model;
+  builtInModel: Model;
 };
 
+function createWireframeBindGroups(
+  uniformBuffer: GPUBuffer,
+  lineUniformBuffer: GPUBuffer,
+  model: Model
+) {
+  // We're creating 2 bindGroups, one for each pipeline.
+  // We could create just one since they are identical. To do
+  // so we'd have to manually create a bindGroupLayout.
+  return [wireframePipeline, barycentricCoordinatesBasedWireframePipeline].map(
+    (pipeline) =>
+      device.createBindGroup({
+        layout: pipeline.getBindGroupLayout(0),
+        entries: [
+          { binding: 0, resource: { buffer: uniformBuffer } },
+          { binding: 1, resource: { buffer: model.vertexBuffer } },
+          { binding: 2, resource: { buffer: model.indexBuffer } },
+          { binding: 3, resource: { buffer: lineUniformBuffer } },
+        ],
+      })
+  );
+}
+
 const objectInfos: ObjectInfo[] = [];
 
 const numObjects = 200;
@@ -274,29 +332,6 @@ for (let i = 0; i < numObjects; ++i) {
   });
   lineUniformValuesAsU32[0] = 6; // the array stride for positions for this model.
 
-  // We're creating 2 bindGroups, one for each pipeline.
-  // We could create just one since they are identical. To do
-  // so we'd have to manually create a bindGroupLayout.
-  const wireframeBindGroup = device.createBindGroup({
-    layout: wireframePipeline.getBindGroupLayout(0),
-    entries: [
-      { binding: 0, resource: { buffer: uniformBuffer } },
-      { binding: 1, resource: { buffer: model.vertexBuffer } },
-      { binding: 2, resource: { buffer: model.indexBuffer } },
-      { binding: 3, resource: { buffer: lineUniformBuffer } },
-    ],
-  });
-
-  const barycentricCoordinatesBasedWireframeBindGroup = device.createBindGroup({
-    layout: barycentricCoordinatesBasedWireframePipeline.getBindGroupLayout(0),
-    entries: [
-      { binding: 0, resource: { buffer: uniformBuffer } },
-      { binding: 1, resource: { buffer: model.vertexBuffer } },
-      { binding: 2, resource: { buffer: model.indexBuffer } },
-      { binding: 3, resource: { buffer: lineUniformBuffer } },
-    ],
-  });
-
   objectInfos.push({
     worldViewProjectionMatrixValue,
     worldMatrixValue,
@@ -305,14 +340,53 @@ for (let i = 0; i < numObjects; ++i) {
     lineUniformValues,
     lineUniformBuffer,
     litBindGroup,
-    wireframeBindGroups: [
-      wireframeBindGroup,
-      barycentricCoordinatesBasedWireframeBindGroup,
-    ],
+    wireframeBindGroups: createWireframeBindGroups(
+      uniformBuffer,
+      lineUniformBuffer,
+      model
+    ),
     model,
+    builtInModel: model,
   });
 }
 
+// A model loaded from an .obj, .ply or .stl file replaces the built-in models
+// of all the objects until they're picked again
+let loadedModel: Model | undefined;
+function setLoadedModel(newModel: Model | undefined) {
+  const previousModel = loadedModel;
+  loadedModel = newModel;
+  objectInfos.forEach((info) => {
+    info.model = loadedModel ?? info.builtInModel;
+    info.wireframeBindGroups = createWireframeBindGroups(
+      info.uniformBuffer,
+      info.lineUniformBuffer,
+      info.model
+    );
+  });
+  if (previousModel) {
+    previousModel.vertexBuffer.destroy();
+    previousModel.indexBuffer.destroy();
+  }
+}
+
+const modelFileInput = document.createElement('input');
+modelFileInput.type = 'file';
+modelFileInput.accept = kMeshFileExtensions.join(',');
+modelFileInput.addEventListener('change', async () => {
+  const file = modelFileInput.files?.[0];
+  modelFileInput.value = '';
+  if (!file) {
+    return;
+  }
+  try {
+    setLoadedModel(createModelFromMesh(await loadMesh(file)));
+  } catch (error) {
+    console.error('Failed to load the model:', error);
+    alert(`Failed to load ${file.name}: ${error}`);
+  }
+});
+
 const renderPassDescriptor: GPURenderPassDescriptor = {
   label: 'our basic canvas renderPass',
   colorAttachments: [
@@ -336,6 +410,15 @@ gui.add(settings, 'barycentricCoordinatesBased').onChange(addRemoveGUI);
 gui.add(settings, 'lines');
 gui.add(settings, 'models');
 gui.add(settings, 'animate');
+gui
+  .add({ loadModel: () => modelFileInput.click() }, 'loadModel')
+  .name(`Load model (${kMeshFileExtensions.join(', ')})`);
+gui
+  .add(
+    { useBuiltInModels: () => setLoadedModel(undefined) },
+    'useBuiltInModels'
+  )
+  .name('Built-in models');
 
 const guis = [];
 function addRemoveGUI() {
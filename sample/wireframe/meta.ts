@@ -6,6 +6,7 @@ export default {
   to index the vertex data. One method generates 6 vertices per triangle and uses line-list to draw lines.
   The other method draws triangles with a fragment shader that uses barycentric coordinates to draw edges
   as detailed [here](https://web.archive.org/web/20130424093557/http://codeflow.org/entries/2012/aug/02/easy-wireframe-display-with-barycentric-coordinates/).
+  The built-in models can be replaced with a .obj, .ply or .stl model loaded from a file.
 
   `,
   filename: __DIRNAME__,